@@ -0,0 +1,38 @@
+// Puts the MediaPipe runtime and face landmark model where the app serves them from
+// (see src/utils/faceLandmarker.ts), so photo fitting works without a CDN at run time.
+// Run it after installing dependencies; files already in place are left alone.
+import { cp, mkdir, stat, writeFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const wasmTarget = join(root, "public", "mediapipe", "wasm");
+const modelTarget = join(root, "public", "models", "face_landmarker.task");
+const modelUrl =
+  "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task";
+
+const exists = (path) =>
+  stat(path).then(
+    () => true,
+    () => false,
+  );
+
+const require = createRequire(import.meta.url);
+// The package only exports its bundles, which sit next to the wasm folder.
+const packageRoot = dirname(require.resolve("@mediapipe/tasks-vision"));
+await mkdir(wasmTarget, { recursive: true });
+await cp(join(packageRoot, "wasm"), wasmTarget, { recursive: true });
+console.log(`Copied the MediaPipe runtime to ${wasmTarget}`);
+
+if (await exists(modelTarget)) {
+  console.log(`Kept the face landmark model already at ${modelTarget}`);
+} else {
+  const response = await fetch(modelUrl);
+  if (!response.ok) {
+    throw new Error(`Downloading the face landmark model failed: ${response.status}`);
+  }
+  await mkdir(dirname(modelTarget), { recursive: true });
+  await writeFile(modelTarget, Buffer.from(await response.arrayBuffer()));
+  console.log(`Downloaded the face landmark model to ${modelTarget}`);
+}
@@ -1,59 +1,630 @@
 "use client";
 
-import { Suspense, useEffect, useMemo, useRef, useState } from "react";
-import { Canvas, useFrame } from "@react-three/fiber";
+import { Fragment, Suspense, useEffect, useMemo, useRef, useState } from "react";
+import { Canvas, createPortal, useFrame } from "@react-three/fiber";
 import {
   ContactShadows,
   Environment,
-  Float,
   Html,
   OrbitControls,
+  TransformControls,
 } from "@react-three/drei";
-import { Color, Group, MeshPhysicalMaterial, PlaneGeometry, Vector3 } from "three";
-import { AvatarParameters, useAvatarStore } from "@/state/avatarStore";
+import {
+  type AnimationAction,
+  AnimationMixer,
+  Color,
+  BufferGeometry,
+  DoubleSide,
+  Float32BufferAttribute,
+  Group,
+  MathUtils,
+  Matrix4,
+  MeshPhysicalMaterial,
+  Object3D,
+  Quaternion,
+  SRGBColorSpace,
+  type Texture,
+  TextureLoader,
+  Vector3,
+} from "three";
+import {
+  AvatarParameters,
+  type BodyConfig,
+  type ClothingConfig,
+  type HairConfig,
+  useAvatarStore,
+} from "@/state/avatarStore";
+import { resolveClip } from "@/utils/animationClips";
+import { type ClothRunner, createClothRunner } from "@/utils/clothRunner";
+import {
+  type ClothFrame,
+  createCapeMesh,
+  getBodyColliders,
+  getClothIndices,
+  getClothSettings,
+} from "@/utils/clothSimulation";
+import type { ExpressionWeights } from "@/utils/expressions";
+import { createFreckleTexture } from "@/utils/freckles";
+import { createOutfitGeometry } from "@/utils/garments";
+import { createBraidGeometry } from "@/utils/hairGeometry";
+import {
+  createHairCards,
+  createHairCardTexture,
+  createHairDriver,
+  createHairGuides,
+  createScalpGeometry,
+  getHairCardTopology,
+  getHairSettings,
+  type HairCards,
+  type HairLod,
+  type HairPose,
+  hasHairStrands,
+  writeHairCardColors,
+  writeHairCards,
+} from "@/utils/hairStrands";
+import {
+  createHeadGeometry,
+  getEyePlacement,
+  getHeadMorphInfluences,
+  headMorphDictionary,
+} from "@/utils/headGeometry";
+import {
+  aimHead,
+  applyPose,
+  type AvatarPose,
+  getGazeExpression,
+  readPose,
+  solveTwoBoneIK,
+} from "@/utils/posing";
+import {
+  getLightPosition,
+  type LightingSettings,
+  type LightSettings,
+  toneMappings,
+} from "@/utils/lighting";
+import { type RenderContext, viewTarget } from "@/utils/renderCapture";
+import {
+  type AvatarRig,
+  bodyMorphDictionary,
+  createAvatarRig,
+  createBodyGeometry,
+  createNeckGeometry,
+  getBodyMorphInfluences,
+  type HumanoidBoneName,
+  humanoidBoneNames,
+  type RigLayout,
+} from "@/utils/rig";
 
 type AvatarSceneProps = {
   avatarGroupRef: React.MutableRefObject<Group | null>;
+  /** Receives the renderer, scene and camera for offscreen renders. */
+  renderContextRef?: React.MutableRefObject<RenderContext | null>;
+  /** Freezes animation, cloth and hair motion, e.g. while an export reads the scene. */
+  simulationPaused?: boolean;
+  /** Hides the pose handles, e.g. while a screenshot is taken. */
+  capturing?: boolean;
 };
 
 type AvatarModelProps = {
   parameters: AvatarParameters;
+  expression: ExpressionWeights;
+  /** Head albedo baked from reference photos, as a data URL. */
+  headTexture: string | null;
   avatarGroupRef: React.MutableRefObject<Group | null>;
+  simulationPaused: boolean;
+  hairLod: HairLod;
+  /** The pose the skeleton holds in pose mode; null plays the active clip instead. */
+  pose: AvatarPose | null;
+  showPoseHandles: boolean;
+  onPoseChange: (pose: AvatarPose) => void;
 };
 
 const lerp = (value: number, min: number, max: number) =>
   min + (max - min) * value;
 
-const useClothGeometry = () => {
-  const [clothGeometry] = useState(() => new PlaneGeometry(1.8, 2.2, 18, 24));
-  const [basePositions] = useState(
+/**
+ * The cape, draped by the cloth solver in a worker. Frames arrive with their
+ * normals, so the main thread only copies them into the geometry.
+ */
+const useCapeCloth = (
+  layout: RigLayout,
+  { weight, muscle }: BodyConfig,
+  { fabricSheen, layering }: ClothingConfig,
+  paused: boolean,
+) => {
+  const mesh = useMemo(() => createCapeMesh(layout), [layout]);
+  const geometry = useMemo(() => {
+    const created = new BufferGeometry();
+    created.setAttribute("position", new Float32BufferAttribute(mesh.positions.slice(), 3));
+    created.setAttribute(
+      "uv",
+      new Float32BufferAttribute(
+        Array.from({ length: mesh.columns * mesh.rows }, (_, index) => [
+          (index % mesh.columns) / (mesh.columns - 1),
+          1 - Math.floor(index / mesh.columns) / (mesh.rows - 1),
+        ]).flat(),
+        2,
+      ),
+    );
+    created.setIndex(getClothIndices(mesh));
+    created.computeVertexNormals();
+    // Exporters read the undisturbed drape from here when not baking the pose.
+    created.userData.restPositions = mesh.positions.slice();
+    return created;
+  }, [mesh]);
+
+  useEffect(() => {
+    return () => {
+      geometry.dispose();
+    };
+  }, [geometry]);
+
+  const settings = useMemo(
+    () => getClothSettings({ fabricSheen, layering }),
+    [fabricSheen, layering],
+  );
+  const colliders = useMemo(
+    () => getBodyColliders(layout, { weight, muscle }),
+    [layout, muscle, weight],
+  );
+
+  const runnerRef = useRef<ClothRunner | null>(null);
+  const latestRef = useRef({ settings, colliders, paused });
+
+  useEffect(() => {
+    const copy = ({ positions, normals }: ClothFrame) => {
+      const positionAttribute = geometry.getAttribute("position");
+      const normalAttribute = geometry.getAttribute("normal");
+      (positionAttribute.array as Float32Array).set(positions);
+      (normalAttribute.array as Float32Array).set(normals);
+      positionAttribute.needsUpdate = true;
+      normalAttribute.needsUpdate = true;
+    };
+    const { settings: initialSettings, colliders: initialColliders } = latestRef.current;
+    const runner = createClothRunner(mesh, initialSettings, initialColliders, {
+      onRest: (frame) => {
+        geometry.userData.restPositions = frame.positions.slice();
+        copy(frame);
+      },
+      // While paused an export may be reading the rest pose, so late frames are dropped.
+      onFrame: (frame) => {
+        if (!latestRef.current.paused) copy(frame);
+      },
+    });
+    runnerRef.current = runner;
+    return () => {
+      runner.dispose();
+      runnerRef.current = null;
+    };
+  }, [geometry, mesh]);
+
+  useEffect(() => {
+    latestRef.current = { settings, colliders, paused };
+    runnerRef.current?.configure(settings, colliders);
+  }, [colliders, paused, settings]);
+
+  return { geometry, runnerRef };
+};
+
+/**
+ * Plays the active clip on the skeleton, generated or retargeted for the
+ * current proportions. The mixer is stepped from the
+ * store's clock rather than its own, so the scrubber and playback share one
+ * time.
+ */
+const useClipPlayback = (rig: AvatarRig, paused: boolean) => {
+  const clips = useAvatarStore((state) => state.animationClips);
+  const activeClipId = useAvatarStore((state) => state.activeClipId);
+  const entry = clips.find((candidate) => candidate.id === activeClipId) ?? null;
+  const clip = useMemo(
+    () => (entry ? resolveClip(entry, rig.layout.joints) : null),
+    [entry, rig],
+  );
+  const mixer = useMemo(() => new AnimationMixer(rig.root), [rig]);
+  const actionRef = useRef<AnimationAction | null>(null);
+
+  useEffect(() => {
+    if (!clip) return;
+    const action = mixer.clipAction(clip).play();
+    actionRef.current = action;
+    return () => {
+      // Stopping hands the bones back in the pose they had before it played.
+      action.stop();
+      mixer.uncacheClip(clip);
+      actionRef.current = null;
+    };
+  }, [clip, mixer]);
+
+  useFrame((_, delta) => {
+    const action = actionRef.current;
+    // While paused an export may have put the skeleton at rest; leave it there.
+    if (paused || !action || !clip) return;
+    const { animationPlaying, animationSpeed, animationTime, setAnimationTime } =
+      useAvatarStore.getState();
+    let time = Math.min(animationTime, clip.duration);
+    if (animationPlaying) {
+      time = (time + delta * animationSpeed) % clip.duration;
+      setAnimationTime(time);
+    }
+    action.time = time;
+    mixer.update(0);
+  });
+};
+
+/**
+ * Lays the hair cards along guide positions. At rest they are also kept as
+ * the drape exporters read when not baking the pose.
+ */
+const layHairCards = (
+  geometry: BufferGeometry,
+  cards: HairCards,
+  guidePositions: Float32Array,
+  pose: HairPose,
+  atRest = false,
+) => {
+  const position = geometry.getAttribute("position");
+  const normal = geometry.getAttribute("normal");
+  writeHairCards(
+    cards,
+    guidePositions,
+    pose,
+    position.array as Float32Array,
+    normal.array as Float32Array,
+  );
+  position.needsUpdate = true;
+  normal.needsUpdate = true;
+  if (!atRest) return;
+  geometry.computeBoundingSphere();
+  geometry.userData.restPositions = (position.array as Float32Array).slice();
+};
+
+/**
+ * Strand hair for the styles that have it: guide curves simulated here on the
+ * main thread, where the head's pose is at hand every frame, and drawn as
+ * hair cards following them. Everything is null for other styles.
+ */
+const useHairStrands = (
+  rig: AvatarRig,
+  rootRef: React.RefObject<Group | null>,
+  { style, length, curl, volume, color, secondaryColor }: HairConfig,
+  { weight, muscle }: BodyConfig,
+  lod: HairLod,
+  paused: boolean,
+) => {
+  const { layout } = rig;
+  const guides = useMemo(
+    () =>
+      hasHairStrands(style)
+        ? createHairGuides({ style, length, curl, volume }, layout.headScale, lod)
+        : null,
+    [curl, layout, length, lod, style, volume],
+  );
+  const cards = useMemo(
+    () => (guides ? createHairCards(guides, { curl, volume }, lod) : null),
+    [curl, guides, lod, volume],
+  );
+  const geometry = useMemo(() => {
+    if (!cards) return null;
+    const { uvs, indices } = getHairCardTopology(cards);
+    const vertices = cards.strands * cards.points * 2;
+    const created = new BufferGeometry();
+    created.setAttribute("position", new Float32BufferAttribute(new Float32Array(vertices * 3), 3));
+    created.setAttribute("normal", new Float32BufferAttribute(new Float32Array(vertices * 3), 3));
+    created.setAttribute("color", new Float32BufferAttribute(new Float32Array(vertices * 3), 3));
+    created.setAttribute("uv", new Float32BufferAttribute(uvs, 2));
+    created.setIndex(indices);
+    return created;
+  }, [cards]);
+  const scalp = useMemo(
+    () => (guides ? createScalpGeometry(layout.headScale, guides.standoff) : null),
+    [guides, layout],
+  );
+
+  useEffect(() => {
+    return () => {
+      geometry?.dispose();
+      scalp?.dispose();
+    };
+  }, [geometry, scalp]);
+
+  useEffect(() => {
+    if (!cards || !geometry) return;
+    const attribute = geometry.getAttribute("color");
+    writeHairCardColors(
+      cards,
+      new Color(color).toArray(),
+      new Color(secondaryColor).toArray(),
+      attribute.array as Float32Array,
+    );
+    attribute.needsUpdate = true;
+  }, [cards, color, geometry, secondaryColor]);
+
+  // Hair space is centred on the head; at rest that is a plain offset into avatar space.
+  const restPose = useMemo(() => new Matrix4().setPosition(layout.headCenter), [layout]);
+  const settings = useMemo(() => getHairSettings({ style, curl }, lod), [curl, lod, style]);
+  const colliders = useMemo(
     () =>
-      Float32Array.from(
-        clothGeometry.attributes.position.array as ArrayLike<number>,
+      getBodyColliders(layout, { weight, muscle }).filter(
+        (collider) =>
+          collider.shape === "capsule" &&
+          Math.max(collider.start[1], collider.end[1]) > layout.joints.Spine2.y,
       ),
+    [layout, muscle, weight],
   );
 
+  const driverRef = useRef<ReturnType<typeof createHairDriver> | null>(null);
+  const latestRef = useRef({ settings, colliders, paused });
+  const poseRef = useRef(new Matrix4());
+
+  useEffect(() => {
+    if (!guides || !cards || !geometry) return;
+    const { settings: initialSettings, colliders: initialColliders } = latestRef.current;
+    const driver = createHairDriver(guides, initialSettings, initialColliders, restPose.elements);
+    layHairCards(geometry, cards, driver.rest, restPose.elements, true);
+    driverRef.current = driver;
+    return () => {
+      driverRef.current = null;
+    };
+  }, [cards, geometry, guides, restPose]);
+
+  useEffect(() => {
+    latestRef.current = { settings, colliders, paused };
+    driverRef.current?.configure(settings, colliders);
+  }, [colliders, paused, settings]);
+
+  useFrame((_, delta) => {
+    const driver = driverRef.current;
+    const root = rootRef.current;
+    if (latestRef.current.paused || !driver || !root || !cards || !geometry) return;
+    const { joints, headCenter } = layout;
+    // Hair space → head bone → avatar space, read from last frame's matrices.
+    const pose = poseRef.current
+      .copy(root.matrixWorld)
+      .invert()
+      .multiply(rig.bones.Head.matrixWorld)
+      .multiply(
+        new Matrix4().makeTranslation(
+          headCenter.x - joints.Head.x,
+          headCenter.y - joints.Head.y,
+          headCenter.z - joints.Head.z,
+        ),
+      );
+    driver.advance(delta, pose.elements);
+    layHairCards(geometry, cards, driver.positions, pose.elements);
+  });
+
+  return { geometry, scalp };
+};
+
+// Holds the skeleton in a pose, or puts it back in its bind pose for the clip to drive.
+const holdPose = (rig: AvatarRig, pose: AvatarPose | null) => {
+  applyPose(rig.skeleton, pose);
+  rig.root.updateMatrixWorld(true);
+};
+
+const placeTarget = (target: Object3D, root: Object3D, world: Vector3) => {
+  target.position.copy(root.worldToLocal(world.clone()));
+  target.updateMatrixWorld();
+};
+
+/** Limbs the hands and feet reach with, and where their middle joints bend, facing +Z. */
+const reachLimbs = {
+  LeftHand: { upper: "LeftArm", lower: "LeftForeArm", pole: new Vector3(0.3, 0, -1) },
+  RightHand: { upper: "RightArm", lower: "RightForeArm", pole: new Vector3(-0.3, 0, -1) },
+  LeftFoot: { upper: "LeftUpLeg", lower: "LeftLeg", pole: new Vector3(0, 0, 1) },
+  RightFoot: { upper: "RightUpLeg", lower: "RightLeg", pole: new Vector3(0, 0, 1) },
+} as const satisfies Partial<
+  Record<HumanoidBoneName, { upper: HumanoidBoneName; lower: HumanoidBoneName; pole: Vector3 }>
+>;
+
+type ReachEnd = keyof typeof reachLimbs;
+
+type PoseHandle =
+  | { kind: "joint"; bone: HumanoidBoneName }
+  | { kind: "reach"; end: ReachEnd }
+  | { kind: "look" };
+
+const isSameHandle = (a: PoseHandle | null, b: PoseHandle) =>
+  a?.kind === b.kind &&
+  (a.kind !== "joint" || a.bone === (b as typeof a).bone) &&
+  (a.kind !== "reach" || a.end === (b as typeof a).end);
+
+// How far in front of the face the look-at handle floats.
+const lookDistance = 0.7;
+
+/**
+ * Pose mode's handles: a ball on every joint to turn it, a box past each hand
+ * and foot to drag it with two-bone IK, and a diamond the head and eyes look
+ * at. The gizmo moves the bones directly; the result is read back as a pose.
+ */
+const PoseHandles = ({
+  rig,
+  rootRef,
+  gaze,
+  onChange,
+}: {
+  rig: AvatarRig;
+  rootRef: React.RefObject<Group | null>;
+  gaze: AvatarPose["gaze"];
+  onChange: (pose: AvatarPose) => void;
+}) => {
+  const [selected, setSelected] = useState<PoseHandle | null>(null);
+  const target = useMemo(() => new Object3D(), []);
+  const { joints, tips, headCenter } = rig.layout;
+  const lookOffset = useMemo(
+    () => headCenter.clone().sub(joints.Head).setZ(lookDistance),
+    [headCenter, joints],
+  );
+
+  const select = (handle: PoseHandle) => {
+    const root = rootRef.current;
+    if (!root || isSameHandle(selected, handle)) {
+      setSelected(null);
+      return;
+    }
+    if (handle.kind === "reach") {
+      placeTarget(target, root, rig.bones[handle.end].getWorldPosition(new Vector3()));
+    } else if (handle.kind === "look") {
+      placeTarget(target, root, rig.bones.Head.localToWorld(lookOffset.clone()));
+    }
+    setSelected(handle);
+  };
+
+  const handleChange = () => {
+    if (!selected) return;
+    const goal = target.getWorldPosition(new Vector3());
+    let nextGaze = gaze;
+    if (selected.kind === "reach") {
+      const { upper, lower, pole } = reachLimbs[selected.end];
+      const hips = rig.bones.Hips.getWorldQuaternion(new Quaternion());
+      solveTwoBoneIK(
+        rig.bones[upper],
+        rig.bones[lower],
+        rig.bones[selected.end],
+        goal,
+        pole.clone().applyQuaternion(hips),
+      );
+    } else if (selected.kind === "look") {
+      nextGaze = aimHead(rig.bones.Neck, rig.bones.Head, goal);
+    }
+    onChange(readPose(rig.skeleton.bones, nextGaze));
+  };
+
+  const handleMaterial = (handle: PoseHandle) => (
+    <meshBasicMaterial
+      color={isSameHandle(selected, handle) ? "#fbbf24" : "#a78bfa"}
+      depthTest={false}
+      transparent
+      opacity={0.9}
+    />
+  );
+
+  return (
+    <>
+      <primitive object={target} />
+      {humanoidBoneNames.map((name) => (
+        <Fragment key={name}>
+          {createPortal(
+            <mesh
+              renderOrder={10}
+              onClick={(event) => {
+                event.stopPropagation();
+                select({ kind: "joint", bone: name });
+              }}
+            >
+              <sphereGeometry args={[0.028, 12, 12]} />
+              {handleMaterial({ kind: "joint", bone: name })}
+            </mesh>,
+            rig.bones[name],
+          )}
+        </Fragment>
+      ))}
+      {(Object.keys(reachLimbs) as ReachEnd[]).map((end) => (
+        <Fragment key={end}>
+          {createPortal(
+            // Past the joint's own ball, at the fingertips or toes.
+            <mesh
+              position={tips[end].clone().sub(joints[end])}
+              renderOrder={10}
+              onClick={(event) => {
+                event.stopPropagation();
+                select({ kind: "reach", end });
+              }}
+            >
+              <boxGeometry args={[0.06, 0.06, 0.06]} />
+              {handleMaterial({ kind: "reach", end })}
+            </mesh>,
+            rig.bones[end],
+          )}
+        </Fragment>
+      ))}
+      {createPortal(
+        <mesh
+          position={lookOffset}
+          renderOrder={10}
+          onClick={(event) => {
+            event.stopPropagation();
+            select({ kind: "look" });
+          }}
+        >
+          <octahedronGeometry args={[0.05]} />
+          {handleMaterial({ kind: "look" })}
+        </mesh>,
+        rig.bones.Head,
+      )}
+      {selected ? (
+        <TransformControls
+          object={selected.kind === "joint" ? rig.bones[selected.bone] : target}
+          mode={selected.kind === "joint" ? "rotate" : "translate"}
+          space={selected.kind === "joint" ? "local" : "world"}
+          size={0.6}
+          onObjectChange={handleChange}
+        />
+      ) : null}
+    </>
+  );
+};
+
+/** Loads the baked head albedo; null until it has loaded, or when there is none. */
+const useHeadTexture = (src: string | null) => {
+  const [loaded, setLoaded] = useState<{ src: string; texture: Texture } | null>(null);
+
   useEffect(() => {
+    if (!src) return;
+    let cancelled = false;
+    let texture: Texture | null = null;
+    new TextureLoader()
+      .loadAsync(src)
+      .then((result) => {
+        texture = result;
+        texture.name = "HeadAlbedo";
+        texture.colorSpace = SRGBColorSpace;
+        if (cancelled) texture.dispose();
+        else setLoaded({ src, texture });
+      })
+      .catch((error) => console.warn("Could not load the baked head texture", error));
     return () => {
-      clothGeometry.dispose();
+      cancelled = true;
+      texture?.dispose();
     };
-  }, [clothGeometry]);
+  }, [src]);
 
-  return { clothGeometry, basePositions };
+  return loaded && loaded.src === src ? loaded.texture : null;
 };
 
-const AvatarModel = ({ parameters, avatarGroupRef }: AvatarModelProps) => {
+const AvatarModel = ({
+  parameters,
+  expression,
+  headTexture,
+  avatarGroupRef,
+  simulationPaused,
+  hairLod,
+  pose,
+  showPoseHandles,
+  onPoseChange,
+}: AvatarModelProps) => {
   const rootRef = useRef<Group>(null);
-  const hairGroupRef = useRef<Group>(null);
-  const { clothGeometry, basePositions } = useClothGeometry();
 
   useEffect(() => {
     avatarGroupRef.current = rootRef.current;
   }, [avatarGroupRef]);
 
+  const freckleTexture = useMemo(
+    () => createFreckleTexture(parameters.skin.freckles),
+    [parameters.skin.freckles],
+  );
+
+  useEffect(() => {
+    return () => {
+      freckleTexture?.dispose();
+    };
+  }, [freckleTexture]);
+
   const skinMaterial = useMemo(() => {
     const mat = new MeshPhysicalMaterial({
+      name: "Skin",
       color: new Color(parameters.skin.tone),
+      map: freckleTexture,
       roughness: parameters.skin.roughness,
       metalness: 0.02,
       reflectivity: 0.45,
@@ -64,82 +635,204 @@ const AvatarModel = ({ parameters, avatarGroupRef }: AvatarModelProps) => {
     mat.sheenColor = new Color(parameters.skin.tone).offsetHSL(0, -0.05, 0.1);
     mat.transmission = parameters.skin.subsurface * 0.15;
     return mat;
-  }, [parameters.skin]);
+  }, [freckleTexture, parameters.skin]);
+
+  const lipsMaterial = useMemo(
+    () =>
+      new MeshPhysicalMaterial({
+        name: "Lips",
+        color: new Color(parameters.skin.tone).offsetHSL(0.03, 0.12, 0.05),
+        roughness: 0.3,
+        clearcoat: 0.4,
+        sheen: 0.4,
+      }),
+    [parameters.skin.tone],
+  );
 
   useEffect(() => {
     return () => {
       skinMaterial.dispose();
+      lipsMaterial.dispose();
     };
-  }, [skinMaterial]);
+  }, [lipsMaterial, skinMaterial]);
 
-  const headScale = useMemo<[number, number, number]>(
-    () => [
-      lerp(parameters.head.headWidth, 0.9, 1.2),
-      lerp(parameters.head.headHeight, 0.9, 1.3),
-      lerp(parameters.head.chinDefinition, 0.9, 1.1),
-    ],
+  const clothingMaterial = useMemo(
+    () =>
+      new MeshPhysicalMaterial({
+        name: "Clothing",
+        color: new Color(parameters.clothing.primaryColor),
+        roughness: lerp(parameters.clothing.fabricSheen, 0.5, 0.9),
+        metalness: 0.05,
+        clearcoat: parameters.clothing.fabricSheen * 0.6,
+        sheen: parameters.clothing.fabricSheen * 0.8,
+        sheenColor: new Color(parameters.clothing.secondaryColor),
+        side: DoubleSide,
+      }),
     [
-      parameters.head.chinDefinition,
-      parameters.head.headHeight,
-      parameters.head.headWidth,
+      parameters.clothing.fabricSheen,
+      parameters.clothing.primaryColor,
+      parameters.clothing.secondaryColor,
     ],
   );
 
+  const trimMaterial = useMemo(
+    () =>
+      new MeshPhysicalMaterial({
+        name: "ClothingTrim",
+        color: new Color(parameters.clothing.secondaryColor),
+        roughness: lerp(parameters.clothing.fabricSheen, 0.45, 0.8),
+        metalness: 0.05,
+        clearcoat: parameters.clothing.fabricSheen * 0.4,
+        side: DoubleSide,
+      }),
+    [parameters.clothing.fabricSheen, parameters.clothing.secondaryColor],
+  );
+
+  useEffect(() => {
+    return () => {
+      clothingMaterial.dispose();
+      trimMaterial.dispose();
+    };
+  }, [clothingMaterial, trimMaterial]);
+
+  // Face, weight, muscle and shoulder mass are morph targets; only the
+  // sliders that move joints rebuild the rig and its meshes.
+  const { headHeight, headWidth, neckThickness } = parameters.head;
+  const { height, shoulderWidth } = parameters.body;
+  const rig = useMemo(
+    () => createAvatarRig({ headHeight, headWidth }, { height, shoulderWidth }),
+    [headHeight, headWidth, height, shoulderWidth],
+  );
+  const bodyGeometry = useMemo(() => createBodyGeometry(rig.layout), [rig]);
+  const headGeometry = useMemo(() => createHeadGeometry(rig.layout), [rig]);
+  const neckGeometry = useMemo(
+    () => createNeckGeometry(rig.layout, { neckThickness }),
+    [neckThickness, rig],
+  );
+  const outfitGeometry = useMemo(
+    () => createOutfitGeometry(rig.layout, parameters.clothing.outfit),
+    [parameters.clothing.outfit, rig],
+  );
+
+  useEffect(() => {
+    return () => {
+      rig.skeleton.dispose();
+      bodyGeometry.dispose();
+      headGeometry.dispose();
+      neckGeometry.dispose();
+      outfitGeometry.dispose();
+    };
+  }, [bodyGeometry, headGeometry, neckGeometry, outfitGeometry, rig]);
+
+  const outfitMaterials = useMemo(
+    () => [clothingMaterial, trimMaterial],
+    [clothingMaterial, trimMaterial],
+  );
+  const bodyMorphInfluences = useMemo(
+    () => getBodyMorphInfluences(parameters.body),
+    [parameters.body],
+  );
+  // A baked albedo already carries the skin's colour, so the head takes it untinted.
+  const headAlbedo = useHeadTexture(headTexture);
+  const bakedHeadMaterials = useMemo(() => {
+    if (!headAlbedo) return null;
+    return [skinMaterial, lipsMaterial].map((material) => {
+      const baked = material.clone();
+      baked.name = `Head${material.name}`;
+      baked.color.set("#ffffff");
+      baked.map = headAlbedo;
+      return baked;
+    });
+  }, [headAlbedo, lipsMaterial, skinMaterial]);
+
+  useEffect(() => {
+    return () => {
+      bakedHeadMaterials?.forEach((material) => material.dispose());
+    };
+  }, [bakedHeadMaterials]);
+
+  const headMaterials = useMemo(
+    () => bakedHeadMaterials ?? [skinMaterial, lipsMaterial],
+    [bakedHeadMaterials, lipsMaterial, skinMaterial],
+  );
+  // A pose's gaze moves the eyes through the look blendshapes, over the previewed expression.
+  const shownExpression = useMemo(
+    () => (pose ? { ...expression, ...getGazeExpression(pose.gaze) } : expression),
+    [expression, pose],
+  );
+  const headMorphInfluences = useMemo(
+    () => getHeadMorphInfluences(parameters.facial, parameters.head, shownExpression),
+    [parameters.facial, parameters.head, shownExpression],
+  );
+  const eyes = useMemo(
+    () => getEyePlacement(rig.layout, parameters.facial),
+    [parameters.facial, rig],
+  );
+
+  // The eyeballs stand proud of the lids, so blinking and squinting flatten them.
+  const eyeOpenness = (["Right", "Left"] as const).map((side) =>
+    Math.max(
+      1 - (expression[`eyeBlink${side}`] ?? 0) * 0.9 - (expression[`eyeSquint${side}`] ?? 0) * 0.3,
+      0.08,
+    ),
+  );
+
+  // Facial features and hair ride on the head bone so they follow the rig.
+  const headBoneY = rig.layout.joints.Head.y;
+
   const hairHue = useMemo(() => new Color(parameters.hair.color), [parameters]);
   const secondaryHairColor = useMemo(
     () => new Color(parameters.hair.secondaryColor),
     [parameters.hair.secondaryColor],
   );
 
-  useFrame(({ clock }) => {
-    const elapsed = clock.getElapsedTime();
+  useClipPlayback(rig, simulationPaused || pose !== null);
 
-    const windAmplitude = 0.15 + parameters.clothing.layering * 0.2;
-    const hairFlex = 0.08 + parameters.hair.length * 0.18;
-    const curliness = 0.4 + parameters.hair.curl * 0.9;
+  useEffect(() => {
+    if (!pose) return;
+    holdPose(rig, pose);
+    return () => holdPose(rig, null);
+  }, [pose, rig]);
 
-    if (hairGroupRef.current) {
-      hairGroupRef.current.rotation.z =
-        Math.sin(elapsed * (1.4 + curliness)) * hairFlex;
-      hairGroupRef.current.rotation.x =
-        Math.cos(elapsed * 1.2) * (hairFlex * 0.5);
-    }
+  const cape = useCapeCloth(rig.layout, parameters.body, parameters.clothing, simulationPaused);
+  const hair = useHairStrands(
+    rig,
+    rootRef,
+    parameters.hair,
+    parameters.body,
+    hairLod,
+    simulationPaused,
+  );
+  const hairCardTexture = useMemo(() => createHairCardTexture(), []);
 
-    if (basePositions.length) {
-      const attr = clothGeometry.attributes.position;
-      const array = attr.array as Float32Array;
-
-      for (let i = 0; i < array.length; i += 3) {
-        const baseX = basePositions[i];
-        const baseY = basePositions[i + 1];
-        const wave =
-          Math.sin(baseY * 4 + elapsed * 2.1) * 0.02 +
-          Math.cos(baseX * 4 + elapsed * 1.6) * 0.02;
-        const dynamicOffset =
-          Math.sin(elapsed * 3 + baseX * 2.3) *
-          windAmplitude *
-          (0.3 + parameters.clothing.fabricSheen);
-
-        // eslint-disable-next-line react-hooks/immutability
-        array[i + 2] = basePositions[i + 2] + wave + dynamicOffset;
-      }
-
-      attr.needsUpdate = true;
-      clothGeometry.computeVertexNormals();
-    }
+  useEffect(() => {
+    return () => {
+      hairCardTexture?.dispose();
+    };
+  }, [hairCardTexture]);
+
+  useFrame((_, delta) => {
+    if (simulationPaused) return;
+    cape.runnerRef.current?.advance(delta);
   });
 
-  const hairLayers = useMemo(() => {
-    const layers = 6;
-    return Array.from({ length: layers }).map((_, index) => {
-      const t = index / layers;
-      const radius = lerp(parameters.hair.volume, 0.4, 0.85) * (1 - t * 0.15);
-      const height =
-        lerp(parameters.hair.length, 0.4, 1.4) *
-        (parameters.hair.style === "buzz" ? 0.3 : 1 - t * 0.1);
-      return { radius, height, offset: t };
-    });
-  }, [parameters.hair]);
+  const braidGeometry = useMemo(
+    () =>
+      parameters.hair.style === "braids"
+        ? createBraidGeometry({
+            length: lerp(parameters.hair.length, 0.5, 1.2),
+            thickness: lerp(parameters.hair.volume, 0.03, 0.05),
+            crossings: Math.round(lerp(parameters.hair.curl, 3, 7)),
+          })
+        : null,
+    [parameters.hair.style, parameters.hair.length, parameters.hair.volume, parameters.hair.curl],
+  );
+
+  useEffect(() => {
+    return () => {
+      braidGeometry?.dispose();
+    };
+  }, [braidGeometry]);
 
   return (
     <group
@@ -147,183 +840,240 @@ const AvatarModel = ({ parameters, avatarGroupRef }: AvatarModelProps) => {
       position={[0, -0.6 + parameters.body.posture * 0.1, 0]}
       dispose={null}
     >
-      <group position={[0, lerp(parameters.body.height, 1.4, 1.9), 0]}>
-        <mesh castShadow position={[0, 0.35, 0]} scale={[1, 1.4, 0.8]}>
-          <capsuleGeometry args={[0.38, lerp(parameters.body.height, 1.1, 1.6)]} />
-          <meshPhysicalMaterial
-            color={parameters.clothing.primaryColor}
-            roughness={lerp(parameters.clothing.fabricSheen, 0.5, 0.9)}
-            metalness={0.05}
-            clearcoat={parameters.clothing.fabricSheen * 0.6}
-            sheen={parameters.clothing.fabricSheen * 0.8}
-            sheenColor={new Color(parameters.clothing.secondaryColor)}
-          />
-        </mesh>
-      </group>
-
-      <mesh
+      <primitive object={rig.root} />
+      {pose && showPoseHandles ? (
+        <PoseHandles rig={rig} rootRef={rootRef} gaze={pose.gaze} onChange={onPoseChange} />
+      ) : null}
+      <skinnedMesh
+        name="AvatarBody"
         castShadow
-        position={[0, lerp(parameters.body.height, 1.5, 1.9), 0]}
-        scale={headScale}
-      >
-        <sphereGeometry args={[0.4, 64, 64]} />
-        <primitive object={skinMaterial} attach="material" />
-      </mesh>
-
-      <group position={[0, lerp(parameters.body.height, 1.65, 2.0), 0]}>
-        <mesh position={[-lerp(parameters.facial.eyeSpacing, 0.16, 0.24), 0.03, 0.36]}>
-          <sphereGeometry args={[lerp(parameters.facial.eyeSize, 0.06, 0.09), 32, 32]} />
-          <meshPhysicalMaterial
-            color="#1c1f25"
-            reflectivity={0.95}
-            roughness={0.18}
-            clearcoat={0.9}
-            transmission={0.12}
-          />
-        </mesh>
-        <mesh position={[lerp(parameters.facial.eyeSpacing, 0.16, 0.24), 0.03, 0.36]}>
-          <sphereGeometry args={[lerp(parameters.facial.eyeSize, 0.06, 0.09), 32, 32]} />
-          <meshPhysicalMaterial
-            color="#1c1f25"
-            reflectivity={0.95}
-            roughness={0.18}
-            clearcoat={0.9}
-            transmission={0.12}
-          />
-        </mesh>
-
-        <mesh position={[0, -0.02, 0.42]} rotation={[Math.PI * 0.5, 0, 0]}>
-          <cylinderGeometry
-            args={[
-              lerp(parameters.facial.noseWidth, 0.05, 0.12),
-              lerp(parameters.facial.noseWidth, 0.03, 0.08),
-              lerp(parameters.facial.noseLength, 0.28, 0.42),
-              32,
-            ]}
-          />
-          <primitive object={skinMaterial} attach="material" />
-        </mesh>
-
-        <mesh position={[0, -0.18, 0.33]} rotation={[0, 0, 0]}>
-          <capsuleGeometry
-            args={[
-              lerp(parameters.facial.lipFullness, 0.04, 0.09),
-              lerp(parameters.facial.lipFullness, 0.12, 0.25),
-            ]}
-          />
-          <meshPhysicalMaterial
-            color={new Color(parameters.skin.tone).offsetHSL(0.03, 0.12, 0.05)}
-            roughness={0.3}
-            clearcoat={0.4}
-            sheen={0.4}
-          />
-        </mesh>
-
-        <mesh position={[-0.4, 0.05, 0]} rotation={[0, Math.PI * 0.6, 0]}>
-          <sphereGeometry
-            args={[
-              lerp(parameters.facial.earSize, 0.1, 0.16),
-              32,
-              32,
-              0,
-              Math.PI,
-            ]}
-          />
-          <primitive object={skinMaterial} attach="material" />
-        </mesh>
-        <mesh position={[0.4, 0.05, 0]} rotation={[0, -Math.PI * 0.6, 0]}>
-          <sphereGeometry
-            args={[
-              lerp(parameters.facial.earSize, 0.1, 0.16),
-              32,
-              32,
-              0,
-              Math.PI,
-            ]}
-          />
-          <primitive object={skinMaterial} attach="material" />
-        </mesh>
-      </group>
+        geometry={bodyGeometry}
+        material={skinMaterial}
+        skeleton={rig.skeleton}
+        morphTargetDictionary={bodyMorphDictionary}
+        morphTargetInfluences={bodyMorphInfluences}
+      />
+      <skinnedMesh
+        name="AvatarOutfit"
+        castShadow
+        geometry={outfitGeometry}
+        material={outfitMaterials}
+        skeleton={rig.skeleton}
+        morphTargetDictionary={bodyMorphDictionary}
+        morphTargetInfluences={bodyMorphInfluences}
+      />
+      <skinnedMesh
+        name="AvatarNeck"
+        castShadow
+        geometry={neckGeometry}
+        material={skinMaterial}
+        skeleton={rig.skeleton}
+      />
+      <skinnedMesh
+        name="AvatarHead"
+        castShadow
+        geometry={headGeometry}
+        material={headMaterials}
+        skeleton={rig.skeleton}
+        morphTargetDictionary={headMorphDictionary}
+        morphTargetInfluences={headMorphInfluences}
+      />
 
-      <group ref={hairGroupRef} position={[0, lerp(parameters.body.height, 1.74, 2.08), 0]}>
-        {parameters.hair.style !== "buzz" ? (
-          hairLayers.map((layer, index) => (
+      {createPortal(
+        <>
+          {[eyes.right, eyes.left].map((center, index) => (
             <mesh
-              key={`hair-${index}`}
-              position={[0, (layer.offset - 0.5) * parameters.hair.length, 0]}
-              scale={[layer.radius, layer.height, layer.radius]}
+              key={index === 0 ? "right" : "left"}
+              name={index === 0 ? "EyeRight" : "EyeLeft"}
+              position={center.clone().sub(rig.layout.joints.Head)}
+              scale={[1, eyeOpenness[index], 1]}
             >
-              <sphereGeometry args={[0.4, 48, 48]} />
+              <sphereGeometry args={[eyes.radius, 32, 32]} />
               <meshPhysicalMaterial
-                color={hairHue.clone().lerp(secondaryHairColor, layer.offset * 0.6)}
-                roughness={lerp(parameters.hair.curl, 0.2, 0.45)}
-                metalness={0.05}
-                clearcoat={0.7}
-                clearcoatRoughness={0.25}
+                name="Eye"
+                color="#1c1f25"
+                reflectivity={0.95}
+                roughness={0.18}
+                clearcoat={0.9}
+                transmission={0.12}
               />
             </mesh>
-          ))
-        ) : (
-          <mesh scale={[0.95, 0.85, 0.95]}>
-            <sphereGeometry args={[0.42, 48, 48]} />
-            <meshPhysicalMaterial
-              color={hairHue}
-              roughness={0.35}
-              metalness={0.02}
-              clearcoat={0.5}
-            />
-          </mesh>
-        )}
-      </group>
-
-      <Float
-        floatingRange={[0.02, 0.06]}
-        rotationIntensity={0.2}
-        speed={1.2 + parameters.hair.volume * 0.5}
-      >
+          ))}
+
+          {hair.scalp ? (
+            <mesh
+              name="Scalp"
+              geometry={hair.scalp}
+              position={rig.layout.headCenter.clone().sub(rig.layout.joints.Head)}
+            >
+              <meshPhysicalMaterial name="Scalp" color={hairHue} roughness={0.6} />
+            </mesh>
+          ) : null}
+          <group position={[0, lerp(parameters.body.height, 1.74, 2.08) - headBoneY, 0]}>
+            {braidGeometry ? (
+              <>
+                <mesh name="HairCap" position={[0, 0.06, -0.03]} scale={[1, 0.8, 0.92]}>
+                  <sphereGeometry args={[0.43, 48, 48]} />
+                  <meshPhysicalMaterial
+                    name="Hair"
+                    color={hairHue}
+                    roughness={0.35}
+                    metalness={0.02}
+                    clearcoat={0.5}
+                  />
+                </mesh>
+                {[-1, 1].map((side) => (
+                  <mesh
+                    key={`braid-${side}`}
+                    name={side < 0 ? "BraidRight" : "BraidLeft"}
+                    geometry={braidGeometry}
+                    position={[side * 0.27, -0.12, -0.18]}
+                    rotation={[0.12, 0, side * 0.08]}
+                  >
+                    <meshPhysicalMaterial
+                      name="Braid"
+                      color={hairHue.clone().lerp(secondaryHairColor, 0.35)}
+                      roughness={lerp(parameters.hair.curl, 0.3, 0.55)}
+                      metalness={0.03}
+                      clearcoat={0.5}
+                    />
+                  </mesh>
+                ))}
+              </>
+            ) : parameters.hair.style === "buzz" ? (
+              <mesh name="HairBuzz" scale={[0.95, 0.85, 0.95]}>
+                <sphereGeometry args={[0.42, 48, 48]} />
+                <meshPhysicalMaterial
+                  name="Hair"
+                  color={hairHue}
+                  roughness={0.35}
+                  metalness={0.02}
+                  clearcoat={0.5}
+                />
+              </mesh>
+            ) : null}
+          </group>
+        </>,
+        rig.bones.Head,
+      )}
+
+      {hair.geometry ? (
         <mesh
-          position={[0, lerp(parameters.body.height, 1.1, 1.35), 0]}
-          rotation={[-Math.PI / 2, 0, 0]}
-          geometry={clothGeometry}
+          name="HairCards"
+          geometry={hair.geometry}
+          frustumCulled={false}
           castShadow
-          receiveShadow
+          userData={{ hairCards: true }}
         >
           <meshPhysicalMaterial
-            color={parameters.clothing.secondaryColor}
-            transparent
-            opacity={0.95}
-            roughness={lerp(parameters.clothing.fabricSheen, 0.25, 0.7)}
-            metalness={0.1}
-            clearcoat={0.6}
-            sheen={0.6}
-            sheenColor={new Color(parameters.clothing.primaryColor)}
+            name="HairCards"
+            vertexColors
+            map={hairCardTexture}
+            alphaTest={0.4}
+            side={DoubleSide}
+            roughness={lerp(parameters.hair.curl, 0.35, 0.55)}
+            sheen={0.8}
+            sheenRoughness={0.35}
+            sheenColor={secondaryHairColor}
           />
         </mesh>
-      </Float>
+      ) : null}
+
+      <mesh name="Cape" geometry={cape.geometry} frustumCulled={false} castShadow receiveShadow>
+        <meshPhysicalMaterial
+          name="CapeFabric"
+          color={parameters.clothing.secondaryColor}
+          side={DoubleSide}
+          transparent
+          opacity={0.95}
+          roughness={lerp(parameters.clothing.fabricSheen, 0.25, 0.7)}
+          metalness={0.1}
+          clearcoat={0.6}
+          sheen={0.6}
+          sheenColor={new Color(parameters.clothing.primaryColor)}
+        />
+      </mesh>
     </group>
   );
 };
 
-export const AvatarScene = ({ avatarGroupRef }: AvatarSceneProps) => {
+// Until a custom source's HDR is back from IndexedDB, the default preset lights the scene.
+const getEnvironmentSource = ({ environment, customEnvironment }: LightingSettings) => {
+  if (environment.source !== "custom") return { preset: environment.source };
+  if (customEnvironment) return { files: customEnvironment.dataUrl };
+  return { preset: "warehouse" as const };
+};
+
+const lightProps = (light: LightSettings) => ({
+  position: getLightPosition(light),
+  color: light.color,
+  intensity: light.intensity,
+});
+
+/** The editable look-dev rig: HDRI, ambient, key, fill and rim lights, and the backdrop. */
+const ViewportLighting = ({ lighting }: { lighting: LightingSettings }) => {
+  const { environment, background } = lighting;
+  const rotation: [number, number, number] = [0, MathUtils.degToRad(environment.rotation), 0];
+  return (
+    <>
+      {background.mode === "color" ? (
+        <color attach="background" args={[background.color]} />
+      ) : null}
+      <ambientLight intensity={environment.ambient} />
+      <directionalLight
+        {...lightProps(lighting.key)}
+        castShadow
+        shadow-mapSize-width={2048}
+        shadow-mapSize-height={2048}
+      />
+      <directionalLight {...lightProps(lighting.fill)} />
+      <directionalLight {...lightProps(lighting.rim)} />
+      {/* Its own boundary, so switching HDRIs never blanks the avatar while one loads. */}
+      <Suspense fallback={null}>
+        <Environment
+          {...getEnvironmentSource(lighting)}
+          background={background.mode !== "color"}
+          backgroundBlurriness={background.mode === "blurred" ? background.blur : 0}
+          environmentIntensity={environment.intensity}
+          environmentRotation={rotation}
+          backgroundRotation={rotation}
+        />
+      </Suspense>
+    </>
+  );
+};
+
+export const AvatarScene = ({
+  avatarGroupRef,
+  renderContextRef,
+  simulationPaused = false,
+  capturing = false,
+}: AvatarSceneProps) => {
   const parameters = useAvatarStore((state) => state.parameters);
+  const expression = useAvatarStore((state) => state.expression);
+  const headTexture = useAvatarStore((state) => state.headTexture);
+  const hairLod = useAvatarStore((state) => state.hairLod);
+  const poseMode = useAvatarStore((state) => state.poseMode);
+  const pose = useAvatarStore((state) => state.pose);
+  const setPose = useAvatarStore((state) => state.setPose);
+  const lighting = useAvatarStore((state) => state.lighting);
 
   return (
     <Canvas
       shadows
       camera={{ position: [0, 1.8, 4.1], fov: 32 }}
       dpr={[1, 2]}
+      gl={{
+        preserveDrawingBuffer: true,
+        toneMapping: toneMappings[lighting.output.toneMapping],
+        toneMappingExposure: lighting.output.exposure,
+      }}
+      onCreated={({ gl, scene, camera }) => {
+        if (renderContextRef) renderContextRef.current = { gl, scene, camera };
+      }}
       className="rounded-3xl bg-[#05060c]"
     >
-      <color attach="background" args={["#05060c"]} />
-      <ambientLight intensity={0.4} />
-      <directionalLight
-        position={[4, 6, 3]}
-        intensity={1.7}
-        castShadow
-        shadow-mapSize-width={2048}
-        shadow-mapSize-height={2048}
-      />
-      <directionalLight position={[-4, 3, -4]} intensity={0.35} />
+      <ViewportLighting lighting={lighting} />
       <Suspense
         fallback={
           <Html center>
@@ -333,8 +1083,17 @@ export const AvatarScene = ({ avatarGroupRef }: AvatarSceneProps) => {
           </Html>
         }
       >
-        <AvatarModel parameters={parameters} avatarGroupRef={avatarGroupRef} />
-        <Environment preset="warehouse" />
+        <AvatarModel
+          parameters={parameters}
+          headTexture={headTexture}
+          expression={expression}
+          avatarGroupRef={avatarGroupRef}
+          simulationPaused={simulationPaused}
+          hairLod={hairLod}
+          pose={poseMode ? pose : null}
+          showPoseHandles={!simulationPaused && !capturing}
+          onPoseChange={setPose}
+        />
       </Suspense>
       <ContactShadows
         position={[0, -0.9, 0]}
@@ -344,12 +1103,13 @@ export const AvatarScene = ({ avatarGroupRef }: AvatarSceneProps) => {
         far={2}
       />
       <OrbitControls
+        makeDefault
         enablePan={false}
         minPolarAngle={Math.PI / 3}
         maxPolarAngle={(Math.PI / 2) * 1.15}
         minDistance={2.6}
         maxDistance={4.6}
-        target={new Vector3(0, 1.4, 0)}
+        target={viewTarget}
       />
     </Canvas>
   );
@@ -2,17 +2,142 @@
 
 import dynamic from "next/dynamic";
 import Image from "next/image";
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
 import clsx from "classnames";
 import {
   AvatarParameters,
   AvatarStatus,
   AvatarState,
+  HistoryEntry,
+  type PhotoRole,
+  photoRoles,
   UploadedImage,
+  type UploadIssue,
   useAvatarStore,
 } from "@/state/avatarStore";
-import { Group } from "three";
-import { exportAvatarAsFBX, exportAvatarAsGLTF } from "@/utils/exporters";
+import { type AnimationClip, Group } from "three";
+import {
+  animationFileExtensions,
+  AnimationImportError,
+  getBindJoints,
+  loadAnimationFile,
+  resolveClip,
+} from "@/utils/animationClips";
+import {
+  exportAvatarAsBinaryFBX,
+  exportAvatarAsFBX,
+  exportAvatarAsGLB,
+  exportAvatarAsGLTF,
+  exportAvatarAsOBJ,
+  exportAvatarAsSTL,
+  exportAvatarAsUSDZ,
+} from "@/utils/exporters";
+import {
+  type ExportAxis,
+  type ExportSettings,
+  exportAxes,
+  fileNameTokens,
+  formatExportFileName,
+  isPerpendicularAxis,
+  loadExportSettings,
+  saveExportSettings,
+} from "@/utils/exportSettings";
+import {
+  backgroundModes,
+  defaultLighting,
+  EnvironmentImportError,
+  environmentPresets,
+  type LightingSettings,
+  type LightSettings,
+  lightingRanges,
+  loadStoredEnvironment,
+  readEnvironmentFile,
+  saveStoredEnvironment,
+  type ToneMappingMode,
+  toneMappingModes,
+} from "@/utils/lighting";
+import { applyRestPose } from "@/utils/meshBaking";
+import {
+  defaultImageRenderSettings,
+  defaultTurntableSettings,
+  type ImageRenderSettings,
+  maxRenderSize,
+  RenderCaptureError,
+  type RenderContext,
+  renderImage,
+  renderTurntable,
+  renderViewLabels,
+  renderViews,
+  type TurntableSettings,
+} from "@/utils/renderCapture";
+import {
+  AvatarDocumentError,
+  avatarDocumentExtension,
+  createAvatarDocument,
+  parseAvatarDocument,
+  serializeAvatarDocument,
+} from "@/utils/avatarDocument";
+import {
+  type AvatarPreset,
+  captureThumbnail,
+  createPreset,
+  deletePreset,
+  duplicatePreset,
+  listPresets,
+  normalizeTags,
+  updatePreset,
+} from "@/utils/presetLibrary";
+import {
+  createShareUrl,
+  isViewerHash,
+  readShareLink,
+  type ShareLinkMode,
+  toEditorHash,
+} from "@/utils/shareLink";
+import {
+  arkitBlendshapeNames,
+  type ExpressionName,
+  expressionPresets,
+  type ExpressionWeights,
+  visemeNames,
+} from "@/utils/expressions";
+import {
+  applyTargetColors,
+  type ColorSuggestion,
+  type ColorTarget,
+  colorTargetLabels,
+  type PhotoColors,
+  pickPhotoColor,
+  suggestPhotoColors,
+} from "@/utils/colorSampling";
+import {
+  applyFaceChanges,
+  bestFit,
+  type FaceParameterChange,
+  proposeFaceChanges,
+} from "@/utils/faceFitting";
+import {
+  faceLandmarkNames,
+  fitsInRoles,
+  generationStages,
+  type LandmarkFit,
+} from "@/utils/generationPipeline";
+import {
+  countHairStrands,
+  type HairLod,
+  hairLods,
+  loadHairLod,
+  saveHairLod,
+} from "@/utils/hairStrands";
+import { describeQuality, type PhotoQuality } from "@/utils/photoQuality";
+import {
+  loadUploadMaxSide,
+  saveUploadMaxSide,
+  toPortableImage,
+  uploadedImageToFile,
+} from "@/utils/photoUploads";
+import { humanoidBoneNames } from "@/utils/rig";
+import { type UploadMaxSide, uploadLimits, uploadMaxSides } from "@/utils/uploadProcessing";
 
 const AvatarScene = dynamic(() => import("./AvatarScene").then((mod) => mod.AvatarScene), {
   ssr: false,
@@ -25,7 +150,45 @@ const AvatarScene = dynamic(() => import("./AvatarScene").then((mod) => mod.Avat
   ),
 });
 
-type ExportFormat = "gltf" | "fbx";
+type ExportFormat = "gltf" | "glb" | "fbx" | "fbx-binary" | "obj" | "usdz" | "stl";
+
+const exportTargets: Record<
+  ExportFormat,
+  {
+    label: string;
+    extension: string;
+    /** Only glTF and GLB carry the clips picked for export. */
+    exporter: (
+      group: Group,
+      settings: ExportSettings,
+      animations: AnimationClip[],
+    ) => Promise<Blob>;
+  }
+> = {
+  gltf: { label: "Export glTF", extension: "gltf", exporter: exportAvatarAsGLTF },
+  glb: {
+    label: "Export GLB",
+    extension: "glb",
+    exporter: (group, _settings, animations) => exportAvatarAsGLB(group, animations),
+  },
+  fbx: { label: "Export FBX", extension: "fbx", exporter: exportAvatarAsFBX },
+  "fbx-binary": {
+    label: "Export FBX (Binary)",
+    extension: "fbx",
+    exporter: (group, settings) => exportAvatarAsBinaryFBX(group, settings),
+  },
+  obj: { label: "Export OBJ (zip)", extension: "zip", exporter: exportAvatarAsOBJ },
+  usdz: { label: "Export USDZ", extension: "usdz", exporter: exportAvatarAsUSDZ },
+  stl: {
+    label: "Export STL Bust",
+    extension: "stl",
+    exporter: (group, settings) => exportAvatarAsSTL(group, settings, { bust: true }),
+  },
+};
+
+const axisOptions = exportAxes.map((axis) => ({ label: axis.toUpperCase(), value: axis }));
+
+const defaultForwardFor = (upAxis: ExportAxis): ExportAxis => (upAxis[1] === "z" ? "-y" : "+z");
 
 const hairStyleLabels = {
   buzz: "Buzz Cut",
@@ -35,6 +198,12 @@ const hairStyleLabels = {
   braids: "Braided",
 } as const;
 
+const hairLodLabels: Record<HairLod, string> = {
+  low: "Low (fastest)",
+  medium: "Medium",
+  high: "High (most strands)",
+};
+
 const outfitLabels = {
   casual: "Casual Layers",
   athletic: "Athletic Techwear",
@@ -109,6 +278,7 @@ const ControlSlider = ({
   min = 0,
   max = 1,
   step = 0.01,
+  format = (current) => `${Math.round(current * 100)}%`,
   onChange,
   description,
 }: {
@@ -118,6 +288,8 @@ const ControlSlider = ({
   min?: number;
   max?: number;
   step?: number;
+  /** Renders the value beside the label; a percentage by default. */
+  format?: (value: number) => string;
   description?: string;
   onChange: (value: number) => void;
 }) => (
@@ -125,7 +297,7 @@ const ControlSlider = ({
     <span className={labelClass}>
       {label}
       <span className="ml-2 text-xs text-slate-400">
-        {Math.round(value * 100)}%
+        {format(value)}
       </span>
     </span>
     <input
@@ -206,6 +378,36 @@ const ControlSelect = <T extends string>({
   </label>
 );
 
+const ControlToggle = ({
+  id,
+  label,
+  checked,
+  onChange,
+  description,
+}: {
+  id: string;
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  description?: string;
+}) => (
+  <label htmlFor={id} className="flex items-center justify-between gap-4">
+    <div className="flex flex-col">
+      <span className={labelClass}>{label}</span>
+      {description ? (
+        <span className={helpTextClass}>{description}</span>
+      ) : null}
+    </div>
+    <input
+      id={id}
+      type="checkbox"
+      checked={checked}
+      onChange={(event) => onChange(event.target.checked)}
+      className="h-4 w-4 cursor-pointer accent-violet-500"
+    />
+  </label>
+);
+
 const Section = ({
   title,
   children,
@@ -225,128 +427,566 @@ const generationBadgePalette: Record<AvatarStatus, string> = {
   idle: "bg-slate-900/50 text-slate-300 border border-slate-800/70",
   processing: "bg-amber-500/30 text-amber-100 border border-amber-400/40",
   ready: "bg-emerald-500/20 text-emerald-100 border border-emerald-500/50",
+  error: "bg-rose-500/20 text-rose-100 border border-rose-500/50",
 };
 
 const useLiveGenerationProgress = () => {
   const status = useAvatarStore((state) => state.status);
   const progress = useAvatarStore((state) => state.generationProgress);
-  const [displayProgress, setDisplayProgress] = useState(progress);
+  const stage = useAvatarStore((state) => state.generationStage);
+  const stageLabel = generationStages.find((entry) => entry.stage === stage)?.label ?? null;
+  return { status, progress, stageLabel };
+};
 
-  useEffect(() => {
-    if (status === "processing") {
-      const interval = setInterval(() => {
-        setDisplayProgress((value) => Math.min(value + 1, 99));
-      }, 120);
-      return () => clearInterval(interval);
-    }
-    const frame = requestAnimationFrame(() => setDisplayProgress(progress));
-    return () => cancelAnimationFrame(frame);
-  }, [status, progress]);
+const LandmarkOverlay = ({ image, fit }: { image: UploadedImage; fit: LandmarkFit }) => (
+  <div
+    className="relative w-full overflow-hidden rounded-lg border border-slate-800/70"
+    style={{ aspectRatio: `${fit.width} / ${fit.height}` }}
+  >
+    <Image
+      src={image.src}
+      alt={`${image.name} with its landmark fit`}
+      fill
+      sizes="(min-width: 1024px) 40vw, 90vw"
+      className="object-cover"
+      unoptimized
+    />
+    <svg
+      viewBox={`0 0 ${fit.width} ${fit.height}`}
+      className="absolute inset-0 h-full w-full"
+      aria-hidden
+    >
+      <rect
+        x={fit.box.x}
+        y={fit.box.y}
+        width={fit.box.width}
+        height={fit.box.height}
+        fill="none"
+        className="stroke-violet-400/70"
+        strokeWidth={fit.width / 300}
+      />
+      {fit.mesh?.map((point, index) => (
+        <circle
+          key={index}
+          cx={point.x}
+          cy={point.y}
+          r={fit.width / 450}
+          className="fill-violet-200/60"
+        />
+      ))}
+      {faceLandmarkNames.map((name) => (
+        <circle
+          key={name}
+          cx={fit.points[name].x}
+          cy={fit.points[name].y}
+          r={fit.width / 130}
+          className="fill-amber-300 stroke-slate-950"
+          strokeWidth={fit.width / 600}
+        >
+          <title>{name}</title>
+        </circle>
+      ))}
+    </svg>
+  </div>
+);
 
-  useEffect(() => {
-    if (status === "ready") {
-      const frame = requestAnimationFrame(() => setDisplayProgress(100));
-      return () => cancelAnimationFrame(frame);
-    }
-  }, [status]);
+const fitSummary = (fit: LandmarkFit | null | undefined) =>
+  fit === undefined
+    ? "Fitting landmarks…"
+    : fit === null
+      ? "No face found"
+      : `Face fit · ${Math.round(fit.confidence * 100)}% confidence`;
 
-  return { status, progress: status === "processing" ? displayProgress : progress };
+const photoRoleLabels: Record<PhotoRole, string> = {
+  front: "Front",
+  left: "Left profile",
+  right: "Right profile",
+  back: "Back",
+  detail: "Detail",
 };
 
+const formatExposureTime = (seconds: number) =>
+  seconds < 1 ? `1/${Math.round(1 / seconds)} s` : `${Number(seconds.toFixed(1))} s`;
+
+const captureSummary = ({ width, height, capture }: UploadedImage) =>
+  [
+    width && height ? `${width}×${height}` : null,
+    capture.camera,
+    capture.focalLength ? `${Math.round(capture.focalLength)} mm` : null,
+    capture.exposureTime ? formatExposureTime(capture.exposureTime) : null,
+    capture.iso ? `ISO ${capture.iso}` : null,
+    capture.takenAt ? new Date(capture.takenAt).toLocaleDateString() : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+const qualityPalette = (score: number) =>
+  score >= 0.7
+    ? "border-emerald-500/50 bg-emerald-500/15 text-emerald-100"
+    : score >= 0.45
+      ? "border-amber-400/40 bg-amber-500/15 text-amber-100"
+      : "border-rose-500/50 bg-rose-500/15 text-rose-100";
+
+const QualityBadge = ({ quality }: { quality: PhotoQuality | null | undefined }) => {
+  if (quality === undefined) return <span className="text-slate-500">Checking quality…</span>;
+  if (quality === null) return null;
+  const notes = describeQuality(quality);
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+  return (
+    <span
+      className={clsx("rounded-full border px-2 py-0.5", qualityPalette(quality.score))}
+      title={[
+        `Sharpness ${percent(quality.sharpness)}`,
+        `Exposure ${percent(quality.exposure)}`,
+        quality.faceSize === null ? null : `Face size ${percent(quality.faceSize)}`,
+      ]
+        .filter(Boolean)
+        .join(" · ")}
+    >
+      Quality {percent(quality.score)}
+      {notes.length ? ` · ${notes.join(", ")}` : ""}
+    </span>
+  );
+};
+
+/** Where a click lands on an `object-cover` image, as 0–1 fractions of the full photo. */
+const coverPointToImage = (image: HTMLImageElement, clientX: number, clientY: number) => {
+  const rect = image.getBoundingClientRect();
+  const scale = Math.max(rect.width / image.naturalWidth, rect.height / image.naturalHeight);
+  const shownWidth = image.naturalWidth * scale;
+  const shownHeight = image.naturalHeight * scale;
+  const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+  return {
+    u: clamp((clientX - rect.left - (rect.width - shownWidth) / 2) / shownWidth),
+    v: clamp((clientY - rect.top - (rect.height - shownHeight) / 2) / shownHeight),
+  };
+};
+
+const ColorSwatch = ({ color, label }: { color: string; label: string }) => (
+  <span
+    className="inline-block h-5 w-5 rounded-md border border-slate-700/70"
+    style={{ backgroundColor: color }}
+    title={`${label} ${color}`}
+  />
+);
+
 const UploadPanel = ({
   uploads,
+  fits,
+  quality,
+  faceChanges,
+  colorSuggestions,
+  hasHeadTexture,
+  pending,
+  issues,
+  maxSide,
   onUpload,
   onRemove,
+  onRoleChange,
+  onMove,
+  onAcceptFaceChanges,
+  onAcceptColors,
+  onPickColor,
+  onClearHeadTexture,
+  onDismissIssue,
+  onMaxSideChange,
 }: {
   uploads: UploadedImage[];
+  pending: { id: string; name: string }[];
+  issues: UploadIssue[];
+  maxSide: UploadMaxSide;
+  fits: Record<string, LandmarkFit | null>;
+  quality: Record<string, PhotoQuality | null>;
+  faceChanges: FaceParameterChange[];
+  colorSuggestions: ColorSuggestion[];
+  hasHeadTexture: boolean;
   onUpload: (files: FileList | null) => void;
   onRemove: (id: string) => void;
-}) => (
-  <section className={clsx(cardClass, "p-6")} aria-labelledby="upload-title">
-    <div className="flex items-center justify-between">
-      <div>
-        <h2 id="upload-title" className="text-sm font-semibold text-slate-200">
-          Reference Photography
-        </h2>
-        <p className="text-xs text-slate-400">
-          Upload 1-5 photos for photogrammetry alignment.
-        </p>
+  onRoleChange: (id: string, role: PhotoRole) => void;
+  onMove: (id: string, toIndex: number) => void;
+  onAcceptFaceChanges: () => void;
+  onAcceptColors: () => void;
+  onPickColor: (target: ColorTarget, color: string) => void;
+  onClearHeadTexture: () => void;
+  onDismissIssue: (id: string) => void;
+  onMaxSideChange: (maxSide: UploadMaxSide) => void;
+}) => {
+  const used = uploads.length + pending.length;
+  const [overlayId, setOverlayId] = useState<string | null>(null);
+  const [dismissedChanges, setDismissedChanges] = useState<string | null>(null);
+  const [dismissedColors, setDismissedColors] = useState<string | null>(null);
+  const [eyedropper, setEyedropper] = useState<ColorTarget | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const changesKey = faceChanges.map((change) => `${change.key}:${change.to}`).join("|");
+  const colorsKey = colorSuggestions.map((entry) => `${entry.target}:${entry.to}`).join("|");
+
+  const handlePick = (event: React.MouseEvent<HTMLButtonElement>, image: UploadedImage) => {
+    const element = event.currentTarget.querySelector("img");
+    if (!eyedropper || !element) return;
+    const target = eyedropper;
+    const { u, v } = coverPointToImage(element, event.clientX, event.clientY);
+    setEyedropper(null);
+    pickPhotoColor(image.src, u, v)
+      .then((color) => onPickColor(target, color))
+      .catch((error) => console.warn(`Could not pick a colour from ${image.name}`, error));
+  };
+
+  return (
+    <section className={clsx(cardClass, "p-6")} aria-labelledby="upload-title">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 id="upload-title" className="text-sm font-semibold text-slate-200">
+            Reference Photography
+          </h2>
+          <p className="text-xs text-slate-400">
+            Upload up to {uploadLimits.maxFiles} photos; faces are landmark-fitted to suggest a
+            face shape.
+          </p>
+          <p className="text-xs text-slate-400">
+            Front photos shape the face; front and profile photos texture it. Drag to reorder.
+          </p>
+          <p className="text-xs text-slate-500">
+            {used} of {uploadLimits.maxFiles} · JPEG, PNG, WebP, GIF, BMP or AVIF up to{" "}
+            {Math.round(uploadLimits.maxFileBytes / (1024 * 1024))} MB · location data is removed
+          </p>
+        </div>
+        <label
+          className="cursor-pointer rounded-full border border-dashed border-slate-700/70 px-3 py-1 text-xs text-slate-200 hover:border-violet-400/70 focus-within:outline focus-within:outline-2 focus-within:outline-offset-2 focus-within:outline-violet-400"
+          aria-label="Upload reference photography"
+        >
+          <input
+            type="file"
+            accept="image/jpeg,image/png,image/webp,image/gif,image/bmp,image/avif"
+            multiple
+            className="sr-only"
+            onChange={(event) => onUpload(event.target.files)}
+          />
+          Add images
+        </label>
       </div>
-      <label
-        className="cursor-pointer rounded-full border border-dashed border-slate-700/70 px-3 py-1 text-xs text-slate-200 hover:border-violet-400/70 focus-within:outline focus-within:outline-2 focus-within:outline-offset-2 focus-within:outline-violet-400"
-        aria-label="Upload reference photography"
-      >
-        <input
-          type="file"
-          accept="image/*"
-          multiple
-          className="sr-only"
-          onChange={(event) => onUpload(event.target.files)}
-        />
-        Add images
-      </label>
-    </div>
-    <ul className="mt-4 flex flex-col gap-3">
-      {uploads.length === 0 ? (
-        <li className="rounded-xl border border-slate-800/70 bg-slate-900/50 p-4 text-xs text-slate-500">
-          No images yet. Drop images anywhere on the canvas or use the button above.
-        </li>
-      ) : (
-        uploads.map((image) => (
+      <ul className="mt-4 flex flex-col gap-3">
+        {uploads.length === 0 && pending.length === 0 ? (
+          <li className="rounded-xl border border-slate-800/70 bg-slate-900/50 p-4 text-xs text-slate-500">
+            No images yet. Drop images anywhere on the canvas or use the button above.
+          </li>
+        ) : (
+          uploads.map((image, index) => {
+            const fit = fits[image.id];
+            const details = captureSummary(image);
+            const endDrag = () => {
+              setDraggedId(null);
+              setDropTargetId(null);
+            };
+            return (
+              <li
+                key={image.id}
+                draggable
+                onDragStart={(event) => {
+                  event.dataTransfer.effectAllowed = "move";
+                  event.dataTransfer.setData("text/plain", image.id);
+                  setDraggedId(image.id);
+                }}
+                onDragEnd={endDrag}
+                onDragOver={(event) => {
+                  if (!draggedId) return;
+                  event.preventDefault();
+                  event.dataTransfer.dropEffect = "move";
+                  setDropTargetId(image.id);
+                }}
+                onDrop={(event) => {
+                  if (!draggedId) return;
+                  // Keep the page-wide photo drop handler from seeing a reorder.
+                  event.preventDefault();
+                  event.stopPropagation();
+                  onMove(draggedId, index);
+                  endDrag();
+                }}
+                className={clsx(
+                  "flex flex-col gap-3 rounded-xl border bg-slate-900/50 p-3",
+                  dropTargetId === image.id && draggedId !== image.id
+                    ? "border-violet-400/70"
+                    : "border-slate-800/70",
+                  draggedId === image.id && "opacity-60",
+                )}
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex items-center gap-3">
+                    {eyedropper ? (
+                      <button
+                        type="button"
+                        className="cursor-crosshair rounded-lg ring-2 ring-violet-400/70"
+                        aria-label={`Pick ${colorTargetLabels[eyedropper]} from ${image.name}`}
+                        onClick={(event) => handlePick(event, image)}
+                      >
+                        <Image
+                          src={image.src}
+                          alt={`${image.name} preview`}
+                          width={48}
+                          height={48}
+                          className="h-12 w-12 rounded-lg object-cover"
+                          unoptimized
+                        />
+                      </button>
+                    ) : (
+                      <Image
+                        src={image.src}
+                        alt={`${image.name} preview`}
+                        width={48}
+                        height={48}
+                        className="h-12 w-12 rounded-lg object-cover"
+                        unoptimized
+                      />
+                    )}
+                    <div className="flex flex-col">
+                      <span className="text-sm font-medium text-slate-200">
+                        {image.name}
+                      </span>
+                      <span className="text-xs text-slate-400">
+                        {formatFileSize(image.size)} · {fitSummary(fit)}
+                      </span>
+                      {details ? <span className="text-xs text-slate-500">{details}</span> : null}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      className={chipButtonClass}
+                      aria-label={`Move ${image.name} up`}
+                      disabled={index === 0}
+                      onClick={() => onMove(image.id, index - 1)}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      className={chipButtonClass}
+                      aria-label={`Move ${image.name} down`}
+                      disabled={index === uploads.length - 1}
+                      onClick={() => onMove(image.id, index + 1)}
+                    >
+                      ↓
+                    </button>
+                    {fit ? (
+                      <button
+                        type="button"
+                        className={chipButtonClass}
+                        aria-expanded={overlayId === image.id}
+                        onClick={() => setOverlayId(overlayId === image.id ? null : image.id)}
+                      >
+                        {overlayId === image.id ? "Hide fit" : "Show fit"}
+                      </button>
+                    ) : null}
+                    <button
+                      type="button"
+                      className="rounded-full border border-transparent bg-slate-800/80 px-3 py-1 text-xs text-slate-300 hover:border-slate-500 hover:text-white focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-violet-400"
+                      onClick={() => onRemove(image.id)}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+                  <label className="flex items-center gap-2">
+                    <span>Shows</span>
+                    <select
+                      value={image.role ?? ""}
+                      onChange={(event) => onRoleChange(image.id, event.target.value as PhotoRole)}
+                      className="rounded-lg border border-slate-700/60 bg-slate-900/60 px-2 py-1 text-xs text-slate-200"
+                    >
+                      {image.role === null ? (
+                        <option value="" disabled>
+                          Detecting…
+                        </option>
+                      ) : null}
+                      {photoRoles.map((role) => (
+                        <option key={role} value={role}>
+                          {photoRoleLabels[role]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <QualityBadge quality={quality[image.id]} />
+                </div>
+                {fit && overlayId === image.id ? <LandmarkOverlay image={image} fit={fit} /> : null}
+              </li>
+            );
+          })
+        )}
+        {pending.map((entry) => (
           <li
-            key={image.id}
-            className="flex items-center justify-between gap-3 rounded-xl border border-slate-800/70 bg-slate-900/50 p-3"
+            key={entry.id}
+            className="rounded-xl border border-dashed border-slate-800/70 p-3 text-xs text-slate-400"
+            aria-busy
           >
-            <div className="flex items-center gap-3">
-              <Image
-                src={image.src}
-                alt={`${image.name} preview`}
-                width={48}
-                height={48}
-                className="h-12 w-12 rounded-lg object-cover"
-                unoptimized
-              />
-              <div className="flex flex-col">
-                <span className="text-sm font-medium text-slate-200">
-                  {image.name}
+            Preparing {entry.name}…
+          </li>
+        ))}
+      </ul>
+      {issues.length ? (
+        <ul className="mt-3 space-y-2" role="alert">
+          {issues.map((issue) => (
+            <li
+              key={issue.id}
+              className="flex items-start justify-between gap-3 rounded-xl border border-rose-500/30 bg-rose-500/10 px-3 py-2 text-xs text-rose-100"
+            >
+              <span>
+                <span className="font-medium">{issue.name}</span>: {issue.message}
+              </span>
+              <button
+                type="button"
+                className={chipButtonClass}
+                onClick={() => onDismissIssue(issue.id)}
+              >
+                Dismiss
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      <label className="mt-3 flex items-center justify-between gap-2 text-xs text-slate-400">
+        <span>Store photos at most</span>
+        <select
+          value={maxSide}
+          onChange={(event) => onMaxSideChange(Number(event.target.value) as UploadMaxSide)}
+          className="rounded-lg border border-slate-700/60 bg-slate-900/60 px-2 py-1 text-xs text-slate-200"
+        >
+          {uploadMaxSides.map((side) => (
+            <option key={side} value={side}>
+              {side} px
+            </option>
+          ))}
+        </select>
+      </label>
+      {hasHeadTexture ? (
+        <div className="mt-3 flex items-center justify-between gap-2 text-xs text-slate-400">
+          <span>The head wears a texture baked from these photos.</span>
+          <button type="button" className={chipButtonClass} onClick={onClearHeadTexture}>
+            Remove texture
+          </button>
+        </div>
+      ) : null}
+      {uploads.length ? (
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-slate-400">
+          <span>Eyedropper:</span>
+          {(Object.keys(colorTargetLabels) as ColorTarget[]).map((target) => (
+            <button
+              key={target}
+              type="button"
+              className={clsx(
+                chipButtonClass,
+                eyedropper === target && "border-violet-400/70 text-violet-200",
+              )}
+              aria-pressed={eyedropper === target}
+              onClick={() => setEyedropper(eyedropper === target ? null : target)}
+            >
+              {colorTargetLabels[target]}
+            </button>
+          ))}
+          {eyedropper ? <span>Click a thumbnail to sample it.</span> : null}
+        </div>
+      ) : null}
+      {colorSuggestions.length && colorsKey !== dismissedColors ? (
+        <div className="mt-4 space-y-3 rounded-xl border border-violet-500/30 bg-violet-500/10 p-4">
+          <h3 className="text-xs font-semibold uppercase tracking-[0.2em] text-violet-200">
+            Colours from photos
+          </h3>
+          <ul className="space-y-2 text-xs text-slate-300">
+            {colorSuggestions.map((entry) => (
+              <li key={entry.target} className="flex items-center justify-between gap-4">
+                <span>{entry.label}</span>
+                <span className="flex items-center gap-2 tabular-nums text-slate-400">
+                  <ColorSwatch color={entry.from} label="Current" />
+                  →
+                  <ColorSwatch color={entry.to} label="Sampled" />
+                  {entry.to} · {Math.round(entry.confidence * 100)}%
                 </span>
-                <span className="text-xs text-slate-400">
-                  {formatFileSize(image.size)}
+              </li>
+            ))}
+          </ul>
+          <div className="flex gap-2">
+            <button type="button" className={chipButtonClass} onClick={onAcceptColors}>
+              Apply
+            </button>
+            <button
+              type="button"
+              className={chipButtonClass}
+              onClick={() => setDismissedColors(colorsKey)}
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      ) : null}
+      {faceChanges.length && changesKey !== dismissedChanges ? (
+        <div className="mt-4 space-y-3 rounded-xl border border-violet-500/30 bg-violet-500/10 p-4">
+          <h3 className="text-xs font-semibold uppercase tracking-[0.2em] text-violet-200">
+            Suggested from photos
+          </h3>
+          <ul className="space-y-1 text-xs text-slate-300">
+            {faceChanges.map((change) => (
+              <li key={`${change.section}.${change.key}`} className="flex justify-between gap-4">
+                <span>{change.label}</span>
+                <span className="tabular-nums text-slate-400">
+                  {Math.round(change.from * 100)}% → {Math.round(change.to * 100)}%
                 </span>
-              </div>
-            </div>
+              </li>
+            ))}
+          </ul>
+          <div className="flex gap-2">
+            <button type="button" className={chipButtonClass} onClick={onAcceptFaceChanges}>
+              Apply
+            </button>
             <button
               type="button"
-              className="rounded-full border border-transparent bg-slate-800/80 px-3 py-1 text-xs text-slate-300 hover:border-slate-500 hover:text-white focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-violet-400"
-              onClick={() => onRemove(image.id)}
+              className={chipButtonClass}
+              onClick={() => setDismissedChanges(changesKey)}
             >
-              Remove
+              Dismiss
             </button>
-          </li>
-        ))
-      )}
-    </ul>
-  </section>
-);
+          </div>
+        </div>
+      ) : null}
+    </section>
+  );
+};
 
 const ActionBar = ({
   onGenerate,
+  onCancelGeneration,
   onSave,
   onExport,
+  onDownloadDocument,
+  onImportDocument,
   onShare,
   status,
+  stageLabel,
+  generationError,
   hasAvatar,
+  isExporting,
+  documentMessage,
   lastSavedIso,
 }: {
   onGenerate: () => void;
+  onCancelGeneration: () => void;
   onSave: () => void;
   onExport: (format: ExportFormat) => void;
-  onShare: () => Promise<"shared" | "copied">;
+  onDownloadDocument: () => void;
+  onImportDocument: (file: File) => void;
+  /** Resolves to null when the link was not shared, such as after dismissing the share sheet. */
+  onShare: (mode: ShareLinkMode) => Promise<"shared" | "copied" | null>;
   status: AvatarStatus;
+  stageLabel: string | null;
+  generationError: string | null;
   hasAvatar: boolean;
+  isExporting: boolean;
+  documentMessage: string | null;
   lastSavedIso?: string;
 }) => {
-  const [feedback, setFeedback] = useState<"copied" | "shared" | null>(null);
+  const [feedback, setFeedback] = useState<{
+    mode: ShareLinkMode;
+    result: "copied" | "shared";
+  } | null>(null);
 
   return (
     <section className={clsx(cardClass, "p-6 space-y-4")}>
@@ -366,15 +1006,19 @@ const ActionBar = ({
                 ? "bg-amber-300 animate-pulse"
                 : status === "ready"
                   ? "bg-emerald-300"
-                  : "bg-slate-500",
+                  : status === "error"
+                    ? "bg-rose-400"
+                    : "bg-slate-500",
             )}
             aria-hidden
           />
           {status === "processing"
-            ? "Generating avatar"
+            ? `Generating avatar${stageLabel ? ` · ${stageLabel}` : ""}`
             : status === "ready"
               ? "Avatar ready"
-              : "Idle"}
+              : status === "error"
+                ? "Generation failed"
+                : "Idle"}
         </span>
         {lastSavedIso ? (
           <span className="text-xs text-slate-400">
@@ -383,14 +1027,20 @@ const ActionBar = ({
         ) : null}
       </div>
       <div className="flex flex-wrap gap-3">
-        <button
-          type="button"
-          className={buttonPrimary}
-          onClick={onGenerate}
-          aria-label="Generate photorealistic avatar"
-        >
-          Generate Avatar
-        </button>
+        {status === "processing" ? (
+          <button type="button" className={buttonPrimary} onClick={onCancelGeneration}>
+            Cancel Generation
+          </button>
+        ) : (
+          <button
+            type="button"
+            className={buttonPrimary}
+            onClick={onGenerate}
+            aria-label="Generate photorealistic avatar"
+          >
+            Generate Avatar
+          </button>
+        )}
         <button
           type="button"
           className={buttonSecondary}
@@ -399,38 +1049,67 @@ const ActionBar = ({
         >
           Save Preset
         </button>
-        <button
-          type="button"
-          className={buttonSecondary}
-          onClick={() => onExport("gltf")}
-          disabled={!hasAvatar}
-        >
-          Export glTF
+        <button type="button" className={buttonSecondary} onClick={onDownloadDocument}>
+          Download {avatarDocumentExtension}
         </button>
-        <button
-          type="button"
-          className={buttonSecondary}
-          onClick={() => onExport("fbx")}
-          disabled={!hasAvatar}
+        <label
+          className={clsx(buttonSecondary, "cursor-pointer focus-within:outline focus-within:outline-2 focus-within:outline-offset-2 focus-within:outline-violet-400")}
         >
-          Export FBX
-        </button>
-        <button
-          type="button"
-          className={buttonSecondary}
-          onClick={async () => {
-            const result = await onShare();
-            setFeedback(result);
-            setTimeout(() => setFeedback(null), 2200);
-          }}
-        >
-          {feedback === "copied"
-            ? "Link copied"
-            : feedback === "shared"
-              ? "Shared!"
-              : "Share"}
-        </button>
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="sr-only"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) onImportDocument(file);
+              event.target.value = "";
+            }}
+          />
+          Import {avatarDocumentExtension}
+        </label>
+        {(Object.keys(exportTargets) as ExportFormat[]).map((format) => (
+          <button
+            key={format}
+            type="button"
+            className={buttonSecondary}
+            onClick={() => onExport(format)}
+            disabled={!hasAvatar || isExporting}
+          >
+            {exportTargets[format].label}
+          </button>
+        ))}
+        {(["edit", "view"] as const).map((mode) => (
+          <button
+            key={mode}
+            type="button"
+            className={buttonSecondary}
+            onClick={async () => {
+              const result = await onShare(mode);
+              if (!result) return;
+              setFeedback({ mode, result });
+              setTimeout(() => setFeedback(null), 2200);
+            }}
+          >
+            {feedback?.mode === mode
+              ? feedback.result === "copied"
+                ? "Link copied"
+                : "Shared!"
+              : mode === "view"
+                ? "Share View-Only"
+                : "Share"}
+          </button>
+        ))}
       </div>
+      {status === "error" && generationError ? (
+        <p className="text-xs text-rose-300" role="alert">
+          {generationError}
+        </p>
+      ) : null}
+      {documentMessage ? (
+        <p className={helpTextClass} role="status" aria-live="polite">
+          {documentMessage}
+        </p>
+      ) : null}
     </section>
   );
 };
@@ -698,6 +1377,1034 @@ const parameterSections: {
   },
 ];
 
+const ExportSettingsPanel = ({
+  settings,
+  onChange,
+}: {
+  settings: ExportSettings;
+  onChange: (settings: ExportSettings) => void;
+}) => {
+  const update = <K extends keyof ExportSettings>(key: K, value: ExportSettings[K]) =>
+    onChange({ ...settings, [key]: value });
+
+  return (
+    <Section title="Export Settings">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <ControlSelect
+          id="export-unit"
+          label="Unit Scale"
+          value={settings.unit}
+          options={[
+            { label: "Metres", value: "m" },
+            { label: "Centimetres", value: "cm" },
+          ]}
+          onChange={(value) => update("unit", value)}
+        />
+        <ControlSelect
+          id="export-up-axis"
+          label="Up Axis"
+          value={settings.upAxis}
+          options={axisOptions}
+          onChange={(value) =>
+            onChange({
+              ...settings,
+              upAxis: value,
+              forwardAxis: isPerpendicularAxis(value, settings.forwardAxis)
+                ? settings.forwardAxis
+                : defaultForwardFor(value),
+            })
+          }
+        />
+        <ControlSelect
+          id="export-forward-axis"
+          label="Forward Axis"
+          value={settings.forwardAxis}
+          options={axisOptions.filter((option) =>
+            isPerpendicularAxis(option.value, settings.upAxis),
+          )}
+          onChange={(value) => update("forwardAxis", value)}
+        />
+      </div>
+      <p className={helpTextClass}>
+        Applies to FBX, OBJ and STL. glTF, GLB and USDZ are always Y-up metres by specification.
+      </p>
+      <ControlSelect
+        id="export-textures"
+        label="Textures"
+        value={settings.textureMode}
+        options={[
+          { label: "Embedded in the file", value: "embedded" },
+          { label: "External files (zipped)", value: "external" },
+        ]}
+        onChange={(value) => update("textureMode", value)}
+        description="GLB and USDZ always embed; OBJ always ships its textures alongside."
+      />
+      <ControlToggle
+        id="export-triangulate"
+        label="Triangulate"
+        checked={settings.triangulate}
+        onChange={(value) => update("triangulate", value)}
+        description="When off, FBX and OBJ keep quads wherever the surface was built from them."
+      />
+      <ControlToggle
+        id="export-bake-pose"
+        label="Bake Cloth & Hair Pose"
+        checked={settings.bakePose}
+        onChange={(value) => update("bakePose", value)}
+        description="Export the current simulation frame instead of the rest pose."
+      />
+      <label htmlFor="export-file-name" className="flex flex-col gap-2">
+        <span className={labelClass}>File Name</span>
+        <input
+          id="export-file-name"
+          type="text"
+          value={settings.fileNameTemplate}
+          onChange={(event) => update("fileNameTemplate", event.target.value)}
+          className="rounded-lg border border-slate-800/70 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 shadow-inner focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-violet-400"
+          spellCheck={false}
+        />
+        <span className={helpTextClass}>
+          Tokens: {fileNameTokens.join(" ")}
+        </span>
+      </label>
+    </Section>
+  );
+};
+
+const inputClass =
+  "rounded-lg border border-slate-800/70 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 shadow-inner focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-violet-400";
+
+const chipButtonClass =
+  "rounded-full border border-slate-700/60 px-2.5 py-0.5 text-[11px] text-slate-300 hover:border-violet-400/50 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-violet-400 disabled:cursor-not-allowed disabled:opacity-40";
+
+const PresetLibraryPanel = ({
+  presets,
+  onSave,
+  onLoad,
+  onOverwrite,
+  onDuplicate,
+  onRename,
+  onRetag,
+  onDelete,
+}: {
+  presets: AvatarPreset[];
+  onSave: (name: string, tags: string[]) => void;
+  onLoad: (preset: AvatarPreset) => void;
+  onOverwrite: (preset: AvatarPreset) => void;
+  onDuplicate: (preset: AvatarPreset) => void;
+  onRename: (preset: AvatarPreset, name: string) => void;
+  onRetag: (preset: AvatarPreset, tags: string[]) => void;
+  onDelete: (preset: AvatarPreset) => void;
+}) => {
+  const [name, setName] = useState("");
+  const [tags, setTags] = useState("");
+  const [query, setQuery] = useState("");
+  const [editing, setEditing] = useState<{ id: string; name: string; tags: string } | null>(null);
+
+  const filtered = useMemo(() => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return presets.filter((preset) =>
+      terms.every(
+        (term) =>
+          preset.name.toLowerCase().includes(term) || preset.tags.some((tag) => tag.includes(term)),
+      ),
+    );
+  }, [presets, query]);
+
+  const commitEdit = (preset: AvatarPreset) => {
+    if (!editing) return;
+    if (editing.name.trim() && editing.name.trim() !== preset.name) onRename(preset, editing.name);
+    const nextTags = normalizeTags(editing.tags);
+    if (nextTags.join(",") !== preset.tags.join(",")) onRetag(preset, nextTags);
+    setEditing(null);
+  };
+
+  return (
+    <Section title="Preset Library">
+      <form
+        className="flex flex-col gap-3"
+        onSubmit={(event) => {
+          event.preventDefault();
+          onSave(name, normalizeTags(tags));
+          setName("");
+          setTags("");
+        }}
+      >
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="Preset name"
+            aria-label="Preset name"
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={tags}
+            onChange={(event) => setTags(event.target.value)}
+            placeholder="Tags, comma separated"
+            aria-label="Preset tags"
+            className={inputClass}
+          />
+        </div>
+        <button type="submit" className={clsx(buttonSecondary, "self-start")}>
+          Save Current Avatar
+        </button>
+      </form>
+
+      <input
+        type="search"
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+        placeholder={`Search ${presets.length} ${presets.length === 1 ? "preset" : "presets"} by name or tag`}
+        aria-label="Search presets"
+        className={clsx(inputClass, "w-full")}
+      />
+
+      <ul className="flex max-h-96 flex-col gap-3 overflow-y-auto pr-1">
+        {filtered.length === 0 ? (
+          <li className="rounded-xl border border-slate-800/70 bg-slate-900/50 p-4 text-xs text-slate-500">
+            {presets.length ? "No presets match this search." : "Saved presets will appear here."}
+          </li>
+        ) : (
+          filtered.map((preset) => (
+            <li
+              key={preset.id}
+              className="flex gap-3 rounded-xl border border-slate-800/70 bg-slate-900/50 p-3"
+            >
+              {preset.thumbnail ? (
+                <Image
+                  src={preset.thumbnail}
+                  alt={`${preset.name} thumbnail`}
+                  width={64}
+                  height={80}
+                  className="h-20 w-16 shrink-0 rounded-lg object-cover"
+                  unoptimized
+                />
+              ) : (
+                <div className="h-20 w-16 shrink-0 rounded-lg bg-slate-800/60" aria-hidden />
+              )}
+              <div className="flex min-w-0 flex-1 flex-col gap-2">
+                {editing?.id === preset.id ? (
+                  <div className="flex flex-col gap-2">
+                    <input
+                      type="text"
+                      value={editing.name}
+                      onChange={(event) => setEditing({ ...editing, name: event.target.value })}
+                      onKeyDown={(event) => {
+                        if (event.key === "Enter") commitEdit(preset);
+                        if (event.key === "Escape") setEditing(null);
+                      }}
+                      aria-label="Preset name"
+                      className={inputClass}
+                      autoFocus
+                    />
+                    <input
+                      type="text"
+                      value={editing.tags}
+                      onChange={(event) => setEditing({ ...editing, tags: event.target.value })}
+                      onKeyDown={(event) => {
+                        if (event.key === "Enter") commitEdit(preset);
+                        if (event.key === "Escape") setEditing(null);
+                      }}
+                      aria-label="Preset tags"
+                      className={inputClass}
+                    />
+                  </div>
+                ) : (
+                  <div className="flex flex-col gap-1">
+                    <span className="truncate text-sm font-medium text-slate-200">
+                      {preset.name}
+                    </span>
+                    <span className="text-xs text-slate-500">
+                      Updated {relativeTimeFromISO(preset.updatedAt) ?? "recently"} · Created{" "}
+                      {new Date(preset.createdAt).toLocaleDateString()}
+                    </span>
+                    {preset.tags.length ? (
+                      <span className="flex flex-wrap gap-1">
+                        {preset.tags.map((tag) => (
+                          <button
+                            key={tag}
+                            type="button"
+                            className="rounded-full bg-violet-500/15 px-2 py-0.5 text-[11px] text-violet-200 hover:bg-violet-500/25"
+                            onClick={() => setQuery(tag)}
+                          >
+                            #{tag}
+                          </button>
+                        ))}
+                      </span>
+                    ) : null}
+                  </div>
+                )}
+                <div className="flex flex-wrap gap-1.5">
+                  {editing?.id === preset.id ? (
+                    <>
+                      <button type="button" className={chipButtonClass} onClick={() => commitEdit(preset)}>
+                        Done
+                      </button>
+                      <button type="button" className={chipButtonClass} onClick={() => setEditing(null)}>
+                        Cancel
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button type="button" className={chipButtonClass} onClick={() => onLoad(preset)}>
+                        Load
+                      </button>
+                      <button
+                        type="button"
+                        className={chipButtonClass}
+                        onClick={() => onOverwrite(preset)}
+                      >
+                        Update
+                      </button>
+                      <button
+                        type="button"
+                        className={chipButtonClass}
+                        onClick={() =>
+                          setEditing({ id: preset.id, name: preset.name, tags: preset.tags.join(", ") })
+                        }
+                      >
+                        Rename
+                      </button>
+                      <button
+                        type="button"
+                        className={chipButtonClass}
+                        onClick={() => onDuplicate(preset)}
+                      >
+                        Duplicate
+                      </button>
+                      <button
+                        type="button"
+                        className={clsx(chipButtonClass, "hover:border-rose-400/60 hover:text-rose-200")}
+                        onClick={() => {
+                          if (window.confirm(`Delete "${preset.name}"?`)) onDelete(preset);
+                        }}
+                      >
+                        Delete
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </li>
+          ))
+        )}
+      </ul>
+    </Section>
+  );
+};
+
+const HistoryPanel = ({
+  history,
+  historyIndex,
+  onJump,
+}: {
+  history: HistoryEntry[];
+  historyIndex: number;
+  onJump: (index: number) => void;
+}) => (
+  <Section title="History">
+    <ol className="flex max-h-56 flex-col-reverse gap-1 overflow-y-auto pr-1" aria-label="Edit history">
+      {history.map((entry, index) => (
+        <li key={entry.id}>
+          <button
+            type="button"
+            onClick={() => onJump(index)}
+            aria-current={index === historyIndex ? "step" : undefined}
+            className={clsx(
+              "flex w-full items-center justify-between gap-3 rounded-lg px-3 py-1.5 text-left text-xs transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-violet-400",
+              index === historyIndex
+                ? "bg-violet-500/20 text-violet-100"
+                : index > historyIndex
+                  ? "text-slate-500 hover:bg-slate-800/50"
+                  : "text-slate-300 hover:bg-slate-800/50",
+            )}
+          >
+            <span className="truncate">{entry.label}</span>
+            {entry.timestamp ? (
+              <span className="shrink-0 text-[11px] text-slate-500">
+                {new Date(entry.timestamp).toLocaleTimeString()}
+              </span>
+            ) : null}
+          </button>
+        </li>
+      ))}
+    </ol>
+    <p className={helpTextClass}>Ctrl+Z to undo, Ctrl+Shift+Z to redo.</p>
+  </Section>
+);
+
+const expressionGroups: { title: string; names: readonly ExpressionName[] }[] = [
+  { title: "Eyes", names: arkitBlendshapeNames.filter((name) => name.startsWith("eye")) },
+  { title: "Brows", names: arkitBlendshapeNames.filter((name) => name.startsWith("brow")) },
+  { title: "Jaw", names: arkitBlendshapeNames.filter((name) => name.startsWith("jaw")) },
+  { title: "Mouth", names: arkitBlendshapeNames.filter((name) => name.startsWith("mouth")) },
+  {
+    title: "Cheeks, nose & tongue",
+    names: arkitBlendshapeNames.filter((name) => /^(cheek|nose|tongue)/.test(name)),
+  },
+  { title: "Visemes", names: visemeNames },
+];
+
+const ExpressionPanel = ({
+  expression,
+  onChange,
+  onApply,
+}: {
+  expression: ExpressionWeights;
+  onChange: (name: ExpressionName, value: number) => void;
+  onApply: (weights: ExpressionWeights) => void;
+}) => (
+  <Section title="Expressions">
+    <div className="flex flex-wrap gap-2" aria-label="Expression presets">
+      {expressionPresets.map((preset) => (
+        <button
+          key={preset.label}
+          type="button"
+          className={chipButtonClass}
+          onClick={() => onApply(preset.weights)}
+        >
+          {preset.label}
+        </button>
+      ))}
+    </div>
+    {expressionGroups.map((group) => (
+      <details key={group.title} className="group">
+        <summary className="cursor-pointer text-xs uppercase tracking-[0.2em] text-slate-400 hover:text-slate-200">
+          {group.title}
+        </summary>
+        <div className="mt-3 flex flex-col gap-3">
+          {group.names.map((name) => (
+            <ControlSlider
+              key={name}
+              id={`expression-${name}`}
+              label={name}
+              value={expression[name] ?? 0}
+              onChange={(value) => onChange(name, value)}
+            />
+          ))}
+        </div>
+      </details>
+    ))}
+    <p className={helpTextClass}>
+      Previews the ARKit blendshapes and visemes exported with the head. Expressions are not
+      saved with the avatar.
+    </p>
+  </Section>
+);
+
+const toneMappingLabels: Record<ToneMappingMode, string> = {
+  aces: "ACES Filmic",
+  agx: "AgX",
+  neutral: "Khronos PBR Neutral",
+  reinhard: "Reinhard",
+  cineon: "Cineon",
+  linear: "Linear",
+  none: "None",
+};
+
+const backgroundModeLabels: Record<(typeof backgroundModes)[number], string> = {
+  color: "Solid Colour",
+  environment: "HDRI",
+  blurred: "Blurred HDRI",
+};
+
+const formatDegrees = (value: number) => `${Math.round(value)}°`;
+const formatMultiplier = (value: number) => `${value.toFixed(2)}×`;
+
+const lightNames = ["key", "fill", "rim"] as const;
+
+const lightLabels: Record<(typeof lightNames)[number], string> = {
+  key: "Key Light",
+  fill: "Fill Light",
+  rim: "Rim Light",
+};
+
+/**
+ * Look-dev controls for the viewport: image-based lighting, the three
+ * directional lights, tone mapping and the backdrop. They also drive renders.
+ */
+const LightingPanel = () => {
+  const lighting = useAvatarStore((state) => state.lighting);
+  const setLighting = useAvatarStore((state) => state.setLighting);
+  const setValue = useAvatarStore((state) => state.setLightingValue);
+  const setCustomEnvironment = useAvatarStore((state) => state.setCustomEnvironment);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const { environment, background, output, customEnvironment } = lighting;
+
+  const sourceOptions = [
+    ...environmentPresets.map((preset) => ({
+      value: preset,
+      label: preset[0].toUpperCase() + preset.slice(1),
+    })),
+    ...(customEnvironment
+      ? [{ value: "custom" as const, label: `Uploaded: ${customEnvironment.name}` }]
+      : []),
+  ];
+
+  const handleUpload = async (file: File) => {
+    setUploadError(null);
+    try {
+      const uploaded = await readEnvironmentFile(file);
+      setCustomEnvironment(uploaded);
+      await saveStoredEnvironment(uploaded).catch((error) =>
+        console.warn("Failed to keep the HDR for the next session", error),
+      );
+    } catch (error) {
+      if (!(error instanceof EnvironmentImportError)) throw error;
+      setUploadError(error.message);
+    }
+  };
+
+  const lightControls = (name: (typeof lightNames)[number], light: LightSettings) => (
+    <details key={name} className="group">
+      <summary className="cursor-pointer text-xs uppercase tracking-[0.2em] text-slate-400 hover:text-slate-200">
+        {lightLabels[name]}
+      </summary>
+      <div className="mt-3 flex flex-col gap-3">
+        <ControlColor
+          id={`light-${name}-color`}
+          label="Colour"
+          value={light.color}
+          onChange={(color) => setValue(name, "color", color)}
+        />
+        <ControlSlider
+          id={`light-${name}-intensity`}
+          label="Intensity"
+          value={light.intensity}
+          {...lightingRanges.lightIntensity}
+          step={0.05}
+          format={formatMultiplier}
+          onChange={(intensity) => setValue(name, "intensity", intensity)}
+        />
+        <ControlSlider
+          id={`light-${name}-azimuth`}
+          label="Direction"
+          value={light.azimuth}
+          {...lightingRanges.angle}
+          step={1}
+          format={formatDegrees}
+          onChange={(azimuth) => setValue(name, "azimuth", azimuth)}
+          description="Degrees round from the front, towards the avatar's left."
+        />
+        <ControlSlider
+          id={`light-${name}-elevation`}
+          label="Height"
+          value={light.elevation}
+          {...lightingRanges.elevation}
+          step={1}
+          format={formatDegrees}
+          onChange={(elevation) => setValue(name, "elevation", elevation)}
+        />
+      </div>
+    </details>
+  );
+
+  return (
+    <Section title="Lighting">
+      <ControlSelect
+        id="lighting-environment"
+        label="Environment"
+        value={environment.source}
+        options={sourceOptions}
+        onChange={(source) => setValue("environment", "source", source)}
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <label className={clsx(chipButtonClass, "cursor-pointer")}>
+          <input
+            type="file"
+            accept=".hdr"
+            className="sr-only"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) void handleUpload(file);
+              event.target.value = "";
+            }}
+          />
+          Upload .hdr
+        </label>
+        {customEnvironment ? (
+          <button
+            type="button"
+            className={chipButtonClass}
+            onClick={() => setCustomEnvironment(null)}
+          >
+            Remove upload
+          </button>
+        ) : null}
+      </div>
+      {uploadError ? (
+        <p className="text-xs text-rose-300" role="alert">
+          {uploadError}
+        </p>
+      ) : null}
+      <ControlSlider
+        id="lighting-environment-intensity"
+        label="Environment Intensity"
+        value={environment.intensity}
+        {...lightingRanges.environmentIntensity}
+        step={0.05}
+        format={formatMultiplier}
+        onChange={(intensity) => setValue("environment", "intensity", intensity)}
+      />
+      <ControlSlider
+        id="lighting-environment-rotation"
+        label="Environment Rotation"
+        value={environment.rotation}
+        {...lightingRanges.angle}
+        step={1}
+        format={formatDegrees}
+        onChange={(rotation) => setValue("environment", "rotation", rotation)}
+      />
+      <ControlSlider
+        id="lighting-ambient"
+        label="Ambient"
+        value={environment.ambient}
+        {...lightingRanges.ambient}
+        step={0.05}
+        format={formatMultiplier}
+        onChange={(ambient) => setValue("environment", "ambient", ambient)}
+      />
+      {lightNames.map((name) => lightControls(name, lighting[name]))}
+      <ControlSelect
+        id="lighting-tone-mapping"
+        label="Tone Mapping"
+        value={output.toneMapping}
+        options={toneMappingModes.map((mode) => ({ value: mode, label: toneMappingLabels[mode] }))}
+        onChange={(toneMapping) => setValue("output", "toneMapping", toneMapping)}
+      />
+      <ControlSlider
+        id="lighting-exposure"
+        label="Exposure"
+        value={output.exposure}
+        {...lightingRanges.exposure}
+        step={0.05}
+        format={formatMultiplier}
+        onChange={(exposure) => setValue("output", "exposure", exposure)}
+      />
+      <ControlSelect
+        id="lighting-background"
+        label="Background"
+        value={background.mode}
+        options={backgroundModes.map((mode) => ({
+          value: mode,
+          label: backgroundModeLabels[mode],
+        }))}
+        onChange={(mode) => setValue("background", "mode", mode)}
+      />
+      {background.mode === "color" ? (
+        <ControlColor
+          id="lighting-background-color"
+          label="Background Colour"
+          value={background.color}
+          onChange={(color) => setValue("background", "color", color)}
+        />
+      ) : null}
+      {background.mode === "blurred" ? (
+        <ControlSlider
+          id="lighting-background-blur"
+          label="Background Blur"
+          value={background.blur}
+          onChange={(blur) => setValue("background", "blur", blur)}
+        />
+      ) : null}
+      <button
+        type="button"
+        className={clsx(buttonSecondary, "self-start")}
+        onClick={() => setLighting({ ...defaultLighting, customEnvironment })}
+      >
+        Reset Lighting
+      </button>
+      <p className={helpTextClass}>
+        Saved with the avatar document, uploaded HDR included, so look-dev can be reproduced.
+      </p>
+    </Section>
+  );
+};
+
+/**
+ * Pose mode's controls. The pose itself is edited with the handles in the
+ * viewport; this panel mirrors, resets and saves it by name.
+ */
+const PosePanel = () => {
+  const poseMode = useAvatarStore((state) => state.poseMode);
+  const savedPoses = useAvatarStore((state) => state.savedPoses);
+  const setPoseMode = useAvatarStore((state) => state.setPoseMode);
+  const mirrorPose = useAvatarStore((state) => state.mirrorPose);
+  const resetPose = useAvatarStore((state) => state.resetPose);
+  const savePose = useAvatarStore((state) => state.savePose);
+  const loadSavedPose = useAvatarStore((state) => state.loadSavedPose);
+  const deleteSavedPose = useAvatarStore((state) => state.deleteSavedPose);
+  const [name, setName] = useState("");
+
+  return (
+    <Section title="Pose">
+      <ControlToggle
+        id="pose-mode"
+        label="Pose Mode"
+        checked={poseMode}
+        onChange={setPoseMode}
+        description="Holds a still pose in place of the animation clip."
+      />
+      {poseMode ? (
+        <>
+          <div className="flex flex-wrap gap-2">
+            <button type="button" className={chipButtonClass} onClick={mirrorPose}>
+              Mirror
+            </button>
+            <button type="button" className={chipButtonClass} onClick={resetPose}>
+              Reset
+            </button>
+          </div>
+          <form
+            className="flex gap-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              savePose(name);
+              setName("");
+            }}
+          >
+            <input
+              type="text"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="Pose name"
+              aria-label="Pose name"
+              className={clsx(inputClass, "min-w-0 flex-1")}
+            />
+            <button type="submit" className={buttonSecondary} disabled={!name.trim()}>
+              Save Pose
+            </button>
+          </form>
+        </>
+      ) : null}
+      {savedPoses.length ? (
+        <ul className="flex flex-col gap-2">
+          {savedPoses.map((saved) => (
+            <li key={saved.name} className="flex items-center justify-between gap-3">
+              <span className="truncate text-sm text-slate-200">{saved.name}</span>
+              <span className="flex shrink-0 gap-2">
+                <button
+                  type="button"
+                  className={chipButtonClass}
+                  onClick={() => loadSavedPose(saved.name)}
+                >
+                  Apply
+                </button>
+                <button
+                  type="button"
+                  className={chipButtonClass}
+                  onClick={() => deleteSavedPose(saved.name)}
+                  aria-label={`Delete pose ${saved.name}`}
+                >
+                  Delete
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      <p className={helpTextClass}>
+        Click a joint to turn it, a box by a hand or foot to drag the limb, or the diamond in
+        front of the face to aim the head and eyes. Screenshots and exports use the pose while
+        pose mode is on; saved poses travel with the avatar document.
+      </p>
+    </Section>
+  );
+};
+
+const renderViewOptions = renderViews.map((view) => ({
+  value: view,
+  label: renderViewLabels[view],
+}));
+
+const turntableSizes = [256, 512, 720, 1080];
+const turntableFrameCounts = [24, 36, 72, 120];
+const turntableFrameRates = [12, 24, 30];
+
+const toOptions = (values: number[], unit: string) =>
+  values.map((value) => ({ value: String(value), label: `${value} ${unit}` }));
+
+/**
+ * Offscreen stills and turntables, rendered at their own size rather than
+ * the viewport's. Rendering itself happens in the studio, which holds the scene.
+ */
+const RenderPanel = ({
+  busy,
+  status,
+  onRenderImage,
+  onRenderTurntable,
+}: {
+  busy: boolean;
+  status: string | null;
+  onRenderImage: (settings: ImageRenderSettings) => void;
+  onRenderTurntable: (settings: TurntableSettings) => void;
+}) => {
+  const [image, setImage] = useState(defaultImageRenderSettings);
+  const [turntable, setTurntable] = useState(defaultTurntableSettings);
+
+  const sizeInput = (side: "width" | "height") => (
+    <label className="flex flex-col gap-2">
+      <span className={labelClass}>{side === "width" ? "Width" : "Height"}</span>
+      <input
+        type="number"
+        min={16}
+        max={maxRenderSize}
+        step={1}
+        value={image[side]}
+        onChange={(event) => setImage({ ...image, [side]: Number(event.target.value) })}
+        className={inputClass}
+      />
+    </label>
+  );
+
+  return (
+    <Section title="Render">
+      <div className="grid grid-cols-2 gap-3">
+        {sizeInput("width")}
+        {sizeInput("height")}
+      </div>
+      <ControlSelect
+        id="render-view"
+        label="Camera"
+        value={image.view}
+        options={renderViewOptions}
+        onChange={(view) => setImage({ ...image, view })}
+      />
+      <ControlSelect
+        id="render-format"
+        label="Format"
+        value={image.format}
+        options={[
+          { value: "png", label: "PNG" },
+          { value: "exr", label: "EXR (linear HDR)" },
+        ]}
+        onChange={(format) => setImage({ ...image, format })}
+      />
+      <ControlToggle
+        id="render-transparent"
+        label="Transparent Background"
+        checked={image.transparent}
+        onChange={(transparent) => setImage({ ...image, transparent })}
+      />
+      <button
+        type="button"
+        className={clsx(buttonSecondary, "self-start")}
+        disabled={busy}
+        onClick={() => onRenderImage(image)}
+      >
+        Render Image
+      </button>
+
+      <div className="grid grid-cols-2 gap-3">
+        <ControlSelect
+          id="turntable-size"
+          label="Frame Size"
+          value={String(turntable.size)}
+          options={toOptions(turntableSizes, "px")}
+          onChange={(size) => setTurntable({ ...turntable, size: Number(size) })}
+        />
+        <ControlSelect
+          id="turntable-frames"
+          label="Frames"
+          value={String(turntable.frames)}
+          options={toOptions(turntableFrameCounts, "frames")}
+          onChange={(frames) => setTurntable({ ...turntable, frames: Number(frames) })}
+        />
+        <ControlSelect
+          id="turntable-fps"
+          label="Frame Rate"
+          value={String(turntable.fps)}
+          options={toOptions(turntableFrameRates, "fps")}
+          onChange={(fps) => setTurntable({ ...turntable, fps: Number(fps) })}
+        />
+        <ControlSelect
+          id="turntable-format"
+          label="Format"
+          value={turntable.format}
+          options={[
+            { value: "gif", label: "GIF" },
+            { value: "webm", label: "WebM" },
+          ]}
+          onChange={(format) => setTurntable({ ...turntable, format })}
+        />
+      </div>
+      <ControlSelect
+        id="turntable-view"
+        label="Starting Camera"
+        value={turntable.view}
+        options={renderViewOptions}
+        onChange={(view) => setTurntable({ ...turntable, view })}
+      />
+      <ControlToggle
+        id="turntable-transparent"
+        label="Transparent Background"
+        checked={turntable.transparent}
+        onChange={(transparent) => setTurntable({ ...turntable, transparent })}
+        description="GIF only; WebM keeps the background."
+      />
+      <button
+        type="button"
+        className={clsx(buttonSecondary, "self-start")}
+        disabled={busy}
+        onClick={() => onRenderTurntable(turntable)}
+      >
+        Render Turntable
+      </button>
+      {status ? (
+        <p className={helpTextClass} role="status">
+          {status}
+        </p>
+      ) : null}
+    </Section>
+  );
+};
+
+const clipSpeeds = [0.25, 0.5, 1, 1.5, 2];
+
+const formatClipTime = (seconds: number) => `${seconds.toFixed(2)} s`;
+
+/**
+ * Clip picker, transport and scrubber under the viewport. It follows the
+ * playing time itself, so the rest of the studio does not re-render with it.
+ */
+const AnimationTimeline = () => {
+  const clips = useAvatarStore((state) => state.animationClips);
+  const activeClipId = useAvatarStore((state) => state.activeClipId);
+  const playing = useAvatarStore((state) => state.animationPlaying);
+  const speed = useAvatarStore((state) => state.animationSpeed);
+  const time = useAvatarStore((state) => state.animationTime);
+  const exportClipIds = useAvatarStore((state) => state.exportClipIds);
+  const setActiveClip = useAvatarStore((state) => state.setActiveClip);
+  const setPlaying = useAvatarStore((state) => state.setAnimationPlaying);
+  const setSpeed = useAvatarStore((state) => state.setAnimationSpeed);
+  const setTime = useAvatarStore((state) => state.setAnimationTime);
+  const addClips = useAvatarStore((state) => state.addAnimationClips);
+  const removeClip = useAvatarStore((state) => state.removeAnimationClip);
+  const toggleExportClip = useAvatarStore((state) => state.toggleExportClip);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const active = clips.find((clip) => clip.id === activeClipId) ?? clips[0];
+
+  const handleLoad = async (file: File) => {
+    setLoadError(null);
+    try {
+      addClips(await loadAnimationFile(file));
+    } catch (error) {
+      if (!(error instanceof AnimationImportError)) throw error;
+      setLoadError(error.message);
+    }
+  };
+
+  return (
+    <section className={clsx(cardClass, "flex flex-col gap-3 p-4")} aria-label="Animation">
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          aria-label="Animation clip"
+          value={active.id}
+          onChange={(event) => setActiveClip(event.target.value)}
+          className="rounded-lg border border-slate-800/70 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-violet-400"
+        >
+          {clips.map((clip) => (
+            <option key={clip.id} value={clip.id} className="bg-slate-900">
+              {clip.source === "file" ? `${clip.name} (file)` : clip.name}
+            </option>
+          ))}
+        </select>
+        <button type="button" className={buttonSecondary} onClick={() => setPlaying(!playing)}>
+          {playing ? "Pause" : "Play"}
+        </button>
+        <input
+          type="range"
+          aria-label="Clip time"
+          min={0}
+          max={active.duration}
+          step={0.01}
+          value={Math.min(time, active.duration)}
+          onChange={(event) => setTime(Number(event.target.value))}
+          className={clsx(sliderClass, "min-w-40 flex-1")}
+        />
+        <span className="w-28 text-right font-mono text-xs text-slate-300">
+          {formatClipTime(Math.min(time, active.duration))} / {formatClipTime(active.duration)}
+        </span>
+        <select
+          aria-label="Playback speed"
+          value={speed}
+          onChange={(event) => setSpeed(Number(event.target.value))}
+          className="rounded-lg border border-slate-800/70 bg-slate-950/60 px-2 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-violet-400"
+        >
+          {clipSpeeds.map((value) => (
+            <option key={value} value={value} className="bg-slate-900">
+              {value}×
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-xs text-slate-300">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={exportClipIds.includes(active.id)}
+            onChange={() => toggleExportClip(active.id)}
+            className="h-4 w-4 cursor-pointer accent-violet-500"
+          />
+          Include in glTF and GLB exports
+        </label>
+        {exportClipIds.length ? (
+          <span className="text-slate-500">
+            {exportClipIds.length} {exportClipIds.length === 1 ? "clip" : "clips"} selected
+          </span>
+        ) : null}
+        <span className="flex-1" />
+        {active.source === "file" ? (
+          <button type="button" className={chipButtonClass} onClick={() => removeClip(active.id)}>
+            Remove clip
+          </button>
+        ) : null}
+        <label className="cursor-pointer rounded-full border border-dashed border-slate-700/70 px-3 py-1 text-xs text-slate-200 hover:border-violet-400/70 focus-within:outline focus-within:outline-2 focus-within:outline-offset-2 focus-within:outline-violet-400">
+          <input
+            type="file"
+            accept={animationFileExtensions.map((extension) => `.${extension}`).join(",")}
+            className="sr-only"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) void handleLoad(file);
+              event.target.value = "";
+            }}
+          />
+          Load clip
+        </label>
+      </div>
+      {loadError ? (
+        <p className="text-xs text-rose-300" role="alert">
+          {loadError}
+        </p>
+      ) : (
+        <p className={helpTextClass}>
+          Clips from glTF, GLB, BVH or FBX files are retargeted by bone name, including
+          Mixamo&apos;s and common mocap skeletons, and follow the avatar&apos;s proportions.
+        </p>
+      )}
+    </section>
+  );
+};
+
+const isTextEntryTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement) return true;
+  return (
+    target instanceof HTMLInputElement &&
+    ["text", "search", "email", "url", "number", "password"].includes(target.type)
+  );
+};
+
+const subscribeToHashChange = (onChange: () => void) => {
+  window.addEventListener("hashchange", onChange);
+  return () => window.removeEventListener("hashchange", onChange);
+};
+
 const downloadBlob = (blob: Blob, filename: string) => {
   const url = URL.createObjectURL(blob);
   const anchor = document.createElement("a");
@@ -711,72 +2418,184 @@ const downloadBlob = (blob: Blob, filename: string) => {
 
 const AvatarStudio = () => {
   const avatarGroupRef = useRef<Group | null>(null);
+  const renderContextRef = useRef<RenderContext | null>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
   const restoredRef = useRef(false);
+  const sessionRestoredRef = useRef(false);
+  const openedSharedLinkRef = useRef(false);
   const status = useAvatarStore((state) => state.status);
   const parameters = useAvatarStore((state) => state.parameters);
   const uploadedImages = useAvatarStore((state) => state.uploadedImages);
+  const landmarkFits = useAvatarStore((state) => state.landmarkFits);
+  const photoColors = useAvatarStore((state) => state.photoColors);
+  const photoQuality = useAvatarStore((state) => state.photoQuality);
+  const headTexture = useAvatarStore((state) => state.headTexture);
+  const setHeadTexture = useAvatarStore((state) => state.setHeadTexture);
   const lastSavedIso = useAvatarStore((state) => state.lastSavedISO);
   const setParameters = useAvatarStore((state) => state.setParameters);
   const setParameter = useAvatarStore((state) => state.setParameter);
-  const addUpload = useAvatarStore((state) => state.addUpload);
+  const pendingUploads = useAvatarStore((state) => state.pendingUploads);
+  const uploadIssues = useAvatarStore((state) => state.uploadIssues);
+  const uploadMaxSide = useAvatarStore((state) => state.uploadMaxSide);
+  const uploadFiles = useAvatarStore((state) => state.uploadFiles);
+  const restoreUploads = useAvatarStore((state) => state.restoreUploads);
+  const dismissUploadIssue = useAvatarStore((state) => state.dismissUploadIssue);
+  const setUploadMaxSide = useAvatarStore((state) => state.setUploadMaxSide);
   const removeUpload = useAvatarStore((state) => state.removeUpload);
+  const setUploadRole = useAvatarStore((state) => state.setUploadRole);
+  const moveUpload = useAvatarStore((state) => state.moveUpload);
+  const resetUploads = useAvatarStore((state) => state.resetUploads);
   const generateAvatar = useAvatarStore((state) => state.generateAvatar);
+  const cancelGeneration = useAvatarStore((state) => state.cancelGeneration);
+  const generationError = useAvatarStore((state) => state.generationError);
   const markSaved = useAvatarStore((state) => state.markSaved);
+  const history = useAvatarStore((state) => state.history);
+  const historyIndex = useAvatarStore((state) => state.historyIndex);
+  const undo = useAvatarStore((state) => state.undo);
+  const redo = useAvatarStore((state) => state.redo);
+  const jumpToHistory = useAvatarStore((state) => state.jumpToHistory);
+  const exportSettings = useAvatarStore((state) => state.exportSettings);
+  const setExportSettings = useAvatarStore((state) => state.setExportSettings);
+  const hairLod = useAvatarStore((state) => state.hairLod);
+  const setHairLod = useAvatarStore((state) => state.setHairLod);
+  const expression = useAvatarStore((state) => state.expression);
+  const setExpression = useAvatarStore((state) => state.setExpression);
+  const setExpressionWeight = useAvatarStore((state) => state.setExpressionWeight);
+  const animationClips = useAvatarStore((state) => state.animationClips);
+  const exportClipIds = useAvatarStore((state) => state.exportClipIds);
+  const poseMode = useAvatarStore((state) => state.poseMode);
+  const pose = useAvatarStore((state) => state.pose);
+  const savedPoses = useAvatarStore((state) => state.savedPoses);
+  const setSavedPoses = useAvatarStore((state) => state.setSavedPoses);
+  const lighting = useAvatarStore((state) => state.lighting);
+  const setLighting = useAvatarStore((state) => state.setLighting);
+  const setCustomEnvironment = useAvatarStore((state) => state.setCustomEnvironment);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [renderStatus, setRenderStatus] = useState<string | null>(null);
+  const [documentMessage, setDocumentMessage] = useState<string | null>(null);
+  const [presets, setPresets] = useState<AvatarPreset[]>([]);
+  const viewerMode = useSyncExternalStore(
+    subscribeToHashChange,
+    () => isViewerHash(window.location.hash),
+    () => false,
+  );
+
+  // Profiles leave the uploaded HDR in IndexedDB, so it is fetched back when the lighting uses
+  // it; one that arrives embedded is kept there for the next session.
+  const restoreLighting = useCallback(
+    (restored: LightingSettings) => {
+      setLighting(restored);
+      if (restored.customEnvironment) {
+        void saveStoredEnvironment(restored.customEnvironment).catch((error) =>
+          console.warn("Failed to keep the HDR for the next session", error),
+        );
+      } else if (restored.environment.source === "custom") {
+        loadStoredEnvironment()
+          .then(setCustomEnvironment)
+          .catch((error) => {
+            console.warn("Failed to restore the uploaded HDR", error);
+            setCustomEnvironment(null);
+          });
+      }
+    },
+    [setCustomEnvironment, setLighting],
+  );
 
   useEffect(() => {
     if (restoredRef.current) return;
     restoredRef.current = true;
     if (typeof window === "undefined") return;
+    setExportSettings(loadExportSettings());
+    setUploadMaxSide(loadUploadMaxSide());
+    setHairLod(loadHairLod());
+    // A shared link is hydrated first, and its avatar wins over the locally saved one.
+    const shared = readShareLink(window.location.hash);
+    if (shared.parameters) {
+      openedSharedLinkRef.current = true;
+      setParameters(shared.parameters, "Opened shared link");
+    }
+  }, [setExportSettings, setHairLod, setParameters, setUploadMaxSide]);
+
+  // The rest of the saved session comes back once editing. A view-only link shows the avatar as
+  // it was sent, without the viewer's photos and lighting, and leaving it restores them before
+  // anything can be saved, so a save never drops the saved poses, lighting or photos.
+  useEffect(() => {
+    // Read the hash itself: while hydrating, `viewerMode` still holds the server's answer.
+    if (sessionRestoredRef.current || isViewerHash(window.location.hash)) return;
+    sessionRestoredRef.current = true;
     const saved = window.localStorage.getItem("avatar-studio-profile");
     if (saved) {
       try {
-        const parsed = JSON.parse(saved) as {
-          parameters: AvatarParameters;
-          uploadedImages: UploadedImage[];
-          savedAt?: string;
-        };
-        if (parsed.parameters) {
-          setParameters(parsed.parameters);
+        const { document, issues } = parseAvatarDocument(saved);
+        if (issues.length) {
+          console.warn("Saved avatar needed repairs", issues);
         }
-        if (parsed.uploadedImages) {
-          parsed.uploadedImages.forEach((image) => addUpload(image));
+        // The shared avatar has not been saved, so the saved time is left unset for it.
+        if (!openedSharedLinkRef.current) {
+          setParameters(document.parameters, "Restored saved session");
+          markSaved(document.savedAt);
         }
-        if (parsed.savedAt) {
-          markSaved(parsed.savedAt);
+        setSavedPoses(document.poses);
+        restoreLighting(document.lighting);
+        // Profiles used to carry the photos inline; move them into IndexedDB once. Each photo
+        // leaves the profile only after it is stored, so a failed move loses nothing.
+        if (document.uploadedImages.length) {
+          Promise.all(document.uploadedImages.map(uploadedImageToFile))
+            .then(uploadFiles)
+            .then((kept) => {
+              // A save in the meantime already wrote a profile without photos.
+              if (window.localStorage.getItem("avatar-studio-profile") !== saved) return;
+              window.localStorage.setItem(
+                "avatar-studio-profile",
+                serializeAvatarDocument({
+                  ...document,
+                  uploadedImages: document.uploadedImages.filter((_, index) => !kept[index]),
+                }),
+              );
+            })
+            .catch((error) => console.warn("Failed to move saved photos into storage", error));
         }
       } catch (error) {
         console.warn("Failed to restore saved avatar", error);
       }
     }
-  }, [addUpload, markSaved, setParameters]);
+    void restoreUploads();
+  }, [
+    markSaved,
+    restoreLighting,
+    restoreUploads,
+    setParameters,
+    setSavedPoses,
+    uploadFiles,
+    viewerMode,
+  ]);
 
   const handleUpload = useCallback(
     (files: FileList | null) => {
-      if (!files?.length) return;
-      const currentCount = uploadedImages.length;
-      const queue = Array.from(files).slice(0, Math.max(0, 5 - currentCount));
-      queue.forEach((file) => {
-        const reader = new FileReader();
-        reader.onload = () => {
-          const uid =
-            typeof crypto !== "undefined" && "randomUUID" in crypto
-              ? crypto.randomUUID()
-              : `${Date.now()}-${Math.random().toString(16).slice(2)}`;
-          const image: UploadedImage = {
-            id: `${file.name}-${uid}`,
-            name: file.name,
-            src: reader.result as string,
-            size: file.size,
-          };
-          addUpload(image);
-        };
-        reader.readAsDataURL(file);
-      });
+      if (files?.length) void uploadFiles(Array.from(files));
+    },
+    [uploadFiles],
+  );
+
+  const handleUploadMaxSideChange = useCallback(
+    (maxSide: UploadMaxSide) => {
+      setUploadMaxSide(maxSide);
+      saveUploadMaxSide(maxSide);
     },
-    [addUpload, uploadedImages.length],
+    [setUploadMaxSide],
+  );
+
+  const handleHairLodChange = useCallback(
+    (lod: HairLod) => {
+      setHairLod(lod);
+      saveHairLod(lod);
+    },
+    [setHairLod],
   );
 
   useEffect(() => {
+    if (viewerMode) return;
     const handleDrop = (event: DragEvent) => {
       event.preventDefault();
       if (event.dataTransfer?.files) {
@@ -794,67 +2613,337 @@ const AvatarStudio = () => {
       window.removeEventListener("drop", handleDrop);
       window.removeEventListener("dragover", handleDragOver);
     };
-  }, [handleUpload]);
+  }, [handleUpload, viewerMode]);
+
+  useEffect(() => {
+    if (viewerMode) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      // Leave text fields their own native undo.
+      if (isTextEntryTarget(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === "z") {
+        event.preventDefault();
+        if (event.shiftKey) redo();
+        else undo();
+      } else if (key === "y" && !event.shiftKey) {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [redo, undo, viewerMode]);
+
+  const faceChanges = useMemo(() => {
+    const fits = Object.values(landmarkFits).filter(
+      (entry): entry is LandmarkFit => entry !== null,
+    );
+    const fit = bestFit(fitsInRoles(fits, uploadedImages, ["front"]));
+    return fit ? proposeFaceChanges(fit, parameters) : [];
+  }, [landmarkFits, parameters, uploadedImages]);
+
+  const handleAcceptFaceChanges = useCallback(() => {
+    setParameters(applyFaceChanges(parameters, faceChanges), "Apply photo fit");
+  }, [faceChanges, parameters, setParameters]);
+
+  const colorSuggestions = useMemo(
+    () =>
+      suggestPhotoColors(
+        Object.values(photoColors).filter((entry): entry is PhotoColors => entry !== null),
+        parameters,
+      ),
+    [photoColors, parameters],
+  );
+
+  const handleAcceptColors = useCallback(() => {
+    setParameters(applyTargetColors(parameters, colorSuggestions), "Apply photo colours");
+  }, [colorSuggestions, parameters, setParameters]);
+
+  const handlePickColor = useCallback(
+    (target: ColorTarget, color: string) => {
+      setParameters(
+        applyTargetColors(parameters, [{ target, to: color }]),
+        `Eyedropper · ${colorTargetLabels[target]}`,
+      );
+    },
+    [parameters, setParameters],
+  );
 
   const handleGenerate = useCallback(() => {
-    generateAvatar();
+    void generateAvatar();
   }, [generateAvatar]);
 
-  const handleSave = useCallback(() => {
-    if (typeof window === "undefined") return;
-    const payload = {
+  const refreshPresets = useCallback(async () => {
+    try {
+      setPresets(await listPresets());
+    } catch (error) {
+      console.warn("Failed to read the preset library", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    listPresets()
+      .then(setPresets)
+      .catch((error) => console.warn("Failed to read the preset library", error));
+  }, []);
+
+  const captureViewport = useCallback(async () => {
+    const canvas = viewportRef.current?.querySelector("canvas");
+    if (!canvas) return null;
+    // Render a frame without the pose handles before reading the canvas.
+    setIsCapturing(true);
+    await new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+    try {
+      return captureThumbnail(canvas);
+    } finally {
+      setIsCapturing(false);
+    }
+  }, []);
+
+  const runPresetAction = useCallback(
+    async (action: () => Promise<unknown>) => {
+      try {
+        await action();
+      } catch (error) {
+        console.error("Preset library update failed", error);
+      }
+      await refreshPresets();
+    },
+    [refreshPresets],
+  );
+
+  const handleSavePreset = useCallback(
+    (name: string, tags: string[]) => {
+      if (typeof window === "undefined") return;
+      const savedAt = new Date().toISOString();
+      // Photos live in IndexedDB, so the profile stays well inside the localStorage quota.
+      const profile = createAvatarDocument(parameters, [], savedAt, savedPoses, {
+        ...lighting,
+        customEnvironment: null,
+      });
+      try {
+        window.localStorage.setItem("avatar-studio-profile", serializeAvatarDocument(profile));
+        markSaved(savedAt);
+      } catch (error) {
+        console.error("Failed to save the session profile", error);
+      }
+      void runPresetAction(async () =>
+        createPreset({
+          name:
+            name ||
+            `${outfitLabels[parameters.clothing.outfit]} · ${hairStyleLabels[parameters.hair.style]}`,
+          tags,
+          thumbnail: await captureViewport(),
+          // Presets keep parameters only; photos and poses stay with the session profile.
+          document: createAvatarDocument(parameters, [], savedAt),
+        }),
+      );
+    },
+    [captureViewport, lighting, markSaved, parameters, runPresetAction, savedPoses],
+  );
+
+  const handleSave = useCallback(() => handleSavePreset("", []), [handleSavePreset]);
+
+  const handleLoadPreset = useCallback(
+    (preset: AvatarPreset) => {
+      try {
+        const { document, issues } = parseAvatarDocument(preset.document);
+        if (issues.length) console.warn(`Preset "${preset.name}" needed repairs`, issues);
+        setParameters(document.parameters, `Loaded preset "${preset.name}"`);
+      } catch (error) {
+        console.error(`Preset "${preset.name}" could not be loaded`, error);
+      }
+    },
+    [setParameters],
+  );
+
+  const handleOverwritePreset = useCallback(
+    (preset: AvatarPreset) =>
+      runPresetAction(async () =>
+        updatePreset(preset.id, {
+          document: createAvatarDocument(parameters, []),
+          thumbnail: await captureViewport(),
+        }),
+      ),
+    [captureViewport, parameters, runPresetAction],
+  );
+
+  const handleDownloadDocument = useCallback(async () => {
+    const document = createAvatarDocument(
       parameters,
-      uploadedImages,
-      savedAt: new Date().toISOString(),
-    };
-    window.localStorage.setItem("avatar-studio-profile", JSON.stringify(payload));
-    markSaved(payload.savedAt);
-  }, [markSaved, parameters, uploadedImages]);
+      await Promise.all(uploadedImages.map(toPortableImage)),
+      new Date().toISOString(),
+      savedPoses,
+      lighting,
+    );
+    const blob = new Blob([serializeAvatarDocument(document)], { type: "application/json" });
+    const fileName = formatExportFileName(exportSettings.fileNameTemplate, "avatar");
+    downloadBlob(blob, `${fileName}${avatarDocumentExtension}`);
+  }, [exportSettings.fileNameTemplate, lighting, parameters, savedPoses, uploadedImages]);
+
+  const handleImportDocument = useCallback(
+    async (file: File) => {
+      try {
+        const { document, issues } = parseAvatarDocument(await file.text());
+        // Photos are unpacked before anything changes, so a bad one leaves the avatar as it was.
+        const photos = await Promise.all(document.uploadedImages.map(uploadedImageToFile));
+        setParameters(document.parameters, `Imported ${file.name}`);
+        setSavedPoses(document.poses);
+        restoreLighting(document.lighting);
+        resetUploads();
+        void uploadFiles(
+          photos,
+          document.uploadedImages.map(({ role, capture }) => ({ role, capture })),
+        );
+        setDocumentMessage(
+          issues.length
+            ? `Imported ${file.name} with ${issues.length} ${issues.length === 1 ? "fix" : "fixes"}: ${issues.join(" ")}`
+            : `Imported ${file.name}.`,
+        );
+      } catch (error) {
+        if (!(error instanceof AvatarDocumentError)) {
+          console.error(`Failed to import ${file.name}`, error);
+        }
+        const reason = error instanceof AvatarDocumentError ? error.message : "it could not be read.";
+        setDocumentMessage(`Could not import ${file.name}: ${reason}`);
+      }
+    },
+    [resetUploads, restoreLighting, setParameters, setSavedPoses, uploadFiles],
+  );
 
   const handleExport = useCallback(
     async (format: ExportFormat) => {
       const group = avatarGroupRef.current;
       if (!group) return;
 
-      if (format === "gltf") {
-        const blob = await exportAvatarAsGLTF(group);
-        downloadBlob(blob, `avatar-${Date.now()}.gltf`);
-      } else {
-        const blob = exportAvatarAsFBX(group);
-        downloadBlob(blob, `avatar-${Date.now()}.fbx`);
+      setIsExporting(true);
+      setDocumentMessage(null);
+      let restoreLivePose: (() => void) | null = null;
+      try {
+        // Let the paused simulation render once so the scene holds still while exporting.
+        await new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+        // Outside pose mode the rest pose is the bind pose; in it, the held pose.
+        restoreLivePose = exportSettings.bakePose
+          ? null
+          : applyRestPose(group, poseMode ? pose : null);
+        // Clips are fitted to the joints the skin was bound at.
+        const bindJoints = getBindJoints(group);
+        const animations = bindJoints
+          ? animationClips
+              .filter((entry) => exportClipIds.includes(entry.id))
+              .flatMap((entry) => resolveClip(entry, bindJoints) ?? [])
+          : [];
+        const { extension, exporter } = exportTargets[format];
+        const blob = await exporter(group, exportSettings, animations);
+        const fileName = formatExportFileName(exportSettings.fileNameTemplate, format);
+        downloadBlob(blob, `${fileName}.${blob.type === "application/zip" ? "zip" : extension}`);
+      } catch (error) {
+        console.error(`Failed to export ${format}`, error);
+        setDocumentMessage(`${exportTargets[format].label} failed.`);
+      } finally {
+        restoreLivePose?.();
+        setIsExporting(false);
       }
     },
-    [],
+    [animationClips, exportClipIds, exportSettings, pose, poseMode],
   );
 
-  const handleShare = useCallback(async (): Promise<"shared" | "copied"> => {
-    if (typeof window === "undefined") return "copied";
-    const shareData = {
-      title: "My Photorealistic Avatar",
-      text: "Check out this avatar generated with PBR and dynamic physics.",
-      url: window.location.href,
-    };
+  // Freezes the scene and hides the pose handles while `render` draws offscreen.
+  const runRender = useCallback(
+    async (kind: string, extension: string, render: (context: RenderContext) => Promise<Blob>) => {
+      const context = renderContextRef.current;
+      if (!context) return;
+      setIsExporting(true);
+      setIsCapturing(true);
+      setRenderStatus(`Rendering ${kind}…`);
+      await new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+      try {
+        const blob = await render(context);
+        const fileName = formatExportFileName(exportSettings.fileNameTemplate, kind);
+        downloadBlob(blob, `${fileName}.${extension}`);
+        setRenderStatus(null);
+      } catch (error) {
+        if (!(error instanceof RenderCaptureError)) {
+          console.error(`Failed to render the ${kind}`, error);
+        }
+        setRenderStatus(
+          error instanceof RenderCaptureError ? error.message : `The ${kind} could not be rendered.`,
+        );
+      } finally {
+        setIsCapturing(false);
+        setIsExporting(false);
+      }
+    },
+    [exportSettings.fileNameTemplate],
+  );
 
-    if (navigator.share) {
-      await navigator.share(shareData);
-      return "shared";
-    } else {
-      await navigator.clipboard.writeText(shareData.url);
-      return "copied";
-    }
-  }, []);
+  const handleRenderImage = useCallback(
+    (settings: ImageRenderSettings) =>
+      void runRender("render", settings.format, (context) => renderImage(context, settings)),
+    [runRender],
+  );
+
+  const handleRenderTurntable = useCallback(
+    (settings: TurntableSettings) =>
+      void runRender("turntable", settings.format, (context) =>
+        renderTurntable(context, settings, (done, total) =>
+          setRenderStatus(`Rendering turntable frame ${done} of ${total}…`),
+        ),
+      ),
+    [runRender],
+  );
+
+  const handleExportSettingsChange = useCallback(
+    (settings: ExportSettings) => {
+      setExportSettings(settings);
+      saveExportSettings(settings);
+    },
+    [setExportSettings],
+  );
+
+  const handleShare = useCallback(
+    async (mode: ShareLinkMode): Promise<"shared" | "copied" | null> => {
+      if (typeof window === "undefined") return "copied";
+      const shareData = {
+        title: "My Photorealistic Avatar",
+        text: "Check out this avatar generated with PBR and dynamic physics.",
+        url: createShareUrl(parameters, mode),
+      };
+
+      try {
+        if (navigator.share) {
+          await navigator.share(shareData);
+          return "shared";
+        } else {
+          await navigator.clipboard.writeText(shareData.url);
+          return "copied";
+        }
+      } catch (error) {
+        // Dismissing the share sheet rejects too, and needs no message.
+        if (error instanceof DOMException && error.name === "AbortError") return null;
+        console.error("Failed to share the avatar link", error);
+        setDocumentMessage("Could not share or copy the link.");
+        return null;
+      }
+    },
+    [parameters],
+  );
 
-  const { status: statusForBadge, progress: animatedProgress } = useLiveGenerationProgress();
+  const {
+    status: statusForBadge,
+    progress: generationProgress,
+    stageLabel,
+  } = useLiveGenerationProgress();
 
   const hasAvatar = status === "ready" || uploadedImages.length > 0;
 
   const metrics = useMemo(
     () => [
       {
-        label: "Physics Strands",
-        value: numberFormatter.format(
-          Math.round(1200 + parameters.hair.volume * 800 + parameters.hair.length * 600),
-        ),
+        label: "Hair Strands",
+        value: numberFormatter.format(countHairStrands(parameters.hair.style, hairLod)),
       },
       {
         label: "Material Variants",
@@ -868,13 +2957,11 @@ const AvatarStudio = () => {
         ),
       },
       {
-        label: "Rig Controllers",
-        value: numberFormatter.format(
-          Math.round(48 + parameters.body.muscle * 12 + parameters.facial.eyeSize * 10),
-        ),
+        label: "Rig Joints",
+        value: numberFormatter.format(humanoidBoneNames.length),
       },
     ],
-    [parameters],
+    [hairLod, parameters],
   );
 
   return (
@@ -906,7 +2993,7 @@ const AvatarStudio = () => {
                 Progress
               </span>
               <p className="text-2xl font-semibold text-violet-400">
-                {animatedProgress}%
+                {generationProgress}%
               </p>
             </div>
             <div className="h-12 w-px bg-slate-800" aria-hidden />
@@ -926,6 +3013,7 @@ const AvatarStudio = () => {
       >
         <section className="flex-1 space-y-6">
           <div
+            ref={viewportRef}
             className={clsx(
               cardClass,
               "relative aspect-[4/5] overflow-hidden border-slate-800/70",
@@ -943,7 +3031,9 @@ const AvatarStudio = () => {
                   ? "Synthesizing Physically Based Mesh"
                   : statusForBadge === "ready"
                     ? "Rigged Avatar Ready"
-                    : "Awaiting Input"}
+                    : statusForBadge === "error"
+                      ? "Generation Failed"
+                      : "Awaiting Input"}
               </span>
               <span className="rounded-full border border-slate-800/50 bg-slate-900/60 px-3 py-1 text-xs text-slate-300">
                 {uploadedImages.length
@@ -951,7 +3041,12 @@ const AvatarStudio = () => {
                   : "No references"}
               </span>
             </div>
-            <AvatarScene avatarGroupRef={avatarGroupRef} />
+            <AvatarScene
+              avatarGroupRef={avatarGroupRef}
+              renderContextRef={renderContextRef}
+              simulationPaused={isExporting}
+              capturing={isCapturing}
+            />
             <div className="absolute inset-x-0 bottom-0 z-10 bg-gradient-to-t from-slate-950 via-slate-950/80 to-transparent p-6">
               <dl className="grid grid-cols-3 gap-4 text-xs text-slate-300">
                 {metrics.map((metric) => (
@@ -967,41 +3062,157 @@ const AvatarStudio = () => {
               </dl>
             </div>
           </div>
-          <UploadPanel uploads={uploadedImages} onUpload={handleUpload} onRemove={removeUpload} />
+          <AnimationTimeline />
+          {viewerMode ? (
+            <section
+              className={clsx(cardClass, "flex flex-wrap items-center justify-between gap-4 p-6")}
+            >
+              <div>
+                <h2 className="text-sm font-semibold text-slate-200">Shared avatar</h2>
+                <p className="text-xs text-slate-400">
+                  This link opens read-only. Open it in the studio to make your own edits.
+                </p>
+              </div>
+              <button
+                type="button"
+                className={buttonPrimary}
+                onClick={() => {
+                  window.location.hash = toEditorHash(window.location.hash);
+                }}
+              >
+                Open in Studio
+              </button>
+            </section>
+          ) : (
+            <UploadPanel
+              uploads={uploadedImages}
+              fits={landmarkFits}
+              quality={photoQuality}
+              faceChanges={faceChanges}
+              colorSuggestions={colorSuggestions}
+              hasHeadTexture={headTexture !== null}
+              pending={pendingUploads}
+              issues={uploadIssues}
+              maxSide={uploadMaxSide}
+              onUpload={handleUpload}
+              onRemove={removeUpload}
+              onRoleChange={setUploadRole}
+              onMove={moveUpload}
+              onAcceptFaceChanges={handleAcceptFaceChanges}
+              onAcceptColors={handleAcceptColors}
+              onPickColor={handlePickColor}
+              onClearHeadTexture={() => setHeadTexture(null)}
+              onDismissIssue={dismissUploadIssue}
+              onMaxSideChange={handleUploadMaxSideChange}
+            />
+          )}
         </section>
 
-        <aside className="flex w-full max-w-xl flex-col gap-6">
-          <div className="flex items-center justify-between">
-            <h2 className="text-sm uppercase tracking-[0.4em] text-slate-500">
-              Avatar Controls
-            </h2>
-            <button
-              type="button"
-              className="rounded-full border border-slate-700/60 px-3 py-1 text-xs text-slate-300 hover:border-violet-400/50 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-violet-400"
-              onClick={() => useAvatarStore.getState().resetParameters()}
-            >
-              Reset to Default
-            </button>
-          </div>
+        {viewerMode ? null : (
+          <aside className="flex w-full max-w-xl flex-col gap-6">
+            <div className="flex items-center justify-between">
+              <h2 className="text-sm uppercase tracking-[0.4em] text-slate-500">
+                Avatar Controls
+              </h2>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  className={chipButtonClass}
+                  onClick={undo}
+                  disabled={historyIndex === 0}
+                  aria-label="Undo"
+                  title="Undo (Ctrl+Z)"
+                >
+                  Undo
+                </button>
+                <button
+                  type="button"
+                  className={chipButtonClass}
+                  onClick={redo}
+                  disabled={historyIndex >= history.length - 1}
+                  aria-label="Redo"
+                  title="Redo (Ctrl+Shift+Z)"
+                >
+                  Redo
+                </button>
+                <button
+                  type="button"
+                  className="rounded-full border border-slate-700/60 px-3 py-1 text-xs text-slate-300 hover:border-violet-400/50 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-violet-400"
+                  onClick={() => useAvatarStore.getState().resetParameters()}
+                >
+                  Reset to Default
+                </button>
+              </div>
+            </div>
 
-          <div className="scrollbar-thin flex max-h-[70vh] flex-col gap-6 overflow-y-auto rounded-3xl border border-slate-800/60 bg-slate-900/50 p-4 pr-3">
-            {parameterSections.map((section) => (
-              <Section key={section.section} title={section.title}>
-                {section.controls(parameters, setParameter)}
-              </Section>
-            ))}
-          </div>
+            <div className="scrollbar-thin flex max-h-[70vh] flex-col gap-6 overflow-y-auto rounded-3xl border border-slate-800/60 bg-slate-900/50 p-4 pr-3">
+              {parameterSections.map((section) => (
+                <Section key={section.section} title={section.title}>
+                  {section.controls(parameters, setParameter)}
+                  {section.section === "hair" ? (
+                    <ControlSelect
+                      id="hair-lod"
+                      label="Simulation Detail"
+                      value={hairLod}
+                      options={hairLods.map((lod) => ({ value: lod, label: hairLodLabels[lod] }))}
+                      onChange={handleHairLodChange}
+                      description="Lower it if the viewport stutters."
+                    />
+                  ) : null}
+                </Section>
+              ))}
+            </div>
 
-          <ActionBar
-            onGenerate={handleGenerate}
-            onSave={handleSave}
-            onExport={handleExport}
-            onShare={handleShare}
-            status={statusForBadge}
-            hasAvatar={hasAvatar}
-            lastSavedIso={lastSavedIso}
-          />
-        </aside>
+            <ExpressionPanel
+              expression={expression}
+              onChange={setExpressionWeight}
+              onApply={setExpression}
+            />
+
+            <LightingPanel />
+
+            <PosePanel />
+
+            <RenderPanel
+              busy={isExporting}
+              status={renderStatus}
+              onRenderImage={handleRenderImage}
+              onRenderTurntable={handleRenderTurntable}
+            />
+
+            <HistoryPanel history={history} historyIndex={historyIndex} onJump={jumpToHistory} />
+
+            <ActionBar
+              onGenerate={handleGenerate}
+              onCancelGeneration={cancelGeneration}
+              onSave={handleSave}
+              onExport={handleExport}
+              onDownloadDocument={() => void handleDownloadDocument()}
+              onImportDocument={handleImportDocument}
+              onShare={handleShare}
+              status={statusForBadge}
+              stageLabel={stageLabel}
+              generationError={generationError}
+              hasAvatar={hasAvatar}
+              isExporting={isExporting}
+              documentMessage={documentMessage}
+              lastSavedIso={lastSavedIso}
+            />
+
+            <PresetLibraryPanel
+              presets={presets}
+              onSave={handleSavePreset}
+              onLoad={handleLoadPreset}
+              onOverwrite={handleOverwritePreset}
+              onDuplicate={(preset) => runPresetAction(() => duplicatePreset(preset.id))}
+              onRename={(preset, name) => runPresetAction(() => updatePreset(preset.id, { name }))}
+              onRetag={(preset, tags) => runPresetAction(() => updatePreset(preset.id, { tags }))}
+              onDelete={(preset) => runPresetAction(() => deletePreset(preset.id))}
+            />
+
+            <ExportSettingsPanel settings={exportSettings} onChange={handleExportSettingsChange} />
+          </aside>
+        )}
       </main>
     </div>
   );
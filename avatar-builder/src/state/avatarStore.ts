@@ -1,14 +1,82 @@
 "use client";
 
 import { create } from "zustand";
+import { type AnimationClipEntry, builtInClips } from "@/utils/animationClips";
+import { type PhotoColors, readImagePixels, samplePhotoColors } from "@/utils/colorSampling";
+import { defaultExportSettings, type ExportSettings } from "@/utils/exportSettings";
+import type { ExpressionName, ExpressionWeights } from "@/utils/expressions";
+import { guessPhotoRole } from "@/utils/faceFitting";
+import { defaultHairLod, type HairLod } from "@/utils/hairStrands";
+import {
+  type CustomEnvironment,
+  defaultLighting,
+  type LightingSettings,
+} from "@/utils/lighting";
+import {
+  clearStoredUploads,
+  createUploadId,
+  deleteStoredUpload,
+  listStoredUploads,
+  prepareUpload,
+  releaseUploadedImage,
+  saveStoredUpload,
+  saveStoredUploadOrder,
+  type StoredUpload,
+  toUploadedImage,
+  updateStoredUpload,
+} from "@/utils/photoUploads";
+import { measurePhotoQuality, type PhotoQuality } from "@/utils/photoQuality";
+import { type AvatarPose, mirrorPose, type NamedPose, restPose } from "@/utils/posing";
+import {
+  defaultUploadMaxSide,
+  UploadError,
+  type UploadMaxSide,
+  uploadLimits,
+} from "@/utils/uploadProcessing";
+import {
+  fitImageLandmarks,
+  type GenerationStage,
+  getGenerationBackend,
+  type LandmarkFit,
+  runGenerationPipeline,
+} from "@/utils/generationPipeline";
 
-export type AvatarStatus = "idle" | "processing" | "ready";
+export type AvatarStatus = "idle" | "processing" | "ready" | "error";
+
+export const photoRoles = ["front", "left", "right", "back", "detail"] as const;
+
+/** What a reference photo shows; "left" and "right" are the subject's side facing the camera. */
+export type PhotoRole = (typeof photoRoles)[number];
+
+/** Capture details read from a photo's EXIF before it was stripped; location is never kept. */
+export interface CaptureMetadata {
+  /** Local time the photo was taken, as `YYYY-MM-DDTHH:MM:SS`. */
+  takenAt?: string;
+  camera?: string;
+  /** In millimetres. */
+  focalLength?: number;
+  /** In seconds. */
+  exposureTime?: number;
+  iso?: number;
+}
 
 export interface UploadedImage {
   id: string;
   name: string;
   src: string;
   size: number;
+  width: number;
+  height: number;
+  /** Null until the landmark fit guesses it or the user picks one. */
+  role: PhotoRole | null;
+  capture: CaptureMetadata;
+}
+
+/** A file that was turned away or failed to process, shown next to the uploads. */
+export interface UploadIssue {
+  id: string;
+  name: string;
+  message: string;
 }
 
 export interface FacialConfig {
@@ -70,13 +138,63 @@ export interface AvatarParameters {
   clothing: ClothingConfig;
 }
 
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  /** Parameters as they were right after this edit. */
+  parameters: AvatarParameters;
+  timestamp: number;
+  /** Edits to the same control within the coalescing window merge into one entry. */
+  coalesceKey?: string;
+}
+
 export interface AvatarState {
   parameters: AvatarParameters;
+  history: HistoryEntry[];
+  historyIndex: number;
   status: AvatarStatus;
   generationProgress: number;
+  /** Stage the generation pipeline is running, or the one it failed in. */
+  generationStage: GenerationStage | null;
+  generationError: string | null;
   uploadedImages: UploadedImage[];
+  /** Files accepted and still being prepared; they count towards the upload limit. */
+  pendingUploads: { id: string; name: string }[];
+  uploadIssues: UploadIssue[];
+  uploadMaxSide: UploadMaxSide;
+  /** Landmark fit per uploaded image id; null when no face was found, absent while fitting. */
+  landmarkFits: Record<string, LandmarkFit | null>;
+  /** Skin and hair colours sampled per uploaded image id, once its landmarks are fitted. */
+  photoColors: Record<string, PhotoColors | null>;
+  /** Sharpness, exposure and face size per uploaded image id; null when it could not be read. */
+  photoQuality: Record<string, PhotoQuality | null>;
+  /** Head albedo baked from the photos by the last generation, as a data URL. */
+  headTexture: string | null;
   lastSavedISO?: string;
-  setParameters: (params: AvatarParameters) => void;
+  exportSettings: ExportSettings;
+  /** Detail the hair is simulated and drawn at; a viewer setting, not part of the avatar. */
+  hairLod: HairLod;
+  /** Expression previewed on the head; kept out of the parameters and their history. */
+  expression: ExpressionWeights;
+  /** The built-in clips followed by any loaded from files. */
+  animationClips: AnimationClipEntry[];
+  activeClipId: string;
+  animationPlaying: boolean;
+  /** Playback rate; 1 is real time. */
+  animationSpeed: number;
+  /** Seconds into the active clip. */
+  animationTime: number;
+  /** Clips written into glTF and GLB exports. */
+  exportClipIds: string[];
+  /** While on, the avatar holds `pose` instead of playing its clip. */
+  poseMode: boolean;
+  /** The pose being edited; screenshots and exports use it while pose mode is on. */
+  pose: AvatarPose;
+  /** Poses saved by name; they travel with the avatar document. */
+  savedPoses: NamedPose[];
+  /** The viewport's look-dev setup; it travels with the avatar document. */
+  lighting: LightingSettings;
+  setParameters: (params: AvatarParameters, label?: string) => void;
   setParameter: <T extends keyof AvatarParameters, K extends keyof AvatarParameters[T]>(
     section: T,
     key: K,
@@ -85,14 +203,66 @@ export interface AvatarState {
   setStatus: (status: AvatarStatus) => void;
   setGenerationProgress: (value: number) => void;
   addUpload: (image: UploadedImage) => void;
+  /**
+   * Prepares files as reference photos and keeps them in IndexedDB, reporting any it rejects.
+   * Resolves with whether each file was kept for the next session.
+   */
+  uploadFiles: (
+    files: File[],
+    details?: Partial<Pick<UploadedImage, "role" | "capture">>[],
+  ) => Promise<boolean[]>;
+  /** Brings back the photos kept from the last session. */
+  restoreUploads: () => Promise<void>;
   removeUpload: (id: string) => void;
   resetUploads: () => void;
-  generateAvatar: () => void;
+  setUploadRole: (id: string, role: PhotoRole) => void;
+  /** Moves a photo to a new place in the list, keeping the order for the next session. */
+  moveUpload: (id: string, toIndex: number) => void;
+  dismissUploadIssue: (id: string) => void;
+  setUploadMaxSide: (maxSide: UploadMaxSide) => void;
+  generateAvatar: () => Promise<void>;
+  cancelGeneration: () => void;
+  setHeadTexture: (texture: string | null) => void;
   markSaved: (iso: string) => void;
   resetParameters: () => void;
+  undo: () => void;
+  redo: () => void;
+  jumpToHistory: (index: number) => void;
+  setExportSettings: (settings: ExportSettings) => void;
+  setHairLod: (lod: HairLod) => void;
+  setExpression: (weights: ExpressionWeights) => void;
+  setExpressionWeight: (name: ExpressionName, value: number) => void;
+  /** Adds clips read from a file and plays the first of them. */
+  addAnimationClips: (entries: AnimationClipEntry[]) => void;
+  removeAnimationClip: (id: string) => void;
+  setActiveClip: (id: string) => void;
+  setAnimationPlaying: (playing: boolean) => void;
+  setAnimationSpeed: (speed: number) => void;
+  setAnimationTime: (time: number) => void;
+  toggleExportClip: (id: string) => void;
+  setPoseMode: (on: boolean) => void;
+  setPose: (pose: AvatarPose) => void;
+  resetPose: () => void;
+  mirrorPose: () => void;
+  /** Saves the current pose, replacing any saved under the same name. */
+  savePose: (name: string) => void;
+  loadSavedPose: (name: string) => void;
+  deleteSavedPose: (name: string) => void;
+  setSavedPoses: (poses: NamedPose[]) => void;
+  setLighting: (lighting: LightingSettings) => void;
+  setLightingValue: <
+    S extends Exclude<keyof LightingSettings, "customEnvironment">,
+    K extends keyof LightingSettings[S],
+  >(
+    section: S,
+    key: K,
+    value: LightingSettings[S][K],
+  ) => void;
+  /** Swaps the uploaded HDR and lights with it, or with the default preset once it is cleared. */
+  setCustomEnvironment: (environment: CustomEnvironment | null) => void;
 }
 
-const defaultParameters: AvatarParameters = {
+export const defaultParameters: AvatarParameters = {
   facial: {
     eyeSpacing: 0.5,
     eyeSize: 0.5,
@@ -139,66 +309,436 @@ const defaultParameters: AvatarParameters = {
   },
 };
 
+const historyLimit = 100;
+const coalesceWindowMs = 1000;
+
+let nextHistoryId = 1;
+
+const humanize = (value: string) =>
+  value.replace(/([A-Z])/g, " $1").replace(/^./, (first) => first.toUpperCase());
+
+/**
+ * Appends an edit after the current history position, dropping any redo
+ * branch. A repeat edit of the same control shortly after the last one
+ * replaces that entry so a slider drag undoes in one step.
+ */
+const recordHistory = (
+  state: AvatarState,
+  parameters: AvatarParameters,
+  label: string,
+  coalesceKey?: string,
+): Pick<AvatarState, "parameters" | "history" | "historyIndex"> => {
+  const now = Date.now();
+  const current = state.history[state.historyIndex];
+  const atTip = state.historyIndex === state.history.length - 1;
+
+  if (
+    coalesceKey &&
+    atTip &&
+    state.historyIndex > 0 &&
+    current?.coalesceKey === coalesceKey &&
+    now - current.timestamp < coalesceWindowMs
+  ) {
+    const history = [...state.history];
+    history[state.historyIndex] = { ...current, parameters, timestamp: now };
+    return { parameters, history, historyIndex: state.historyIndex };
+  }
+
+  const history = [
+    ...state.history.slice(0, state.historyIndex + 1),
+    { id: nextHistoryId++, label, parameters, timestamp: now, coalesceKey },
+  ].slice(-historyLimit);
+  return { parameters, history, historyIndex: history.length - 1 };
+};
+
+const initialHistoryEntry: HistoryEntry = {
+  id: 0,
+  label: "Initial avatar",
+  parameters: defaultParameters,
+  timestamp: 0,
+};
+
+// The generation run in flight, for cancelGeneration to abort.
+let generationController: AbortController | null = null;
+
+// Photos without a fit are measured at the size the landmark stage would have used.
+const unfittedMeasureSide = 512;
+
+/** Reads a photo once for both its colours and its quality. */
+const analysePhoto = async (image: UploadedImage, fit: LandmarkFit | null) => {
+  const scale = Math.min(1, unfittedMeasureSide / Math.max(image.width, image.height, 1));
+  const size = image.width
+    ? { width: Math.round(image.width * scale), height: Math.round(image.height * scale) }
+    : undefined;
+  const pixels = await readImagePixels(image.src, fit ?? size);
+  return {
+    colors: fit ? samplePhotoColors(pixels, fit) : null,
+    quality: measurePhotoQuality(pixels, fit),
+  };
+};
+
 export const useAvatarStore = create<AvatarState>((set, get) => ({
   parameters: defaultParameters,
+  history: [initialHistoryEntry],
+  historyIndex: 0,
   status: "idle",
   generationProgress: 0,
+  generationStage: null,
+  generationError: null,
   uploadedImages: [],
+  pendingUploads: [],
+  uploadIssues: [],
+  uploadMaxSide: defaultUploadMaxSide,
+  landmarkFits: {},
+  photoColors: {},
+  photoQuality: {},
+  headTexture: null,
   lastSavedISO: undefined,
-  setParameters: (params) =>
-    set({
-      parameters: params,
+  exportSettings: defaultExportSettings,
+  hairLod: defaultHairLod,
+  expression: {},
+  animationClips: builtInClips,
+  activeClipId: "idle",
+  animationPlaying: true,
+  animationSpeed: 1,
+  animationTime: 0,
+  exportClipIds: [],
+  poseMode: false,
+  pose: restPose,
+  savedPoses: [],
+  lighting: defaultLighting,
+  setParameters: (params, label = "Replace all parameters") =>
+    set((state) => ({
+      ...recordHistory(state, params, label),
       status: "idle",
-    }),
+    })),
   setParameter: (section, key, value) =>
     set((state) => ({
-      parameters: {
-        ...state.parameters,
-        [section]: {
-          ...state.parameters[section],
-          [key]: value,
+      ...recordHistory(
+        state,
+        {
+          ...state.parameters,
+          [section]: {
+            ...state.parameters[section],
+            [key]: value,
+          },
         },
-      },
+        `${humanize(section)} · ${humanize(String(key))}`,
+        `${section}.${String(key)}`,
+      ),
       status: state.status === "ready" ? "idle" : state.status,
     })),
   setStatus: (status) => set({ status }),
   setGenerationProgress: (value) => set({ generationProgress: value }),
-  addUpload: (image) =>
+  addUpload: (image) => {
     set((state) => ({
       uploadedImages: [...state.uploadedImages, image],
-    })),
-  removeUpload: (id) =>
+    }));
+    fitImageLandmarks(image)
+      .catch((error) => {
+        console.warn(`Failed to fit landmarks on ${image.name}`, error);
+        return null;
+      })
+      .then(async (fit) => {
+        const current = () => get().uploadedImages.find((img) => img.id === image.id);
+        if (!current()) return;
+        set((state) => ({ landmarkFits: { ...state.landmarkFits, [image.id]: fit } }));
+        // A photo with no face in it is most likely a close-up of hair or skin.
+        if (current()?.role === null) {
+          get().setUploadRole(image.id, fit ? guessPhotoRole(fit) : "detail");
+        }
+        const analysis = await analysePhoto(image, fit).catch((error) => {
+          console.warn(`Failed to analyse ${image.name}`, error);
+          return { colors: null, quality: null };
+        });
+        if (current()) {
+          set((state) => ({
+            photoColors: { ...state.photoColors, [image.id]: analysis.colors },
+            photoQuality: { ...state.photoQuality, [image.id]: analysis.quality },
+          }));
+        }
+      });
+  },
+  uploadFiles: async (files, details = []) => {
+    const { uploadedImages, pendingUploads, uploadMaxSide } = get();
+    const room = Math.max(uploadLimits.maxFiles - uploadedImages.length - pendingUploads.length, 0);
+    const accepted = files.slice(0, room).map((file, index) => ({
+      id: createUploadId(file.name),
+      file,
+      addedAt: new Date().toISOString(),
+      detail: details[index] ?? {},
+    }));
+    const skipped = files.slice(room).map((file) => ({
+      id: createUploadId(file.name),
+      name: file.name,
+      message: `Only ${uploadLimits.maxFiles} photos can be used; remove one to add this.`,
+    }));
+    const reportIssue = (issue: UploadIssue) =>
+      set((state) => ({ uploadIssues: [...state.uploadIssues, issue] }));
+    const settle = (id: string) =>
+      set((state) => ({ pendingUploads: state.pendingUploads.filter((entry) => entry.id !== id) }));
+
+    set((state) => ({
+      pendingUploads: [
+        ...state.pendingUploads,
+        ...accepted.map(({ id, file }) => ({ id, name: file.name })),
+      ],
+      uploadIssues: [...state.uploadIssues, ...skipped],
+    }));
+
+    const kept = await Promise.all(
+      accepted.map(async ({ id, file, addedAt, detail }) => {
+        let upload: StoredUpload;
+        try {
+          const { blob, width, height, capture } = await prepareUpload(file, uploadMaxSide);
+          upload = {
+            id,
+            name: file.name,
+            size: blob.size,
+            width,
+            height,
+            blob,
+            addedAt,
+            role: detail.role ?? null,
+            // Photos coming back from a document were stripped once already; keep what it recorded.
+            capture: detail.capture ?? capture,
+          };
+        } catch (error) {
+          if (!(error instanceof UploadError)) console.warn(`Failed to prepare ${file.name}`, error);
+          settle(id);
+          reportIssue({
+            id,
+            name: file.name,
+            message: error instanceof UploadError ? error.message : "It could not be processed.",
+          });
+          return false;
+        }
+        // Stored before it is shown, so the role guessed once it is fitted has a record to update.
+        let kept = true;
+        try {
+          await saveStoredUpload(upload);
+        } catch (error) {
+          console.warn(`Failed to keep ${file.name} for the next session`, error);
+          reportIssue({
+            id,
+            name: file.name,
+            message: "Added, but browser storage is full, so it will not be kept after reload.",
+          });
+          kept = false;
+        }
+        settle(id);
+        get().addUpload(toUploadedImage(upload));
+        return kept;
+      }),
+    );
+    return [...kept, ...skipped.map(() => false)];
+  },
+  restoreUploads: async () => {
+    try {
+      const stored = await listStoredUploads();
+      const known = new Set(get().uploadedImages.map((image) => image.id));
+      stored
+        .filter((upload) => !known.has(upload.id))
+        .forEach((upload) => get().addUpload(toUploadedImage(upload)));
+    } catch (error) {
+      console.warn("Failed to restore uploaded photos", error);
+    }
+  },
+  removeUpload: (id) => {
+    const image = get().uploadedImages.find((img) => img.id === id);
+    if (image) releaseUploadedImage(image);
+    deleteStoredUpload(id).catch((error) =>
+      console.warn(`Failed to delete ${image?.name ?? id} from storage`, error),
+    );
     set((state) => ({
       uploadedImages: state.uploadedImages.filter((img) => img.id !== id),
-    })),
-  resetUploads: () => set({ uploadedImages: [] }),
-  generateAvatar: () => {
-    const { status } = get();
+      landmarkFits: Object.fromEntries(
+        Object.entries(state.landmarkFits).filter(([imageId]) => imageId !== id),
+      ),
+      photoColors: Object.fromEntries(
+        Object.entries(state.photoColors).filter(([imageId]) => imageId !== id),
+      ),
+      photoQuality: Object.fromEntries(
+        Object.entries(state.photoQuality).filter(([imageId]) => imageId !== id),
+      ),
+    }));
+  },
+  resetUploads: () => {
+    get().uploadedImages.forEach(releaseUploadedImage);
+    clearStoredUploads().catch((error) => console.warn("Failed to clear stored photos", error));
+    set({
+      uploadedImages: [],
+      landmarkFits: {},
+      photoColors: {},
+      photoQuality: {},
+      uploadIssues: [],
+    });
+  },
+  setUploadRole: (id, role) => {
+    set((state) => ({
+      uploadedImages: state.uploadedImages.map((img) => (img.id === id ? { ...img, role } : img)),
+    }));
+    updateStoredUpload(id, { role }).catch((error) =>
+      console.warn(`Failed to keep the role of ${id}`, error),
+    );
+  },
+  moveUpload: (id, toIndex) => {
+    const images = [...get().uploadedImages];
+    const from = images.findIndex((img) => img.id === id);
+    const to = Math.min(Math.max(toIndex, 0), images.length - 1);
+    if (from < 0 || from === to) return;
+    images.splice(to, 0, ...images.splice(from, 1));
+    set({ uploadedImages: images });
+    saveStoredUploadOrder(images.map((img) => img.id)).catch((error) =>
+      console.warn("Failed to keep the photo order", error),
+    );
+  },
+  dismissUploadIssue: (id) =>
+    set((state) => ({ uploadIssues: state.uploadIssues.filter((issue) => issue.id !== id) })),
+  setUploadMaxSide: (maxSide) => set({ uploadMaxSide: maxSide }),
+  generateAvatar: async () => {
+    const { status, uploadedImages, parameters } = get();
     if (status === "processing") return;
 
-    set({ status: "processing", generationProgress: 0 });
-
-    const totalDuration = 3000;
-    const steps = [0, 18, 37, 58, 76, 92, 100];
-    steps.forEach((value, index) => {
-      const delay = Math.min(totalDuration * (index / (steps.length - 1)), totalDuration);
-      setTimeout(() => {
-        set((state) => {
-          const newStatus: AvatarStatus = value >= 100 ? "ready" : state.status;
-          return {
-            generationProgress: value,
-            status: newStatus,
-          };
-        });
-      }, delay);
+    const controller = new AbortController();
+    generationController = controller;
+    set({
+      status: "processing",
+      generationProgress: 0,
+      generationStage: null,
+      generationError: null,
     });
+
+    try {
+      const result = await runGenerationPipeline(
+        getGenerationBackend(),
+        { images: uploadedImages, parameters },
+        {
+          signal: controller.signal,
+          onProgress: (stage, overall) =>
+            set({ generationStage: stage, generationProgress: Math.round(overall * 100) }),
+        },
+      );
+      set((state) => ({
+        ...recordHistory(state, result.parameters, "Generate from photos"),
+        headTexture: result.texture,
+        status: "ready",
+        generationProgress: 100,
+        generationStage: null,
+      }));
+    } catch (error) {
+      if (controller.signal.aborted) {
+        set({ status: "idle", generationProgress: 0, generationStage: null });
+        return;
+      }
+      console.error("Avatar generation failed", error);
+      set({
+        status: "error",
+        generationError: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      if (generationController === controller) generationController = null;
+    }
   },
+  cancelGeneration: () => generationController?.abort(),
+  setHeadTexture: (texture) => set({ headTexture: texture }),
   markSaved: (iso) => set({ lastSavedISO: iso }),
   resetParameters: () =>
-    set({
-      parameters: defaultParameters,
+    set((state) => ({
+      ...recordHistory(state, defaultParameters, "Reset to default"),
       status: "idle",
+    })),
+  undo: () => get().jumpToHistory(get().historyIndex - 1),
+  redo: () => get().jumpToHistory(get().historyIndex + 1),
+  jumpToHistory: (index) =>
+    set((state) => {
+      const entry = state.history[index];
+      if (!entry || index === state.historyIndex) return {};
+      return {
+        parameters: entry.parameters,
+        historyIndex: index,
+        status: state.status === "ready" ? "idle" : state.status,
+      };
     }),
+  setExportSettings: (settings) => set({ exportSettings: settings }),
+  setHairLod: (lod) => set({ hairLod: lod }),
+  setExpression: (weights) => set({ expression: weights }),
+  setExpressionWeight: (name, value) =>
+    set((state) => ({ expression: { ...state.expression, [name]: value } })),
+  addAnimationClips: (entries) => {
+    if (!entries.length) return;
+    set((state) => ({
+      animationClips: [...state.animationClips, ...entries],
+      activeClipId: entries[0].id,
+      animationTime: 0,
+    }));
+  },
+  removeAnimationClip: (id) =>
+    set((state) => {
+      const animationClips = state.animationClips.filter(
+        (entry) => entry.id !== id || entry.source === "built-in",
+      );
+      const removedActive = !animationClips.some((entry) => entry.id === state.activeClipId);
+      return {
+        animationClips,
+        exportClipIds: state.exportClipIds.filter((clipId) => clipId !== id),
+        ...(removedActive ? { activeClipId: builtInClips[0].id, animationTime: 0 } : {}),
+      };
+    }),
+  setActiveClip: (id) => set({ activeClipId: id, animationTime: 0 }),
+  setAnimationPlaying: (playing) => set({ animationPlaying: playing }),
+  setAnimationSpeed: (speed) => set({ animationSpeed: speed }),
+  setAnimationTime: (time) => set({ animationTime: time }),
+  toggleExportClip: (id) =>
+    set((state) => ({
+      exportClipIds: state.exportClipIds.includes(id)
+        ? state.exportClipIds.filter((clipId) => clipId !== id)
+        : [...state.exportClipIds, id],
+    })),
+  setPoseMode: (on) => set({ poseMode: on }),
+  setPose: (pose) => set({ pose }),
+  resetPose: () => set({ pose: restPose }),
+  mirrorPose: () => set((state) => ({ pose: mirrorPose(state.pose) })),
+  savePose: (name) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    set((state) => {
+      const saved = { name: trimmed, pose: state.pose };
+      const index = state.savedPoses.findIndex((entry) => entry.name === trimmed);
+      return {
+        savedPoses:
+          index < 0
+            ? [...state.savedPoses, saved]
+            : state.savedPoses.map((entry, i) => (i === index ? saved : entry)),
+      };
+    });
+  },
+  loadSavedPose: (name) => {
+    const saved = get().savedPoses.find((entry) => entry.name === name);
+    if (saved) set({ pose: saved.pose, poseMode: true });
+  },
+  deleteSavedPose: (name) =>
+    set((state) => ({ savedPoses: state.savedPoses.filter((entry) => entry.name !== name) })),
+  setSavedPoses: (poses) => set({ savedPoses: poses }),
+  setLighting: (lighting) => set({ lighting }),
+  setLightingValue: (section, key, value) =>
+    set((state) => ({
+      lighting: {
+        ...state.lighting,
+        [section]: { ...state.lighting[section], [key]: value },
+      },
+    })),
+  setCustomEnvironment: (environment) =>
+    set((state) => ({
+      lighting: {
+        ...state.lighting,
+        environment: {
+          ...state.lighting.environment,
+          source: environment ? "custom" : defaultLighting.environment.source,
+        },
+        customEnvironment: environment,
+      },
+    })),
 }));
 
 export const selectParameters = () => useAvatarStore.getState().parameters;
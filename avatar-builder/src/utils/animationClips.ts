@@ -0,0 +1,287 @@
+import {
+  AnimationClip,
+  Euler,
+  type KeyframeTrack,
+  Matrix4,
+  type Object3D,
+  Quaternion,
+  QuaternionKeyframeTrack,
+  type SkinnedMesh,
+  Vector3,
+  VectorKeyframeTrack,
+} from "three";
+import { createSourceMotion, retargetMotion, type SourceMotion } from "./retargeting";
+import { type HumanoidBoneName, humanoidBoneNames, type RigLayout } from "./rig";
+
+export const builtInClipIds = ["idle", "walk", "run", "wave"] as const;
+
+export type BuiltInClipId = (typeof builtInClipIds)[number];
+
+/**
+ * A clip in the library. Clips are generated or retargeted for the rig when
+ * played or exported, so they follow its proportions.
+ */
+export interface AnimationClipEntry {
+  id: string;
+  name: string;
+  /** Seconds. */
+  duration: number;
+  source: "built-in" | "file";
+  /** The loaded animation on its own skeleton; absent for built-in clips. */
+  motion?: SourceMotion;
+}
+
+const builtInDurations: Record<BuiltInClipId, number> = {
+  idle: 4,
+  walk: 1.1,
+  run: 0.7,
+  wave: 2,
+};
+
+export const builtInClips: AnimationClipEntry[] = builtInClipIds.map((id) => ({
+  id,
+  name: id[0].toUpperCase() + id.slice(1),
+  duration: builtInDurations[id],
+  source: "built-in",
+}));
+
+/** Euler XYZ rotations in radians, relative to the rest pose. */
+type ClipPose = Partial<Record<HumanoidBoneName, [number, number, number]>>;
+
+/** One frame of a looping clip at `phase` 0–1: bone rotations and the hips' offset from rest. */
+type ClipFrame = { pose: ClipPose; hips?: [number, number, number] };
+
+const wave = (phase: number, cycles = 1, offset = 0) =>
+  Math.sin((phase * cycles + offset) * Math.PI * 2);
+
+// The rest pose has the arms hanging down and the avatar facing +Z, so a
+// negative X rotation swings a limb forward and a positive one bends a knee.
+const clipFrames: Record<BuiltInClipId, (phase: number) => ClipFrame> = {
+  idle: (phase) => ({
+    pose: {
+      Spine1: [0.02 * wave(phase), 0, 0],
+      Spine2: [0.015 * wave(phase, 1, 0.1), 0, 0],
+      Neck: [0, 0.04 * wave(phase, 1, 0.3), 0],
+      Head: [0.02 * wave(phase, 2), 0.05 * wave(phase, 1, 0.25), 0],
+      LeftArm: [0.03 * wave(phase, 1, 0.5), 0, 0.03 * wave(phase)],
+      RightArm: [0.03 * wave(phase, 1, 0.5), 0, -0.03 * wave(phase)],
+      LeftForeArm: [-0.1, 0, 0],
+      RightForeArm: [-0.1, 0, 0],
+    },
+    hips: [0, 0.005 * wave(phase, 2), 0],
+  }),
+  walk: (phase) => {
+    const stride = wave(phase);
+    const swing = (side: 1 | -1) => 0.1 + 0.6 * Math.max(0, wave(phase, 1, 0.25) * side);
+    return {
+      pose: {
+        Hips: [0, 0.08 * stride, 0.03 * stride],
+        Spine: [0.03, -0.06 * stride, 0],
+        Spine2: [0, -0.05 * stride, 0],
+        Head: [0, 0.06 * stride, 0],
+        LeftUpLeg: [-0.45 * stride, 0, 0],
+        RightUpLeg: [0.45 * stride, 0, 0],
+        LeftLeg: [swing(1), 0, 0],
+        RightLeg: [swing(-1), 0, 0],
+        LeftFoot: [0.15 * stride, 0, 0],
+        RightFoot: [-0.15 * stride, 0, 0],
+        LeftArm: [0.35 * stride, 0, 0.05],
+        RightArm: [-0.35 * stride, 0, -0.05],
+        LeftForeArm: [-0.25 - 0.15 * Math.max(0, -stride), 0, 0],
+        RightForeArm: [-0.25 - 0.15 * Math.max(0, stride), 0, 0],
+      },
+      hips: [0, 0.02 * wave(phase, 2, 0.25), 0],
+    };
+  },
+  run: (phase) => {
+    const stride = wave(phase);
+    const swing = (side: 1 | -1) => 0.3 + 1.2 * Math.max(0, wave(phase, 1, 0.25) * side);
+    return {
+      pose: {
+        Hips: [0.1, 0.12 * stride, 0.04 * stride],
+        Spine: [0.12, -0.1 * stride, 0],
+        Spine2: [0.05, -0.08 * stride, 0],
+        Head: [-0.12, 0.08 * stride, 0],
+        LeftUpLeg: [-0.1 - 0.7 * stride, 0, 0],
+        RightUpLeg: [-0.1 + 0.7 * stride, 0, 0],
+        LeftLeg: [swing(1), 0, 0],
+        RightLeg: [swing(-1), 0, 0],
+        LeftFoot: [0.25 * stride, 0, 0],
+        RightFoot: [-0.25 * stride, 0, 0],
+        LeftArm: [0.6 * stride, 0, 0.12],
+        RightArm: [-0.6 * stride, 0, -0.12],
+        LeftForeArm: [-1.3, 0, 0],
+        RightForeArm: [-1.3, 0, 0],
+      },
+      hips: [0, 0.05 * Math.abs(wave(phase, 1, 0.25)) - 0.04, 0],
+    };
+  },
+  wave: (phase) => ({
+    pose: {
+      Spine2: [0, 0, 0.04],
+      Head: [0.05, -0.08, 0.04 * wave(phase)],
+      RightShoulder: [0, 0, -0.2],
+      RightArm: [-0.2, 0, -2.5],
+      RightForeArm: [0, -0.3, 0.45 * wave(phase, 2)],
+      RightHand: [0, 0, 0.2 * wave(phase, 2, 0.15)],
+      LeftArm: [0.03 * wave(phase), 0, 0.04],
+      LeftForeArm: [-0.12, 0, 0],
+    },
+    hips: [0, 0, 0],
+  }),
+};
+
+// Keyframes per second of a generated clip; the loop's last frame repeats its first.
+const builtInFrameRate = 30;
+
+/**
+ * Generates a built-in clip for a rig whose hips rest at `hipsRest`, as a
+ * looping set of quaternion tracks plus the hips' position.
+ */
+export const createBuiltInClip = (id: BuiltInClipId, hipsRest: Vector3) => {
+  const duration = builtInDurations[id];
+  const count = Math.max(2, Math.round(duration * builtInFrameRate) + 1);
+  const times = Array.from({ length: count }, (_, index) => (index / (count - 1)) * duration);
+  const frames = times.map((time) => clipFrames[id]((time / duration) % 1));
+  const euler = new Euler();
+  const quaternion = new Quaternion();
+
+  const animated = humanoidBoneNames.filter((name) => frames.some((frame) => frame.pose[name]));
+  const tracks: KeyframeTrack[] = animated.map(
+    (name) =>
+      new QuaternionKeyframeTrack(
+        `${name}.quaternion`,
+        times,
+        frames.flatMap((frame) =>
+          quaternion.setFromEuler(euler.set(...(frame.pose[name] ?? [0, 0, 0]))).toArray(),
+        ),
+      ),
+  );
+  tracks.push(
+    new VectorKeyframeTrack(
+      "Hips.position",
+      times,
+      frames.flatMap(({ hips = [0, 0, 0] }) => [
+        hipsRest.x + hips[0],
+        hipsRest.y + hips[1],
+        hipsRest.z + hips[2],
+      ]),
+    ),
+  );
+  const name = builtInClips.find((entry) => entry.id === id)?.name ?? id;
+  return new AnimationClip(name, duration, tracks);
+};
+
+export const isBuiltInClipId = (id: string): id is BuiltInClipId =>
+  (builtInClipIds as readonly string[]).includes(id);
+
+/** The playable clip for a library entry on a rig whose joints rest at `joints`. */
+export const resolveClip = (entry: AnimationClipEntry, joints: RigLayout["joints"]) => {
+  if (entry.motion) return retargetMotion(entry.motion, joints);
+  return isBuiltInClipId(entry.id) ? createBuiltInClip(entry.id, joints.Hips) : null;
+};
+
+/**
+ * Where the avatar's joints rest in the space its skinned meshes are bound
+ * in, read from the bind matrices so a playing clip does not move them.
+ * Null when the skeleton is not the avatar's.
+ */
+export const getBindJoints = (root: Object3D) => {
+  const joints: Partial<RigLayout["joints"]> = {};
+  root.traverse((child) => {
+    if (!(child as SkinnedMesh).isSkinnedMesh) return;
+    const { bones, boneInverses } = (child as SkinnedMesh).skeleton;
+    bones.forEach((bone, index) => {
+      const name = bone.name as HumanoidBoneName;
+      if (!humanoidBoneNames.includes(name) || joints[name]) return;
+      const bind = new Matrix4().copy(boneInverses[index]).invert();
+      joints[name] = new Vector3().setFromMatrixPosition(bind);
+    });
+  });
+  return humanoidBoneNames.every((name) => joints[name]) ? (joints as RigLayout["joints"]) : null;
+};
+
+export class AnimationImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AnimationImportError";
+  }
+}
+
+let nextClipId = 0;
+
+/** Source hierarchies and the clips on them in a parsed file. */
+type LoadedAnimations = { root: Object3D; clips: AnimationClip[] };
+
+const parseAnimationFile = async (file: File, extension: string): Promise<LoadedAnimations> => {
+  if (extension === "bvh") {
+    const { BVHLoader } = await import("three/examples/jsm/loaders/BVHLoader.js");
+    try {
+      const { skeleton, clip } = new BVHLoader().parse(await file.text());
+      return { root: skeleton.bones[0], clips: [clip] };
+    } catch {
+      throw new AnimationImportError(`${file.name} is not a readable BVH file.`);
+    }
+  }
+  if (extension === "fbx") {
+    const { FBXLoader } = await import("three/examples/jsm/loaders/FBXLoader.js");
+    try {
+      const group = new FBXLoader().parse(await file.arrayBuffer(), "");
+      return { root: group, clips: group.animations };
+    } catch {
+      throw new AnimationImportError(`${file.name} is not a readable FBX file.`);
+    }
+  }
+  const { GLTFLoader } = await import("three/examples/jsm/loaders/GLTFLoader.js");
+  const data = extension === "glb" ? await file.arrayBuffer() : await file.text();
+  return new Promise((resolve, reject) =>
+    new GLTFLoader().parse(
+      data,
+      "",
+      (gltf) => resolve({ root: gltf.scene, clips: gltf.animations }),
+      () =>
+        reject(
+          new AnimationImportError(
+            `${file.name} could not be read; .gltf files must embed their buffers.`,
+          ),
+        ),
+    ),
+  );
+};
+
+export const animationFileExtensions = ["glb", "gltf", "bvh", "fbx"];
+
+/**
+ * Reads the animations in a local glTF, GLB, BVH or FBX file as library
+ * entries, to be retargeted onto the avatar. Bones are matched by the
+ * avatar's names, Mixamo's or common mocap ones.
+ */
+export const loadAnimationFile = async (file: File): Promise<AnimationClipEntry[]> => {
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  if (!animationFileExtensions.includes(extension)) {
+    throw new AnimationImportError(`${file.name} is not a glTF, GLB, BVH or FBX file.`);
+  }
+  const baseName = file.name.replace(/\.[^.]+$/, "");
+  const { root, clips } = await parseAnimationFile(file, extension);
+
+  const entries = clips.flatMap((clip, index) => {
+    const motion = createSourceMotion(root, clip);
+    if (!motion) return [];
+    nextClipId += 1;
+    const named = clip.name && extension !== "bvh";
+    motion.name = named ? clip.name : clips.length > 1 ? `${baseName} ${index + 1}` : baseName;
+    return [
+      {
+        id: `file-${nextClipId}`,
+        name: motion.name,
+        duration: motion.duration,
+        source: "file" as const,
+        motion,
+      },
+    ];
+  });
+  if (!entries.length) {
+    throw new AnimationImportError(`No animation in ${file.name} drives the avatar's bones.`);
+  }
+  return entries;
+};
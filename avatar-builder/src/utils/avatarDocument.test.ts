@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { defaultParameters } from "@/state/avatarStore";
+import {
+  AvatarDocumentError,
+  avatarDocumentVersion,
+  createAvatarDocument,
+  parseAvatarDocument,
+  serializeAvatarDocument,
+} from "./avatarDocument";
+import { defaultLighting } from "./lighting";
+import type { NamedPose } from "./posing";
+
+const savedAt = "2024-05-01T12:00:00.000Z";
+const photo = {
+  id: "photo-1",
+  name: "front.jpg",
+  src: "data:image/jpeg;base64,AAAA",
+  size: 3,
+};
+const pose: NamedPose = {
+  name: "Wave",
+  pose: { rotations: { RightArm: [0, 0, 0.7071, 0.7071] }, gaze: [0.2, -0.1] },
+};
+
+test("a version 0 profile migrates to the current version", () => {
+  const { document, issues } = parseAvatarDocument({
+    parameters: defaultParameters,
+    uploadedImages: [photo],
+    savedAt,
+  });
+  assert.deepEqual(issues, []);
+  assert.equal(document.version, avatarDocumentVersion);
+  assert.equal(document.savedAt, savedAt);
+  assert.deepEqual(document.parameters, createAvatarDocument(defaultParameters, []).parameters);
+  assert.deepEqual(document.uploadedImages, [
+    { ...photo, width: 0, height: 0, role: null, capture: {} },
+  ]);
+  assert.deepEqual(document.poses, []);
+  assert.deepEqual(document.lighting, defaultLighting);
+});
+
+test("each older version keeps what it already had", () => {
+  const base = { format: "avatar-forge", savedAt, parameters: defaultParameters };
+  const versions = [
+    { ...base, version: 1, uploadedImages: [photo] },
+    { ...base, version: 2, uploadedImages: [{ ...photo, role: "front", width: 640, height: 480 }] },
+    { ...base, version: 3, uploadedImages: [], poses: [pose] },
+  ];
+  const [first, second, third] = versions.map((input) => {
+    const { document, issues } = parseAvatarDocument(JSON.stringify(input));
+    assert.deepEqual(issues, [], `version ${input.version}`);
+    assert.deepEqual(document.lighting, defaultLighting, `version ${input.version}`);
+    return document;
+  });
+
+  assert.equal(first.uploadedImages[0].role, null);
+  assert.deepEqual(first.poses, []);
+  const { role, width, height } = second.uploadedImages[0];
+  assert.deepEqual([role, width, height], ["front", 640, 480]);
+  assert.deepEqual(third.poses.map(({ name }) => name), ["Wave"]);
+  assert.deepEqual(third.poses[0].pose.gaze, [0.2, -0.1]);
+});
+
+test("current documents missing newer sections are reported", () => {
+  const { document, issues } = parseAvatarDocument({
+    format: "avatar-forge",
+    version: avatarDocumentVersion,
+    savedAt,
+    parameters: defaultParameters,
+    uploadedImages: [photo, { ...photo, src: "https://example.com/photo.jpg" }],
+  });
+  assert.equal(document.uploadedImages.length, 1);
+  assert.deepEqual(issues, [
+    "uploadedImages[1] is malformed; dropping it.",
+    "poses were missing; keeping none.",
+    "lighting was missing; using the defaults.",
+  ]);
+});
+
+test("documents round-trip byte for byte", () => {
+  const document = createAvatarDocument(
+    defaultParameters,
+    [{ ...photo, width: 640, height: 480, role: "front", capture: {} }],
+    savedAt,
+    [pose],
+  );
+  const serialized = serializeAvatarDocument(document);
+  const parsed = parseAvatarDocument(serialized);
+  assert.deepEqual(parsed.issues, []);
+  assert.equal(serializeAvatarDocument(parsed.document), serialized);
+});
+
+test("unreadable documents are rejected", () => {
+  const rejects = (input: unknown, message: RegExp) =>
+    assert.throws(() => parseAvatarDocument(input), (error: unknown) => {
+      assert.ok(error instanceof AvatarDocumentError);
+      assert.match(error.message, message);
+      return true;
+    });
+  rejects("{", /not valid JSON/);
+  rejects([], /JSON object/);
+  rejects({ format: "other", version: 1 }, /not an Avatar Forge document/);
+  rejects({ format: "avatar-forge", version: 1.5 }, /missing or invalid/);
+  rejects({ format: "avatar-forge", version: avatarDocumentVersion + 1 }, /reads up to version/);
+});
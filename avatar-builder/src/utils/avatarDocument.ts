@@ -0,0 +1,533 @@
+import {
+  type AvatarParameters,
+  type CaptureMetadata,
+  type ClothingConfig,
+  defaultParameters,
+  type HairConfig,
+  type PhotoRole,
+  photoRoles,
+  type UploadedImage,
+} from "@/state/avatarStore";
+import {
+  backgroundModes,
+  type CustomEnvironment,
+  defaultLighting,
+  environmentSources,
+  type LightingSettings,
+  lightingRanges,
+  toneMappingModes,
+} from "./lighting";
+import type { AvatarPose, NamedPose, PoseRotation } from "./posing";
+import { humanoidBoneNames } from "./rig";
+
+export const avatarDocumentFormat = "avatar-forge";
+
+export const avatarDocumentVersion = 4;
+
+export const avatarDocumentExtension = ".avatar.json";
+
+export interface AvatarDocument {
+  format: typeof avatarDocumentFormat;
+  version: typeof avatarDocumentVersion;
+  savedAt: string;
+  parameters: AvatarParameters;
+  uploadedImages: UploadedImage[];
+  poses: NamedPose[];
+  lighting: LightingSettings;
+}
+
+export interface ParsedAvatarDocument {
+  document: AvatarDocument;
+  /** Human-readable notes about values that were clamped, replaced or dropped. */
+  issues: string[];
+}
+
+export class AvatarDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AvatarDocumentError";
+  }
+}
+
+export const hairStyles = [
+  "buzz",
+  "short",
+  "medium",
+  "long",
+  "braids",
+] as const satisfies readonly HairConfig["style"][];
+
+export const outfits = [
+  "casual",
+  "athletic",
+  "formal",
+  "street",
+] as const satisfies readonly ClothingConfig["outfit"][];
+
+type FieldSchema =
+  | { kind: "unit" }
+  | { kind: "range"; min: number; max: number }
+  | { kind: "color" }
+  | { kind: "enum"; values: readonly string[] };
+
+const unit: FieldSchema = { kind: "unit" };
+const color: FieldSchema = { kind: "color" };
+
+/** Field order here is also the key order of serialized documents. */
+export const avatarParameterSchema: {
+  [S in keyof AvatarParameters]: { [K in keyof AvatarParameters[S]]: FieldSchema };
+} = {
+  facial: {
+    eyeSpacing: unit,
+    eyeSize: unit,
+    noseWidth: unit,
+    noseLength: unit,
+    lipFullness: unit,
+    earSize: unit,
+  },
+  head: {
+    headHeight: unit,
+    headWidth: unit,
+    chinDefinition: unit,
+    jawWidth: unit,
+    neckThickness: unit,
+  },
+  skin: {
+    tone: color,
+    roughness: unit,
+    sheen: unit,
+    subsurface: unit,
+    freckles: unit,
+  },
+  hair: {
+    style: { kind: "enum", values: hairStyles },
+    color,
+    secondaryColor: color,
+    length: unit,
+    curl: unit,
+    volume: unit,
+  },
+  body: {
+    height: unit,
+    weight: unit,
+    muscle: unit,
+    posture: unit,
+    shoulderWidth: unit,
+  },
+  clothing: {
+    outfit: { kind: "enum", values: outfits },
+    primaryColor: color,
+    secondaryColor: color,
+    fabricSheen: unit,
+    layering: unit,
+  },
+};
+
+const range = (bounds: { min: number; max: number }): FieldSchema => ({ kind: "range", ...bounds });
+
+const lightSchema = {
+  color,
+  intensity: range(lightingRanges.lightIntensity),
+  azimuth: range(lightingRanges.angle),
+  elevation: range(lightingRanges.elevation),
+};
+
+/** Like the parameters, field order here is the key order of serialized lighting. */
+const lightingSchema: {
+  [S in Exclude<keyof LightingSettings, "customEnvironment">]: {
+    [K in keyof LightingSettings[S]]: FieldSchema;
+  };
+} = {
+  environment: {
+    source: { kind: "enum", values: environmentSources },
+    intensity: range(lightingRanges.environmentIntensity),
+    rotation: range(lightingRanges.angle),
+    ambient: range(lightingRanges.ambient),
+  },
+  background: {
+    mode: { kind: "enum", values: backgroundModes },
+    color,
+    blur: range(lightingRanges.blur),
+  },
+  key: lightSchema,
+  fill: lightSchema,
+  rim: lightSchema,
+  output: {
+    exposure: range(lightingRanges.exposure),
+    toneMapping: { kind: "enum", values: toneMappingModes },
+  },
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Sliders are stored at 1e-4 precision so a load/save round trip is byte-stable. */
+const roundUnit = (value: number) => Math.round(value * 10000) / 10000;
+
+const normalizeColor = (value: string) => {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(value.trim());
+  if (!match) return null;
+  const hex = match[1].length === 3 ? match[1].replace(/./g, (digit) => digit + digit) : match[1];
+  return `#${hex.toLowerCase()}`;
+};
+
+const sanitizeField = (
+  schema: FieldSchema,
+  value: unknown,
+  fallback: string | number,
+  path: string,
+  issues: string[],
+): string | number => {
+  if (value === undefined) {
+    issues.push(`${path} was missing; using the default.`);
+    return fallback;
+  }
+
+  switch (schema.kind) {
+    case "unit": {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        issues.push(`${path} is not a number; using the default.`);
+        return fallback;
+      }
+      const clamped = Math.min(1, Math.max(0, value));
+      if (clamped !== value) issues.push(`${path} was clamped to ${clamped}.`);
+      return roundUnit(clamped);
+    }
+    case "range": {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        issues.push(`${path} is not a number; using the default.`);
+        return fallback;
+      }
+      const clamped = Math.min(schema.max, Math.max(schema.min, value));
+      if (clamped !== value) issues.push(`${path} was clamped to ${clamped}.`);
+      return roundUnit(clamped);
+    }
+    case "color": {
+      const normalized = typeof value === "string" ? normalizeColor(value) : null;
+      if (!normalized) {
+        issues.push(`${path} is not a hex colour; using the default.`);
+        return fallback;
+      }
+      return normalized;
+    }
+    case "enum":
+      if (typeof value !== "string" || !schema.values.includes(value)) {
+        issues.push(`${path} "${String(value)}" is not supported; using the default.`);
+        return fallback;
+      }
+      return value;
+  }
+};
+
+// Sanitizes every field of every section in `schema`, prefixing issue paths with `prefix`.
+const sanitizeSections = (
+  schema: Record<string, Record<string, FieldSchema>>,
+  defaults: Record<string, unknown>,
+  source: Record<string, unknown>,
+  prefix: string,
+  issues: string[],
+) =>
+  Object.fromEntries(
+    Object.keys(schema).map((section) => {
+      const sectionSchema = schema[section];
+      const sectionDefaults = defaults[section] as Record<string, string | number>;
+      const values = isRecord(source[section]) ? source[section] : {};
+      return [
+        section,
+        Object.fromEntries(
+          Object.keys(sectionSchema).map((key) => [
+            key,
+            sanitizeField(
+              sectionSchema[key],
+              values[key],
+              sectionDefaults[key],
+              `${prefix}${section}.${key}`,
+              issues,
+            ),
+          ]),
+        ),
+      ];
+    }),
+  );
+
+export const sanitizeParameters = (input: unknown, issues: string[] = []): AvatarParameters => {
+  const source = isRecord(input) ? input : {};
+  if (!isRecord(input)) issues.push("parameters were missing; using the defaults.");
+  return sanitizeSections(
+    avatarParameterSchema,
+    defaultParameters as unknown as Record<string, unknown>,
+    source,
+    "",
+    issues,
+  ) as unknown as AvatarParameters;
+};
+
+const captureFields = {
+  takenAt: "string",
+  camera: "string",
+  focalLength: "number",
+  exposureTime: "number",
+  iso: "number",
+} as const;
+
+const sanitizeCapture = (input: unknown): CaptureMetadata =>
+  isRecord(input)
+    ? Object.fromEntries(
+        Object.entries(captureFields).flatMap(([key, type]): [string, unknown][] => {
+          const value = input[key];
+          if (type === "string") return typeof value === "string" && value ? [[key, value]] : [];
+          return typeof value === "number" && Number.isFinite(value) && value > 0
+            ? [[key, value]]
+            : [];
+        }),
+      )
+    : {};
+
+const sanitizeDimension = (value: unknown) =>
+  typeof value === "number" && Number.isInteger(value) && value > 0 ? value : 0;
+
+// A photo with no role gets one guessed again once it is fitted.
+const sanitizeUploads = (input: unknown, issues: string[]): UploadedImage[] => {
+  if (input === undefined) return [];
+  if (!Array.isArray(input)) {
+    issues.push("uploadedImages is not a list; dropping it.");
+    return [];
+  }
+  return input.flatMap((image, index): UploadedImage[] => {
+    if (
+      isRecord(image) &&
+      typeof image.id === "string" &&
+      typeof image.name === "string" &&
+      typeof image.src === "string" &&
+      image.src.startsWith("data:image/") &&
+      typeof image.size === "number" &&
+      Number.isFinite(image.size) &&
+      image.size >= 0
+    ) {
+      return [
+        {
+          id: image.id,
+          name: image.name,
+          src: image.src,
+          size: image.size,
+          width: sanitizeDimension(image.width),
+          height: sanitizeDimension(image.height),
+          role: photoRoles.includes(image.role as PhotoRole) ? (image.role as PhotoRole) : null,
+          capture: sanitizeCapture(image.capture),
+        },
+      ];
+    }
+    issues.push(`uploadedImages[${index}] is malformed; dropping it.`);
+    return [];
+  });
+};
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const roundGaze = (value: number) => roundUnit(Math.min(Math.max(value, -1), 1));
+
+// Rotations and gaze are kept to 1e-4, like the sliders, so poses round-trip byte-stable.
+const sanitizePose = (input: unknown): AvatarPose | null => {
+  if (!isRecord(input) || !isRecord(input.rotations)) return null;
+  const { rotations } = input;
+  const known = humanoidBoneNames as readonly string[];
+  if (Object.keys(rotations).some((name) => !known.includes(name))) return null;
+  const sanitized: AvatarPose["rotations"] = {};
+  for (const name of humanoidBoneNames) {
+    const rotation = rotations[name];
+    if (rotation === undefined) continue;
+    if (!Array.isArray(rotation) || rotation.length !== 4 || !rotation.every(isFiniteNumber)) {
+      return null;
+    }
+    const length = Math.hypot(...rotation);
+    if (length < 1e-6) return null;
+    sanitized[name] = rotation.map((value) => roundUnit(value / length)) as PoseRotation;
+  }
+  const { gaze } = input;
+  const validGaze = Array.isArray(gaze) && gaze.length === 2 && gaze.every(isFiniteNumber);
+  return {
+    rotations: sanitized,
+    gaze: validGaze ? [roundGaze(gaze[0]), roundGaze(gaze[1])] : [0, 0],
+  };
+};
+
+const sanitizePoses = (input: unknown, issues: string[]): NamedPose[] => {
+  if (input === undefined) {
+    issues.push("poses were missing; keeping none.");
+    return [];
+  }
+  if (!Array.isArray(input)) {
+    issues.push("poses is not a list; dropping it.");
+    return [];
+  }
+  return input.flatMap((entry, index): NamedPose[] => {
+    const name = isRecord(entry) && typeof entry.name === "string" ? entry.name.trim() : "";
+    const pose = name && isRecord(entry) ? sanitizePose(entry.pose) : null;
+    if (pose) return [{ name, pose }];
+    issues.push(`poses[${index}] is malformed; dropping it.`);
+    return [];
+  });
+};
+
+const sanitizeCustomEnvironment = (input: unknown, issues: string[]): CustomEnvironment | null => {
+  if (input === undefined || input === null) return null;
+  if (
+    isRecord(input) &&
+    typeof input.name === "string" &&
+    typeof input.dataUrl === "string" &&
+    input.dataUrl.startsWith("data:application/hdr")
+  ) {
+    return { name: input.name, dataUrl: input.dataUrl };
+  }
+  issues.push("lighting.customEnvironment is malformed; dropping it.");
+  return null;
+};
+
+// A custom source may arrive without its HDR, as session profiles keep the file in
+// IndexedDB; the studio fills it back in.
+const sanitizeLighting = (input: unknown, issues: string[]): LightingSettings => {
+  if (input === undefined) {
+    issues.push("lighting was missing; using the defaults.");
+    return defaultLighting;
+  }
+  if (!isRecord(input)) {
+    issues.push("lighting is not an object; using the defaults.");
+    return defaultLighting;
+  }
+  return {
+    ...(sanitizeSections(
+      lightingSchema,
+      defaultLighting as unknown as Record<string, unknown>,
+      input,
+      "lighting.",
+      issues,
+    ) as unknown as Omit<LightingSettings, "customEnvironment">),
+    customEnvironment: sanitizeCustomEnvironment(input.customEnvironment, issues),
+  };
+};
+
+type Migration = (document: Record<string, unknown>) => Record<string, unknown>;
+
+/** `migrations[n]` upgrades a version-n document to version n + 1. */
+const migrations: Record<number, Migration> = {
+  // Version 0 is the bare `{ parameters, uploadedImages, savedAt }` profile
+  // written to localStorage before documents carried a format header.
+  0: ({ parameters, uploadedImages, savedAt }) => ({
+    format: avatarDocumentFormat,
+    version: 1,
+    savedAt,
+    parameters,
+    uploadedImages,
+  }),
+  // Version 2 gave photos a role, pixel size and capture details; unknown sizes are 0.
+  1: ({ uploadedImages, ...document }) => ({
+    ...document,
+    version: 2,
+    uploadedImages: Array.isArray(uploadedImages)
+      ? uploadedImages.map((image) =>
+          isRecord(image) ? { role: null, width: 0, height: 0, capture: {}, ...image } : image,
+        )
+      : uploadedImages,
+  }),
+  // Version 3 added named poses.
+  2: (document) => ({ ...document, version: 3, poses: document.poses ?? [] }),
+  // Version 4 added the lighting setup; older avatars get the rig the viewport always had.
+  3: (document) => ({ ...document, version: 4, lighting: document.lighting ?? defaultLighting }),
+};
+
+const readVersion = (document: Record<string, unknown>) => {
+  if (document.format === undefined && document.version === undefined) return 0;
+  if (document.format !== avatarDocumentFormat) {
+    throw new AvatarDocumentError("This file is not an Avatar Forge document.");
+  }
+  const { version } = document;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 0) {
+    throw new AvatarDocumentError("The document version is missing or invalid.");
+  }
+  if (version > avatarDocumentVersion) {
+    throw new AvatarDocumentError(
+      `The document uses schema version ${version}; this studio reads up to version ${avatarDocumentVersion}.`,
+    );
+  }
+  return version;
+};
+
+export const parseAvatarDocument = (input: string | unknown): ParsedAvatarDocument => {
+  let raw: unknown = input;
+  if (typeof input === "string") {
+    try {
+      raw = JSON.parse(input);
+    } catch {
+      throw new AvatarDocumentError("The file is not valid JSON.");
+    }
+  }
+  if (!isRecord(raw)) throw new AvatarDocumentError("The document must be a JSON object.");
+
+  let migrated = raw;
+  for (let version = readVersion(raw); version < avatarDocumentVersion; version += 1) {
+    migrated = migrations[version](migrated);
+  }
+
+  const issues: string[] = [];
+  const savedAt =
+    typeof migrated.savedAt === "string" && !Number.isNaN(Date.parse(migrated.savedAt))
+      ? new Date(migrated.savedAt).toISOString()
+      : new Date().toISOString();
+
+  return {
+    document: {
+      format: avatarDocumentFormat,
+      version: avatarDocumentVersion,
+      savedAt,
+      parameters: sanitizeParameters(migrated.parameters, issues),
+      uploadedImages: sanitizeUploads(migrated.uploadedImages, issues),
+      poses: sanitizePoses(migrated.poses, issues),
+      lighting: sanitizeLighting(migrated.lighting, issues),
+    },
+    issues,
+  };
+};
+
+export const createAvatarDocument = (
+  parameters: AvatarParameters,
+  uploadedImages: UploadedImage[],
+  savedAt = new Date().toISOString(),
+  poses: NamedPose[] = [],
+  lighting: LightingSettings = defaultLighting,
+): AvatarDocument => ({
+  format: avatarDocumentFormat,
+  version: avatarDocumentVersion,
+  savedAt,
+  parameters: sanitizeParameters(parameters),
+  uploadedImages: sanitizeUploads(uploadedImages, []),
+  poses: sanitizePoses(poses, []),
+  lighting: sanitizeLighting(lighting, []),
+});
+
+/** Stable key order and number precision, so identical avatars serialize identically. */
+export const serializeAvatarDocument = (document: AvatarDocument) =>
+  `${JSON.stringify(
+    {
+      format: document.format,
+      version: document.version,
+      savedAt: document.savedAt,
+      parameters: sanitizeParameters(document.parameters),
+      uploadedImages: document.uploadedImages.map(
+        ({ id, name, src, size, width, height, role, capture }) => ({
+          id,
+          name,
+          src,
+          size,
+          width,
+          height,
+          role,
+          capture: sanitizeCapture(capture),
+        }),
+      ),
+      poses: sanitizePoses(document.poses, []),
+      lighting: sanitizeLighting(document.lighting, []),
+    },
+    null,
+    2,
+  )}\n`;
@@ -0,0 +1,119 @@
+import {
+  type ClothCollider,
+  type ClothFrame,
+  type ClothMesh,
+  type ClothSettings,
+  type ClothWorkerRequest,
+  type ClothWorkerResponse,
+  createClothDriver,
+} from "./clothSimulation";
+
+/** A running cloth; frames come back through the callbacks it was created with. */
+export interface ClothRunner {
+  configure: (settings: ClothSettings, colliders: ClothCollider[]) => void;
+  /** Moves the cloth on by `elapsed` seconds of real time. */
+  advance: (elapsed: number) => void;
+  dispose: () => void;
+}
+
+interface RunnerListener {
+  receive: (message: ClothWorkerResponse) => void;
+  /** The worker died along with the runner's cloth. */
+  crashed: () => void;
+}
+
+let worker: Worker | null = null;
+let nextId = 0;
+const listeners = new Map<number, RunnerListener>();
+
+const getWorker = () => {
+  if (worker) return worker;
+  const created = new Worker(new URL("../workers/clothWorker.ts", import.meta.url));
+  created.addEventListener("message", (event: MessageEvent<ClothWorkerResponse>) =>
+    listeners.get(event.data.id)?.receive(event.data),
+  );
+  created.addEventListener("error", (event) => {
+    console.warn("The cloth worker crashed; simulating on the main thread", event.message);
+    created.terminate();
+    worker = null;
+    listeners.forEach((listener) => listener.crashed());
+  });
+  worker = created;
+  return created;
+};
+
+type ClothCallbacks = { onRest: (frame: ClothFrame) => void; onFrame: (frame: ClothFrame) => void };
+
+const runInPlace = (
+  mesh: ClothMesh,
+  settings: ClothSettings,
+  colliders: ClothCollider[],
+  { onRest, onFrame }: ClothCallbacks,
+) => {
+  const driver = createClothDriver(mesh, settings, colliders);
+  onRest(driver.rest);
+  return {
+    configure: driver.configure,
+    advance: (elapsed: number) => onFrame(driver.advance(elapsed)),
+  };
+};
+
+/**
+ * Simulates a cloth in a worker, so solving and normals stay off the main
+ * thread. Only one frame is asked for at a time; time passing while one is
+ * on its way is added to the next request. Without workers, or once the
+ * worker has crashed, the cloth runs in place from its latest settings.
+ */
+export const createClothRunner = (
+  mesh: ClothMesh,
+  settings: ClothSettings,
+  colliders: ClothCollider[],
+  callbacks: ClothCallbacks,
+): ClothRunner => {
+  if (typeof Worker === "undefined") {
+    return { ...runInPlace(mesh, settings, colliders, callbacks), dispose: () => {} };
+  }
+
+  const id = (nextId += 1);
+  const send = (request: ClothWorkerRequest) => getWorker().postMessage(request);
+  let latest = { settings, colliders };
+  let inPlace: ReturnType<typeof runInPlace> | null = null;
+  // Nothing is asked for until the settled drape has come back.
+  let waiting = true;
+  let owed = 0;
+  listeners.set(id, {
+    receive: (message) => {
+      waiting = false;
+      if (message.type === "rest") callbacks.onRest(message);
+      else callbacks.onFrame(message);
+    },
+    crashed: () => {
+      listeners.delete(id);
+      inPlace = runInPlace(mesh, latest.settings, latest.colliders, callbacks);
+    },
+  });
+  send({ type: "start", id, mesh, settings, colliders });
+
+  return {
+    configure: (nextSettings, nextColliders) => {
+      latest = { settings: nextSettings, colliders: nextColliders };
+      if (inPlace) inPlace.configure(nextSettings, nextColliders);
+      else send({ type: "configure", id, settings: nextSettings, colliders: nextColliders });
+    },
+    advance: (elapsed) => {
+      owed += elapsed;
+      if (inPlace) {
+        inPlace.advance(owed);
+        owed = 0;
+        return;
+      }
+      if (waiting) return;
+      waiting = true;
+      send({ type: "advance", id, elapsed: owed });
+      owed = 0;
+    },
+    dispose: () => {
+      listeners.delete(id);
+    },
+  };
+};
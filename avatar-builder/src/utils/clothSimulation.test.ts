@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  type ClothCollider,
+  createCapeMesh,
+  createClothDriver,
+  createClothState,
+  getBodyColliders,
+  getClothSettings,
+  pushOutOfCollider,
+  stepCloth,
+} from "./clothSimulation";
+import { computeRigLayout } from "./rig";
+
+const layout = computeRigLayout(
+  { headHeight: 0.5, headWidth: 0.5 },
+  { height: 0.5, shoulderWidth: 0.5 },
+);
+const colliders = getBodyColliders(layout, { weight: 0.7, muscle: 0.4 });
+const settings = getClothSettings({ fabricSheen: 0.6, layering: 0.3 });
+
+const simulate = (steps: number) => {
+  const state = createClothState(createCapeMesh(layout));
+  for (let step = 0; step < steps; step += 1) stepCloth(state, settings, colliders);
+  return state;
+};
+
+const distanceToCollider = (positions: Float32Array, offset: number, collider: ClothCollider) => {
+  const point = [positions[offset], positions[offset + 1], positions[offset + 2]];
+  if (collider.shape === "sphere") {
+    return Math.hypot(...point.map((value, axis) => value - collider.center[axis]));
+  }
+  const { start, end } = collider;
+  const axis = end.map((value, index) => value - start[index]);
+  const lengthSq = axis.reduce((total, value) => total + value * value, 0);
+  const along = point.reduce(
+    (total, value, index) => total + (value - start[index]) * axis[index],
+    0,
+  );
+  const t = lengthSq > 0 ? Math.min(Math.max(along / lengthSq, 0), 1) : 0;
+  return Math.hypot(...point.map((value, index) => value - (start[index] + axis[index] * t)));
+};
+
+test("the same inputs give the same positions", () => {
+  const first = simulate(240);
+  const second = simulate(240);
+  assert.deepEqual(first.positions, second.positions);
+  assert.notDeepEqual(first.positions, first.mesh.positions);
+});
+
+test("drivers replay identically whatever the frame timing", () => {
+  const mesh = createCapeMesh(layout);
+  const first = createClothDriver(mesh, settings, colliders);
+  const second = createClothDriver(mesh, settings, colliders);
+  assert.deepEqual(first.rest, second.rest);
+
+  let firstFrame = first.advance(0);
+  let secondFrame = second.advance(0);
+  for (let frame = 0; frame < 90; frame += 1) {
+    firstFrame = first.advance(1 / 60);
+    // The same simulated time in uneven slices, never more than the catch-up limit at once.
+    secondFrame = second.advance(frame % 2 ? 1 / 40 : 1 / 120);
+  }
+  assert.deepEqual(firstFrame.positions, secondFrame.positions);
+  assert.deepEqual(firstFrame.normals, secondFrame.normals);
+});
+
+test("pinned particles stay where they start", () => {
+  const state = simulate(240);
+  const { pinned, positions } = state.mesh;
+  assert.ok(pinned.some(Boolean));
+  pinned.forEach((isPinned, particle) => {
+    if (!isPinned) return;
+    const offset = particle * 3;
+    const at = (values: Float32Array) => Array.from(values.subarray(offset, offset + 3));
+    assert.deepEqual(at(state.positions), at(positions));
+  });
+});
+
+test("free particles end up outside the body", () => {
+  const state = simulate(240);
+  const { pinned } = state.mesh;
+  pinned.forEach((isPinned, particle) => {
+    if (isPinned) return;
+    colliders.forEach((collider, index) => {
+      const distance = distanceToCollider(state.positions, particle * 3, collider);
+      assert.ok(distance >= collider.radius - 1e-4, `particle ${particle} in collider ${index}`);
+    });
+  });
+});
+
+test("pushOutOfCollider moves points inside a collider to its surface plus the gap", () => {
+  const sphere: ClothCollider = { shape: "sphere", center: [0, 1, 0], radius: 0.5 };
+  const positions = Float32Array.from([0.1, 1.2, 0, 2, 2, 2]);
+  assert.equal(pushOutOfCollider(positions, 0, sphere, 0.05), true);
+  assert.ok(Math.abs(distanceToCollider(positions, 0, sphere) - 0.55) < 1e-6);
+  assert.equal(pushOutOfCollider(positions, 3, sphere, 0.05), false);
+  assert.deepEqual(Array.from(positions.subarray(3)), [2, 2, 2]);
+
+  const capsule: ClothCollider = {
+    shape: "capsule",
+    start: [0, 0, 0],
+    end: [0, 1, 0],
+    radius: 0.2,
+  };
+  const onAxis = Float32Array.from([0, 0.5, 0]);
+  assert.equal(pushOutOfCollider(onAxis, 0, capsule, 0), true);
+  assert.deepEqual(Array.from(onAxis), [0, 0.5, -0.2].map(Math.fround));
+  const pastEnd = Float32Array.from([0, 1.1, 0.05]);
+  pushOutOfCollider(pastEnd, 0, capsule, 0);
+  assert.ok(Math.abs(distanceToCollider(pastEnd, 0, capsule) - 0.2) < 1e-6);
+});
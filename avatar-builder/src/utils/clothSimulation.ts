@@ -0,0 +1,486 @@
+import type { BodyConfig, ClothingConfig } from "@/state/avatarStore";
+import { getLimbSegments, getTorsoAxis, headRadius, limbSides, type RigLayout } from "./rig";
+
+type Vec3 = [number, number, number];
+
+/** Body shapes the cloth is kept out of, in avatar space. */
+export type ClothCollider =
+  | { shape: "sphere"; center: Vec3; radius: number }
+  | { shape: "capsule"; start: Vec3; end: Vec3; radius: number };
+
+/** A sheet of cloth as a grid of particles, row by row from its top edge. */
+export interface ClothMesh {
+  columns: number;
+  rows: number;
+  positions: Float32Array;
+  /** 1 for particles held where they start. */
+  pinned: Uint8Array;
+}
+
+export interface ClothSettings {
+  /** Downward acceleration, m/s². */
+  gravity: number;
+  /** Mean wind velocity in m/s; gusts vary it over time. */
+  wind: Vec3;
+  /** Share of a stretch or shear violation corrected per step, 0–1. */
+  stretchStiffness: number;
+  /** Same for bending, between particles two apart. */
+  bendStiffness: number;
+  /** Share of velocity lost per second. */
+  damping: number;
+  /** Acceleration per m/s of air across the sheet; light fabric catches more. */
+  drag: number;
+  iterations: number;
+}
+
+/** The solver always advances by this much, so a run replays identically. */
+export const clothTimeStep = 1 / 60;
+
+// Gap kept between the cloth and a collider, standing in for the fabric's thickness.
+const clothThickness = 0.015;
+
+const lerp = (value: number, min: number, max: number) => min + (max - min) * value;
+
+/**
+ * Maps the clothing sliders onto the solver. More layers make a heavier,
+ * stiffer sheet that the wind moves less; more sheen means a slippery fabric
+ * like satin that drapes softly and keeps swinging.
+ */
+export const getClothSettings = ({
+  fabricSheen,
+  layering,
+}: Pick<ClothingConfig, "fabricSheen" | "layering">): ClothSettings => ({
+  gravity: 9.81,
+  wind: [0.5, 0, -1.6],
+  stretchStiffness: lerp(layering, 0.9, 1),
+  bendStiffness: lerp(layering, 0.04, 0.3) * lerp(fabricSheen, 1, 0.5),
+  damping: lerp(fabricSheen, 0.9, 0.25) + layering * 0.4,
+  drag: lerp(layering, 1.6, 0.6),
+  iterations: 10,
+});
+
+/**
+ * A cape hung from the shoulders: its top row is pinned along the shoulder
+ * line behind the neck and the rest falls to about the knees.
+ */
+export const createCapeMesh = (layout: RigLayout, columns = 19, rows = 25): ClothMesh => {
+  const { joints } = layout;
+  const half = joints.LeftArm.x * 0.95;
+  const top = joints.LeftArm.y + 0.1;
+  const length = top - joints.LeftLeg.y;
+  const positions = new Float32Array(columns * rows * 3);
+  const pinned = new Uint8Array(columns * rows);
+  for (let row = 0; row < rows; row += 1) {
+    const t = row / (rows - 1);
+    for (let column = 0; column < columns; column += 1) {
+      const s = (column / (columns - 1)) * 2 - 1;
+      const index = row * columns + column;
+      // The collar wraps forward over the shoulders and straightens out further down.
+      positions.set([s * half, top - t * length, -0.3 + 0.2 * s * s * (1 - t) ** 3], index * 3);
+      pinned[index] = row === 0 ? 1 : 0;
+    }
+  }
+  return { columns, rows, positions, pinned };
+};
+
+/** Triangle indices for a cloth grid, wound so normals face away from the body. */
+export const getClothIndices = ({ columns, rows }: Pick<ClothMesh, "columns" | "rows">) => {
+  const indices: number[] = [];
+  for (let row = 0; row < rows - 1; row += 1) {
+    for (let column = 0; column < columns - 1; column += 1) {
+      const a = row * columns + column;
+      const b = a + 1;
+      const c = a + columns;
+      const d = c + 1;
+      indices.push(a, b, c, b, d, c);
+    }
+  }
+  return indices;
+};
+
+const toVec3 = ({ x, y, z }: { x: number; y: number; z: number }): Vec3 => [x, y, z];
+
+/**
+ * Capsules and a sphere roughly matching the body the cloth hangs over.
+ * Weight and muscle are morph targets rather than joints, so they widen the
+ * radii here the way they swell the mesh.
+ */
+export const getBodyColliders = (
+  layout: RigLayout,
+  { weight, muscle }: Pick<BodyConfig, "weight" | "muscle">,
+): ClothCollider[] => {
+  const bulk = 1 + (weight - 0.5) * 0.36 + (muscle - 0.5) * 0.16;
+  const { joints, headCenter, headScale } = layout;
+  const torso = getTorsoAxis(layout);
+  const colliders: ClothCollider[] = [
+    { shape: "capsule", start: toVec3(torso.start), end: toVec3(torso.end), radius: 0.24 * bulk },
+    { shape: "capsule", start: toVec3(joints.Neck), end: toVec3(joints.Head), radius: 0.08 },
+    {
+      shape: "sphere",
+      center: toVec3(headCenter),
+      radius: headRadius * Math.max(headScale[0], headScale[1]),
+    },
+  ];
+  limbSides.forEach((side) => {
+    const segments = getLimbSegments(layout, side);
+    colliders.push({
+      shape: "capsule",
+      start: [side === "Left" ? 0.06 : -0.06, joints.Spine2.y + 0.02, -0.02],
+      end: toVec3(joints[`${side}Arm`]),
+      radius: 0.11 * bulk,
+    });
+    (["arm", "foreArm", "upLeg", "leg"] as const).forEach((name) => {
+      const { start, end, radius } = segments[name];
+      colliders.push({
+        shape: "capsule",
+        start: toVec3(start),
+        end: toVec3(end),
+        radius: radius * bulk,
+      });
+    });
+  });
+  return colliders;
+};
+
+export interface ClothState {
+  mesh: ClothMesh;
+  positions: Float32Array;
+  previous: Float32Array;
+  /** Particle index pairs kept at their starting distance. */
+  constraints: Uint32Array;
+  restLengths: Float32Array;
+  /** 1 where a constraint resists bending rather than stretching. */
+  bending: Uint8Array;
+  /**
+   * Longest distance each particle may be from the top of its column, the
+   * cloth's length between them. Sagging under its own weight is the usual
+   * weakness of position-based cloth; these keep it from stretching.
+   */
+  tethers: Float32Array;
+  triangles: Uint32Array;
+  /** Scratch space for the normals the wind pushes along. */
+  normals: Float32Array;
+  /** Simulated seconds since the start; gusts are a function of it. */
+  time: number;
+}
+
+export const createClothState = (mesh: ClothMesh): ClothState => {
+  const { columns, rows, positions } = mesh;
+  const pairs: number[] = [];
+  const bending: number[] = [];
+  const link = (a: number, b: number, bend: boolean) => {
+    pairs.push(a, b);
+    bending.push(bend ? 1 : 0);
+  };
+  for (let row = 0; row < rows; row += 1) {
+    for (let column = 0; column < columns; column += 1) {
+      const index = row * columns + column;
+      if (column + 1 < columns) link(index, index + 1, false);
+      if (row + 1 < rows) link(index, index + columns, false);
+      // Shear across each cell in both directions.
+      if (column + 1 < columns && row + 1 < rows) {
+        link(index, index + columns + 1, false);
+        link(index + 1, index + columns, false);
+      }
+      if (column + 2 < columns) link(index, index + 2, true);
+      if (row + 2 < rows) link(index, index + columns * 2, true);
+    }
+  }
+  const constraints = Uint32Array.from(pairs);
+  const restLengths = new Float32Array(constraints.length / 2);
+  for (let i = 0; i < restLengths.length; i += 1) {
+    const a = constraints[i * 2] * 3;
+    const b = constraints[i * 2 + 1] * 3;
+    restLengths[i] = Math.hypot(
+      positions[a] - positions[b],
+      positions[a + 1] - positions[b + 1],
+      positions[a + 2] - positions[b + 2],
+    );
+  }
+  const tethers = new Float32Array(columns * rows);
+  for (let index = columns; index < tethers.length; index += 1) {
+    const a = (index - columns) * 3;
+    const b = index * 3;
+    tethers[index] =
+      tethers[index - columns] +
+      Math.hypot(
+        positions[a] - positions[b],
+        positions[a + 1] - positions[b + 1],
+        positions[a + 2] - positions[b + 2],
+      );
+  }
+  return {
+    mesh,
+    positions: positions.slice(),
+    previous: positions.slice(),
+    constraints,
+    restLengths,
+    bending: Uint8Array.from(bending),
+    tethers,
+    triangles: Uint32Array.from(getClothIndices(mesh)),
+    normals: new Float32Array(positions.length),
+    time: 0,
+  };
+};
+
+/** Pushes a point to at least `gap` outside a collider; returns whether it was closer. */
+export const pushOutOfCollider = (
+  positions: Float32Array,
+  offset: number,
+  collider: ClothCollider,
+  gap: number,
+) => {
+  let cx: number;
+  let cy: number;
+  let cz: number;
+  if (collider.shape === "sphere") {
+    cx = collider.center[0];
+    cy = collider.center[1];
+    cz = collider.center[2];
+  } else {
+    const { start, end } = collider;
+    const sx = start[0];
+    const sy = start[1];
+    const sz = start[2];
+    const dx = end[0] - sx;
+    const dy = end[1] - sy;
+    const dz = end[2] - sz;
+    const lengthSq = dx * dx + dy * dy + dz * dz;
+    const along =
+      lengthSq > 0
+        ? ((positions[offset] - sx) * dx +
+            (positions[offset + 1] - sy) * dy +
+            (positions[offset + 2] - sz) * dz) /
+          lengthSq
+        : 0;
+    const t = Math.min(Math.max(along, 0), 1);
+    cx = sx + dx * t;
+    cy = sy + dy * t;
+    cz = sz + dz * t;
+  }
+  const reach = collider.radius + gap;
+  const px = positions[offset] - cx;
+  const py = positions[offset + 1] - cy;
+  const pz = positions[offset + 2] - cz;
+  const distanceSq = px * px + py * py + pz * pz;
+  if (distanceSq >= reach * reach) return false;
+  const distance = Math.sqrt(distanceSq);
+  // A particle right on the axis has no outward direction; send it behind the body.
+  if (distance < 1e-6) {
+    positions[offset + 2] = cz - reach;
+    return true;
+  }
+  const scale = reach / distance;
+  positions[offset] = cx + px * scale;
+  positions[offset + 1] = cy + py * scale;
+  positions[offset + 2] = cz + pz * scale;
+  return true;
+};
+
+/**
+ * Advances the cloth by one fixed step of position-based dynamics: gravity,
+ * damping and wind move the particles, then distance constraints and the
+ * colliders are solved in turn. Nothing random is involved, so the same
+ * inputs always give the same positions.
+ */
+export const stepCloth = (
+  state: ClothState,
+  settings: ClothSettings,
+  colliders: ClothCollider[],
+) => {
+  const { mesh, positions, previous, constraints, restLengths, bending, tethers } = state;
+  const { pinned } = mesh;
+  const dt = clothTimeStep;
+  state.time += dt;
+
+  const gust = 1 + 0.4 * Math.sin(state.time * 1.3) + 0.25 * Math.sin(state.time * 3.7 + 1);
+  const windX = settings.wind[0] * gust;
+  const windY = settings.wind[1] * gust;
+  const windZ = settings.wind[2] * gust;
+
+  // Air pushes each particle along its normal by the wind speed across the sheet there.
+  const normals = computeClothNormals(state, state.normals);
+  const keep = Math.max(1 - settings.damping * dt, 0);
+  for (let particle = 0; particle < pinned.length; particle += 1) {
+    const offset = particle * 3;
+    if (pinned[particle]) {
+      for (let axis = 0; axis < 3; axis += 1) {
+        positions[offset + axis] = mesh.positions[offset + axis];
+        previous[offset + axis] = mesh.positions[offset + axis];
+      }
+      continue;
+    }
+    const across =
+      (windX - (positions[offset] - previous[offset]) / dt) * normals[offset] +
+      (windY - (positions[offset + 1] - previous[offset + 1]) / dt) * normals[offset + 1] +
+      (windZ - (positions[offset + 2] - previous[offset + 2]) / dt) * normals[offset + 2];
+    for (let axis = 0; axis < 3; axis += 1) {
+      const current = positions[offset + axis];
+      const acceleration =
+        settings.drag * across * normals[offset + axis] - (axis === 1 ? settings.gravity : 0);
+      positions[offset + axis] +=
+        (current - previous[offset + axis]) * keep + acceleration * dt * dt;
+      previous[offset + axis] = current;
+    }
+  }
+
+  // Per-iteration stiffness giving the same overall stiffness whatever the iteration count.
+  const perIteration = (stiffness: number) =>
+    1 - (1 - Math.min(Math.max(stiffness, 0), 1)) ** (1 / settings.iterations);
+  const stretch = perIteration(settings.stretchStiffness);
+  const bend = perIteration(settings.bendStiffness);
+  for (let iteration = 0; iteration < settings.iterations; iteration += 1) {
+    for (let i = 0; i < restLengths.length; i += 1) {
+      const first = constraints[i * 2];
+      const second = constraints[i * 2 + 1];
+      const weightA = pinned[first] ? 0 : 1;
+      const weightB = pinned[second] ? 0 : 1;
+      if (!weightA && !weightB) continue;
+      const a = first * 3;
+      const b = second * 3;
+      const dx = positions[b] - positions[a];
+      const dy = positions[b + 1] - positions[a + 1];
+      const dz = positions[b + 2] - positions[a + 2];
+      const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+      if (distance < 1e-9) continue;
+      const correction =
+        ((distance - restLengths[i]) / (distance * (weightA + weightB))) *
+        (bending[i] ? bend : stretch);
+      positions[a] += dx * correction * weightA;
+      positions[a + 1] += dy * correction * weightA;
+      positions[a + 2] += dz * correction * weightA;
+      positions[b] -= dx * correction * weightB;
+      positions[b + 1] -= dy * correction * weightB;
+      positions[b + 2] -= dz * correction * weightB;
+    }
+    for (let particle = 0; particle < pinned.length; particle += 1) {
+      if (pinned[particle]) continue;
+      const offset = particle * 3;
+      // Never let a particle drift further from the collar than the cloth between them allows.
+      const anchor = (particle % mesh.columns) * 3;
+      const dx = positions[offset] - positions[anchor];
+      const dy = positions[offset + 1] - positions[anchor + 1];
+      const dz = positions[offset + 2] - positions[anchor + 2];
+      const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+      if (distance > tethers[particle]) {
+        const scale = tethers[particle] / distance;
+        positions[offset] = positions[anchor] + dx * scale;
+        positions[offset + 1] = positions[anchor + 1] + dy * scale;
+        positions[offset + 2] = positions[anchor + 2] + dz * scale;
+      }
+      for (let i = 0; i < colliders.length; i += 1) {
+        pushOutOfCollider(positions, offset, colliders[i], clothThickness);
+      }
+    }
+  }
+};
+
+/** Area-weighted vertex normals, as `computeVertexNormals` would give for the grid. */
+export const computeClothNormals = (
+  state: ClothState,
+  normals: Float32Array = new Float32Array(state.positions.length),
+) => {
+  const { positions, triangles } = state;
+  normals.fill(0);
+  for (let i = 0; i < triangles.length; i += 3) {
+    const a = triangles[i] * 3;
+    const b = triangles[i + 1] * 3;
+    const c = triangles[i + 2] * 3;
+    const abx = positions[b] - positions[a];
+    const aby = positions[b + 1] - positions[a + 1];
+    const abz = positions[b + 2] - positions[a + 2];
+    const acx = positions[c] - positions[a];
+    const acy = positions[c + 1] - positions[a + 1];
+    const acz = positions[c + 2] - positions[a + 2];
+    const nx = aby * acz - abz * acy;
+    const ny = abz * acx - abx * acz;
+    const nz = abx * acy - aby * acx;
+    normals[a] += nx;
+    normals[a + 1] += ny;
+    normals[a + 2] += nz;
+    normals[b] += nx;
+    normals[b + 1] += ny;
+    normals[b + 2] += nz;
+    normals[c] += nx;
+    normals[c + 1] += ny;
+    normals[c + 2] += nz;
+  }
+  for (let i = 0; i < normals.length; i += 3) {
+    const length =
+      Math.sqrt(normals[i] ** 2 + normals[i + 1] ** 2 + normals[i + 2] ** 2) || 1;
+    normals[i] /= length;
+    normals[i + 1] /= length;
+    normals[i + 2] /= length;
+  }
+  return normals;
+};
+
+export interface ClothFrame {
+  positions: Float32Array;
+  normals: Float32Array;
+}
+
+// Simulated seconds of still air a new cloth hangs for before it is shown.
+const settleDuration = 2;
+// Longest real-time gap made up in one go; beyond it the cloth slows down rather than stalls.
+const maxCatchUp = 4 * clothTimeStep;
+
+/**
+ * Runs a cloth in real time on top of the fixed-step solver. It starts from
+ * the drape the cloth settles into in still air, which is also its rest pose
+ * for exports.
+ */
+export const createClothDriver = (
+  mesh: ClothMesh,
+  initialSettings: ClothSettings,
+  initialColliders: ClothCollider[],
+) => {
+  let settings = initialSettings;
+  let colliders = initialColliders;
+  const state = createClothState(mesh);
+  const stillAir: ClothSettings = { ...settings, wind: [0, 0, 0] };
+  for (let step = 0; step < settleDuration / clothTimeStep; step += 1) {
+    stepCloth(state, stillAir, colliders);
+  }
+  state.time = 0;
+  const rest: ClothFrame = {
+    positions: state.positions.slice(),
+    normals: computeClothNormals(state, new Float32Array(state.positions.length)),
+  };
+  let pending = 0;
+
+  return {
+    rest,
+    configure: (nextSettings: ClothSettings, nextColliders: ClothCollider[]) => {
+      settings = nextSettings;
+      colliders = nextColliders;
+    },
+    /** Steps through `elapsed` seconds of real time and returns the new frame. */
+    advance: (elapsed: number): ClothFrame => {
+      pending = Math.min(pending + Math.max(elapsed, 0), maxCatchUp);
+      while (pending >= clothTimeStep) {
+        stepCloth(state, settings, colliders);
+        pending -= clothTimeStep;
+      }
+      return {
+        positions: state.positions.slice(),
+        normals: computeClothNormals(state, new Float32Array(state.positions.length)),
+      };
+    },
+  };
+};
+
+export type ClothWorkerRequest =
+  | {
+      type: "start";
+      id: number;
+      mesh: ClothMesh;
+      settings: ClothSettings;
+      colliders: ClothCollider[];
+    }
+  | { type: "configure"; id: number; settings: ClothSettings; colliders: ClothCollider[] }
+  | { type: "advance"; id: number; elapsed: number };
+
+export type ClothWorkerResponse =
+  | ({ type: "rest"; id: number } & ClothFrame)
+  | ({ type: "frame"; id: number } & ClothFrame);
@@ -0,0 +1,310 @@
+import type { AvatarParameters } from "@/state/avatarStore";
+import type { ImagePoint, LandmarkFit } from "./generationPipeline";
+
+type Rgb = [number, number, number];
+
+/** A colour read off one photo region; `color` is sRGB hex after white balancing. */
+export interface ColorReading {
+  color: string;
+  /** 0–1, from how much of the region held usable pixels and how evenly coloured they were. */
+  confidence: number;
+}
+
+export interface PhotoColors {
+  imageId: string;
+  skin: ColorReading | null;
+  hair: ColorReading | null;
+  /** Lighter strands of the hair, used for the secondary pigment. */
+  hairHighlight: ColorReading | null;
+}
+
+export interface ColorSuggestion {
+  target: ColorTarget;
+  label: string;
+  from: string;
+  to: string;
+  confidence: number;
+}
+
+export type ColorTarget = "skin.tone" | "hair.color" | "hair.secondaryColor";
+
+export const colorTargetLabels: Record<ColorTarget, string> = {
+  "skin.tone": "Skin tone",
+  "hair.color": "Hair colour",
+  "hair.secondaryColor": "Hair highlight",
+};
+
+export const getTargetColors = ({ skin, hair }: AvatarParameters): Record<ColorTarget, string> => ({
+  "skin.tone": skin.tone,
+  "hair.color": hair.color,
+  "hair.secondaryColor": hair.secondaryColor,
+});
+
+export const applyTargetColors = (
+  parameters: AvatarParameters,
+  colors: { target: ColorTarget; to: string }[],
+): AvatarParameters =>
+  colors.reduce((next, { target, to }) => {
+    const [section, key] = target.split(".") as ["skin" | "hair", string];
+    return { ...next, [section]: { ...next[section], [key]: to } };
+  }, parameters);
+
+/** An 8-bit sRGB channel as linear light, 0–1. */
+export const toLinear = (channel: number) => {
+  const value = channel / 255;
+  return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+};
+
+/** Linear light back to an 8-bit sRGB channel. */
+export const toSrgb = (value: number) => {
+  const clamped = Math.min(Math.max(value, 0), 1);
+  const encoded =
+    clamped <= 0.0031308 ? clamped * 12.92 : 1.055 * clamped ** (1 / 2.4) - 0.055;
+  return Math.round(encoded * 255);
+};
+
+const toHex = ([r, g, b]: Rgb) =>
+  `#${[r, g, b].map((value) => toSrgb(value).toString(16).padStart(2, "0")).join("")}`;
+
+export const hexToRgb = (hex: string): Rgb => {
+  const value = Number.parseInt(hex.slice(1), 16);
+  return [toLinear((value >> 16) & 255), toLinear((value >> 8) & 255), toLinear(value & 255)];
+};
+
+const luminance = ([r, g, b]: Rgb) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+};
+
+const pixelAt = ({ data, width }: ImageData, x: number, y: number): Rgb => {
+  const offset = (Math.floor(y) * width + Math.floor(x)) * 4;
+  return [toLinear(data[offset]), toLinear(data[offset + 1]), toLinear(data[offset + 2])];
+};
+
+/**
+ * Per-channel gains that neutralise the light's colour cast, by the
+ * shades-of-grey estimate: a high-order mean of the unclipped pixels is
+ * assumed grey. Gains are capped so a strongly coloured scene is not
+ * overcorrected.
+ */
+export const estimateWhiteBalance = (pixels: ImageData): Rgb => {
+  const power = 6;
+  const sums: Rgb = [0, 0, 0];
+  const step = Math.max(1, Math.floor(Math.sqrt((pixels.width * pixels.height) / 20000)));
+  for (let y = 0; y < pixels.height; y += step) {
+    for (let x = 0; x < pixels.width; x += step) {
+      const rgb = pixelAt(pixels, x, y);
+      if (Math.max(...rgb) >= 0.98) continue;
+      rgb.forEach((value, channel) => (sums[channel] += value ** power));
+    }
+  }
+  const norms = sums.map((sum) => sum ** (1 / power));
+  const grey = (norms[0] + norms[1] + norms[2]) / 3;
+  return norms.map((norm) => (norm > 0 ? Math.min(Math.max(grey / norm, 0.7), 1.4) : 1)) as Rgb;
+};
+
+/** Chroma test for skin in YCbCr on 0–255 values; holds up across skin tones and lighting. */
+export const isSkinColor = (r: number, g: number, b: number) => {
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+};
+
+const isSkinPixel = (rgb: Rgb) => isSkinColor(...(rgb.map(toSrgb) as Rgb));
+
+/**
+ * A robust colour for a set of pixels: the brightest and darkest fifth go
+ * (highlights and shadow), then each channel takes its median. Confidence
+ * falls as the remaining pixels spread out in colour.
+ */
+const summarise = (samples: Rgb[], coverage: number): { rgb: Rgb; confidence: number } | null => {
+  if (samples.length < 12) return null;
+  const sorted = [...samples].sort((a, b) => luminance(a) - luminance(b));
+  const kept = sorted.slice(Math.floor(sorted.length * 0.2), Math.ceil(sorted.length * 0.8));
+  const rgb = [0, 1, 2].map((channel) => median(kept.map((sample) => sample[channel]))) as Rgb;
+  const spread = median(
+    kept.map((sample) => Math.hypot(...sample.map((value, channel) => value - rgb[channel]))),
+  );
+  const evenness = 1 - Math.min(spread / Math.max(luminance(rgb) * 0.6, 0.02), 1);
+  return { rgb, confidence: Math.min(coverage, 1) * evenness };
+};
+
+const balance = (rgb: Rgb, gains: Rgb) =>
+  rgb.map((value, channel) => value * gains[channel]) as Rgb;
+
+const toReading = (
+  summary: { rgb: Rgb; confidence: number } | null,
+  gains: Rgb,
+  trust: number,
+): ColorReading | null =>
+  summary && {
+    color: toHex(balance(summary.rgb, gains)),
+    confidence: Number((summary.confidence * trust).toFixed(3)),
+  };
+
+const lerpPoint = (a: ImagePoint, b: ImagePoint, t: number): ImagePoint => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t,
+});
+
+const collectDisc = (pixels: ImageData, centre: ImagePoint, radius: number) => {
+  const samples: Rgb[] = [];
+  const r = Math.max(Math.round(radius), 1);
+  for (let dy = -r; dy <= r; dy += 1) {
+    for (let dx = -r; dx <= r; dx += 1) {
+      const x = centre.x + dx;
+      const y = centre.y + dy;
+      if (dx * dx + dy * dy > r * r) continue;
+      if (x < 0 || y < 0 || x >= pixels.width || y >= pixels.height) continue;
+      samples.push(pixelAt(pixels, x, y));
+    }
+  }
+  return samples;
+};
+
+/**
+ * Segments skin and hair in a photo from its landmark fit. Skin comes from
+ * patches on both cheeks and the forehead that pass a skin chroma test; hair
+ * from a band over the forehead and temples, leaving out skin and pixels that
+ * match the photo's background corners.
+ */
+export const samplePhotoColors = (pixels: ImageData, fit: LandmarkFit): PhotoColors => {
+  const gains = estimateWhiteBalance(pixels);
+  const { points, box } = fit;
+  const faceWidth = Math.max(
+    Math.hypot(points.leftCheek.x - points.rightCheek.x, points.leftCheek.y - points.rightCheek.y),
+    1,
+  );
+
+  const skinPatches = [
+    lerpPoint(points.rightCheek, points.noseRight, 0.45),
+    lerpPoint(points.leftCheek, points.noseLeft, 0.45),
+    lerpPoint(points.browCenter, points.forehead, 0.5),
+  ];
+  const skinCandidates = skinPatches.flatMap((centre) =>
+    collectDisc(pixels, centre, faceWidth * 0.07),
+  );
+  const skinSamples = skinCandidates.filter(isSkinPixel);
+  const skin = summarise(skinSamples, (skinSamples.length / skinCandidates.length) * 1.25);
+
+  const corner = Math.max(Math.round(Math.min(pixels.width, pixels.height) * 0.04), 2);
+  const background = [
+    ...collectDisc(pixels, { x: corner, y: corner }, corner),
+    ...collectDisc(pixels, { x: pixels.width - 1 - corner, y: corner }, corner),
+  ];
+  const backgroundRgb = [0, 1, 2].map((channel) =>
+    median(background.map((sample) => sample[channel])),
+  ) as Rgb;
+  const isBackground = (rgb: Rgb) =>
+    Math.hypot(...rgb.map((value, channel) => value - backgroundRgb[channel])) < 0.05;
+
+  const hairCandidates: Rgb[] = [];
+  const top = Math.max(box.y - box.height * 0.22, 0);
+  const bottom = Math.min(box.y + box.height * 0.08, pixels.height - 1);
+  const left = Math.max(box.x - box.width * 0.08, 0);
+  const right = Math.min(box.x + box.width * 1.08, pixels.width - 1);
+  const step = Math.max(1, Math.floor((right - left) / 120));
+  for (let y = top; y <= bottom; y += step) {
+    for (let x = left; x <= right; x += step) hairCandidates.push(pixelAt(pixels, x, y));
+  }
+  // Brown hair passes the skin chroma test too, so only drop pixels about as bright as the skin.
+  const skinLuminance = skin ? luminance(skin.rgb) : 0;
+  const isSkinLike = (rgb: Rgb) =>
+    isSkinPixel(rgb) && Math.abs(luminance(rgb) - skinLuminance) < skinLuminance * 0.4;
+  const hairSamples = hairCandidates.filter((rgb) => !isSkinLike(rgb) && !isBackground(rgb));
+  const hairCoverage = (hairSamples.length / hairCandidates.length) * 2.5;
+  const hair = summarise(hairSamples, hairCoverage);
+  // The lightest strands stand in for the secondary pigment.
+  const lighter = [...hairSamples]
+    .sort((a, b) => luminance(a) - luminance(b))
+    .slice(Math.floor(hairSamples.length * 0.88));
+  const highlight = summarise(lighter, hairCoverage);
+
+  return {
+    imageId: fit.imageId,
+    skin: toReading(skin, gains, fit.confidence),
+    hair: toReading(hair, gains, fit.confidence),
+    hairHighlight: toReading(highlight, gains, fit.confidence),
+  };
+};
+
+/** Decodes a photo, at its own size unless one is given. */
+export const readImagePixels = async (src: string, size?: { width: number; height: number }) => {
+  const bitmap = await createImageBitmap(await (await fetch(src)).blob());
+  const { width, height } = size ?? bitmap;
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) throw new Error("2D canvas drawing is not available.");
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return context.getImageData(0, 0, width, height);
+};
+
+/**
+ * The colour under a point of a photo, given as 0–1 fractions of its width
+ * and height, averaged over a small neighbourhood. No white balance is
+ * applied: the eyedropper takes what the user sees.
+ */
+export const pickPhotoColor = async (src: string, u: number, v: number) => {
+  const pixels = await readImagePixels(src);
+  const { width, height } = pixels;
+  const radius = Math.max(Math.round(Math.min(width, height) * 0.004), 1);
+  const samples = collectDisc(pixels, { x: u * (width - 1), y: v * (height - 1) }, radius);
+  const mean = [0, 1, 2].map(
+    (channel) => samples.reduce((sum, sample) => sum + sample[channel], 0) / samples.length,
+  );
+  return toHex(mean as Rgb);
+};
+
+/** Merges readings across photos, weighting each by its confidence. */
+const combine = (readings: (ColorReading | null)[]): ColorReading | null => {
+  const usable = readings.filter((reading): reading is ColorReading => Boolean(reading));
+  const weight = usable.reduce((sum, reading) => sum + reading.confidence, 0);
+  if (!usable.length || weight <= 0) return null;
+  const rgb = [0, 1, 2].map(
+    (channel) =>
+      usable.reduce(
+        (sum, reading) => sum + hexToRgb(reading.color)[channel] * reading.confidence,
+        0,
+      ) / weight,
+  ) as Rgb;
+  return {
+    color: toHex(rgb),
+    confidence: Number(Math.max(...usable.map((reading) => reading.confidence)).toFixed(3)),
+  };
+};
+
+/** Suggested colours from every analysed photo, skipping ones already close or too uncertain. */
+export const suggestPhotoColors = (
+  photos: PhotoColors[],
+  parameters: AvatarParameters,
+  minConfidence = 0.2,
+): ColorSuggestion[] => {
+  const current = getTargetColors(parameters);
+  const estimates: Record<ColorTarget, ColorReading | null> = {
+    "skin.tone": combine(photos.map((photo) => photo.skin)),
+    "hair.color": combine(photos.map((photo) => photo.hair)),
+    "hair.secondaryColor": combine(photos.map((photo) => photo.hairHighlight)),
+  };
+  return (Object.keys(estimates) as ColorTarget[]).flatMap((target) => {
+    const estimate = estimates[target];
+    if (!estimate || estimate.confidence < minConfidence) return [];
+    const from = current[target];
+    const difference = Math.hypot(
+      ...hexToRgb(from).map((value, channel) => value - hexToRgb(estimate.color)[channel]),
+    );
+    return difference < 0.01
+      ? []
+      : [
+          {
+            target,
+            label: colorTargetLabels[target],
+            from,
+            to: estimate.color,
+            confidence: estimate.confidence,
+          },
+        ];
+  });
+};
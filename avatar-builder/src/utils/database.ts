@@ -0,0 +1,65 @@
+const databaseName = "avatar-forge";
+// Version 2 added the uploads store, version 3 the environments store.
+const databaseVersion = 3;
+
+export const presetStoreName = "presets";
+export const uploadStoreName = "uploads";
+export const environmentStoreName = "environments";
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this environment."));
+      return;
+    }
+    const request = indexedDB.open(databaseName, databaseVersion);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains(presetStoreName)) {
+        const store = database.createObjectStore(presetStoreName, { keyPath: "id" });
+        store.createIndex("updatedAt", "updatedAt");
+      }
+      if (!database.objectStoreNames.contains(uploadStoreName)) {
+        const store = database.createObjectStore(uploadStoreName, { keyPath: "id" });
+        store.createIndex("addedAt", "addedAt");
+      }
+      if (!database.objectStoreNames.contains(environmentStoreName)) {
+        database.createObjectStore(environmentStoreName, { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs one request against a store and resolves once its transaction has
+ * committed, so callers never observe a write that could still roll back.
+ */
+export const runStoreRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+) => {
+  const database = await openDatabase();
+  try {
+    const transaction = database.transaction(storeName, mode);
+    const committed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    const [result] = await Promise.all([
+      requestToPromise(run(transaction.objectStore(storeName))),
+      committed,
+    ]);
+    return result;
+  } finally {
+    database.close();
+  }
+};
@@ -0,0 +1,98 @@
+import { Matrix4, Vector3 } from "three";
+
+export type ExportUnit = "m" | "cm";
+
+export type ExportAxis = "+x" | "-x" | "+y" | "-y" | "+z" | "-z";
+
+export type ExportTextureMode = "embedded" | "external";
+
+export interface ExportSettings {
+  unit: ExportUnit;
+  upAxis: ExportAxis;
+  /** Direction the avatar faces in the exported file. */
+  forwardAxis: ExportAxis;
+  triangulate: boolean;
+  /** Export the cloth and hair as currently simulated instead of at rest. */
+  bakePose: boolean;
+  textureMode: ExportTextureMode;
+  fileNameTemplate: string;
+}
+
+export const defaultExportSettings: ExportSettings = {
+  unit: "m",
+  upAxis: "+y",
+  forwardAxis: "+z",
+  triangulate: true,
+  bakePose: true,
+  textureMode: "embedded",
+  fileNameTemplate: "avatar-{timestamp}",
+};
+
+export const exportAxes: ExportAxis[] = ["+x", "-x", "+y", "-y", "+z", "-z"];
+
+export const fileNameTokens = ["{format}", "{date}", "{time}", "{timestamp}"] as const;
+
+const storageKey = "avatar-studio-export-settings";
+
+const axisVector = (axis: ExportAxis) => {
+  const vector = new Vector3();
+  vector.setComponent("xyz".indexOf(axis[1]), axis[0] === "-" ? -1 : 1);
+  return vector;
+};
+
+export const isPerpendicularAxis = (a: ExportAxis, b: ExportAxis) => a[1] !== b[1];
+
+/**
+ * Maps the scene's Y-up, +Z-facing, metre space onto the requested axes and
+ * unit. Always a proper rotation times a uniform scale.
+ */
+export const getExportTransform = ({ unit, upAxis, forwardAxis }: ExportSettings) => {
+  const up = axisVector(upAxis);
+  const forward = axisVector(forwardAxis);
+  const side = new Vector3().crossVectors(up, forward);
+  const scale = unit === "cm" ? 100 : 1;
+  return new Matrix4().makeBasis(side, up, forward).scale(new Vector3(scale, scale, scale));
+};
+
+const padded = (value: number, length = 2) => value.toString().padStart(length, "0");
+
+export const formatExportFileName = (template: string, format: string, date = new Date()) => {
+  const tokens: Record<(typeof fileNameTokens)[number], string> = {
+    "{format}": format,
+    "{date}": `${date.getFullYear()}-${padded(date.getMonth() + 1)}-${padded(date.getDate())}`,
+    "{time}": `${padded(date.getHours())}${padded(date.getMinutes())}${padded(date.getSeconds())}`,
+    "{timestamp}": date.getTime().toString(),
+  };
+  const name = fileNameTokens
+    .reduce((result, token) => result.split(token).join(tokens[token]), template)
+    .replace(/[\\/:*?"<>|]+/g, "-")
+    .trim();
+  return name || "avatar";
+};
+
+export const loadExportSettings = (): ExportSettings => {
+  if (typeof window === "undefined") return defaultExportSettings;
+  try {
+    const saved = window.localStorage.getItem(storageKey);
+    if (!saved) return defaultExportSettings;
+    const parsed = { ...defaultExportSettings, ...(JSON.parse(saved) as Partial<ExportSettings>) };
+    const valid =
+      (parsed.unit === "m" || parsed.unit === "cm") &&
+      exportAxes.includes(parsed.upAxis) &&
+      exportAxes.includes(parsed.forwardAxis) &&
+      isPerpendicularAxis(parsed.upAxis, parsed.forwardAxis) &&
+      (parsed.textureMode === "embedded" || parsed.textureMode === "external") &&
+      typeof parsed.triangulate === "boolean" &&
+      typeof parsed.bakePose === "boolean" &&
+      typeof parsed.fileNameTemplate === "string";
+    return valid ? parsed : defaultExportSettings;
+  } catch (error) {
+    console.warn("Failed to restore export settings", error);
+    return defaultExportSettings;
+  }
+};
+
+export const saveExportSettings = (settings: ExportSettings) => {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(storageKey, JSON.stringify(settings));
+};
@@ -1,153 +1,44 @@
-import { BufferGeometry, Group, Matrix3, Mesh, Object3D, Vector3 } from "three";
-
-const isRenderableMesh = (object: Object3D): object is Mesh =>
-  (object as Mesh).isMesh === true;
-
-const formatNumber = (value: number) => {
-  return Number.parseFloat(value.toFixed(6));
-};
-
-const collectMeshes = (root: Group) => {
-  const vertices: number[] = [];
-  const normals: number[] = [];
-
-  const vertex = new Vector3();
-  const normal = new Vector3();
-  const normalMatrix = new Matrix3();
-
-  root.updateWorldMatrix(true, true);
-
-  root.traverse((child) => {
-    if (!isRenderableMesh(child)) return;
-
-    const mesh = child;
-
-    const geometry = mesh.geometry as BufferGeometry;
-    if (!geometry) return;
-
-    const worldMatrix = mesh.matrixWorld.clone();
-    normalMatrix.getNormalMatrix(worldMatrix);
-
-    const tempGeometry = geometry.toNonIndexed();
-    const positionAttribute = tempGeometry.getAttribute("position");
-    const normalAttribute = tempGeometry.getAttribute("normal");
-
-    for (let i = 0; i < positionAttribute.count; i += 1) {
-      vertex.fromBufferAttribute(positionAttribute, i);
-      vertex.applyMatrix4(worldMatrix);
-      vertices.push(formatNumber(vertex.x), formatNumber(vertex.y), formatNumber(vertex.z));
-
-      if (normalAttribute) {
-        normal.fromBufferAttribute(normalAttribute, i);
-        normal.applyMatrix3(normalMatrix).normalize();
-        normals.push(formatNumber(normal.x), formatNumber(normal.y), formatNumber(normal.z));
-      } else {
-        normals.push(0, 1, 0);
-      }
-    }
-
-    tempGeometry.dispose();
+import { type AnimationClip, Group, Mesh, Object3D, Vector3 } from "three";
+import { strToU8, zipSync } from "three/examples/jsm/libs/fflate.module.js";
+import { defaultExportSettings, type ExportSettings, getExportTransform } from "./exportSettings";
+import { buildFBXDocument, type FBXVersion, writeFBXAscii } from "./fbx";
+import { writeFBXBinary } from "./fbxBinary";
+import { bakeAvatarMeshes, disposeBakedMeshes } from "./meshBaking";
+import { writeOBJArchive } from "./obj";
+
+/**
+ * Ships a model on its own, or zipped next to the external textures it
+ * references by relative path.
+ */
+const bundleWithTextures = (
+  fileName: string,
+  data: Uint8Array<ArrayBuffer> | string,
+  textures: Record<string, Uint8Array>,
+  type: string,
+) => {
+  if (Object.keys(textures).length === 0) return new Blob([data], { type });
+  const archive = zipSync({
+    [fileName]: typeof data === "string" ? strToU8(data) : data,
+    ...textures,
   });
-
-  return { vertices, normals };
+  return new Blob([archive], { type: "application/zip" });
 };
 
-export const exportAvatarAsFBX = (group: Group) => {
-  const { vertices, normals } = collectMeshes(group);
-  const vertexCount = vertices.length / 3;
-  const polygonCount = Math.floor(vertexCount / 3);
-
-  const polygonIndices: number[] = [];
-  for (let i = 0; i < polygonCount; i += 1) {
-    const base = i * 3;
-    polygonIndices.push(base, base + 1, -(base + 2 + 1));
-  }
-
-  const now = new Date();
-
-  const serialize = (values: number[]) => values.join(",");
-
-  const header = `; FBX 7.4.0 project file\n`
-    + `FBXHeaderExtension:  {\n`
-    + `  FBXHeaderVersion: 1003\n`
-    + `  FBXVersion: 7400\n`
-    + `  CreationTimeStamp:  {\n`
-    + `    Version: 1000\n`
-    + `    Year: ${now.getUTCFullYear()}\n`
-    + `    Month: ${now.getUTCMonth() + 1}\n`
-    + `    Day: ${now.getUTCDate()}\n`
-    + `    Hour: ${now.getUTCHours()}\n`
-    + `    Minute: ${now.getUTCMinutes()}\n`
-    + `    Second: ${now.getUTCSeconds()}\n`
-    + `    Millisecond: ${now.getUTCMilliseconds()}\n`
-    + `  }\n`
-    + `  Creator: "Avatar Forge Exporter"\n`
-    + `}\n`;
-
-  const globals = `GlobalSettings:  {\n`
-    + `  Version: 1000\n`
-    + `  Properties70:  {\n`
-    + `    P: "UpAxis", "int", "Integer", "",1\n`
-    + `    P: "UpAxisSign", "int", "Integer", "",1\n`
-    + `    P: "FrontAxis", "int", "Integer", "",2\n`
-    + `    P: "FrontAxisSign", "int", "Integer", "",1\n`
-    + `    P: "CoordinateAxis", "int", "Integer", "",0\n`
-    + `    P: "CoordinateAxisSign", "int", "Integer", "",1\n`
-    + `    P: "UnitScaleFactor", "double", "Number", "",1.0\n`
-    + `  }\n`
-    + `}\n`;
-
-  const definitions = `Definitions:  {\n`
-    + `  Version: 100\n`
-    + `  Count: 2\n`
-    + `  ObjectType: "Geometry" {\n`
-    + `    Count: 1\n`
-    + `  }\n`
-    + `  ObjectType: "Model" {\n`
-    + `    Count: 1\n`
-    + `  }\n`
-    + `}\n`;
-
-  const objects = `Objects:  {\n`
-    + `  Geometry: 1, "Geometry::Avatar", "Mesh" {\n`
-    + `    Vertices: *${vertices.length} {\n`
-    + `      a: ${serialize(vertices)}\n`
-    + `    }\n`
-    + `    PolygonVertexIndex: *${polygonIndices.length} {\n`
-    + `      a: ${serialize(polygonIndices)}\n`
-    + `    }\n`
-    + `    GeometryVersion: 124\n`
-    + `    LayerElementNormal: 0 {\n`
-    + `      Version: 102\n`
-    + `      Name: ""\n`
-    + `      MappingInformationType: "ByPolygonVertex"\n`
-    + `      ReferenceInformationType: "Direct"\n`
-    + `      Normals: *${normals.length} {\n`
-    + `        a: ${serialize(normals)}\n`
-    + `      }\n`
-    + `    }\n`
-    + `  }\n`
-    + `  Model: 2, "Model::Avatar", "Mesh" {\n`
-    + `    Version: 232\n`
-    + `    Properties70:  {\n`
-    + `      P: "Lcl Translation", "Lcl Translation", "", "A",0,0,0\n`
-    + `      P: "Lcl Rotation", "Lcl Rotation", "", "A",0,0,0\n`
-    + `      P: "Lcl Scaling", "Lcl Scaling", "", "A",1,1,1\n`
-    + `    }\n`
-    + `    Shading: Y\n`
-    + `    Culling: "CullingOff"\n`
-    + `  }\n`
-    + `}\n`;
-
-  const connections = `Connections:  {\n`
-    + `  C: "OO",1,2\n`
-    + `}\n`;
-
-  const content = `${header}${globals}${definitions}${objects}${connections}`;
-  return new Blob([content], { type: "application/octet-stream" });
+const decodeDataUri = (uri: string) => {
+  const binary = atob(uri.slice(uri.indexOf(",") + 1));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
 };
 
-export const exportAvatarAsGLTF = async (group: Group) => {
+const isRenderableMesh = (object: Object3D): object is Mesh =>
+  (object as Mesh).isMesh === true;
+
+// glTF is defined as Y-up metres, so only the texture mode applies to it.
+const parseGLTF = async (
+  group: Group,
+  binary: boolean,
+  embedTextures: boolean,
+  animations: AnimationClip[],
+) => {
   const { GLTFExporter } = await import("three/examples/jsm/exporters/GLTFExporter.js");
   return new Promise<Blob>((resolve, reject) => {
     const exporter = new GLTFExporter();
@@ -156,10 +47,21 @@ export const exportAvatarAsGLTF = async (group: Group) => {
       (result) => {
         if (result instanceof ArrayBuffer) {
           resolve(new Blob([result], { type: "model/gltf-binary" }));
-        } else {
-          const json = JSON.stringify(result, null, 2);
-          resolve(new Blob([json], { type: "model/gltf+json" }));
+          return;
         }
+
+        const textures: Record<string, Uint8Array> = {};
+        if (!embedTextures) {
+          const images = (result.images ?? []) as { uri?: string; mimeType?: string }[];
+          images.forEach((image, index) => {
+            if (!image.uri?.startsWith("data:")) return;
+            const path = `textures/image_${index}.${image.mimeType === "image/jpeg" ? "jpg" : "png"}`;
+            textures[path] = decodeDataUri(image.uri);
+            image.uri = path;
+          });
+        }
+        const json = JSON.stringify(result, null, 2);
+        resolve(bundleWithTextures("avatar.gltf", json, textures, "model/gltf+json"));
       },
       (error) => {
         if (error instanceof ErrorEvent) {
@@ -168,7 +70,144 @@ export const exportAvatarAsGLTF = async (group: Group) => {
           reject(error as Error);
         }
       },
-      { onlyVisible: true, embedImages: true, forceIndices: true },
+      { binary, onlyVisible: true, embedImages: true, forceIndices: true, animations },
     );
   });
 };
+
+const fbxOptions = (settings: ExportSettings) => ({
+  transform: getExportTransform(settings),
+  triangulate: settings.triangulate,
+  embedTextures: settings.textureMode === "embedded",
+});
+
+export const exportAvatarAsFBX = async (
+  group: Group,
+  settings: ExportSettings = defaultExportSettings,
+) => {
+  const { nodes, textures } = await buildFBXDocument(group, fbxOptions(settings));
+  return bundleWithTextures("avatar.fbx", writeFBXAscii(nodes), textures, "application/octet-stream");
+};
+
+export const exportAvatarAsBinaryFBX = async (
+  group: Group,
+  settings: ExportSettings = defaultExportSettings,
+  version: FBXVersion = 7500,
+) => {
+  const { nodes, textures } = await buildFBXDocument(group, { ...fbxOptions(settings), version });
+  return bundleWithTextures(
+    "avatar.fbx",
+    writeFBXBinary(nodes, version),
+    textures,
+    "application/octet-stream",
+  );
+};
+
+/** Clips in `animations` must address the avatar's bones by name. */
+export const exportAvatarAsGLTF = (
+  group: Group,
+  settings: ExportSettings = defaultExportSettings,
+  animations: AnimationClip[] = [],
+) => parseGLTF(group, false, settings.textureMode === "embedded", animations);
+
+export const exportAvatarAsGLB = (group: Group, animations: AnimationClip[] = []) =>
+  parseGLTF(group, true, true, animations);
+
+/** Zips avatar.obj, avatar.mtl and the referenced PNG textures. */
+export const exportAvatarAsOBJ = async (
+  group: Group,
+  settings: ExportSettings = defaultExportSettings,
+) => {
+  const baked = bakeAvatarMeshes(group, getExportTransform(settings));
+  try {
+    const { obj, mtl, textures } = await writeOBJArchive(baked, "avatar.mtl", {
+      triangulate: settings.triangulate,
+    });
+    const archive = zipSync({
+      "avatar.obj": strToU8(obj),
+      "avatar.mtl": strToU8(mtl),
+      ...textures,
+    });
+    return new Blob([archive], { type: "application/zip" });
+  } finally {
+    disposeBakedMeshes(baked);
+  }
+};
+
+/** USDZ stays Y-up metres with embedded textures, as AR Quick Look expects. */
+export const exportAvatarAsUSDZ = async (group: Group) => {
+  const { USDZExporter } = await import("three/examples/jsm/exporters/USDZExporter.js");
+  const baked = bakeAvatarMeshes(group);
+  try {
+    const exporter = new USDZExporter();
+    const result = await exporter.parseAsync(baked, { quickLookCompatible: true });
+    return new Blob([result], { type: "model/vnd.usdz+zip" });
+  } finally {
+    disposeBakedMeshes(baked);
+  }
+};
+
+export interface STLExportOptions {
+  /** Keep only the head and shoulders, cut just below the upper chest joint. */
+  bust?: boolean;
+}
+
+/**
+ * Binary STL for printing; a single unit-less shell in the current pose. Hair
+ * cards have no thickness to print, so the scalp shell under them stands in.
+ */
+export const exportAvatarAsSTL = async (
+  group: Group,
+  settings: ExportSettings = defaultExportSettings,
+  { bust = false }: STLExportOptions = {},
+) => {
+  const transform = getExportTransform(settings);
+  const baked = bakeAvatarMeshes(group, transform, (mesh) => !mesh.userData.hairCards);
+  try {
+    const up = new Vector3(0, 1, 0).transformDirection(transform);
+    const cutJoint = bust ? group.getObjectByName("Spine2") : undefined;
+    const cutHeight = cutJoint
+      ? cutJoint.getWorldPosition(new Vector3()).applyMatrix4(transform).dot(up)
+      : -Infinity;
+    const a = new Vector3();
+    const b = new Vector3();
+    const c = new Vector3();
+    const normal = new Vector3();
+    const triangles: number[] = [];
+
+    baked.children.forEach((child) => {
+      if (!isRenderableMesh(child)) return;
+      const position = child.geometry.getAttribute("position");
+      const index = child.geometry.getIndex();
+      if (!position || !index) return;
+
+      for (let i = 0; i + 2 < index.count; i += 3) {
+        a.fromBufferAttribute(position, index.getX(i));
+        b.fromBufferAttribute(position, index.getX(i + 1));
+        c.fromBufferAttribute(position, index.getX(i + 2));
+        if (Math.max(a.dot(up), b.dot(up), c.dot(up)) < cutHeight) continue;
+        normal.subVectors(c, b).cross(a.clone().sub(b)).normalize();
+        triangles.push(normal.x, normal.y, normal.z, a.x, a.y, a.z, b.x, b.y, b.z, c.x, c.y, c.z);
+      }
+    });
+
+    const triangleCount = triangles.length / 12;
+    const buffer = new ArrayBuffer(84 + triangleCount * 50);
+    const view = new DataView(buffer);
+    const header = strToU8("Avatar Forge STL export");
+    new Uint8Array(buffer, 0, header.length).set(header);
+    view.setUint32(80, triangleCount, true);
+
+    for (let t = 0; t < triangleCount; t += 1) {
+      const offset = 84 + t * 50;
+      for (let k = 0; k < 12; k += 1) {
+        view.setFloat32(offset + k * 4, triangles[t * 12 + k], true);
+      }
+      view.setUint16(offset + 48, 0, true);
+    }
+
+    return new Blob([buffer], { type: "model/stl" });
+  } finally {
+    disposeBakedMeshes(baked);
+  }
+};
@@ -0,0 +1,419 @@
+import { Vector3 } from "three";
+
+/** The 52 ARKit face-tracking blendshapes. Left and right are the avatar's own. */
+export const arkitBlendshapeNames = [
+  "eyeBlinkLeft",
+  "eyeLookDownLeft",
+  "eyeLookInLeft",
+  "eyeLookOutLeft",
+  "eyeLookUpLeft",
+  "eyeSquintLeft",
+  "eyeWideLeft",
+  "eyeBlinkRight",
+  "eyeLookDownRight",
+  "eyeLookInRight",
+  "eyeLookOutRight",
+  "eyeLookUpRight",
+  "eyeSquintRight",
+  "eyeWideRight",
+  "jawForward",
+  "jawLeft",
+  "jawRight",
+  "jawOpen",
+  "mouthClose",
+  "mouthFunnel",
+  "mouthPucker",
+  "mouthLeft",
+  "mouthRight",
+  "mouthSmileLeft",
+  "mouthSmileRight",
+  "mouthFrownLeft",
+  "mouthFrownRight",
+  "mouthDimpleLeft",
+  "mouthDimpleRight",
+  "mouthStretchLeft",
+  "mouthStretchRight",
+  "mouthRollLower",
+  "mouthRollUpper",
+  "mouthShrugLower",
+  "mouthShrugUpper",
+  "mouthPressLeft",
+  "mouthPressRight",
+  "mouthLowerDownLeft",
+  "mouthLowerDownRight",
+  "mouthUpperUpLeft",
+  "mouthUpperUpRight",
+  "browDownLeft",
+  "browDownRight",
+  "browInnerUp",
+  "browOuterUpLeft",
+  "browOuterUpRight",
+  "cheekPuff",
+  "cheekSquintLeft",
+  "cheekSquintRight",
+  "noseSneerLeft",
+  "noseSneerRight",
+  "tongueOut",
+] as const;
+
+/** The Oculus (Meta) lip-sync viseme set, named as Ready Player Me and VRM tools expect. */
+export const visemeNames = [
+  "viseme_sil",
+  "viseme_PP",
+  "viseme_FF",
+  "viseme_TH",
+  "viseme_DD",
+  "viseme_kk",
+  "viseme_CH",
+  "viseme_SS",
+  "viseme_nn",
+  "viseme_RR",
+  "viseme_aa",
+  "viseme_E",
+  "viseme_I",
+  "viseme_O",
+  "viseme_U",
+] as const;
+
+export type ArkitBlendshapeName = (typeof arkitBlendshapeNames)[number];
+export type VisemeName = (typeof visemeNames)[number];
+export type ExpressionName = ArkitBlendshapeName | VisemeName;
+
+export const expressionNames: ExpressionName[] = [...arkitBlendshapeNames, ...visemeNames];
+
+/** Expression weights in 0–1; missing names are at rest. */
+export type ExpressionWeights = Partial<Record<ExpressionName, number>>;
+
+/** Visemes are mixes of the ARKit shapes, so lip-sync and face tracking agree. */
+export const visemeMixes: Record<VisemeName, Partial<Record<ArkitBlendshapeName, number>>> = {
+  viseme_sil: {},
+  viseme_PP: {
+    mouthClose: 0.2,
+    mouthPressLeft: 0.5,
+    mouthPressRight: 0.5,
+    mouthRollLower: 0.3,
+    mouthRollUpper: 0.3,
+  },
+  viseme_FF: { jawOpen: 0.1, mouthRollLower: 0.6, mouthUpperUpLeft: 0.3, mouthUpperUpRight: 0.3 },
+  viseme_TH: { jawOpen: 0.2, tongueOut: 0.5 },
+  viseme_DD: { jawOpen: 0.25, mouthStretchLeft: 0.2, mouthStretchRight: 0.2 },
+  viseme_kk: { jawOpen: 0.3, mouthStretchLeft: 0.3, mouthStretchRight: 0.3 },
+  viseme_CH: { jawOpen: 0.15, mouthFunnel: 0.5, mouthShrugUpper: 0.3 },
+  viseme_SS: {
+    jawOpen: 0.08,
+    mouthSmileLeft: 0.2,
+    mouthSmileRight: 0.2,
+    mouthStretchLeft: 0.4,
+    mouthStretchRight: 0.4,
+  },
+  viseme_nn: { jawOpen: 0.18, mouthClose: 0.1, mouthStretchLeft: 0.2, mouthStretchRight: 0.2 },
+  viseme_RR: { jawOpen: 0.15, mouthFunnel: 0.35, mouthPucker: 0.3 },
+  viseme_aa: { jawOpen: 0.65, mouthLowerDownLeft: 0.3, mouthLowerDownRight: 0.3 },
+  viseme_E: {
+    jawOpen: 0.35,
+    mouthSmileLeft: 0.2,
+    mouthSmileRight: 0.2,
+    mouthStretchLeft: 0.45,
+    mouthStretchRight: 0.45,
+  },
+  viseme_I: {
+    jawOpen: 0.2,
+    mouthSmileLeft: 0.4,
+    mouthSmileRight: 0.4,
+    mouthStretchLeft: 0.4,
+    mouthStretchRight: 0.4,
+  },
+  viseme_O: { jawOpen: 0.45, mouthFunnel: 0.6, mouthPucker: 0.2 },
+  viseme_U: { jawOpen: 0.15, mouthFunnel: 0.3, mouthPucker: 0.8 },
+};
+
+export const expressionPresets: { label: string; weights: ExpressionWeights }[] = [
+  { label: "Neutral", weights: {} },
+  {
+    label: "Smile",
+    weights: {
+      mouthSmileLeft: 0.8,
+      mouthSmileRight: 0.8,
+      cheekSquintLeft: 0.4,
+      cheekSquintRight: 0.4,
+      eyeSquintLeft: 0.2,
+      eyeSquintRight: 0.2,
+    },
+  },
+  { label: "Blink", weights: { eyeBlinkLeft: 1, eyeBlinkRight: 1 } },
+  { label: "Wink", weights: { eyeBlinkLeft: 1, mouthSmileLeft: 0.45, cheekSquintLeft: 0.5 } },
+  { label: "Jaw open", weights: { jawOpen: 1 } },
+  {
+    label: "Surprise",
+    weights: {
+      browInnerUp: 0.8,
+      browOuterUpLeft: 0.7,
+      browOuterUpRight: 0.7,
+      eyeWideLeft: 0.7,
+      eyeWideRight: 0.7,
+      jawOpen: 0.45,
+      mouthFunnel: 0.2,
+    },
+  },
+  {
+    label: "Sad",
+    weights: {
+      browInnerUp: 0.7,
+      mouthFrownLeft: 0.7,
+      mouthFrownRight: 0.7,
+      mouthShrugLower: 0.4,
+    },
+  },
+  {
+    label: "Angry",
+    weights: {
+      browDownLeft: 0.9,
+      browDownRight: 0.9,
+      eyeSquintLeft: 0.4,
+      eyeSquintRight: 0.4,
+      noseSneerLeft: 0.5,
+      noseSneerRight: 0.5,
+      mouthPressLeft: 0.4,
+      mouthPressRight: 0.4,
+    },
+  },
+  { label: "Kiss", weights: { mouthPucker: 0.9, mouthFunnel: 0.2 } },
+];
+
+/** Where the sculpted features sit on the skull, as angles on the head sphere. */
+export interface FaceLandmarks {
+  eyeAzimuth: number;
+  eyeElevation: number;
+  /** Angular radius of the eye sockets. */
+  socket: number;
+  noseBottom: number;
+  noseHalfWidth: number;
+  mouthElevation: number;
+}
+
+/** A sculpted point of the neutral head with its angles on the skull. */
+interface FacePoint {
+  point: Vector3;
+  direction: Vector3;
+  azimuth: number;
+  elevation: number;
+  landmarks: FaceLandmarks;
+}
+
+type ShapeOffset = (face: FacePoint, target: Vector3) => Vector3;
+
+const smoothstep = (edge0: number, edge1: number, value: number) => {
+  const t = Math.min(Math.max((value - edge0) / (edge1 - edge0), 0), 1);
+  return t * t * (3 - 2 * t);
+};
+
+const gauss = (value: number, width: number) => Math.exp(-((value / width) ** 2));
+
+const nudge = (target: Vector3, x: number, y: number, z: number, weight: number) =>
+  target.set(x * weight, y * weight, z * weight);
+
+const upperLid = ({ azimuth, elevation, landmarks }: FacePoint, side: number) => {
+  const { eyeAzimuth, eyeElevation, socket } = landmarks;
+  return (
+    gauss(azimuth - side * eyeAzimuth, socket * 0.8) *
+    gauss(elevation - eyeElevation - socket * 0.45, socket * 0.45)
+  );
+};
+
+const lowerLid = ({ azimuth, elevation, landmarks }: FacePoint, side: number) => {
+  const { eyeAzimuth, eyeElevation, socket } = landmarks;
+  return (
+    gauss(azimuth - side * eyeAzimuth, socket * 0.8) *
+    gauss(elevation - eyeElevation + socket * 0.5, socket * 0.4)
+  );
+};
+
+const lids = (face: FacePoint, side: number) => upperLid(face, side) + lowerLid(face, side);
+
+/** The brow above one eye, `inset` towards the middle of the face. */
+const brow = ({ azimuth, elevation, landmarks }: FacePoint, side: number, inset = 0) => {
+  const { eyeAzimuth, eyeElevation, socket } = landmarks;
+  return (
+    gauss(azimuth - side * (eyeAzimuth - inset), socket * 0.9) *
+    gauss(elevation - eyeElevation - socket * 1.1, 0.07)
+  );
+};
+
+const mouthSpan = ({ azimuth }: FacePoint) => Math.exp(-((azimuth / 0.26) ** 4));
+
+const upperLip = (face: FacePoint) =>
+  mouthSpan(face) * gauss(face.elevation - face.landmarks.mouthElevation - 0.035, 0.04);
+
+const lowerLip = (face: FacePoint) =>
+  mouthSpan(face) * gauss(face.elevation - face.landmarks.mouthElevation + 0.04, 0.045);
+
+const mouthCorner = ({ azimuth, elevation, landmarks }: FacePoint, side: number) =>
+  gauss(azimuth - side * 0.22, 0.09) * gauss(elevation - landmarks.mouthElevation, 0.07);
+
+/** Fades a mouth shape onto one side of the face. */
+const mouthSide = ({ azimuth }: FacePoint, side: number) => smoothstep(-0.05, 0.12, side * azimuth);
+
+const cheek = ({ azimuth, elevation, landmarks }: FacePoint, side: number) =>
+  gauss(azimuth - side * 0.5, 0.16) * gauss(elevation - landmarks.mouthElevation - 0.12, 0.12);
+
+/** Everything that moves with the jaw: the chin, lower lip and under the jaw. */
+const jaw = ({ direction, elevation, landmarks }: FacePoint) =>
+  smoothstep(-landmarks.mouthElevation - 0.015, -landmarks.mouthElevation + 0.06, -elevation) *
+  smoothstep(-0.1, 0.6, direction.z) *
+  smoothstep(-1.35, -0.8, elevation);
+
+// The jaw hinges just in front of the ears, a little below the head centre.
+const jawHinge = new Vector3(0, -0.03, -0.02);
+const jawAxis = new Vector3(1, 0, 0);
+const hinged = new Vector3();
+
+const lidShapes = (side: number): [string, ShapeOffset][] => [
+  ["eyeBlink", (face, target) => nudge(target, 0, -0.05, 0.012, upperLid(face, side))],
+  ["eyeLookDown", (face, target) => nudge(target, 0, -0.012, 0, upperLid(face, side))],
+  ["eyeLookIn", (face, target) => nudge(target, -side * 0.006, 0, 0, lids(face, side))],
+  ["eyeLookOut", (face, target) => nudge(target, side * 0.006, 0, 0, lids(face, side))],
+  ["eyeLookUp", (face, target) => nudge(target, 0, 0.012, 0, upperLid(face, side))],
+  ["eyeSquint", (face, target) => nudge(target, 0, 0.016, 0.004, lowerLid(face, side))],
+  ["eyeWide", (face, target) => nudge(target, 0, 0.016, -0.002, upperLid(face, side))],
+];
+
+const sidedShapes = (side: number): [string, ShapeOffset][] => [
+  [
+    "mouthSmile",
+    (face, target) => nudge(target, side * 0.012, 0.02, -0.006, mouthCorner(face, side)),
+  ],
+  ["mouthFrown", (face, target) => nudge(target, side * 0.004, -0.02, 0, mouthCorner(face, side))],
+  [
+    "mouthDimple",
+    (face, target) => nudge(target, side * 0.008, 0, -0.012, mouthCorner(face, side)),
+  ],
+  [
+    "mouthStretch",
+    (face, target) => nudge(target, side * 0.022, -0.006, -0.004, mouthCorner(face, side)),
+  ],
+  [
+    "mouthPress",
+    (face, target) => {
+      const lower = lowerLip(face);
+      const upper = upperLip(face);
+      const weight = mouthSide(face, side);
+      return nudge(target, 0, 0.012 * (lower - upper), -0.004 * (lower + upper), weight);
+    },
+  ],
+  [
+    "mouthLowerDown",
+    (face, target) => nudge(target, 0, -0.016, 0.004, lowerLip(face) * mouthSide(face, side)),
+  ],
+  [
+    "mouthUpperUp",
+    (face, target) => nudge(target, 0, 0.014, 0.004, upperLip(face) * mouthSide(face, side)),
+  ],
+  [
+    "browDown",
+    (face, target) => nudge(target, -side * 0.004, -0.022, 0.006, brow(face, side, 0.04)),
+  ],
+  ["browOuterUp", (face, target) => nudge(target, 0, 0.022, 0, brow(face, side, -0.08))],
+  ["cheekSquint", (face, target) => nudge(target, 0, 0.016, 0.006, cheek(face, side))],
+  [
+    "noseSneer",
+    ({ azimuth, elevation, landmarks }, target) =>
+      nudge(
+        target,
+        0,
+        0.014,
+        0.004,
+        gauss(azimuth - side * landmarks.noseHalfWidth * 1.2, 0.05) *
+          gauss(elevation - landmarks.noseBottom - 0.05, 0.06),
+      ),
+  ],
+];
+
+const suffixed = (shapes: [string, ShapeOffset][], suffix: string) =>
+  shapes.map(([name, offset]): [string, ShapeOffset] => [`${name}${suffix}`, offset]);
+
+const centreShapes: [string, ShapeOffset][] = [
+  ["jawForward", (face, target) => nudge(target, 0, 0, 0.025, jaw(face))],
+  ["jawLeft", (face, target) => nudge(target, 0.025, 0, 0, jaw(face))],
+  ["jawRight", (face, target) => nudge(target, -0.025, 0, 0, jaw(face))],
+  [
+    "jawOpen",
+    (face, target) => {
+      hinged.copy(face.point).sub(jawHinge).applyAxisAngle(jawAxis, 0.32 * jaw(face));
+      return target.copy(hinged).add(jawHinge).sub(face.point);
+    },
+  ],
+  ["mouthClose", (face, target) => nudge(target, 0, 0.03, 0.006, lowerLip(face))],
+  [
+    "mouthFunnel",
+    (face, target) =>
+      nudge(
+        target,
+        -face.point.x * 0.15,
+        0.01 * (upperLip(face) - lowerLip(face)),
+        0.018,
+        upperLip(face) + lowerLip(face),
+      ),
+  ],
+  [
+    "mouthPucker",
+    (face, target) =>
+      nudge(
+        target,
+        -face.point.x * 0.35,
+        0,
+        0.022,
+        mouthSpan(face) * gauss(face.elevation - face.landmarks.mouthElevation, 0.07),
+      ),
+  ],
+  ["mouthLeft", (face, target) => nudge(target, 0.02, 0, 0, upperLip(face) + lowerLip(face))],
+  ["mouthRight", (face, target) => nudge(target, -0.02, 0, 0, upperLip(face) + lowerLip(face))],
+  ["mouthRollLower", (face, target) => nudge(target, 0, 0.008, -0.014, lowerLip(face))],
+  ["mouthRollUpper", (face, target) => nudge(target, 0, -0.008, -0.014, upperLip(face))],
+  ["mouthShrugLower", (face, target) => nudge(target, 0, 0.012, 0.01, lowerLip(face))],
+  ["mouthShrugUpper", (face, target) => nudge(target, 0, 0.01, 0.006, upperLip(face))],
+  [
+    "browInnerUp",
+    ({ azimuth, elevation, landmarks }, target) =>
+      nudge(
+        target,
+        0,
+        0.024,
+        0,
+        gauss(azimuth, landmarks.eyeAzimuth * 0.7) *
+          gauss(elevation - landmarks.eyeElevation - landmarks.socket * 1.1, 0.08),
+      ),
+  ],
+  [
+    "cheekPuff",
+    (face, target) =>
+      target.copy(face.direction).multiplyScalar(0.03 * (cheek(face, 1) + cheek(face, -1))),
+  ],
+  // There is no tongue mesh, so the lower lip pushes out and down as the tongue would.
+  ["tongueOut", (face, target) => nudge(target, 0, -0.012, 0.016, lowerLip(face))],
+];
+
+const arkitShapes = Object.fromEntries([
+  ...suffixed(lidShapes(1), "Left"),
+  ...suffixed(lidShapes(-1), "Right"),
+  ...suffixed(sidedShapes(1), "Left"),
+  ...suffixed(sidedShapes(-1), "Right"),
+  ...centreShapes,
+]) as Record<ArkitBlendshapeName, ShapeOffset>;
+
+/**
+ * How far an expression moves one sculpted point of the neutral head, in the
+ * same unscaled head space as `point`. Offsets too small to see are dropped so
+ * the shapes stay sparse in exported blend shapes.
+ */
+export const getExpressionOffset = (
+  name: ArkitBlendshapeName,
+  point: Vector3,
+  direction: Vector3,
+  landmarks: FaceLandmarks,
+  target: Vector3,
+) => {
+  const azimuth = Math.atan2(direction.x, direction.z);
+  const elevation = Math.asin(Math.min(Math.max(direction.y, -1), 1));
+  arkitShapes[name]({ point, direction, azimuth, elevation, landmarks }, target);
+  return target.lengthSq() < 1e-10 ? target.set(0, 0, 0) : target;
+};
@@ -0,0 +1,104 @@
+import type {
+  AvatarParameters,
+  FacialConfig,
+  HeadConfig,
+  PhotoRole,
+} from "@/state/avatarStore";
+import type { ImagePoint, LandmarkFit } from "./generationPipeline";
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+/** Maps a measured ratio onto a 0–1 slider; `low` and `high` span the usual human range. */
+const toSlider = (ratio: number, low: number, high: number) =>
+  clamp01((ratio - low) / (high - low));
+
+const distance = (a: ImagePoint, b: ImagePoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export interface FaceEstimate {
+  facial: Pick<FacialConfig, "eyeSpacing" | "noseWidth" | "noseLength" | "lipFullness">;
+  head: Pick<HeadConfig, "headWidth" | "jawWidth">;
+}
+
+/**
+ * Reads slider values off a landmark fit. Widths are measured against the
+ * cheekbones and heights against brow-to-chin, so the photo's scale and
+ * distance do not matter.
+ */
+export const estimateFace = ({ points }: LandmarkFit): FaceEstimate => {
+  const faceWidth = Math.max(distance(points.rightCheek, points.leftCheek), 1);
+  const faceHeight = Math.max(points.chin.y - points.browCenter.y, 1);
+  return {
+    facial: {
+      eyeSpacing: toSlider(distance(points.rightEye, points.leftEye) / faceWidth, 0.38, 0.52),
+      noseWidth: toSlider(distance(points.noseRight, points.noseLeft) / faceWidth, 0.2, 0.3),
+      noseLength: toSlider((points.noseTip.y - points.browCenter.y) / faceHeight, 0.32, 0.46),
+      lipFullness: toSlider((points.lowerLip.y - points.upperLip.y) / faceHeight, 0.1, 0.22),
+    },
+    head: {
+      headWidth: toSlider(faceWidth / Math.max(points.chin.y - points.forehead.y, 1), 0.65, 0.88),
+      jawWidth: toSlider(distance(points.jawRight, points.jawLeft) / faceWidth, 0.68, 0.9),
+    },
+  };
+};
+
+export const bestFit = (fits: LandmarkFit[]) =>
+  fits.reduce<LandmarkFit | null>(
+    (best, fit) => (!best || fit.confidence > best.confidence ? fit : best),
+    null,
+  );
+
+/**
+ * Which side of the face a photo shows, from how far the nose tip sits off
+ * the midpoint of the cheeks. A subject turned to their right shows the
+ * camera their left side, with the nose towards the image's left.
+ */
+export const guessPhotoRole = ({ points, box }: LandmarkFit): PhotoRole => {
+  const middle = (points.rightCheek.x + points.leftCheek.x) / 2;
+  const turn = (points.noseTip.x - middle) / Math.max(box.width, 1);
+  if (turn < -0.12) return "left";
+  if (turn > 0.12) return "right";
+  return "front";
+};
+
+const changeLabels: Record<string, string> = {
+  eyeSpacing: "Eye spacing",
+  noseWidth: "Nose width",
+  noseLength: "Nose length",
+  lipFullness: "Lip fullness",
+  headWidth: "Face aspect",
+  jawWidth: "Jaw width",
+};
+
+export interface FaceParameterChange {
+  section: "facial" | "head";
+  key: string;
+  label: string;
+  from: number;
+  to: number;
+}
+
+/** Slider changes a fit suggests, leaving out those too small to notice. */
+export const proposeFaceChanges = (
+  fit: LandmarkFit,
+  parameters: AvatarParameters,
+  threshold = 0.03,
+): FaceParameterChange[] => {
+  const estimate = estimateFace(fit);
+  return (["facial", "head"] as const).flatMap((section) =>
+    Object.entries(estimate[section]).flatMap(([key, to]) => {
+      const from = (parameters[section] as unknown as Record<string, number>)[key];
+      return Math.abs(to - from) < threshold
+        ? []
+        : [{ section, key, label: changeLabels[key] ?? key, from, to: Number(to.toFixed(3)) }];
+    }),
+  );
+};
+
+export const applyFaceChanges = (
+  parameters: AvatarParameters,
+  changes: FaceParameterChange[],
+): AvatarParameters =>
+  changes.reduce(
+    (next, { section, key, to }) => ({ ...next, [section]: { ...next[section], [key]: to } }),
+    parameters,
+  );
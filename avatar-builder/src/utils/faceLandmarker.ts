@@ -0,0 +1,65 @@
+import { FaceLandmarker, FilesetResolver } from "@mediapipe/tasks-vision";
+import type { FaceLandmarkName, ImagePoint } from "./generationPipeline";
+
+/**
+ * The MediaPipe runtime and model are served by the app itself so fitting
+ * works offline; `scripts/setup-mediapipe.mjs` puts them in `public`.
+ */
+export const landmarkerWasmPath = "/mediapipe/wasm";
+export const landmarkerModelPath = "/models/face_landmarker.task";
+
+// Face mesh indices for the named landmarks. The mesh's "right" is the subject's right.
+const meshIndices: Record<FaceLandmarkName, number | [number, number]> = {
+  forehead: 10,
+  browCenter: 9,
+  rightEye: [33, 133],
+  leftEye: [362, 263],
+  rightCheek: 234,
+  leftCheek: 454,
+  noseTip: 1,
+  noseRight: 129,
+  noseLeft: 358,
+  upperLip: 0,
+  lowerLip: 17,
+  mouthRight: 61,
+  mouthLeft: 291,
+  jawRight: 172,
+  jawLeft: 397,
+  chin: 152,
+};
+
+let landmarker: Promise<FaceLandmarker> | null = null;
+
+const loadLandmarker = () => {
+  landmarker ??= FilesetResolver.forVisionTasks(landmarkerWasmPath)
+    .then((fileset) =>
+      FaceLandmarker.createFromOptions(fileset, {
+        baseOptions: { modelAssetPath: landmarkerModelPath, delegate: "CPU" },
+        runningMode: "IMAGE",
+        numFaces: 1,
+      }),
+    )
+    .catch((error) => {
+      // Let the next image try again, e.g. once the model files are in place.
+      landmarker = null;
+      throw error;
+    });
+  return landmarker;
+};
+
+/** Runs the face mesh model on an image; resolves to the mesh in pixels, or null without a face. */
+export const detectFaceMesh = async (image: ImageData) => {
+  const result = (await loadLandmarker()).detect(image);
+  const face = result.faceLandmarks[0];
+  if (!face) return null;
+  return face.map(({ x, y }): ImagePoint => ({ x: x * image.width, y: y * image.height }));
+};
+
+export const getMeshLandmarks = (mesh: ImagePoint[]) =>
+  Object.fromEntries(
+    Object.entries(meshIndices).map(([name, index]) => {
+      if (typeof index === "number") return [name, mesh[index]];
+      const [a, b] = index.map((i) => mesh[i]);
+      return [name, { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }];
+    }),
+  ) as Record<FaceLandmarkName, ImagePoint>;
@@ -0,0 +1,153 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  Bone,
+  Box3,
+  BoxGeometry,
+  Float32BufferAttribute,
+  Group,
+  Matrix4,
+  MeshStandardMaterial,
+  Skeleton,
+  SkinnedMesh,
+  Vector3,
+} from "three";
+import { FBXLoader } from "three/examples/jsm/loaders/FBXLoader.js";
+import { buildFBXDocument, type FBXNode, writeFBXAscii } from "./fbx";
+
+// Mirrors the studio: bones bound in avatar space under a root group carrying an offset.
+const createSkinnedAvatar = () => {
+  const hips = new Bone();
+  hips.name = "Hips";
+  hips.position.set(0, 1, 0);
+  const spine = new Bone();
+  spine.name = "Spine";
+  spine.position.set(0, 0.3, 0.05);
+  hips.add(spine);
+  hips.updateMatrixWorld(true);
+  const skeleton = new Skeleton([hips, spine]);
+
+  const geometry = new BoxGeometry(0.4, 0.6, 0.2).translate(0, 1.2, 0);
+  const count = geometry.getAttribute("position").count;
+  const skinIndex = new Array<number>(count * 4).fill(0);
+  const skinWeight = new Array<number>(count * 4).fill(0);
+  for (let i = 0; i < count; i += 1) {
+    const upper = geometry.getAttribute("position").getY(i) > 1.2;
+    skinIndex[i * 4] = upper ? 1 : 0;
+    skinWeight[i * 4] = 1;
+  }
+  geometry.setAttribute("skinIndex", new Float32BufferAttribute(skinIndex, 4));
+  geometry.setAttribute("skinWeight", new Float32BufferAttribute(skinWeight, 4));
+
+  const mesh = new SkinnedMesh(geometry, new MeshStandardMaterial({ name: "Skin" }));
+  mesh.name = "Body";
+  mesh.skeleton = skeleton;
+
+  const root = new Group();
+  root.position.set(0, -0.55, 0);
+  root.add(hips, mesh);
+  // As after a rendered frame: attached skins then track the world matrix in `bindMatrixInverse`.
+  root.updateMatrixWorld(true);
+  return { root, skeleton, mesh };
+};
+
+const findObjects = (nodes: FBXNode[], name: string, kind: string) =>
+  (nodes.find((node) => node.name === "Objects")?.children ?? []).filter(
+    (node) => node.name === name && node.properties[2]?.value === kind,
+  );
+
+const findChild = (node: FBXNode, name: string) => {
+  const child = node.children.find((entry) => entry.name === name);
+  assert.ok(child, `${name} is missing`);
+  return child;
+};
+
+const readMatrix = (node: FBXNode) =>
+  new Matrix4().fromArray(Array.from(node.properties[0].value as Float64Array));
+
+const boneNameOf = (node: FBXNode) => (node.properties[1].value as string).split("\u0000")[0];
+
+const assertClose = (actual: Vector3, expected: Vector3, label: string) => {
+  const message = `${label}: ${actual.toArray()} vs ${expected.toArray()}`;
+  assert.ok(actual.distanceTo(expected) < 1e-5, message);
+};
+
+test("cluster links sit at their bone's world position", async () => {
+  const { root, skeleton } = createSkinnedAvatar();
+  const transform = new Matrix4().makeScale(100, 100, 100);
+  const { nodes } = await buildFBXDocument(root, { transform });
+
+  const clusters = findObjects(nodes, "Deformer", "Cluster");
+  assert.equal(clusters.length, skeleton.bones.length);
+  clusters.forEach((cluster) => {
+    const bone = skeleton.getBoneByName(boneNameOf(cluster));
+    assert.ok(bone);
+    const link = readMatrix(findChild(cluster, "TransformLink"));
+    const expected = bone.getWorldPosition(new Vector3()).applyMatrix4(transform);
+    assertClose(new Vector3().setFromMatrixPosition(link), expected, bone.name);
+  });
+});
+
+test("bind pose nodes match the cluster links", async () => {
+  const { root } = createSkinnedAvatar();
+  const { nodes } = await buildFBXDocument(root);
+
+  const links = findObjects(nodes, "Deformer", "Cluster").map((cluster) =>
+    new Vector3().setFromMatrixPosition(readMatrix(findChild(cluster, "TransformLink"))),
+  );
+  const [bindPose] = findObjects(nodes, "Pose", "BindPose");
+  const posed = bindPose.children
+    .filter((node) => node.name === "PoseNode")
+    .map((node) => new Vector3().setFromMatrixPosition(readMatrix(findChild(node, "Matrix"))));
+  links.forEach((link, index) => {
+    assert.ok(posed.some((position) => position.distanceTo(link) < 1e-5), `cluster ${index}`);
+  });
+});
+
+test("a held pose is written as the bind pose with the skin posed to match", async () => {
+  const { root, skeleton, mesh } = createSkinnedAvatar();
+  const spine = skeleton.getBoneByName("Spine") as Bone;
+  spine.rotation.set(0.6, 0, 0.4);
+  root.updateMatrixWorld(true);
+  const { nodes } = await buildFBXDocument(root);
+
+  const [geometry] = findObjects(nodes, "Geometry", "Mesh");
+  const vertices = findChild(geometry, "Vertices").properties[0].value as Float64Array;
+  const position = mesh.geometry.getAttribute("position");
+  for (let i = 0; i < position.count; i += 1) {
+    const posed = mesh.applyBoneTransform(i, new Vector3().fromBufferAttribute(position, i));
+    const exported = new Vector3().fromArray(vertices, i * 3);
+    assertClose(exported, posed.applyMatrix4(mesh.matrixWorld), `vertex ${i}`);
+  }
+
+  const [spineCluster] = findObjects(nodes, "Deformer", "Cluster").filter(
+    (cluster) => boneNameOf(cluster) === "Spine",
+  );
+  const link = readMatrix(findChild(spineCluster, "TransformLink"));
+  link.elements.forEach((value, index) => {
+    assert.ok(Math.abs(value - spine.matrixWorld.elements[index]) < 1e-5, `element ${index}`);
+  });
+});
+
+test("ASCII files load back with their mesh, UVs, material and bones", async () => {
+  const { root, skeleton, mesh } = createSkinnedAvatar();
+  const { nodes } = await buildFBXDocument(root, { triangulate: false });
+  const text = new TextEncoder().encode(writeFBXAscii(nodes));
+  const loaded = new FBXLoader().parse(text.buffer, "");
+  loaded.updateMatrixWorld(true);
+
+  const body = loaded.getObjectByName("Body") as SkinnedMesh;
+  assert.ok(body?.isSkinnedMesh);
+  assert.ok(body.geometry.getAttribute("uv"));
+  assert.equal((body.material as MeshStandardMaterial).name, "Skin");
+  const bounds = new Box3().setFromObject(body, true);
+  const expected = new Box3().setFromObject(mesh, true);
+  assertClose(bounds.min, expected.min, "bounds min");
+  assertClose(bounds.max, expected.max, "bounds max");
+  skeleton.bones.forEach((bone) => {
+    const joint = loaded.getObjectByName(bone.name);
+    assert.ok(joint, bone.name);
+    const position = joint.getWorldPosition(new Vector3());
+    assertClose(position, bone.getWorldPosition(new Vector3()), bone.name);
+  });
+});
@@ -0,0 +1,860 @@
+import {
+  Bone,
+  BufferGeometry,
+  Color,
+  Euler,
+  Group,
+  Material,
+  Matrix3,
+  Matrix4,
+  Mesh,
+  MeshPhysicalMaterial,
+  Object3D,
+  Quaternion,
+  Skeleton,
+  SkinnedMesh,
+  SRGBColorSpace,
+  Texture,
+  Vector3,
+} from "three";
+import { collectPolygons } from "./meshBaking";
+import { encodeTextureImage, isTexture, sanitizeName } from "./textures";
+
+export type FBXProperty =
+  | { type: "C"; value: boolean }
+  | { type: "I"; value: number }
+  | { type: "L"; value: number }
+  | { type: "D"; value: number }
+  | { type: "S"; value: string }
+  | { type: "R"; value: Uint8Array }
+  | { type: "i"; value: Int32Array }
+  | { type: "d"; value: Float64Array };
+
+export type FBXVersion = 7400 | 7500;
+
+export interface FBXDocumentOptions {
+  version?: FBXVersion;
+  /** Axis and unit conversion applied to vertices and joints; see `getExportTransform`. */
+  transform?: Matrix4;
+  triangulate?: boolean;
+  /** When false, textures are referenced by relative path and returned alongside the nodes. */
+  embedTextures?: boolean;
+}
+
+export interface FBXDocument {
+  nodes: FBXNode[];
+  /** External texture payloads keyed by the relative path the file references. */
+  textures: Record<string, Uint8Array>;
+}
+
+export interface FBXNode {
+  name: string;
+  properties: FBXProperty[];
+  children: FBXNode[];
+}
+
+export const fbxNode = (
+  name: string,
+  properties: FBXProperty[] = [],
+  children: FBXNode[] = [],
+): FBXNode => ({ name, properties, children });
+
+const bool = (value: boolean): FBXProperty => ({ type: "C", value });
+const int = (value: number): FBXProperty => ({ type: "I", value });
+const id = (value: number): FBXProperty => ({ type: "L", value });
+const double = (value: number): FBXProperty => ({ type: "D", value });
+const string = (value: string): FBXProperty => ({ type: "S", value });
+const bytes = (value: Uint8Array): FBXProperty => ({ type: "R", value });
+const intArray = (value: ArrayLike<number>): FBXProperty => ({
+  type: "i",
+  value: value instanceof Int32Array ? value : Int32Array.from(value),
+});
+const doubleArray = (value: ArrayLike<number>): FBXProperty => ({
+  type: "d",
+  value: value instanceof Float64Array ? value : Float64Array.from(value),
+});
+
+/** FBX stores object names as `name\0\1class`; the ASCII writer renders them as `class::name`. */
+const objectName = (name: string, objectClass: string) => string(`${name}\u0000\u0001${objectClass}`);
+
+const p = (name: string, type: string, label: string, flags: string, ...values: FBXProperty[]) =>
+  fbxNode("P", [string(name), string(type), string(label), string(flags), ...values]);
+
+const properties70 = (...entries: FBXNode[]) => fbxNode("Properties70", [], entries);
+
+const leaf = (name: string, ...properties: FBXProperty[]) => fbxNode(name, properties);
+
+const isRenderableMesh = (object: Object3D): object is Mesh =>
+  (object as Mesh).isMesh === true;
+
+const isSkinnedMesh = (object: Object3D): object is SkinnedMesh =>
+  (object as SkinnedMesh).isSkinnedMesh === true;
+
+const isBone = (object: Object3D): object is Bone => (object as Bone).isBone === true;
+
+const formatNumber = (value: number) => {
+  return Number.parseFloat(value.toFixed(6));
+};
+
+interface SkinBinding {
+  skeleton: Skeleton;
+  /** Bone world matrices as posed, in the same space as the exported vertices. */
+  bindMatrices: Matrix4[];
+}
+
+interface MeshRecord {
+  name: string;
+  vertices: Float64Array;
+  normals: Float64Array;
+  uvs: Float64Array | null;
+  polygonVertexIndex: Int32Array;
+  materialIndices: Int32Array;
+  materials: Material[];
+  /** Control point indexes and weights keyed by skeleton bone index. */
+  clusters: Map<number, { indexes: number[]; weights: number[] }>;
+  blendShapes: BlendShapeRecord[];
+}
+
+/** A morph target as sparse control point offsets, with its current weight in 0–1. */
+interface BlendShapeRecord {
+  name: string;
+  weight: number;
+  indexes: number[];
+  vertices: number[];
+  normals: number[] | null;
+}
+
+const findSkinnedMesh = (root: Group) => {
+  let found: SkinnedMesh | null = null;
+  root.traverse((child) => {
+    if (!found && isSkinnedMesh(child)) found = child;
+  });
+  return found as SkinnedMesh | null;
+};
+
+const createSkinBinding = (root: Group, transform: Matrix4): SkinBinding | null => {
+  const skinnedMesh = findSkinnedMesh(root);
+  if (!skinnedMesh) return null;
+
+  const { skeleton } = skinnedMesh;
+  // The skin is bound where the bones stand, so a held pose becomes the file's bind pose.
+  // Bones go in the frame skinned vertices reach through the mesh's world matrix.
+  const meshFrame = skinnedMesh.matrixWorld.clone().multiply(skinnedMesh.bindMatrixInverse);
+  // Conjugating by the export transform keeps joints free of its scale and
+  // lets bone-local vertex offsets convert along with the vertices.
+  const inverseTransform = transform.clone().invert();
+  const bindMatrices = skeleton.bones.map((bone) =>
+    transform
+      .clone()
+      .multiply(meshFrame)
+      .multiply(bone.matrixWorld)
+      .multiply(inverseTransform),
+  );
+
+  return { skeleton, bindMatrices };
+};
+
+/** Each bone's current skinning transform in the mesh's local space, as three applies it. */
+const getSkinMatrices = ({ skeleton, bindMatrix, bindMatrixInverse }: SkinnedMesh) =>
+  skeleton.bones.map((bone, index) =>
+    bindMatrixInverse
+      .clone()
+      .multiply(bone.matrixWorld)
+      .multiply(skeleton.boneInverses[index])
+      .multiply(bindMatrix),
+  );
+
+const findParentBoneIndex = (object: Object3D, skeleton: Skeleton) => {
+  let current: Object3D | null = object.parent;
+  while (current) {
+    if (isBone(current)) {
+      const index = skeleton.bones.indexOf(current);
+      if (index >= 0) return index;
+    }
+    current = current.parent;
+  }
+  return 0;
+};
+
+const collectBlendShapes = (
+  mesh: Mesh,
+  getVertexMatrix: (index: number, target: Matrix4) => Matrix4,
+): BlendShapeRecord[] => {
+  const { geometry } = mesh;
+  const positionMorphs = geometry.morphAttributes.position;
+  if (!positionMorphs?.length) return [];
+  const normalMorphs = geometry.morphAttributes.normal;
+  const basePosition = geometry.getAttribute("position");
+  const baseNormal = geometry.getAttribute("normal");
+  const vertexMatrix = new Matrix4();
+  const linear = new Matrix3();
+  const normalMatrix = new Matrix3();
+  const names = Object.entries(mesh.morphTargetDictionary ?? {}).reduce<string[]>(
+    (list, [name, index]) => {
+      list[index] = name;
+      return list;
+    },
+    [],
+  );
+  const offset = new Vector3();
+  const normalOffset = new Vector3();
+  const base = new Vector3();
+
+  const bipolar = new Set<string>(geometry.userData.bipolarMorphs ?? []);
+
+  return positionMorphs.flatMap((morph, morphIndex) => {
+    const normalMorph = normalMorphs?.[morphIndex];
+    const shape: BlendShapeRecord = {
+      name: names[morphIndex] ?? (morph.name || `Shape${morphIndex + 1}`),
+      weight: mesh.morphTargetInfluences?.[morphIndex] ?? 0,
+      indexes: [],
+      vertices: [],
+      normals: normalMorph && baseNormal ? [] : null,
+    };
+    // Shapes store offsets for the control points they move, like relative morph targets.
+    for (let i = 0; i < morph.count; i += 1) {
+      offset.fromBufferAttribute(morph, i);
+      if (!geometry.morphTargetsRelative) offset.sub(base.fromBufferAttribute(basePosition, i));
+      if (offset.lengthSq() < 1e-12) continue;
+      // Skinning is affine, so a posed vertex moves by its offset through the skin's linear part.
+      getVertexMatrix(i, vertexMatrix);
+      offset.applyMatrix3(linear.setFromMatrix4(vertexMatrix));
+      shape.indexes.push(i);
+      shape.vertices.push(offset.x, offset.y, offset.z);
+      if (shape.normals && normalMorph) {
+        normalOffset.fromBufferAttribute(normalMorph, i);
+        if (!geometry.morphTargetsRelative) {
+          normalOffset.sub(base.fromBufferAttribute(baseNormal, i));
+        }
+        normalOffset.applyMatrix3(normalMatrix.getNormalMatrix(vertexMatrix));
+        shape.normals.push(normalOffset.x, normalOffset.y, normalOffset.z);
+      }
+    }
+    if (!bipolar.has(shape.name)) return [shape];
+    // DCC tools clamp channels to 0–100%, so a bipolar target becomes a pair pulling each way.
+    return [
+      { ...shape, name: `${shape.name}_Plus`, weight: Math.max(shape.weight, 0) },
+      {
+        ...shape,
+        name: `${shape.name}_Minus`,
+        weight: Math.max(-shape.weight, 0),
+        vertices: shape.vertices.map((value) => -value),
+        normals: shape.normals?.map((value) => -value) ?? null,
+      },
+    ];
+  });
+};
+
+const collectMesh = (
+  mesh: Mesh,
+  skin: SkinBinding | null,
+  fallbackName: string,
+  transform: Matrix4,
+  triangulate: boolean,
+): MeshRecord | null => {
+  const geometry = mesh.geometry as BufferGeometry;
+  const positionAttribute = geometry?.getAttribute("position");
+  if (!positionAttribute) return null;
+
+  const vertex = new Vector3();
+  const normal = new Vector3();
+  const worldMatrix = transform.clone().multiply(mesh.matrixWorld);
+  const normalMatrix = new Matrix3().getNormalMatrix(worldMatrix);
+
+  const normalAttribute = geometry.getAttribute("normal");
+  const uvAttribute = geometry.getAttribute("uv");
+  const skinIndexAttribute = geometry.getAttribute("skinIndex");
+  const skinWeightAttribute = geometry.getAttribute("skinWeight");
+  const isBound =
+    skin !== null && isSkinnedMesh(mesh) && mesh.skeleton === skin.skeleton && !!skinWeightAttribute;
+  const parentBone = skin ? findParentBoneIndex(mesh, skin.skeleton) : 0;
+  // Bound vertices are skinned by the bones as posed, matching the bind the skin is written at.
+  const skinMatrices = isBound ? getSkinMatrices(mesh) : null;
+  const getVertexMatrix = (index: number, target: Matrix4) => {
+    if (!skinMatrices) return target.copy(worldMatrix);
+    target.elements.fill(0);
+    for (let slot = 0; slot < 4; slot += 1) {
+      const weight = skinWeightAttribute.getComponent(index, slot);
+      if (weight <= 0) continue;
+      const { elements } = skinMatrices[skinIndexAttribute.getComponent(index, slot)];
+      for (let k = 0; k < 16; k += 1) target.elements[k] += elements[k] * weight;
+    }
+    return target.premultiply(worldMatrix);
+  };
+  const vertexMatrix = new Matrix4();
+  const vertexNormalMatrix = new Matrix3();
+
+  const vertexCount = positionAttribute.count;
+  const polygons = collectPolygons(geometry, triangulate);
+  const cornerCount = polygons.reduce((total, polygon) => total + polygon.vertices.length, 0);
+
+  const record: MeshRecord = {
+    name: mesh.name || fallbackName,
+    vertices: new Float64Array(vertexCount * 3),
+    normals: new Float64Array(vertexCount * 3),
+    uvs: uvAttribute ? new Float64Array(vertexCount * 2) : null,
+    polygonVertexIndex: new Int32Array(cornerCount),
+    materialIndices: new Int32Array(polygons.length),
+    materials: [],
+    clusters: new Map(),
+    blendShapes: collectBlendShapes(mesh, getVertexMatrix),
+  };
+
+  const addInfluence = (boneIndex: number, controlPoint: number, weight: number) => {
+    const cluster = record.clusters.get(boneIndex) ?? { indexes: [], weights: [] };
+    cluster.indexes.push(controlPoint);
+    cluster.weights.push(weight);
+    record.clusters.set(boneIndex, cluster);
+  };
+
+  // Control points map 1:1 onto the geometry's vertices so index buffers survive export.
+  for (let i = 0; i < vertexCount; i += 1) {
+    if (skin) {
+      if (isBound) {
+        for (let slot = 0; slot < 4; slot += 1) {
+          const weight = skinWeightAttribute.getComponent(i, slot);
+          if (weight > 0) addInfluence(skinIndexAttribute.getComponent(i, slot), i, weight);
+        }
+      } else {
+        addInfluence(parentBone, i, 1);
+      }
+    }
+
+    const matrix = skinMatrices ? getVertexMatrix(i, vertexMatrix) : worldMatrix;
+    vertex.fromBufferAttribute(positionAttribute, i).applyMatrix4(matrix);
+    record.vertices[i * 3] = vertex.x;
+    record.vertices[i * 3 + 1] = vertex.y;
+    record.vertices[i * 3 + 2] = vertex.z;
+
+    if (normalAttribute) {
+      const normals = skinMatrices ? vertexNormalMatrix.getNormalMatrix(matrix) : normalMatrix;
+      normal.fromBufferAttribute(normalAttribute, i).applyMatrix3(normals).normalize();
+    } else {
+      normal.set(0, 1, 0);
+    }
+    record.normals[i * 3] = normal.x;
+    record.normals[i * 3 + 1] = normal.y;
+    record.normals[i * 3 + 2] = normal.z;
+
+    if (uvAttribute && record.uvs) {
+      record.uvs[i * 2] = uvAttribute.getX(i);
+      record.uvs[i * 2 + 1] = uvAttribute.getY(i);
+    }
+  }
+
+  // Materials are connected to the model in order, so dedupe them and remap group indices.
+  const sourceMaterials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+  const localIndex = sourceMaterials.map((material) => {
+    const existing = record.materials.indexOf(material);
+    if (existing >= 0) return existing;
+    record.materials.push(material);
+    return record.materials.length - 1;
+  });
+
+  let corner = 0;
+  polygons.forEach((polygon, polygonIndex) => {
+    polygon.vertices.forEach((vertexIndex, offset) => {
+      // FBX marks the last corner of each polygon by storing it as -(index + 1).
+      record.polygonVertexIndex[corner] =
+        offset === polygon.vertices.length - 1 ? -(vertexIndex + 1) : vertexIndex;
+      corner += 1;
+    });
+    record.materialIndices[polygonIndex] = localIndex[polygon.materialIndex] ?? 0;
+  });
+
+  return record;
+};
+
+const textureSlots = [
+  ["map", "DiffuseColor"],
+  ["normalMap", "NormalMap"],
+  ["bumpMap", "Bump"],
+  ["roughnessMap", "ShininessExponent"],
+  ["metalnessMap", "ReflectionFactor"],
+  ["emissiveMap", "EmissiveColor"],
+  ["alphaMap", "TransparentColor"],
+  ["aoMap", "AmbientColor"],
+  ["sheenColorMap", "SheenColor"],
+  ["clearcoatMap", "Clearcoat"],
+] as const;
+
+const toSRGB = (color: Color) => {
+  const target = { r: 0, g: 0, b: 0 };
+  color.getRGB(target, SRGBColorSpace);
+  return [target.r, target.g, target.b].map(formatNumber);
+};
+
+const colorP = (name: string, color: Color) =>
+  p(name, "Color", "", "A", ...toSRGB(color).map(double));
+
+const numberP = (name: string, value: number) => p(name, "Number", "", "A", double(formatNumber(value)));
+
+const writeMaterial = (materialId: number, material: Material, name: string) => {
+  const physical = material as Partial<MeshPhysicalMaterial>;
+  const color = physical.color ?? new Color(0.8, 0.8, 0.8);
+  const roughness = physical.roughness ?? 1;
+  const entries = [
+    colorP("DiffuseColor", color),
+    numberP("DiffuseFactor", 1),
+    colorP("EmissiveColor", physical.emissive ?? new Color(0, 0, 0)),
+    numberP("EmissiveFactor", physical.emissiveIntensity ?? 1),
+    colorP("SpecularColor", new Color(1, 1, 1)),
+    numberP("SpecularFactor", (1 - roughness) * 0.5),
+    numberP("ShininessExponent", (1 - roughness) ** 2 * 100),
+    numberP("ReflectionFactor", physical.metalness ?? 0),
+    numberP("Opacity", material.opacity),
+    numberP("TransparencyFactor", 1 - material.opacity),
+    numberP("Roughness", roughness),
+    numberP("Metalness", physical.metalness ?? 0),
+    numberP("Sheen", physical.sheen ?? 0),
+    colorP("SheenColor", physical.sheenColor ?? new Color(0, 0, 0)),
+    numberP("SheenRoughness", physical.sheenRoughness ?? 1),
+    numberP("Clearcoat", physical.clearcoat ?? 0),
+    numberP("ClearcoatRoughness", physical.clearcoatRoughness ?? 0),
+    numberP("Transmission", physical.transmission ?? 0),
+  ];
+
+  return fbxNode("Material", [id(materialId), objectName(name, "Material"), string("")], [
+    leaf("Version", int(102)),
+    leaf("ShadingModel", string("phong")),
+    leaf("MultiLayer", int(0)),
+    properties70(...entries),
+  ]);
+};
+
+const writeTexture = (textureId: number, name: string, fileName: string) =>
+  fbxNode("Texture", [id(textureId), objectName(name, "Texture"), string("")], [
+    leaf("Type", string("TextureVideoClip")),
+    leaf("Version", int(202)),
+    leaf("TextureName", objectName(name, "Texture")),
+    properties70(
+      p("UVSet", "KString", "", "", string("UVChannel_1")),
+      p("UseMaterial", "bool", "", "", int(1)),
+    ),
+    leaf("Media", objectName(name, "Video")),
+    leaf("FileName", string(fileName)),
+    leaf("RelativeFilename", string(fileName)),
+    leaf("ModelUVTranslation", double(0), double(0)),
+    leaf("ModelUVScaling", double(1), double(1)),
+    leaf("Texture_Alpha_Source", string("None")),
+    leaf("Cropping", int(0), int(0), int(0), int(0)),
+  ]);
+
+const writeVideo = (videoId: number, name: string, fileName: string, content: Uint8Array | null) =>
+  fbxNode("Video", [id(videoId), objectName(name, "Video"), string("Clip")], [
+    leaf("Type", string("Clip")),
+    properties70(p("Path", "KString", "XRefUrl", "", string(fileName))),
+    leaf("UseMipMap", int(0)),
+    leaf("Filename", string(fileName)),
+    leaf("RelativeFilename", string(fileName)),
+    ...(content ? [leaf("Content", bytes(content))] : []),
+  ]);
+
+const transformP = (translation: number[], rotation: number[], scaling: number[]) => [
+  p("Lcl Translation", "Lcl Translation", "", "A", ...translation.map(double)),
+  p("Lcl Rotation", "Lcl Rotation", "", "A", ...rotation.map(double)),
+  p("Lcl Scaling", "Lcl Scaling", "", "A", ...scaling.map(double)),
+];
+
+const writeModel = (modelId: number, name: string, type: string, local?: Matrix4) => {
+  const transform = local ? decomposeLocal(local) : null;
+  return fbxNode("Model", [id(modelId), objectName(name, "Model"), string(type)], [
+    leaf("Version", int(232)),
+    properties70(
+      ...transformP(
+        transform?.translation ?? [0, 0, 0],
+        transform?.rotation ?? [0, 0, 0],
+        transform?.scaling ?? [1, 1, 1],
+      ),
+    ),
+    leaf("Shading", bool(true)),
+    leaf("Culling", string("CullingOff")),
+  ]);
+};
+
+const decomposeLocal = (matrix: Matrix4) => {
+  const position = new Vector3();
+  const quaternion = new Quaternion();
+  const scale = new Vector3();
+  matrix.decompose(position, quaternion, scale);
+  // FBX applies XYZ Euler rotations X first, which matches three's ZYX order.
+  const rotation = new Euler().setFromQuaternion(quaternion, "ZYX");
+  const toDegrees = 180 / Math.PI;
+  return {
+    translation: [position.x, position.y, position.z].map(formatNumber),
+    rotation: [rotation.x, rotation.y, rotation.z].map((angle) => formatNumber(angle * toDegrees)),
+    scaling: [scale.x, scale.y, scale.z].map(formatNumber),
+  };
+};
+
+const matrixArray = (matrix: Matrix4) => doubleArray(matrix.elements);
+
+const writeGeometry = (geometryId: number, record: MeshRecord) => {
+  const singleMaterial = record.materials.length <= 1;
+  const layerElements = [
+    fbxNode("LayerElementNormal", [int(0)], [
+      leaf("Version", int(102)),
+      leaf("Name", string("")),
+      leaf("MappingInformationType", string("ByVertice")),
+      leaf("ReferenceInformationType", string("Direct")),
+      leaf("Normals", doubleArray(record.normals)),
+    ]),
+    ...(record.uvs
+      ? [
+          fbxNode("LayerElementUV", [int(0)], [
+            leaf("Version", int(101)),
+            leaf("Name", string("UVChannel_1")),
+            leaf("MappingInformationType", string("ByVertice")),
+            leaf("ReferenceInformationType", string("Direct")),
+            leaf("UV", doubleArray(record.uvs)),
+          ]),
+        ]
+      : []),
+    fbxNode("LayerElementMaterial", [int(0)], [
+      leaf("Version", int(101)),
+      leaf("Name", string("")),
+      leaf("MappingInformationType", string(singleMaterial ? "AllSame" : "ByPolygon")),
+      leaf("ReferenceInformationType", string("IndexToDirect")),
+      leaf("Materials", intArray(singleMaterial ? [0] : record.materialIndices)),
+    ]),
+  ];
+
+  const layer = fbxNode("Layer", [int(0)], [
+    leaf("Version", int(100)),
+    ...layerElements.map((element) =>
+      fbxNode("LayerElement", [], [
+        leaf("Type", string(element.name)),
+        leaf("TypedIndex", int(0)),
+      ]),
+    ),
+  ]);
+
+  return fbxNode("Geometry", [id(geometryId), objectName(record.name, "Geometry"), string("Mesh")], [
+    leaf("Vertices", doubleArray(record.vertices)),
+    leaf("PolygonVertexIndex", intArray(record.polygonVertexIndex)),
+    leaf("GeometryVersion", int(124)),
+    ...layerElements,
+    layer,
+  ]);
+};
+
+const axisSetting = (axis: Vector3) => {
+  const index = [axis.x, axis.y, axis.z].reduce(
+    (best, value, candidate, values) => (Math.abs(value) > Math.abs(values[best]) ? candidate : best),
+    0,
+  );
+  return { index, sign: axis.getComponent(index) < 0 ? -1 : 1 };
+};
+
+const writeHeader = (version: FBXVersion, transform: Matrix4) => {
+  const now = new Date();
+  const coord = new Vector3();
+  const up = new Vector3();
+  const front = new Vector3();
+  transform.extractBasis(coord, up, front);
+  // UnitScaleFactor counts centimetres per file unit.
+  const unitScaleFactor = 100 / up.length();
+  const upAxis = axisSetting(up);
+  const frontAxis = axisSetting(front);
+  const coordAxis = axisSetting(coord);
+  return [
+    fbxNode("FBXHeaderExtension", [], [
+      leaf("FBXHeaderVersion", int(1003)),
+      leaf("FBXVersion", int(version)),
+      fbxNode("CreationTimeStamp", [], [
+        leaf("Version", int(1000)),
+        leaf("Year", int(now.getUTCFullYear())),
+        leaf("Month", int(now.getUTCMonth() + 1)),
+        leaf("Day", int(now.getUTCDate())),
+        leaf("Hour", int(now.getUTCHours())),
+        leaf("Minute", int(now.getUTCMinutes())),
+        leaf("Second", int(now.getUTCSeconds())),
+        leaf("Millisecond", int(now.getUTCMilliseconds())),
+      ]),
+      leaf("Creator", string("Avatar Forge Exporter")),
+    ]),
+    fbxNode("GlobalSettings", [], [
+      leaf("Version", int(1000)),
+      properties70(
+        p("UpAxis", "int", "Integer", "", int(upAxis.index)),
+        p("UpAxisSign", "int", "Integer", "", int(upAxis.sign)),
+        p("FrontAxis", "int", "Integer", "", int(frontAxis.index)),
+        p("FrontAxisSign", "int", "Integer", "", int(frontAxis.sign)),
+        p("CoordAxis", "int", "Integer", "", int(coordAxis.index)),
+        p("CoordAxisSign", "int", "Integer", "", int(coordAxis.sign)),
+        p("UnitScaleFactor", "double", "Number", "", double(formatNumber(unitScaleFactor))),
+        p("OriginalUnitScaleFactor", "double", "Number", "", double(formatNumber(unitScaleFactor))),
+      ),
+    ]),
+  ];
+};
+
+/**
+ * Builds the FBX node tree for the avatar: one Model/Geometry pair per mesh
+ * with its materials and textures, plus the skeleton, skin deformers and a
+ * BlendShape channel for every morph target at its current weight. Targets
+ * listed in the geometry's `userData.bipolarMorphs` get a Plus and a Minus channel.
+ * The skin is bound at the skeleton's current pose, with vertices skinned to match.
+ */
+export const buildFBXDocument = async (
+  root: Group,
+  {
+    version = 7400,
+    transform = new Matrix4(),
+    triangulate = true,
+    embedTextures = true,
+  }: FBXDocumentOptions = {},
+): Promise<FBXDocument> => {
+  root.updateWorldMatrix(true, true);
+  const skin = createSkinBinding(root, transform);
+
+  let nextId = 100000;
+  const allocateId = () => (nextId += 1);
+  const objects: FBXNode[] = [];
+  const connections: FBXNode[] = [];
+  const counts = new Map<string, number>();
+  const connect = (child: number, parent: number, property?: string) => {
+    connections.push(
+      leaf("C", string(property ? "OP" : "OO"), id(child), id(parent), ...(property ? [string(property)] : [])),
+    );
+  };
+  const addObject = (node: FBXNode) => {
+    objects.push(node);
+    counts.set(node.name, (counts.get(node.name) ?? 0) + 1);
+  };
+
+  const records: MeshRecord[] = [];
+  root.traverse((child) => {
+    if (!isRenderableMesh(child)) return;
+    const record = collectMesh(child, skin, `Mesh${records.length + 1}`, transform, triangulate);
+    if (record) records.push(record);
+  });
+
+  const materialIds = new Map<Material, number>();
+  const textureIds = new Map<Texture, number>();
+  const externalTextures: Record<string, Uint8Array> = {};
+
+  for (const material of records.flatMap((record) => record.materials)) {
+    if (materialIds.has(material)) continue;
+    const materialId = allocateId();
+    const materialName = material.name || `Material${materialIds.size + 1}`;
+    materialIds.set(material, materialId);
+    addObject(writeMaterial(materialId, material, materialName));
+
+    for (const [slot, property] of textureSlots) {
+      const texture = (material as unknown as Record<string, unknown>)[slot];
+      if (!isTexture(texture)) continue;
+
+      let textureId = textureIds.get(texture);
+      if (textureId === undefined) {
+        textureId = allocateId();
+        const videoId = allocateId();
+        textureIds.set(texture, textureId);
+        const textureName = texture.name || `${materialName}_${slot}`;
+        const content = await encodeTextureImage(texture);
+        const fileName = `${embedTextures ? "" : "textures/"}${sanitizeName(textureName)}.png`;
+        if (!embedTextures && content) externalTextures[fileName] = content;
+        addObject(writeTexture(textureId, textureName, fileName));
+        addObject(writeVideo(videoId, textureName, fileName, embedTextures ? content : null));
+        connect(videoId, textureId);
+      }
+      connect(textureId, materialId, property);
+    }
+  }
+
+  const boneIds = skin?.skeleton.bones.map(() => allocateId()) ?? [];
+  const meshModelIds: number[] = [];
+
+  records.forEach((record) => {
+    const geometryId = allocateId();
+    const modelId = allocateId();
+    meshModelIds.push(modelId);
+    addObject(writeGeometry(geometryId, record));
+    addObject(writeModel(modelId, record.name, "Mesh"));
+    connect(modelId, 0);
+    connect(geometryId, modelId);
+    record.materials.forEach((material) => connect(materialIds.get(material) as number, modelId));
+
+    if (record.blendShapes.length) {
+      const blendShapeId = allocateId();
+      addObject(
+        fbxNode("Deformer", [id(blendShapeId), objectName(record.name, "Deformer"), string("BlendShape")], [
+          leaf("Version", int(100)),
+        ]),
+      );
+      connect(blendShapeId, geometryId);
+
+      record.blendShapes.forEach((shape) => {
+        const channelId = allocateId();
+        const shapeId = allocateId();
+        addObject(
+          fbxNode("Deformer", [id(channelId), objectName(shape.name, "SubDeformer"), string("BlendShapeChannel")], [
+            leaf("Version", int(100)),
+            leaf("DeformPercent", double(formatNumber(shape.weight * 100))),
+            leaf("FullWeights", doubleArray([100])),
+          ]),
+        );
+        addObject(
+          fbxNode("Geometry", [id(shapeId), objectName(shape.name, "Geometry"), string("Shape")], [
+            leaf("Version", int(100)),
+            leaf("Indexes", intArray(shape.indexes)),
+            leaf("Vertices", doubleArray(shape.vertices)),
+            ...(shape.normals ? [leaf("Normals", doubleArray(shape.normals))] : []),
+          ]),
+        );
+        connect(channelId, blendShapeId);
+        connect(shapeId, channelId);
+      });
+    }
+
+    if (!skin || record.clusters.size === 0) return;
+    const skinId = allocateId();
+    addObject(
+      fbxNode("Deformer", [id(skinId), objectName("Skin", "Deformer"), string("Skin")], [
+        leaf("Version", int(101)),
+        leaf("Link_DeformAcuracy", double(50)),
+      ]),
+    );
+    connect(skinId, geometryId);
+
+    record.clusters.forEach((cluster, boneIndex) => {
+      const clusterId = allocateId();
+      const bone = skin.skeleton.bones[boneIndex];
+      const bindMatrix = skin.bindMatrices[boneIndex];
+      addObject(
+        fbxNode("Deformer", [id(clusterId), objectName(bone.name, "SubDeformer"), string("Cluster")], [
+          leaf("Version", int(100)),
+          leaf("UserData", string(""), string("")),
+          leaf("Indexes", intArray(cluster.indexes)),
+          leaf("Weights", doubleArray(cluster.weights)),
+          // Vertices are exported in world space, so the mesh bind transform is identity.
+          leaf("Transform", matrixArray(bindMatrix.clone().invert())),
+          leaf("TransformLink", matrixArray(bindMatrix)),
+        ]),
+      );
+      connect(clusterId, skinId);
+      connect(boneIds[boneIndex], clusterId);
+    });
+  });
+
+  if (skin) {
+    const { skeleton, bindMatrices } = skin;
+    skeleton.bones.forEach((bone, index) => {
+      const parentIndex = isBone(bone.parent as Object3D)
+        ? skeleton.bones.indexOf(bone.parent as Bone)
+        : -1;
+      const local =
+        parentIndex >= 0
+          ? bindMatrices[parentIndex].clone().invert().multiply(bindMatrices[index])
+          : bindMatrices[index];
+      const attributeId = allocateId();
+      addObject(writeModel(boneIds[index], bone.name, "LimbNode", local));
+      addObject(
+        fbxNode("NodeAttribute", [id(attributeId), objectName(bone.name, "NodeAttribute"), string("LimbNode")], [
+          properties70(p("Size", "double", "Number", "", double(1))),
+          leaf("TypeFlags", string("Skeleton")),
+        ]),
+      );
+      connect(attributeId, boneIds[index]);
+      connect(boneIds[index], parentIndex >= 0 ? boneIds[parentIndex] : 0);
+    });
+
+    const identity = new Matrix4();
+    const poseNodes = [
+      ...meshModelIds.map((modelId) => ({ modelId, matrix: identity })),
+      ...boneIds.map((modelId, index) => ({ modelId, matrix: bindMatrices[index] })),
+    ];
+    addObject(
+      fbxNode("Pose", [id(allocateId()), objectName("BindPose", "Pose"), string("BindPose")], [
+        leaf("Type", string("BindPose")),
+        leaf("Version", int(100)),
+        leaf("NbPoseNodes", int(poseNodes.length)),
+        ...poseNodes.map(({ modelId, matrix }) =>
+          fbxNode("PoseNode", [], [leaf("Node", id(modelId)), leaf("Matrix", matrixArray(matrix))]),
+        ),
+      ]),
+    );
+  }
+
+  const definitions = fbxNode("Definitions", [], [
+    leaf("Version", int(100)),
+    leaf("Count", int(objects.length)),
+    ...Array.from(counts.entries()).map(([type, count]) =>
+      fbxNode("ObjectType", [string(type)], [leaf("Count", int(count))]),
+    ),
+  ]);
+
+  return {
+    nodes: [
+      ...writeHeader(version, transform),
+      definitions,
+      fbxNode("Objects", [], objects),
+      fbxNode("Connections", [], connections),
+    ],
+    textures: externalTextures,
+  };
+};
+
+const isArrayProperty = (property: FBXProperty) => property.type === "i" || property.type === "d";
+
+const toBase64 = (data: Uint8Array) => {
+  let binary = "";
+  const chunk = 0x8000;
+  for (let i = 0; i < data.length; i += chunk) {
+    binary += String.fromCharCode(...data.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+};
+
+const formatAsciiProperty = (property: FBXProperty): string => {
+  switch (property.type) {
+    case "C":
+      return property.value ? "Y" : "N";
+    case "I":
+    case "L":
+      return `${Math.trunc(property.value)}`;
+    case "D":
+      return `${formatNumber(property.value)}`;
+    case "S": {
+      const [name, objectClass] = property.value.split("\u0000\u0001");
+      const text = objectClass === undefined ? name : `${objectClass}::${name}`;
+      return `"${text.replace(/"/g, "&quot;")}"`;
+    }
+    case "R":
+      return `"${toBase64(property.value)}"`;
+    case "i":
+      return property.value.join(",");
+    case "d":
+      return Array.from(property.value, formatNumber).join(",");
+  }
+};
+
+const writeAsciiNode = (node: FBXNode, depth: number): string => {
+  const indent = "\t".repeat(depth);
+  const [first] = node.properties;
+
+  if (node.properties.length === 1 && isArrayProperty(first)) {
+    return `${indent}${node.name}: *${(first.value as ArrayLike<number>).length} {\n`
+      + `${indent}\ta: ${formatAsciiProperty(first)}\n`
+      + `${indent}}\n`;
+  }
+
+  // Like Autodesk's writer, only strings get a space before them: `"A",0,1,0`. Readers
+  // such as three's FBXLoader split Properties70 values on that layout.
+  const properties = node.properties
+    .map((property, index) => {
+      const separator = index === 0 ? "" : property.type === "S" ? ", " : ",";
+      return `${separator}${formatAsciiProperty(property)}`;
+    })
+    .join("");
+  if (node.children.length === 0) {
+    return `${indent}${node.name}: ${properties}\n`;
+  }
+
+  return `${indent}${node.name}: ${properties} {\n`
+    + node.children.map((child) => writeAsciiNode(child, depth + 1)).join("")
+    + `${indent}}\n`;
+};
+
+export const writeFBXAscii = (nodes: FBXNode[]) =>
+  `; FBX 7.4.0 project file\n${nodes.map((node) => writeAsciiNode(node, 0)).join("")}`;
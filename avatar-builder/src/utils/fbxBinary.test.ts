@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { Box3, BoxGeometry, Group, Mesh, MeshStandardMaterial } from "three";
+import { FBXLoader } from "three/examples/jsm/loaders/FBXLoader.js";
+import { buildFBXDocument, type FBXVersion } from "./fbx";
+import { writeFBXBinary } from "./fbxBinary";
+
+// Enough vertices that the geometry arrays go through zlib.
+const createScene = () => {
+  const mesh = new Mesh(
+    new BoxGeometry(0.5, 1, 0.25, 6, 6, 6),
+    new MeshStandardMaterial({ name: "Cloth" }),
+  );
+  mesh.name = "Block";
+  mesh.position.set(0.2, 0.8, -0.1);
+  const root = new Group();
+  root.add(mesh);
+  root.updateMatrixWorld(true);
+  return { root, mesh };
+};
+
+const toArrayBuffer = (data: Uint8Array) =>
+  data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+
+const versions: FBXVersion[] = [7400, 7500];
+
+versions.forEach((version) => {
+  test(`version ${version} files carry the binary header and footer`, async () => {
+    const { root } = createScene();
+    const { nodes } = await buildFBXDocument(root, { version });
+    const data = writeFBXBinary(nodes, version);
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+    assert.equal(new TextDecoder().decode(data.subarray(0, 18)), "Kaydara FBX Binary");
+    assert.equal(view.getUint32(23, true), version);
+    // The footer repeats the version on a 16-byte boundary, ahead of 120 zero bytes and the magic.
+    const footerVersion = data.byteLength - 16 - 120 - 4;
+    assert.equal(footerVersion % 16, 0);
+    assert.equal(view.getUint32(footerVersion, true), version);
+  });
+
+  test(`version ${version} files load back with their geometry and material`, async () => {
+    const { root, mesh } = createScene();
+    const { nodes } = await buildFBXDocument(root, { version });
+    const loaded = new FBXLoader().parse(toArrayBuffer(writeFBXBinary(nodes, version)), "");
+    loaded.updateMatrixWorld(true);
+
+    const block = loaded.getObjectByName("Block") as Mesh;
+    assert.ok(block?.isMesh);
+    assert.equal((block.material as MeshStandardMaterial).name, "Cloth");
+    // The loader unrolls triangles, so every index becomes a vertex.
+    assert.equal(block.geometry.getAttribute("position").count, mesh.geometry.index?.count);
+    assert.ok(block.geometry.getAttribute("uv"));
+    const bounds = new Box3().setFromObject(block);
+    const expected = new Box3().setFromObject(mesh);
+    assert.ok(bounds.min.distanceTo(expected.min) < 1e-5, `${bounds.min.toArray()}`);
+    assert.ok(bounds.max.distanceTo(expected.max) < 1e-5, `${bounds.max.toArray()}`);
+  });
+});
@@ -0,0 +1,198 @@
+import { zlibSync } from "three/examples/jsm/libs/fflate.module.js";
+import { fbxNode, type FBXNode, type FBXProperty, type FBXVersion } from "./fbx";
+
+const headerMagic = [
+  ..."Kaydara FBX Binary  ".split("").map((char) => char.charCodeAt(0)),
+  0x00,
+  0x1a,
+  0x00,
+];
+
+// FileId, CreationTime and the footer id have to agree for the Autodesk SDK to
+// accept the file; these are the values every open-source writer ships.
+const fileId = new Uint8Array([
+  0x28, 0xb3, 0x2a, 0xeb, 0xb6, 0x24, 0xcc, 0xc2, 0xbf, 0xc8, 0xb0, 0x2a, 0xa9, 0x2b, 0xfc, 0xf1,
+]);
+const creationTime = "1970-01-01 10:00:00:000";
+const footerId = [
+  0xfa, 0xbc, 0xab, 0x09, 0xd0, 0xc8, 0xd4, 0x66, 0xb1, 0x76, 0xfb, 0x83, 0x1c, 0xf7, 0x26, 0x7e,
+];
+const footerMagic = [
+  0xf8, 0x5a, 0x8c, 0x6a, 0xde, 0xf5, 0xd9, 0x7e, 0xec, 0xe9, 0x0c, 0xe3, 0x75, 0x8f, 0x29, 0x0b,
+];
+
+/** Arrays smaller than this are stored raw; zlib headers would outweigh the savings. */
+const compressionThreshold = 128;
+
+const textEncoder = new TextEncoder();
+
+const createByteWriter = (initialSize = 1 << 20) => {
+  let buffer = new Uint8Array(initialSize);
+  let view = new DataView(buffer.buffer);
+  let length = 0;
+
+  const reserve = (extra: number) => {
+    if (length + extra <= buffer.length) return;
+    let size = buffer.length * 2;
+    while (size < length + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(buffer.subarray(0, length));
+    buffer = next;
+    view = new DataView(buffer.buffer);
+  };
+
+  return {
+    get length() {
+      return length;
+    },
+    uint8: (value: number) => {
+      reserve(1);
+      view.setUint8(length, value);
+      length += 1;
+    },
+    int32: (value: number) => {
+      reserve(4);
+      view.setInt32(length, value, true);
+      length += 4;
+    },
+    uint32: (value: number) => {
+      reserve(4);
+      view.setUint32(length, value, true);
+      length += 4;
+    },
+    int64: (value: number) => {
+      reserve(8);
+      view.setBigInt64(length, BigInt(Math.trunc(value)), true);
+      length += 8;
+    },
+    uint64: (value: number) => {
+      reserve(8);
+      view.setBigUint64(length, BigInt(value), true);
+      length += 8;
+    },
+    float64: (value: number) => {
+      reserve(8);
+      view.setFloat64(length, value, true);
+      length += 8;
+    },
+    bytes: (data: ArrayLike<number>) => {
+      reserve(data.length);
+      buffer.set(data, length);
+      length += data.length;
+    },
+    patchUint32: (offset: number, value: number) => view.setUint32(offset, value, true),
+    patchUint64: (offset: number, value: number) => view.setBigUint64(offset, BigInt(value), true),
+    toUint8Array: () => buffer.slice(0, length),
+  };
+};
+
+type ByteWriter = ReturnType<typeof createByteWriter>;
+
+const writeArray = (writer: ByteWriter, typeCode: string, values: Int32Array | Float64Array) => {
+  const raw = new Uint8Array(values.buffer, values.byteOffset, values.byteLength);
+  const compress = raw.byteLength >= compressionThreshold;
+  const payload = compress ? zlibSync(raw) : raw;
+  writer.uint8(typeCode.charCodeAt(0));
+  writer.uint32(values.length);
+  writer.uint32(compress ? 1 : 0);
+  writer.uint32(payload.byteLength);
+  writer.bytes(payload);
+};
+
+const writeProperty = (writer: ByteWriter, property: FBXProperty) => {
+  switch (property.type) {
+    case "C":
+      writer.uint8(0x43);
+      writer.uint8(property.value ? 1 : 0);
+      return;
+    case "I":
+      writer.uint8(0x49);
+      writer.int32(property.value);
+      return;
+    case "L":
+      writer.uint8(0x4c);
+      writer.int64(property.value);
+      return;
+    case "D":
+      writer.uint8(0x44);
+      writer.float64(property.value);
+      return;
+    case "S": {
+      const encoded = textEncoder.encode(property.value);
+      writer.uint8(0x53);
+      writer.uint32(encoded.byteLength);
+      writer.bytes(encoded);
+      return;
+    }
+    case "R":
+      writer.uint8(0x52);
+      writer.uint32(property.value.byteLength);
+      writer.bytes(property.value);
+      return;
+    case "i":
+    case "d":
+      writeArray(writer, property.type, property.value);
+  }
+};
+
+const writeNode = (writer: ByteWriter, node: FBXNode, is64Bit: boolean) => {
+  const offsetSize = is64Bit ? 8 : 4;
+  const writeOffset = is64Bit ? writer.uint64 : writer.uint32;
+  const patchOffset = is64Bit ? writer.patchUint64 : writer.patchUint32;
+  const nullRecordLength = offsetSize * 3 + 1;
+
+  const start = writer.length;
+  writeOffset(0);
+  writeOffset(node.properties.length);
+  writeOffset(0);
+
+  const name = textEncoder.encode(node.name);
+  writer.uint8(name.byteLength);
+  writer.bytes(name);
+
+  const propertiesStart = writer.length;
+  node.properties.forEach((property) => writeProperty(writer, property));
+  patchOffset(start + offsetSize * 2, writer.length - propertiesStart);
+
+  node.children.forEach((child) => writeNode(writer, child, is64Bit));
+  if (node.children.length > 0 || node.properties.length === 0) {
+    writer.bytes(new Uint8Array(nullRecordLength));
+  }
+
+  patchOffset(start, writer.length);
+};
+
+/**
+ * Serializes an FBX node tree to the binary container. Version 7500 switches
+ * node offsets to 64-bit; array payloads are zlib-compressed either way.
+ */
+export const writeFBXBinary = (nodes: FBXNode[], version: FBXVersion = 7400) => {
+  const writer = createByteWriter();
+  const is64Bit = version >= 7500;
+
+  writer.bytes(headerMagic);
+  writer.uint32(version);
+
+  const fileNodes = [...nodes];
+  const headerIndex = fileNodes.findIndex((node) => node.name === "FBXHeaderExtension");
+  fileNodes.splice(
+    headerIndex + 1,
+    0,
+    fbxNode("FileId", [{ type: "R", value: fileId }]),
+    fbxNode("CreationTime", [{ type: "S", value: creationTime }]),
+    fbxNode("Creator", [{ type: "S", value: "Avatar Forge Exporter" }]),
+  );
+
+  fileNodes.forEach((node) => writeNode(writer, node, is64Bit));
+  writer.bytes(new Uint8Array(is64Bit ? 25 : 13));
+
+  writer.bytes(footerId);
+  writer.bytes(new Uint8Array(4));
+  const padding = ((writer.length + 15) & ~15) - writer.length;
+  writer.bytes(new Uint8Array(padding === 0 ? 16 : padding));
+  writer.uint32(version);
+  writer.bytes(new Uint8Array(120));
+  writer.bytes(footerMagic);
+
+  return writer.toUint8Array();
+};
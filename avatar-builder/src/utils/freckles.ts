@@ -0,0 +1,52 @@
+import { CanvasTexture, SRGBColorSpace } from "three";
+
+/** Small seeded PRNG, so the pattern stays put while the slider moves. */
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const gaussian = (random: () => number) =>
+  Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+/**
+ * Paints a multiplicative freckle mask for the skin material: white, with
+ * speckles clustered over the nose and cheeks of the head's sphere UVs and a
+ * light scatter everywhere else. Returns null when there is nothing to draw.
+ */
+export const createFreckleTexture = (amount: number, size = 512) => {
+  if (amount < 0.01 || typeof document === "undefined") return null;
+  const canvas = document.createElement("canvas");
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext("2d");
+  if (!context) return null;
+
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, size, size);
+  context.fillStyle = "#9c6247";
+
+  const random = createRandom(0x5eed);
+  const count = Math.round(amount * 2400);
+  for (let i = 0; i < count; i += 1) {
+    // The head sphere starts its seam at the back, so the face sits at u = 0.5.
+    const clustered = random() < 0.7;
+    const u = clustered ? 0.5 + gaussian(random) * 0.08 : random();
+    const v = clustered ? 0.54 + gaussian(random) * 0.05 : random();
+    context.globalAlpha = (0.2 + random() * 0.5) * Math.min(1, 0.4 + amount);
+    context.beginPath();
+    context.arc(u * size, (1 - v) * size, size * (0.0015 + random() * 0.003), 0, Math.PI * 2);
+    context.fill();
+  }
+
+  const texture = new CanvasTexture(canvas);
+  texture.name = "Freckles";
+  texture.colorSpace = SRGBColorSpace;
+  return texture;
+};
@@ -0,0 +1,200 @@
+import { BoxGeometry, BufferGeometry, TorusGeometry, Vector3 } from "three";
+import { mergeGeometries } from "three/examples/jsm/utils/BufferGeometryUtils.js";
+import type { ClothingConfig } from "@/state/avatarStore";
+import {
+  createBodyPart,
+  createLimbPart,
+  createShoulderParts,
+  createTorsoPart,
+  getLimbSegments,
+  getTorsoAxis,
+  type LimbSegment,
+  limbSides,
+  nameBodyMorphs,
+  type RigLayout,
+  torsoInfluences,
+  torsoMorphs,
+  tubeBetween,
+} from "./rig";
+
+/** Pieces drawn with the primary clothing colour and with the secondary (trim) colour. */
+interface Garment {
+  primary: BufferGeometry[];
+  secondary: BufferGeometry[];
+}
+
+const along = (segment: LimbSegment, t: number) => segment.start.clone().lerp(segment.end, t);
+
+/** An open tube over part of a limb, from `from` to `to` along its bone. */
+const sleeve = (
+  layout: RigLayout,
+  segment: LimbSegment,
+  ease: number,
+  from: number,
+  to: number,
+  flare = 0,
+) =>
+  createBodyPart(
+    tubeBetween(
+      along(segment, from),
+      along(segment, to),
+      segment.radius + ease,
+      segment.radius + ease + flare,
+    ),
+    layout,
+    segment.influences,
+    segment.start,
+    segment.end,
+    segment.morphs,
+  );
+
+/** Geometry sitting on the torso surface, e.g. a waistband, pocket or tie. */
+const torsoDetail = (layout: RigLayout, geometry: BufferGeometry) => {
+  const { start, end } = getTorsoAxis(layout);
+  return createBodyPart(geometry, layout, torsoInfluences, start, end, torsoMorphs);
+};
+
+const top = (layout: RigLayout, ease: number, withShoulders = true) => [
+  createTorsoPart(layout, ease),
+  ...(withShoulders ? createShoulderParts(layout, ease) : []),
+];
+
+const perSide = (
+  layout: RigLayout,
+  build: (segments: ReturnType<typeof getLimbSegments>) => BufferGeometry[],
+) => limbSides.flatMap((side) => build(getLimbSegments(layout, side)));
+
+const casual = (layout: RigLayout): Garment => ({
+  // T-shirt with short sleeves over straight jeans.
+  primary: [
+    ...top(layout, 0.022),
+    ...perSide(layout, ({ arm }) => [sleeve(layout, arm, 0.025, -0.05, 0.45, 0.012)]),
+  ],
+  secondary: perSide(layout, ({ upLeg, leg, foot }) => [
+    sleeve(layout, upLeg, 0.02, -0.1, 1.05),
+    sleeve(layout, leg, 0.02, -0.05, 0.97, 0.012),
+    createLimbPart(layout, foot, 0.025),
+  ]),
+});
+
+const athletic = (layout: RigLayout): Garment => {
+  const { joints } = layout;
+  const waistband = new TorusGeometry(0.33, 0.022, 10, 64);
+  waistband.rotateX(Math.PI / 2);
+  waistband.scale(1.08, 1, 0.72);
+  waistband.translate(0, joints.Hips.y + 0.02, -0.005);
+
+  return {
+    // Tank top, running shorts with a waistband and chunky trainers.
+    primary: top(layout, 0.02, false),
+    secondary: [
+      torsoDetail(layout, waistband),
+      ...perSide(layout, ({ upLeg, foot }) => [
+        sleeve(layout, upLeg, 0.03, -0.1, 0.55, 0.02),
+        createLimbPart(layout, foot, 0.035),
+      ]),
+    ],
+  };
+};
+
+const formal = (layout: RigLayout): Garment => {
+  const { joints } = layout;
+  const tails = tubeBetween(
+    new Vector3(0, joints.Hips.y - 0.3, 0),
+    new Vector3(0, joints.Hips.y + 0.12, -0.005),
+    0.37,
+    0.33,
+    0.72,
+    1.08,
+  );
+  const collar = new TorusGeometry(0.16, 0.028, 10, 48);
+  collar.rotateX(Math.PI / 2 + 0.25);
+  collar.translate(0, joints.Spine2.y + 0.15, -0.01);
+  const tie = new BoxGeometry(0.07, 0.3, 0.02);
+  tie.translate(0, joints.Spine2.y - 0.05, 0.252);
+
+  return {
+    // Tailored jacket with tails and full sleeves, matching trousers.
+    primary: [
+      ...top(layout, 0.025),
+      torsoDetail(layout, tails),
+      ...perSide(layout, ({ arm, foreArm, upLeg, leg }) => [
+        sleeve(layout, arm, 0.022, -0.05, 1.02),
+        sleeve(layout, foreArm, 0.022, -0.02, 0.9, 0.008),
+        sleeve(layout, upLeg, 0.02, -0.1, 1.04),
+        sleeve(layout, leg, 0.02, -0.05, 0.98),
+      ]),
+    ],
+    secondary: [
+      torsoDetail(layout, collar),
+      torsoDetail(layout, tie),
+      ...perSide(layout, ({ foot }) => [createLimbPart(layout, foot, 0.022)]),
+    ],
+  };
+};
+
+const street = (layout: RigLayout): Garment => {
+  const { joints } = layout;
+  const hood = new TorusGeometry(0.19, 0.07, 12, 32, Math.PI);
+  hood.rotateX(-Math.PI / 2);
+  hood.translate(0, joints.Spine2.y + 0.16, -0.02);
+  const pocket = new BoxGeometry(0.34, 0.14, 0.04);
+  pocket.translate(0, joints.Spine.y, 0.27);
+
+  return {
+    // Oversized hoodie with the hood down, baggy cargo trousers.
+    primary: [
+      ...top(layout, 0.05),
+      torsoDetail(layout, hood),
+      ...perSide(layout, ({ arm, foreArm, upLeg, foot }) => {
+        const side = Math.sign(upLeg.start.x);
+        const thighPocket = new BoxGeometry(0.05, 0.14, 0.12);
+        const center = along(upLeg, 0.5);
+        thighPocket.translate(center.x + side * (upLeg.radius + 0.07), center.y, center.z);
+        return [
+          sleeve(layout, arm, 0.04, -0.05, 1.02),
+          sleeve(layout, foreArm, 0.04, -0.02, 0.92, 0.015),
+          createBodyPart(
+            thighPocket,
+            layout,
+            upLeg.influences,
+            upLeg.start,
+            upLeg.end,
+            upLeg.morphs,
+          ),
+          createLimbPart(layout, foot, 0.03),
+        ];
+      }),
+    ],
+    secondary: [
+      torsoDetail(layout, pocket),
+      ...perSide(layout, ({ upLeg, leg }) => [
+        sleeve(layout, upLeg, 0.045, -0.1, 1.04),
+        sleeve(layout, leg, 0.045, -0.05, 0.96, 0.02),
+      ]),
+    ],
+  };
+};
+
+const outfitBuilders: Record<ClothingConfig["outfit"], (layout: RigLayout) => Garment> = {
+  casual,
+  athletic,
+  formal,
+  street,
+};
+
+/**
+ * Builds the garments for an outfit as one skinned geometry worn over the
+ * body: group 0 takes the primary clothing material, group 1 the trim. The
+ * pieces carry the body morph targets so they stay on the skin as the build
+ * changes.
+ */
+export const createOutfitGeometry = (layout: RigLayout, outfit: ClothingConfig["outfit"]) => {
+  const { primary, secondary } = outfitBuilders[outfit](layout);
+  const primaryGeometry = mergeGeometries(primary);
+  const secondaryGeometry = mergeGeometries(secondary);
+  const geometry = nameBodyMorphs(mergeGeometries([primaryGeometry, secondaryGeometry], true));
+  [...primary, ...secondary, primaryGeometry, secondaryGeometry].forEach((part) => part.dispose());
+  geometry.name = "AvatarOutfit";
+  return geometry;
+};
@@ -0,0 +1,380 @@
+import type { AvatarParameters, PhotoRole, UploadedImage } from "@/state/avatarStore";
+import { toPortableImage } from "./photoUploads";
+
+/** A reference photo after decoding, orientation and downscaling. */
+export interface PreparedImage {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  /** Downscaled JPEG as a data URL. */
+  src: string;
+  role: PhotoRole | null;
+}
+
+/** Left and right are the subject's own, as with the ARKit expression names. */
+export const faceLandmarkNames = [
+  "forehead",
+  "browCenter",
+  "rightEye",
+  "leftEye",
+  "rightCheek",
+  "leftCheek",
+  "noseTip",
+  "noseRight",
+  "noseLeft",
+  "upperLip",
+  "lowerLip",
+  "mouthRight",
+  "mouthLeft",
+  "jawRight",
+  "jawLeft",
+  "chin",
+] as const;
+
+export type FaceLandmarkName = (typeof faceLandmarkNames)[number];
+
+export interface ImagePoint {
+  x: number;
+  y: number;
+}
+
+/** Face landmarks found in one prepared image, in its pixel coordinates. */
+export interface LandmarkFit {
+  imageId: string;
+  width: number;
+  height: number;
+  box: { x: number; y: number; width: number; height: number };
+  points: Record<FaceLandmarkName, ImagePoint>;
+  /** The full face mesh, when a landmark model produced the fit. */
+  mesh?: ImagePoint[];
+  /** How much the fit can be trusted, 0–1. */
+  confidence: number;
+}
+
+/** What each stage takes and returns, as plain data that can cross a worker or HTTP boundary. */
+export interface GenerationStageIO {
+  preprocess: {
+    input: { images: UploadedImage[] };
+    output: { images: PreparedImage[] };
+  };
+  landmarks: {
+    input: { images: PreparedImage[] };
+    output: { fits: LandmarkFit[] };
+  };
+  solve: {
+    input: { fits: LandmarkFit[]; parameters: AvatarParameters };
+    output: { parameters: AvatarParameters };
+  };
+  bake: {
+    input: { images: PreparedImage[]; fits: LandmarkFit[]; parameters: AvatarParameters };
+    /** A baked head texture as a data URL, or null when the backend does not bake. */
+    output: { texture: string | null };
+  };
+}
+
+export type GenerationStage = keyof GenerationStageIO;
+export type StageInput<S extends GenerationStage> = GenerationStageIO[S]["input"];
+export type StageOutput<S extends GenerationStage> = GenerationStageIO[S]["output"];
+
+export const generationStages: { stage: GenerationStage; label: string }[] = [
+  { stage: "preprocess", label: "Preparing photos" },
+  { stage: "landmarks", label: "Fitting landmarks" },
+  { stage: "solve", label: "Solving parameters" },
+  { stage: "bake", label: "Baking textures" },
+];
+
+export interface StageContext {
+  signal: AbortSignal;
+  /** Progress through the current stage, 0–1. */
+  reportProgress: (fraction: number) => void;
+}
+
+/** Runs the stages; swap one in with `setGenerationBackend` to use another solver. */
+export interface GenerationBackend {
+  id: string;
+  runStage: <S extends GenerationStage>(
+    stage: S,
+    input: StageInput<S>,
+    context: StageContext,
+  ) => Promise<StageOutput<S>>;
+  dispose?: () => void;
+}
+
+export interface GenerationResult {
+  parameters: AvatarParameters;
+  fits: LandmarkFit[];
+  texture: string | null;
+}
+
+export class GenerationError extends Error {
+  constructor(
+    readonly stage: GenerationStage,
+    message: string,
+  ) {
+    super(message);
+    this.name = "GenerationError";
+  }
+}
+
+// Share of the overall progress bar each stage accounts for.
+const stageWeights: Record<GenerationStage, number> = {
+  preprocess: 0.2,
+  landmarks: 0.35,
+  solve: 0.1,
+  bake: 0.35,
+};
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+/**
+ * Fits from photos in the given roles, counting photos without a role as
+ * any; all fits when none match, so a set of side shots still solves.
+ */
+export const fitsInRoles = (
+  fits: LandmarkFit[],
+  images: { id: string; role: PhotoRole | null }[],
+  roles: PhotoRole[],
+) => {
+  const roleOf = new Map(images.map((image) => [image.id, image.role]));
+  const matching = fits.filter((fit) => {
+    const role = roleOf.get(fit.imageId);
+    return !role || roles.includes(role);
+  });
+  return matching.length ? matching : fits;
+};
+
+/**
+ * Runs preprocess → landmark fit → parameter solve → texture bake on a
+ * backend. `onProgress` reports the running stage and overall progress in
+ * 0–1. Aborting the signal cancels the current stage and rejects with its
+ * abort reason; any other failure rejects with a `GenerationError` naming the
+ * stage.
+ */
+export const runGenerationPipeline = async (
+  backend: GenerationBackend,
+  { images, parameters }: { images: UploadedImage[]; parameters: AvatarParameters },
+  {
+    signal,
+    onProgress,
+  }: { signal: AbortSignal; onProgress: (stage: GenerationStage, overall: number) => void },
+): Promise<GenerationResult> => {
+  let completed = 0;
+
+  const run = async <S extends GenerationStage>(stage: S, input: StageInput<S>) => {
+    signal.throwIfAborted();
+    onProgress(stage, completed);
+    try {
+      const output = await backend.runStage(stage, input, {
+        signal,
+        reportProgress: (fraction) => {
+          if (signal.aborted) return;
+          onProgress(stage, completed + stageWeights[stage] * clamp01(fraction));
+        },
+      });
+      signal.throwIfAborted();
+      completed += stageWeights[stage];
+      onProgress(stage, completed);
+      return output;
+    } catch (error) {
+      if (signal.aborted || error instanceof GenerationError) throw error;
+      throw new GenerationError(stage, error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const prepared = await run("preprocess", { images });
+  const { fits } = await run("landmarks", { images: prepared.images });
+  // Proportions are measured square-on; the texture can also use the profiles.
+  const solved = await run("solve", {
+    fits: fitsInRoles(fits, prepared.images, ["front"]),
+    parameters,
+  });
+  const { texture } = await run("bake", {
+    images: prepared.images,
+    fits: fitsInRoles(fits, prepared.images, ["front", "left", "right"]),
+    parameters: solved.parameters,
+  });
+  return { parameters: solved.parameters, fits, texture };
+};
+
+export type GenerationWorkerRequest =
+  | {
+      [S in GenerationStage]: { id: number; type: "run"; stage: S; input: StageInput<S> };
+    }[GenerationStage]
+  | { id: number; type: "cancel" };
+
+export type GenerationWorkerResponse =
+  | { id: number; type: "progress"; value: number }
+  | { id: number; type: "result"; output: StageOutput<GenerationStage> }
+  | { id: number; type: "error"; message: string };
+
+const abortError = (signal: AbortSignal) =>
+  signal.reason ?? new DOMException("Generation was cancelled.", "AbortError");
+
+/**
+ * Runs stages in a shared worker, several at a time if asked. Cancelling
+ * rejects at once and tells the worker to drop the stage at its next
+ * checkpoint, so other requests in the worker carry on.
+ */
+export const createWorkerBackend = (createWorker: () => Worker): GenerationBackend => {
+  let worker: Worker | null = null;
+  let nextId = 0;
+  const pending = new Map<
+    number,
+    { onMessage: (message: GenerationWorkerResponse) => void; fail: (error: Error) => void }
+  >();
+
+  const start = () => {
+    const created = createWorker();
+    created.addEventListener("message", (event: MessageEvent<GenerationWorkerResponse>) =>
+      pending.get(event.data.id)?.onMessage(event.data),
+    );
+    created.addEventListener("error", (event) =>
+      stop(new Error(event.message || "The generation worker crashed.")),
+    );
+    return created;
+  };
+
+  const stop = (reason = new Error("The generation worker was stopped.")) => {
+    pending.forEach((request) => request.fail(reason));
+    worker?.terminate();
+    worker = null;
+  };
+
+  return {
+    id: "worker",
+    runStage: (stage, input, { signal, reportProgress }) =>
+      new Promise((resolve, reject) => {
+        if (signal.aborted) {
+          reject(abortError(signal));
+          return;
+        }
+        worker ??= start();
+        const active = worker;
+        const id = (nextId += 1);
+
+        const finish = () => {
+          pending.delete(id);
+          signal.removeEventListener("abort", onAbort);
+        };
+        const onAbort = () => {
+          finish();
+          active.postMessage({ id, type: "cancel" } satisfies GenerationWorkerRequest);
+          reject(abortError(signal));
+        };
+        pending.set(id, {
+          onMessage: (message) => {
+            if (message.type === "progress") {
+              reportProgress(message.value);
+              return;
+            }
+            finish();
+            if (message.type === "result") resolve(message.output as StageOutput<typeof stage>);
+            else reject(new Error(message.message));
+          },
+          fail: (error) => {
+            finish();
+            reject(error);
+          },
+        });
+        signal.addEventListener("abort", onAbort);
+        active.postMessage({ id, type: "run", stage, input } as GenerationWorkerRequest);
+      }),
+    dispose: () => stop(),
+  };
+};
+
+/**
+ * Runs each stage on an HTTP service: `POST {baseUrl}/{stage}` with the stage
+ * input as JSON. The service answers with newline-delimited JSON, sending
+ * `{"progress": 0.4}` lines while it works and finishing with either
+ * `{"result": …}` or `{"error": "message"}`.
+ */
+export const createHttpBackend = (baseUrl: string): GenerationBackend => ({
+  id: `http:${baseUrl}`,
+  runStage: async (stage, input, { signal, reportProgress }) => {
+    // Uploads are blob URLs, which mean nothing outside this page; send their pixels instead.
+    const body =
+      stage === "preprocess"
+        ? {
+            images: await Promise.all(
+              (input as StageInput<"preprocess">).images.map(toPortableImage),
+            ),
+          }
+        : input;
+    const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/${stage}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/x-ndjson" },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`The generation service answered ${response.status} ${response.statusText}.`);
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffered = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffered += value ?? "";
+      const lines = buffered.split("\n");
+      buffered = done ? "" : (lines.pop() ?? "");
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const message = JSON.parse(line) as {
+          progress?: number;
+          result?: StageOutput<typeof stage>;
+          error?: string;
+        };
+        if (message.error) throw new Error(message.error);
+        if (message.result) return message.result;
+        if (typeof message.progress === "number") reportProgress(message.progress);
+      }
+      if (done) {
+        throw new Error(`The generation service ended the ${stage} stage without a result.`);
+      }
+    }
+  },
+});
+
+let activeBackend: GenerationBackend | null = null;
+
+const createDefaultBackend = (): GenerationBackend => {
+  const serviceUrl = process.env.NEXT_PUBLIC_GENERATION_SERVICE_URL;
+  if (serviceUrl) return createHttpBackend(serviceUrl);
+  // A classic worker, so the landmark model's Wasm loader can use importScripts.
+  return createWorkerBackend(
+    () => new Worker(new URL("../workers/generationWorker.ts", import.meta.url)),
+  );
+};
+
+/**
+ * The backend `generateAvatar` runs on: a local HTTP service when
+ * `NEXT_PUBLIC_GENERATION_SERVICE_URL` is set, otherwise the in-browser worker.
+ */
+export const getGenerationBackend = () => {
+  activeBackend ??= createDefaultBackend();
+  return activeBackend;
+};
+
+export const setGenerationBackend = (backend: GenerationBackend) => {
+  if (activeBackend !== backend) activeBackend?.dispose?.();
+  activeBackend = backend;
+};
+
+/**
+ * Fits face landmarks on a single photo with the active backend, outside of a
+ * generation run. Resolves to null when the photo shows no face.
+ */
+export const fitImageLandmarks = async (image: UploadedImage) => {
+  const backend = getGenerationBackend();
+  const context: StageContext = { signal: new AbortController().signal, reportProgress: () => {} };
+  const { images } = await backend.runStage("preprocess", { images: [image] }, context);
+  try {
+    const { fits } = await backend.runStage("landmarks", { images }, context);
+    return fits[0] ?? null;
+  } catch (error) {
+    console.warn(`No landmark fit for ${image.name}`, error);
+    return null;
+  }
+};
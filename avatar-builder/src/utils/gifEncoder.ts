@@ -0,0 +1,198 @@
+/**
+ * A GIF89a writer for short looping animations: one median-cut palette shared
+ * by every frame, LZW-compressed, with optional one-bit transparency.
+ */
+
+export interface GifFrames {
+  width: number;
+  height: number;
+  /** Straight RGBA, top row first, one array per frame. */
+  frames: Uint8ClampedArray[];
+  /** Hundredths of a second per frame. */
+  delay: number;
+  /** Pixels below half opacity become the transparent index. */
+  transparent?: boolean;
+}
+
+type Color = [number, number, number];
+
+// Colours are binned at 5 bits per channel before the palette is cut.
+const binBits = 5;
+const binShift = 8 - binBits;
+const binKey = (r: number, g: number, b: number) =>
+  ((r >> binShift) << (binBits * 2)) | ((g >> binShift) << binBits) | (b >> binShift);
+
+type Bin = { color: Color; count: number };
+
+const binRange = (bins: Bin[], channel: number) => {
+  let min = 255;
+  let max = 0;
+  bins.forEach(({ color }) => {
+    min = Math.min(min, color[channel]);
+    max = Math.max(max, color[channel]);
+  });
+  return max - min;
+};
+
+// Median cut: keep splitting the box with the widest, busiest channel at its weighted median.
+const cutPalette = (bins: Bin[], size: number): Color[] => {
+  const boxes = [bins];
+  while (boxes.length < size) {
+    let best = -1;
+    let bestScore = 0;
+    let bestChannel = 0;
+    boxes.forEach((box, index) => {
+      if (box.length < 2) return;
+      const count = box.reduce((sum, bin) => sum + bin.count, 0);
+      [0, 1, 2].forEach((channel) => {
+        const score = binRange(box, channel) * Math.sqrt(count);
+        if (score > bestScore) {
+          best = index;
+          bestScore = score;
+          bestChannel = channel;
+        }
+      });
+    });
+    if (best < 0) break;
+    const box = boxes[best].sort((a, b) => a.color[bestChannel] - b.color[bestChannel]);
+    const half = box.reduce((sum, bin) => sum + bin.count, 0) / 2;
+    let split = 1;
+    for (let seen = box[0].count; split < box.length - 1 && seen < half; split += 1) {
+      seen += box[split].count;
+    }
+    boxes.splice(best, 1, box.slice(0, split), box.slice(split));
+  }
+  return boxes.map((box) => {
+    const count = box.reduce((sum, bin) => sum + bin.count, 0);
+    return [0, 1, 2].map((channel) =>
+      Math.round(box.reduce((sum, bin) => sum + bin.color[channel] * bin.count, 0) / count),
+    ) as Color;
+  });
+};
+
+const nearest = (palette: Color[], [r, g, b]: Color) => {
+  let best = 0;
+  let bestDistance = Infinity;
+  palette.forEach(([pr, pg, pb], index) => {
+    const distance = (pr - r) ** 2 + (pg - g) ** 2 + (pb - b) ** 2;
+    if (distance < bestDistance) {
+      best = index;
+      bestDistance = distance;
+    }
+  });
+  return best;
+};
+
+// GIF's LZW: variable-width codes from minCodeSize + 1 up to 12 bits, packed LSB first.
+const compress = (indices: Uint8Array, minCodeSize: number) => {
+  const output: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const write = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      output.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  write(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i += 1) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    write(prefix);
+    if (nextCode < 4096) {
+      table.set(key, nextCode);
+      // Widen once the next code no longer fits; decoders do the same.
+      if (nextCode === 1 << codeSize) codeSize += 1;
+      nextCode += 1;
+    } else {
+      write(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = indices[i];
+  }
+  write(prefix);
+  write(endCode);
+  if (bitCount > 0) output.push(bitBuffer & 0xff);
+  return output;
+};
+
+/** Encodes the frames as a GIF that loops forever. */
+export const encodeGif = ({ width, height, frames, delay, transparent = false }: GifFrames) => {
+  // Reserve the last index for transparency so it never collides with a colour.
+  const colorCount = transparent ? 255 : 256;
+  const transparentIndex = 255;
+  const histogram = new Map<number, Bin>();
+  frames.forEach((pixels) => {
+    for (let i = 0; i < pixels.length; i += 4) {
+      if (transparent && pixels[i + 3] < 128) continue;
+      const key = binKey(pixels[i], pixels[i + 1], pixels[i + 2]);
+      const bin = histogram.get(key);
+      if (bin) bin.count += 1;
+      else histogram.set(key, { color: [pixels[i], pixels[i + 1], pixels[i + 2]], count: 1 });
+    }
+  });
+  const palette = histogram.size ? cutPalette([...histogram.values()], colorCount) : [];
+  const lookup = new Map<number, number>();
+  histogram.forEach((bin, key) => lookup.set(key, nearest(palette, bin.color)));
+
+  const bytes: number[] = [];
+  const word = (value: number) => bytes.push(value & 0xff, (value >> 8) & 0xff);
+  const text = (value: string) => bytes.push(...[...value].map((char) => char.charCodeAt(0)));
+
+  text("GIF89a");
+  word(width);
+  word(height);
+  // Global colour table of 256 entries, 8 bits per primary.
+  bytes.push(0xf7, 0, 0);
+  for (let i = 0; i < 256; i += 1) bytes.push(...(palette[i] ?? [0, 0, 0]));
+  // NETSCAPE2.0 application extension: loop forever.
+  bytes.push(0x21, 0xff, 0x0b);
+  text("NETSCAPE2.0");
+  bytes.push(0x03, 0x01, 0x00, 0x00, 0x00);
+
+  const indices = new Uint8Array(width * height);
+  frames.forEach((pixels) => {
+    for (let p = 0; p < indices.length; p += 1) {
+      const i = p * 4;
+      indices[p] =
+        transparent && pixels[i + 3] < 128
+          ? transparentIndex
+          : (lookup.get(binKey(pixels[i], pixels[i + 1], pixels[i + 2])) ?? 0);
+    }
+    // Graphic control: restore to background between transparent frames so they do not smear.
+    bytes.push(0x21, 0xf9, 0x04, transparent ? 0x09 : 0x04);
+    word(delay);
+    bytes.push(transparent ? transparentIndex : 0, 0);
+    bytes.push(0x2c);
+    word(0);
+    word(0);
+    word(width);
+    word(height);
+    bytes.push(0, 8);
+    const data = compress(indices, 8);
+    for (let offset = 0; offset < data.length; offset += 255) {
+      const block = data.slice(offset, offset + 255);
+      bytes.push(block.length, ...block);
+    }
+    bytes.push(0);
+  });
+  bytes.push(0x3b);
+  return new Uint8Array(bytes);
+};
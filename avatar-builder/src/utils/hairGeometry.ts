@@ -0,0 +1,41 @@
+import { CatmullRomCurve3, ConeGeometry, TubeGeometry, Vector3 } from "three";
+import { mergeGeometries } from "three/examples/jsm/utils/BufferGeometryUtils.js";
+
+export interface BraidOptions {
+  length: number;
+  /** Radius of a single strand. */
+  thickness: number;
+  /** How many times the strands cross over along the braid. */
+  crossings: number;
+}
+
+/**
+ * A three-strand plait hanging down -Y from the origin, finished with a
+ * tassel. The strands share one figure-eight path a third of a cycle apart,
+ * so each passes over and under its neighbours like a real braid.
+ */
+export const createBraidGeometry = ({ length, thickness, crossings }: BraidOptions) => {
+  const samples = crossings * 8;
+  const strands = [0, 1, 2].map((strand) => {
+    const phase = (strand * Math.PI * 2) / 3;
+    const points = Array.from({ length: samples + 1 }, (_, index) => {
+      const t = index / samples;
+      const angle = t * crossings * Math.PI + phase;
+      const taper = 1 - t * 0.35;
+      return new Vector3(
+        Math.sin(angle) * thickness * 1.2 * taper,
+        -t * length,
+        Math.sin(angle * 2) * thickness * 0.6 * taper,
+      );
+    });
+    return new TubeGeometry(new CatmullRomCurve3(points), samples * 2, thickness, 8, false);
+  });
+
+  const tassel = new ConeGeometry(thickness * 1.6, thickness * 4, 12);
+  tassel.translate(0, -length - thickness * 1.5, 0);
+
+  const braid = mergeGeometries([...strands, tassel]);
+  [...strands, tassel].forEach((geometry) => geometry.dispose());
+  braid.name = "Braid";
+  return braid;
+};
@@ -0,0 +1,679 @@
+import { CanvasTexture, SphereGeometry, SRGBColorSpace } from "three";
+import type { HairConfig } from "@/state/avatarStore";
+import { type ClothCollider, clothTimeStep, pushOutOfCollider } from "./clothSimulation";
+import { createRandom } from "./freckles";
+import { headRadius } from "./rig";
+
+type Vec3 = [number, number, number];
+
+/** How much hair is simulated and drawn; lower levels trade detail for frame time. */
+export const hairLods = ["low", "medium", "high"] as const;
+
+export type HairLod = (typeof hairLods)[number];
+
+export const defaultHairLod: HairLod = "medium";
+
+const lodDetail: Record<
+  HairLod,
+  { guides: number; points: number; strandsPerGuide: number; iterations: number }
+> = {
+  low: { guides: 96, points: 8, strandsPerGuide: 4, iterations: 2 },
+  medium: { guides: 192, points: 12, strandsPerGuide: 6, iterations: 3 },
+  high: { guides: 320, points: 16, strandsPerGuide: 8, iterations: 4 },
+};
+
+// Droop and stiffness are tuned per segment at medium detail and rescaled to the
+// other point counts, so changing the detail leaves the styled and settled shapes alone.
+const referenceSegments = lodDetail.medium.points - 1;
+
+/** Styles grown as simulated strands; buzz cuts and braids keep their sculpted meshes. */
+export const hasHairStrands = (style: HairConfig["style"]) =>
+  style === "short" || style === "medium" || style === "long";
+
+/** Render strands drawn for a style at a level of detail. */
+export const countHairStrands = (style: HairConfig["style"], lod: HairLod) =>
+  hasHairStrands(style) ? lodDetail[lod].guides * lodDetail[lod].strandsPerGuide : 0;
+
+const styleLengths = { short: 0.2, medium: 0.55, long: 0.95 };
+
+const lerp = (value: number, min: number, max: number) => min + (max - min) * value;
+
+const normalize = (vector: Vec3): Vec3 => {
+  const length = Math.hypot(vector[0], vector[1], vector[2]) || 1;
+  return [vector[0] / length, vector[1] / length, vector[2] / length];
+};
+
+const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+
+/**
+ * Whether a direction from the head centre falls inside the hairline: low
+ * at the nape, above the ears at the sides and clear of the forehead.
+ */
+const onScalp = ([x, y, z]: Vec3) => {
+  const azimuth = Math.atan2(x, z);
+  const front = (1 + Math.cos(azimuth)) / 2;
+  return y > -0.5 + front + 0.25 * Math.sin(azimuth) ** 2;
+};
+
+/** Hair space is centred on the head with the avatar's axes; these are the skull's radii there. */
+export const getHeadRadii = (headScale: [number, number, number]): Vec3 => [
+  headRadius * headScale[0],
+  headRadius * headScale[1],
+  headRadius * headScale[2],
+];
+
+/** Moves a hair-space point out of the skull, inflated by `standoff` of its size. */
+const pushOutOfHead = (point: Vec3, radii: Vec3, standoff: number) => {
+  const scaled = Math.hypot(point[0] / radii[0], point[1] / radii[1], point[2] / radii[2]);
+  const reach = 1 + standoff;
+  if (scaled >= reach || scaled < 1e-6) return point;
+  return [
+    (point[0] * reach) / scaled,
+    (point[1] * reach) / scaled,
+    (point[2] * reach) / scaled,
+  ] as Vec3;
+};
+
+/**
+ * The scalp under the strands, so gaps between cards show hair colour rather
+ * than skin: the skull just inside the roots, tucked into the head outside
+ * the hairline. In hair space.
+ */
+export const createScalpGeometry = (headScale: [number, number, number], standoff: number) => {
+  const geometry = new SphereGeometry(1, 64, 48);
+  const position = geometry.getAttribute("position");
+  const radii = getHeadRadii(headScale);
+  for (let i = 0; i < position.count; i += 1) {
+    const direction: Vec3 = [position.getX(i), position.getY(i), position.getZ(i)];
+    const scale = onScalp(direction) ? 1 + standoff * 0.4 : 0.95;
+    position.setXYZ(
+      i,
+      direction[0] * radii[0] * scale,
+      direction[1] * radii[1] * scale,
+      direction[2] * radii[2] * scale,
+    );
+  }
+  geometry.computeVertexNormals();
+  geometry.name = "Scalp";
+  return geometry;
+};
+
+/** Simulated guide curves, root first, in hair space. */
+export interface HairGuides {
+  count: number;
+  /** Points along each guide. */
+  points: number;
+  /** Rest shape, guide after guide. */
+  positions: Float32Array;
+  radii: Vec3;
+  /** Gap kept between the hair and the skull, as a share of its size. */
+  standoff: number;
+}
+
+/**
+ * Grows guide curves over the scalp. Roots sit on a Fibonacci spiral inside
+ * the hairline; each guide leaves the scalp combed back and away from the
+ * face, follows the skull until it clears it and then falls, with curl wound
+ * around it as a helix that tightens towards the tips.
+ */
+export const createHairGuides = (
+  { style, length, curl, volume }: Pick<HairConfig, "style" | "length" | "curl" | "volume">,
+  headScale: [number, number, number],
+  lod: HairLod,
+): HairGuides => {
+  const { guides: count, points } = lodDetail[lod];
+  const radii = getHeadRadii(headScale);
+  const standoff = lerp(volume, 0.015, 0.08);
+  const strandLength =
+    (styleLengths[style as keyof typeof styleLengths] ?? styleLengths.short) *
+    lerp(length, 0.6, 1.4);
+
+  // Oversample the sphere, then thin the scalp's share evenly down to the guide count.
+  const candidates = count * 3;
+  const golden = Math.PI * (3 - Math.sqrt(5));
+  const scalp: Vec3[] = [];
+  for (let i = 0; i < candidates; i += 1) {
+    const y = 1 - (2 * (i + 0.5)) / candidates;
+    const ring = Math.sqrt(1 - y * y);
+    const direction: Vec3 = [ring * Math.cos(i * golden), y, ring * Math.sin(i * golden)];
+    if (onScalp(direction)) scalp.push(direction);
+  }
+  const roots = Array.from(
+    { length: count },
+    (_, index) => scalp[Math.floor((index * scalp.length) / count)],
+  );
+
+  const random = createRandom(0x4a1e);
+  const positions = new Float32Array(count * points * 3);
+  const lift = lerp(volume, 0.15, 0.55);
+  const turns = lerp(curl, 0, 6);
+  const curlRadius = curl * lerp(volume, 0.02, 0.04);
+  const droop = (0.35 * referenceSegments) / (points - 1);
+  roots.forEach((direction, guide) => {
+    const segment = (strandLength * lerp(random(), 0.85, 1)) / (points - 1);
+    const phase = random() * Math.PI * 2;
+    const normal = normalize([
+      direction[0] / radii[0],
+      direction[1] / radii[1],
+      direction[2] / radii[2],
+    ]);
+    // Comb back and a little outward so the fringe never falls over the face.
+    const comb: Vec3 = [direction[0] * 0.5, -0.5, -1.5];
+    const along = comb[0] * normal[0] + comb[1] * normal[1] + comb[2] * normal[2];
+    const flow = normalize([
+      comb[0] - normal[0] * along,
+      comb[1] - normal[1] * along,
+      comb[2] - normal[2] * along,
+    ]);
+    let heading = normalize([
+      normal[0] * lift + flow[0] * (1 - lift),
+      normal[1] * lift + flow[1] * (1 - lift),
+      normal[2] * lift + flow[2] * (1 - lift),
+    ]);
+    let point = pushOutOfHead(
+      [direction[0] * radii[0], direction[1] * radii[1], direction[2] * radii[2]],
+      radii,
+      standoff * 0.5,
+    );
+    const spine: Vec3[] = [point];
+    for (let index = 1; index < points; index += 1) {
+      heading = normalize([heading[0], heading[1] - droop, heading[2]]);
+      const grown = pushOutOfHead(
+        [
+          point[0] + heading[0] * segment,
+          point[1] + heading[1] * segment,
+          point[2] + heading[2] * segment,
+        ],
+        radii,
+        standoff,
+      );
+      heading = normalize([grown[0] - point[0], grown[1] - point[1], grown[2] - point[2]]);
+      point = [
+        point[0] + heading[0] * segment,
+        point[1] + heading[1] * segment,
+        point[2] + heading[2] * segment,
+      ];
+      spine.push(point);
+    }
+
+    spine.forEach((spinePoint, index) => {
+      const t = index / (points - 1);
+      const next = spine[Math.min(index + 1, points - 1)];
+      const previous = spine[Math.max(index - 1, 0)];
+      const tangent = normalize([
+        next[0] - previous[0],
+        next[1] - previous[1],
+        next[2] - previous[2],
+      ]);
+      const side = normalize(cross(tangent, normalize(spinePoint)));
+      const up = cross(side, tangent);
+      const angle = phase + t * turns * Math.PI * 2;
+      const radius = curlRadius * Math.min(t * 3, 1);
+      const offset = (guide * points + index) * 3;
+      for (let axis = 0; axis < 3; axis += 1) {
+        positions[offset + axis] =
+          spinePoint[axis] +
+          (side[axis] * Math.cos(angle) + up[axis] * Math.sin(angle)) * radius;
+      }
+    });
+  });
+
+  return { count, points, positions, radii, standoff };
+};
+
+export interface HairSettings {
+  gravity: number;
+  /** Mean wind velocity in m/s; gusts vary it over time. */
+  wind: Vec3;
+  /** Share of velocity lost per second. */
+  damping: number;
+  /** Acceleration per m/s of air moving past a strand. */
+  drag: number;
+  /**
+   * How strongly each point holds its styled place relative to the one before,
+   * 0–1, for medium detail's segment length.
+   */
+  shapeStiffness: number;
+  iterations: number;
+}
+
+/**
+ * Short cuts and curls are springy and hold their shape; long straight hair
+ * hangs and swings. Curls also catch more air and settle faster.
+ */
+export const getHairSettings = (
+  { style, curl }: Pick<HairConfig, "style" | "curl">,
+  lod: HairLod,
+): HairSettings => ({
+  gravity: 9.81,
+  wind: [0.3, 0, -0.6],
+  damping: lerp(curl, 1.5, 3),
+  drag: lerp(curl, 0.6, 1.2),
+  shapeStiffness:
+    (style === "short" ? 0.5 : style === "medium" ? 0.22 : 0.12) * lerp(curl, 1, 1.6),
+  iterations: lodDetail[lod].iterations,
+});
+
+/** Column-major 4×4 taking hair space into avatar space, as in `Matrix4.elements`. */
+export type HairPose = ArrayLike<number>;
+
+export interface HairState {
+  guides: HairGuides;
+  positions: Float32Array;
+  previous: Float32Array;
+  /** Styled offset of every point from the one before it, in hair space. */
+  offsets: Float32Array;
+  lengths: Float32Array;
+  time: number;
+}
+
+export const createHairState = (guides: HairGuides, pose: HairPose): HairState => {
+  const { count, points, positions: rest } = guides;
+  const offsets = new Float32Array(rest.length);
+  const lengths = new Float32Array(count * points);
+  for (let point = 0; point < count * points; point += 1) {
+    if (point % points === 0) continue;
+    const offset = point * 3;
+    for (let axis = 0; axis < 3; axis += 1) {
+      offsets[offset + axis] = rest[offset + axis] - rest[offset - 3 + axis];
+    }
+    lengths[point] = Math.hypot(offsets[offset], offsets[offset + 1], offsets[offset + 2]);
+  }
+  const positions = new Float32Array(rest.length);
+  for (let offset = 0; offset < rest.length; offset += 3) {
+    const x = rest[offset];
+    const y = rest[offset + 1];
+    const z = rest[offset + 2];
+    positions[offset] = pose[0] * x + pose[4] * y + pose[8] * z + pose[12];
+    positions[offset + 1] = pose[1] * x + pose[5] * y + pose[9] * z + pose[13];
+    positions[offset + 2] = pose[2] * x + pose[6] * y + pose[10] * z + pose[14];
+  }
+  return { guides, positions, previous: positions.slice(), offsets, lengths, time: 0 };
+};
+
+/**
+ * Advances the guides by one fixed step. Roots follow the head pose and
+ * everything else is position-based: Verlet integration under gravity, wind
+ * and damping, then per point a pull towards its styled place, an
+ * inextensible segment and the skull, solved root to tip so each point
+ * settles against an already solved parent. The upper body comes last.
+ */
+export const stepHair = (
+  state: HairState,
+  settings: HairSettings,
+  pose: HairPose,
+  colliders: ClothCollider[],
+) => {
+  const { guides, positions, previous, offsets, lengths } = state;
+  const { count, points, positions: rest, radii } = guides;
+  const dt = clothTimeStep;
+  state.time += dt;
+
+  const gust = 1 + 0.4 * Math.sin(state.time * 1.1) + 0.25 * Math.sin(state.time * 2.9 + 2);
+  const keep = Math.max(1 - settings.damping * dt, 0);
+  const reach = 1 + guides.standoff;
+  const gap = radii[0] * guides.standoff;
+  const tx = pose[12];
+  const ty = pose[13];
+  const tz = pose[14];
+
+  for (let point = 0; point < count * points; point += 1) {
+    const offset = point * 3;
+    if (point % points === 0) {
+      const x = rest[offset];
+      const y = rest[offset + 1];
+      const z = rest[offset + 2];
+      positions[offset] = previous[offset] = pose[0] * x + pose[4] * y + pose[8] * z + tx;
+      positions[offset + 1] = previous[offset + 1] = pose[1] * x + pose[5] * y + pose[9] * z + ty;
+      positions[offset + 2] = previous[offset + 2] = pose[2] * x + pose[6] * y + pose[10] * z + tz;
+      continue;
+    }
+    for (let axis = 0; axis < 3; axis += 1) {
+      const current = positions[offset + axis];
+      const velocity = (current - previous[offset + axis]) / dt;
+      const acceleration =
+        settings.drag * (settings.wind[axis] * gust - velocity) -
+        (axis === 1 ? settings.gravity : 0);
+      positions[offset + axis] +=
+        (current - previous[offset + axis]) * keep + acceleration * dt * dt;
+      previous[offset + axis] = current;
+    }
+  }
+
+  // The give of a strand adds up over its segments, so each segment's pull is rescaled by
+  // the point count to keep the whole strand as stiff as at medium detail, then split
+  // over the iterations.
+  const give = (referenceSegments / (points - 1)) ** 2;
+  const perIteration = (stiffness: number) => {
+    const clamped = Math.min(Math.max(stiffness, 0), 1);
+    const segment = clamped / (clamped + (1 - clamped) * give);
+    return 1 - (1 - segment) ** (1 / settings.iterations);
+  };
+  for (let iteration = 0; iteration < settings.iterations; iteration += 1) {
+    for (let guide = 0; guide < count; guide += 1) {
+      for (let index = 1; index < points; index += 1) {
+        const point = guide * points + index;
+        const offset = point * 3;
+        const parent = offset - 3;
+        const t = index / (points - 1);
+        // The first segment keeps the root's angle, so the hair stands off the scalp.
+        const shape = perIteration(
+          index === 1 ? 0.9 : settings.shapeStiffness * (1 - 0.7 * t),
+        );
+        const ox = offsets[offset];
+        const oy = offsets[offset + 1];
+        const oz = offsets[offset + 2];
+        let x = positions[offset];
+        let y = positions[offset + 1];
+        let z = positions[offset + 2];
+        x += (positions[parent] + pose[0] * ox + pose[4] * oy + pose[8] * oz - x) * shape;
+        y += (positions[parent + 1] + pose[1] * ox + pose[5] * oy + pose[9] * oz - y) * shape;
+        z += (positions[parent + 2] + pose[2] * ox + pose[6] * oy + pose[10] * oz - z) * shape;
+
+        const dx = x - positions[parent];
+        const dy = y - positions[parent + 1];
+        const dz = z - positions[parent + 2];
+        const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+        if (distance > 1e-9) {
+          const scale = lengths[point] / distance;
+          x = positions[parent] + dx * scale;
+          y = positions[parent + 1] + dy * scale;
+          z = positions[parent + 2] + dz * scale;
+        }
+
+        // The skull, tested in hair space so it turns with the head.
+        const hx = x - tx;
+        const hy = y - ty;
+        const hz = z - tz;
+        const lx = (pose[0] * hx + pose[1] * hy + pose[2] * hz) / radii[0];
+        const ly = (pose[4] * hx + pose[5] * hy + pose[6] * hz) / radii[1];
+        const lz = (pose[8] * hx + pose[9] * hy + pose[10] * hz) / radii[2];
+        const scaled = Math.sqrt(lx * lx + ly * ly + lz * lz);
+        if (scaled < reach && scaled > 1e-6) {
+          const push = reach / scaled;
+          const px = lx * push * radii[0];
+          const py = ly * push * radii[1];
+          const pz = lz * push * radii[2];
+          x = pose[0] * px + pose[4] * py + pose[8] * pz + tx;
+          y = pose[1] * px + pose[5] * py + pose[9] * pz + ty;
+          z = pose[2] * px + pose[6] * py + pose[10] * pz + tz;
+        }
+        positions[offset] = x;
+        positions[offset + 1] = y;
+        positions[offset + 2] = z;
+      }
+    }
+  }
+  // The body is large and moves little against the hair, so one pass is enough.
+  for (let point = 0; point < count * points; point += 1) {
+    if (point % points === 0) continue;
+    for (let i = 0; i < colliders.length; i += 1) {
+      pushOutOfCollider(positions, point * 3, colliders[i], gap);
+    }
+  }
+};
+
+// Simulated seconds a new head of hair hangs for before it is shown, and the damping it
+// hangs with: enough to stop long hair swinging by then, without changing where it rests.
+const settleDuration = 1;
+const settleDamping = 12;
+const maxCatchUp = 4 * clothTimeStep;
+
+/**
+ * Runs the guides in real time on top of the fixed-step solver, starting
+ * from the drape they settle into in still air at `restPose`; that drape is
+ * also what exports use as the rest pose.
+ */
+export const createHairDriver = (
+  guides: HairGuides,
+  initialSettings: HairSettings,
+  initialColliders: ClothCollider[],
+  restPose: HairPose,
+) => {
+  let settings = initialSettings;
+  let colliders = initialColliders;
+  const state = createHairState(guides, restPose);
+  const stillAir: HairSettings = { ...settings, wind: [0, 0, 0], damping: settleDamping };
+  for (let step = 0; step < settleDuration / clothTimeStep; step += 1) {
+    stepHair(state, stillAir, restPose, colliders);
+  }
+  state.time = 0;
+  const rest = state.positions.slice();
+  let pending = 0;
+
+  return {
+    rest,
+    /** Live guide positions in avatar space; updated in place. */
+    positions: state.positions,
+    configure: (nextSettings: HairSettings, nextColliders: ClothCollider[]) => {
+      settings = nextSettings;
+      colliders = nextColliders;
+    },
+    advance: (elapsed: number, pose: HairPose) => {
+      pending = Math.min(pending + Math.max(elapsed, 0), maxCatchUp);
+      while (pending >= clothTimeStep) {
+        stepHair(state, settings, pose, colliders);
+        pending -= clothTimeStep;
+      }
+    },
+  };
+};
+
+/** Render strands grown around the guides, each drawn as a card: a ribbon facing off the scalp. */
+export interface HairCards {
+  strands: number;
+  points: number;
+  /** Guide each strand follows. */
+  guides: Uint32Array;
+  /** Where each strand's root sits relative to its guide's, in hair space. */
+  offsets: Float32Array;
+  widths: Float32Array;
+  /** Share of the offset a strand loses by its tip, drawing strands into clumps. */
+  clump: number;
+  /** Random 0–1 per strand, for colour variation. */
+  shades: Float32Array;
+}
+
+export const createHairCards = (
+  guides: HairGuides,
+  { curl, volume }: Pick<HairConfig, "curl" | "volume">,
+  lod: HairLod,
+): HairCards => {
+  const { strandsPerGuide } = lodDetail[lod];
+  const strands = guides.count * strandsPerGuide;
+  const random = createRandom(0xca4d);
+  const spread = lerp(volume, 0.02, 0.045) * Math.sqrt(192 / guides.count);
+  const offsets = new Float32Array(strands * 3);
+  const widths = new Float32Array(strands);
+  const shades = new Float32Array(strands);
+  const ownGuides = new Uint32Array(strands);
+  for (let strand = 0; strand < strands; strand += 1) {
+    const guide = Math.floor(strand / strandsPerGuide);
+    const root = guide * guides.points * 3;
+    const normal = normalize([
+      guides.positions[root] / guides.radii[0] ** 2,
+      guides.positions[root + 1] / guides.radii[1] ** 2,
+      guides.positions[root + 2] / guides.radii[2] ** 2,
+    ]);
+    const tangent = normalize(cross(normal, Math.abs(normal[1]) < 0.9 ? [0, 1, 0] : [1, 0, 0]));
+    const bitangent = cross(normal, tangent);
+    // The first strand of each guide runs along it; the rest scatter around it.
+    const angle = random() * Math.PI * 2;
+    const distance = strand % strandsPerGuide === 0 ? 0 : spread * Math.sqrt(random());
+    for (let axis = 0; axis < 3; axis += 1) {
+      offsets[strand * 3 + axis] =
+        (tangent[axis] * Math.cos(angle) + bitangent[axis] * Math.sin(angle)) * distance;
+    }
+    widths[strand] = lerp(random(), 0.7, 1) * lerp(volume, 0.022, 0.034);
+    shades[strand] = random();
+    ownGuides[strand] = guide;
+  }
+  return {
+    strands,
+    points: guides.points,
+    guides: ownGuides,
+    offsets,
+    widths,
+    clump: lerp(curl, 0.3, 0.75),
+    shades,
+  };
+};
+
+/** Texture coordinates and triangles for the cards: u across a card, v from tip (0) to root (1). */
+export const getHairCardTopology = ({ strands, points }: HairCards) => {
+  const uvs = new Float32Array(strands * points * 4);
+  const indices: number[] = [];
+  for (let strand = 0; strand < strands; strand += 1) {
+    for (let index = 0; index < points; index += 1) {
+      const vertex = (strand * points + index) * 2;
+      const v = 1 - index / (points - 1);
+      uvs.set([0, v, 1, v], vertex * 2);
+      if (index + 1 < points) {
+        indices.push(vertex, vertex + 2, vertex + 1, vertex + 1, vertex + 2, vertex + 3);
+      }
+    }
+  }
+  return { uvs, indices };
+};
+
+/**
+ * Lays the cards along the simulated guides, two vertices per point. Each
+ * strand keeps its root offset turned with the head and draws in towards
+ * its guide by the tip; cards taper and lie across the direction out from
+ * the head centre, which is also their normal.
+ */
+export const writeHairCards = (
+  cards: HairCards,
+  guidePositions: Float32Array,
+  pose: HairPose,
+  positions: Float32Array,
+  normals: Float32Array,
+) => {
+  const { strands, points, guides, offsets, widths, clump } = cards;
+  const tx = pose[12];
+  const ty = pose[13];
+  const tz = pose[14];
+  for (let strand = 0; strand < strands; strand += 1) {
+    const ox = offsets[strand * 3];
+    const oy = offsets[strand * 3 + 1];
+    const oz = offsets[strand * 3 + 2];
+    const rx = pose[0] * ox + pose[4] * oy + pose[8] * oz;
+    const ry = pose[1] * ox + pose[5] * oy + pose[9] * oz;
+    const rz = pose[2] * ox + pose[6] * oy + pose[10] * oz;
+    const guide = guides[strand] * points * 3;
+    for (let index = 0; index < points; index += 1) {
+      const t = index / (points - 1);
+      const at = guide + index * 3;
+      const before = guide + Math.max(index - 1, 0) * 3;
+      const after = guide + Math.min(index + 1, points - 1) * 3;
+      const keep = 1 - clump * t;
+      const x = guidePositions[at] + rx * keep;
+      const y = guidePositions[at + 1] + ry * keep;
+      const z = guidePositions[at + 2] + rz * keep;
+
+      const ax = guidePositions[after] - guidePositions[before];
+      const ay = guidePositions[after + 1] - guidePositions[before + 1];
+      const az = guidePositions[after + 2] - guidePositions[before + 2];
+      const outX = x - tx;
+      const outY = y - ty;
+      const outZ = z - tz;
+      let sx = ay * outZ - az * outY;
+      let sy = az * outX - ax * outZ;
+      let sz = ax * outY - ay * outX;
+      const sideLength = Math.sqrt(sx * sx + sy * sy + sz * sz) || 1;
+      const half = (widths[strand] * (1 - 0.75 * t)) / 2 / sideLength;
+      sx *= half;
+      sy *= half;
+      sz *= half;
+      let nx = sy * az - sz * ay;
+      let ny = sz * ax - sx * az;
+      let nz = sx * ay - sy * ax;
+      const normalLength = Math.sqrt(nx * nx + ny * ny + nz * nz) || 1;
+      nx /= normalLength;
+      ny /= normalLength;
+      nz /= normalLength;
+
+      const vertex = (strand * points + index) * 6;
+      positions[vertex] = x - sx;
+      positions[vertex + 1] = y - sy;
+      positions[vertex + 2] = z - sz;
+      positions[vertex + 3] = x + sx;
+      positions[vertex + 4] = y + sy;
+      positions[vertex + 5] = z + sz;
+      normals[vertex] = normals[vertex + 3] = nx;
+      normals[vertex + 1] = normals[vertex + 4] = ny;
+      normals[vertex + 2] = normals[vertex + 5] = nz;
+    }
+  }
+};
+
+/** Vertex colours for the cards, from `root` to a blend towards `tip`, varied per strand. */
+export const writeHairCardColors = (
+  { strands, points, shades }: HairCards,
+  root: ArrayLike<number>,
+  tip: ArrayLike<number>,
+  colors: Float32Array,
+) => {
+  for (let strand = 0; strand < strands; strand += 1) {
+    const shade = 0.85 + shades[strand] * 0.3;
+    for (let index = 0; index < points; index += 1) {
+      const blend = (index / (points - 1)) * 0.6;
+      const vertex = (strand * points + index) * 6;
+      for (let axis = 0; axis < 3; axis += 1) {
+        const value = (root[axis] + (tip[axis] - root[axis]) * blend) * shade;
+        colors[vertex + axis] = colors[vertex + 3 + axis] = value;
+      }
+    }
+  }
+};
+
+/**
+ * Paints the card texture: a few dozen fine strands of varying brightness on
+ * transparency, thinning out towards the tips at the bottom. The material's
+ * alpha test cuts the cards to these strands.
+ */
+export const createHairCardTexture = (width = 64, height = 256) => {
+  if (typeof document === "undefined") return null;
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) return null;
+
+  const random = createRandom(0x57a4d);
+  context.lineCap = "round";
+  for (let strand = 0; strand < 28; strand += 1) {
+    const grey = Math.round(lerp(random(), 170, 255));
+    context.strokeStyle = `rgb(${grey}, ${grey}, ${grey})`;
+    context.lineWidth = lerp(random(), 1, 2.5);
+    const x = lerp(random(), 0.08, 0.92) * width;
+    const drift = (random() - 0.5) * width * 0.15;
+    context.beginPath();
+    context.moveTo(x, 0);
+    const tip = height * lerp(random(), 0.75, 1);
+    context.quadraticCurveTo(x + drift, height * 0.5, x + drift * 0.5, tip);
+    context.stroke();
+  }
+
+  const texture = new CanvasTexture(canvas);
+  texture.name = "HairCard";
+  texture.colorSpace = SRGBColorSpace;
+  return texture;
+};
+
+const lodStorageKey = "avatar-studio-hair-lod";
+
+export const loadHairLod = (): HairLod => {
+  if (typeof window === "undefined") return defaultHairLod;
+  const saved = window.localStorage.getItem(lodStorageKey);
+  return hairLods.find((lod) => lod === saved) ?? defaultHairLod;
+};
+
+export const saveHairLod = (lod: HairLod) => {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(lodStorageKey, lod);
+};
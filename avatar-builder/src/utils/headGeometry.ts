@@ -0,0 +1,362 @@
+import {
+  BufferGeometry,
+  Float32BufferAttribute,
+  SphereGeometry,
+  Uint16BufferAttribute,
+  Vector3,
+} from "three";
+import type { FacialConfig, HeadConfig } from "@/state/avatarStore";
+import {
+  arkitBlendshapeNames,
+  expressionNames,
+  type ExpressionName,
+  type ExpressionWeights,
+  type FaceLandmarks,
+  getExpressionOffset,
+  visemeMixes,
+  visemeNames,
+} from "./expressions";
+import { getBoneIndex, headRadius, type RigLayout } from "./rig";
+
+export const headMorphNames = [
+  "EyeSpacing",
+  "EyeSize",
+  "NoseWidth",
+  "NoseLength",
+  "LipFullness",
+  "EarSize",
+  "JawWidth",
+  "ChinDefinition",
+] as const;
+
+export type HeadMorphName = (typeof headMorphNames)[number];
+
+/** Face sliders first, then the ARKit expressions and visemes. */
+export const headMorphDictionary = Object.fromEntries(
+  [...headMorphNames, ...expressionNames].map((name, index) => [name, index]),
+) as Record<HeadMorphName | ExpressionName, number>;
+
+/** Slider values keyed by morph name, each in 0–1 with 0.5 as the base mesh. */
+type FaceShape = Record<HeadMorphName, number>;
+
+const neutralFace = Object.fromEntries(headMorphNames.map((name) => [name, 0.5])) as FaceShape;
+
+const getFaceShape = (facial: FacialConfig, head: HeadConfig): FaceShape => ({
+  EyeSpacing: facial.eyeSpacing,
+  EyeSize: facial.eyeSize,
+  NoseWidth: facial.noseWidth,
+  NoseLength: facial.noseLength,
+  LipFullness: facial.lipFullness,
+  EarSize: facial.earSize,
+  JawWidth: head.jawWidth,
+  ChinDefinition: head.chinDefinition,
+});
+
+/** Face sliders are bipolar around 0.5, like the body morphs; expressions run 0–1. */
+export const getHeadMorphInfluences = (
+  facial: FacialConfig,
+  head: HeadConfig,
+  expression: ExpressionWeights = {},
+) => {
+  const shape = getFaceShape(facial, head);
+  return [
+    ...headMorphNames.map((name) => (shape[name] - 0.5) * 2),
+    ...expressionNames.map((name) => expression[name] ?? 0),
+  ];
+};
+
+const lerp = (value: number, min: number, max: number) =>
+  min + (max - min) * value;
+
+const smoothstep = (edge0: number, edge1: number, value: number) => {
+  const t = Math.min(Math.max((value - edge0) / (edge1 - edge0), 0), 1);
+  return t * t * (3 - 2 * t);
+};
+
+const gauss = (value: number, width: number) => Math.exp(-((value / width) ** 2));
+
+// Feature placement in angles on the skull: azimuth 0 looks down +Z,
+// elevation 0 is the equator of the head sphere.
+const eyeElevation = 0.32;
+const mouthElevation = -0.2;
+const earAzimuth = Math.PI / 2 + 0.12;
+
+const getEyeAzimuth = (shape: FaceShape) => lerp(shape.EyeSpacing, 0.38, 0.56);
+const getEyeRadius = (shape: FaceShape) => lerp(shape.EyeSize, 0.055, 0.08);
+const getSocketRadius = (shape: FaceShape) => lerp(shape.EyeSize, 0.11, 0.16);
+const socketDepth = 0.03;
+const getNoseBottom = (shape: FaceShape) =>
+  eyeElevation - 0.02 - lerp(shape.NoseLength, 0.26, 0.42);
+
+const getLandmarks = (shape: FaceShape): FaceLandmarks => ({
+  eyeAzimuth: getEyeAzimuth(shape),
+  eyeElevation,
+  socket: getSocketRadius(shape),
+  noseBottom: getNoseBottom(shape),
+  noseHalfWidth: lerp(shape.NoseWidth, 0.05, 0.11),
+  mouthElevation,
+});
+
+/**
+ * Sculpts one point of the skull. `direction` is the unit vector from the
+ * head centre; the result is in unscaled head space with radius `headRadius`.
+ */
+const sculptPoint = (direction: Vector3, shape: FaceShape, target: Vector3) => {
+  const { x, y, z } = direction;
+  const azimuth = Math.atan2(x, z);
+  const elevation = Math.asin(Math.min(Math.max(y, -1), 1));
+  let radius = headRadius;
+
+  // Eye sockets with a brow ridge above each.
+  const eyeAzimuth = getEyeAzimuth(shape);
+  const socket = getSocketRadius(shape);
+  [-1, 1].forEach((side) => {
+    const across = azimuth - side * eyeAzimuth;
+    radius -= socketDepth * gauss(Math.hypot(across, elevation - eyeElevation), socket);
+    radius += 0.015 * gauss(across, socket * 1.3) * gauss(elevation - eyeElevation - socket * 1.1, 0.05);
+  });
+
+  // Nose: a ridge from between the eyes to the tip, rising and widening towards the tip.
+  const noseTop = eyeElevation - 0.02;
+  const noseBottom = getNoseBottom(shape);
+  const along = Math.min(Math.max((noseTop - elevation) / (noseTop - noseBottom), 0), 1);
+  const noseFade =
+    elevation < noseBottom
+      ? gauss(noseBottom - elevation, 0.035)
+      : elevation > noseTop
+        ? gauss(elevation - noseTop, 0.05)
+        : 1;
+  const noseHalfWidth = lerp(shape.NoseWidth, 0.05, 0.11) * (0.55 + 0.45 * along);
+  radius += (0.015 + 0.085 * along ** 1.6) * gauss(azimuth, noseHalfWidth) * noseFade;
+  radius +=
+    0.022 *
+    gauss(Math.abs(azimuth) - noseHalfWidth, 0.035) *
+    gauss(elevation - noseBottom - 0.025, 0.035);
+
+  // Lips: an upper and a fuller lower ridge either side of the mouth line.
+  const fullness = lerp(shape.LipFullness, 0.008, 0.03);
+  const mouthSpan = Math.exp(-((azimuth / 0.24) ** 4));
+  radius +=
+    mouthSpan *
+    (fullness * gauss(elevation - mouthElevation - 0.035, 0.03) +
+      fullness * 1.15 * gauss(elevation - mouthElevation + 0.04, 0.035) -
+      0.008 * gauss(elevation - mouthElevation, 0.012));
+
+  // Ears stand out from the sides and sweep slightly back.
+  const earHeight = lerp(shape.EarSize, 0.1, 0.17);
+  let earBack = 0;
+  [-1, 1].forEach((side) => {
+    const ear =
+      lerp(shape.EarSize, 0.05, 0.09) *
+      gauss(azimuth - side * earAzimuth, earHeight * 0.45) *
+      gauss(elevation - 0.02, earHeight);
+    radius += ear;
+    earBack += ear * 0.5;
+  });
+
+  target.copy(direction).multiplyScalar(radius);
+  target.z -= earBack;
+
+  // Jaw: narrow or widen the lower skull, tuck the nape in behind it and
+  // push the chin forward.
+  const lower = smoothstep(0, 0.85, -y);
+  const front = Math.max(z, 0);
+  target.x *= lerp(lower, 1, lerp(shape.JawWidth, 0.7, 1.05));
+  if (target.z < 0) target.z *= 1 - 0.3 * lower;
+  else target.z += lerp(shape.ChinDefinition, 0, 0.06) * lower * front ** 2;
+  return target;
+};
+
+const isLipRegion = (direction: Vector3) => {
+  const azimuth = Math.atan2(direction.x, direction.z);
+  const elevation = Math.asin(Math.min(Math.max(direction.y, -1), 1));
+  return (azimuth / 0.27) ** 2 + ((elevation - mouthElevation + 0.005) / 0.085) ** 2 < 1;
+};
+
+/** Moves sculpted head-space points into avatar space. */
+const toAvatarSpace = (point: Vector3, layout: RigLayout) =>
+  point
+    .set(
+      point.x * layout.headScale[0],
+      point.y * layout.headScale[1],
+      point.z * layout.headScale[2],
+    )
+    .add(layout.headCenter);
+
+// Start the longitude seam at the back of the head, away from the face and ears.
+const headPhiStart = -Math.PI / 2;
+
+/** The unit direction from the head centre that a texture coordinate of the head mesh maps to. */
+export const headUvToDirection = (u: number, v: number, target: Vector3) => {
+  const phi = u * Math.PI * 2 + headPhiStart;
+  const theta = (1 - v) * Math.PI;
+  return target.set(
+    -Math.cos(phi) * Math.sin(theta),
+    Math.cos(theta),
+    Math.sin(phi) * Math.sin(theta),
+  );
+};
+
+/**
+ * The neutral-expression head for a set of sliders in unscaled head space,
+ * with where its features sit, e.g. to line photos up against it.
+ */
+export const getHeadSurface = (facial: FacialConfig, head: HeadConfig) => {
+  const shape = getFaceShape(facial, head);
+  return {
+    landmarks: getLandmarks(shape),
+    pointAt: (direction: Vector3, target: Vector3) => sculptPoint(direction, shape, target),
+  };
+};
+
+/**
+ * Builds the head as one continuous skinned mesh in avatar space: skull, eye
+ * sockets, nose, lips and ears are sculpted into a sphere at the neutral face,
+ * and every face slider, ARKit expression and viseme is a named relative morph
+ * target. Group 0 is skin, group 1 the lips.
+ */
+export const createHeadGeometry = (layout: RigLayout) => {
+  const geometry = new SphereGeometry(1, 128, 96, headPhiStart);
+  const directions = geometry.getAttribute("position").clone();
+  const position = geometry.getAttribute("position");
+  const direction = new Vector3();
+  const point = new Vector3();
+
+  const sculpt = (shape: FaceShape, target: BufferGeometry) => {
+    const targetPosition = target.getAttribute("position");
+    for (let i = 0; i < directions.count; i += 1) {
+      direction.fromBufferAttribute(directions, i);
+      toAvatarSpace(sculptPoint(direction, shape, point), layout);
+      targetPosition.setXYZ(i, point.x, point.y, point.z);
+    }
+    target.computeVertexNormals();
+  };
+
+  sculpt(neutralFace, geometry);
+  const basePositions = position.array as Float32Array;
+  const baseNormals = geometry.getAttribute("normal").array as Float32Array;
+
+  const scratch = geometry.clone();
+  const scratchPosition = scratch.getAttribute("position");
+  const positionMorphs: Float32BufferAttribute[] = [];
+  const normalMorphs: Float32BufferAttribute[] = [];
+  const addMorph = (name: string) => {
+    const targetPositions = scratchPosition.array as Float32Array;
+    const targetNormals = scratch.getAttribute("normal").array as Float32Array;
+    const positionDelta = new Float32BufferAttribute(
+      targetPositions.map((value, index) => value - basePositions[index]),
+      3,
+    );
+    const normalDelta = new Float32BufferAttribute(
+      targetNormals.map((value, index) => value - baseNormals[index]),
+      3,
+    );
+    positionDelta.name = name;
+    normalDelta.name = name;
+    positionMorphs.push(positionDelta);
+    normalMorphs.push(normalDelta);
+  };
+  /** Poses the scratch copy as the neutral head moved by `delta`, in avatar space. */
+  const displace = (delta: ArrayLike<number>) => {
+    const positions = scratchPosition.array as Float32Array;
+    basePositions.forEach((value, index) => {
+      positions[index] = value + delta[index];
+    });
+    scratch.computeVertexNormals();
+  };
+
+  headMorphNames.forEach((name) => {
+    sculpt({ ...neutralFace, [name]: 1 }, scratch);
+    addMorph(name);
+  });
+
+  // Expressions move the neutral face; the scale matches how toAvatarSpace maps the skull.
+  const landmarks = getLandmarks(neutralFace);
+  const offset = new Vector3();
+  const neutralPoints = Array.from({ length: directions.count }, (_, i) =>
+    sculptPoint(direction.fromBufferAttribute(directions, i), neutralFace, new Vector3()),
+  );
+  const expressionDeltas = new Map<string, Float32Array>();
+  arkitBlendshapeNames.forEach((name) => {
+    const delta = new Float32Array(basePositions.length);
+    for (let i = 0; i < directions.count; i += 1) {
+      direction.fromBufferAttribute(directions, i);
+      getExpressionOffset(name, neutralPoints[i], direction, landmarks, offset);
+      delta[i * 3] = offset.x * layout.headScale[0];
+      delta[i * 3 + 1] = offset.y * layout.headScale[1];
+      delta[i * 3 + 2] = offset.z * layout.headScale[2];
+    }
+    expressionDeltas.set(name, delta);
+    displace(delta);
+    addMorph(name);
+  });
+  visemeNames.forEach((name) => {
+    const delta = new Float32Array(basePositions.length);
+    Object.entries(visemeMixes[name]).forEach(([shape, weight]) => {
+      const shapeDelta = expressionDeltas.get(shape);
+      shapeDelta?.forEach((value, index) => {
+        delta[index] += value * weight;
+      });
+    });
+    displace(delta);
+    addMorph(name);
+  });
+  scratch.dispose();
+  geometry.morphAttributes.position = positionMorphs;
+  geometry.morphAttributes.normal = normalMorphs;
+  geometry.morphTargetsRelative = true;
+  geometry.userData.bipolarMorphs = [...headMorphNames];
+
+  // Split the index into skin and lip triangles so the lips take their own material.
+  const index = geometry.getIndex();
+  if (index) {
+    const skin: number[] = [];
+    const lips: number[] = [];
+    for (let i = 0; i < index.count; i += 3) {
+      const corners = [index.getX(i), index.getX(i + 1), index.getX(i + 2)];
+      direction.set(0, 0, 0);
+      corners.forEach((corner) => direction.add(point.fromBufferAttribute(directions, corner)));
+      (isLipRegion(direction.normalize()) ? lips : skin).push(...corners);
+    }
+    geometry.setIndex([...skin, ...lips]);
+    geometry.clearGroups();
+    geometry.addGroup(0, skin.length, 0);
+    geometry.addGroup(skin.length, lips.length, 1);
+  }
+
+  // The skull is rigid: only the band just above the head joint blends into the neck.
+  const skinIndices = new Uint16Array(position.count * 4);
+  const skinWeights = new Float32Array(position.count * 4);
+  const headJointY = layout.joints.Head.y;
+  for (let i = 0; i < position.count; i += 1) {
+    const headWeight = smoothstep(headJointY - 0.08, headJointY + 0.04, position.getY(i));
+    skinIndices[i * 4] = getBoneIndex("Head");
+    skinIndices[i * 4 + 1] = getBoneIndex("Neck");
+    skinWeights[i * 4] = headWeight;
+    skinWeights[i * 4 + 1] = 1 - headWeight;
+  }
+  geometry.setAttribute("skinIndex", new Uint16BufferAttribute(skinIndices, 4));
+  geometry.setAttribute("skinWeight", new Float32BufferAttribute(skinWeights, 4));
+  geometry.name = "AvatarHead";
+  return geometry;
+};
+
+/**
+ * Where the eyeballs sit for the current sliders, in avatar space: centred in
+ * their sockets and standing slightly proud of the skin.
+ */
+export const getEyePlacement = (layout: RigLayout, facial: FacialConfig) => {
+  const shape = { ...neutralFace, EyeSpacing: facial.eyeSpacing, EyeSize: facial.eyeSize };
+  const radius = getEyeRadius(shape);
+  const azimuth = getEyeAzimuth(shape);
+  const place = (side: number) =>
+    toAvatarSpace(
+      new Vector3(
+        side * Math.sin(azimuth) * Math.cos(eyeElevation),
+        Math.sin(eyeElevation),
+        Math.cos(azimuth) * Math.cos(eyeElevation),
+      ).multiplyScalar(headRadius - socketDepth - radius * 0.25),
+      layout,
+    );
+  return { left: place(1), right: place(-1), radius };
+};
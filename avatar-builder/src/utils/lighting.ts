@@ -0,0 +1,179 @@
+import type { EnvironmentProps } from "@react-three/drei";
+import {
+  ACESFilmicToneMapping,
+  AgXToneMapping,
+  CineonToneMapping,
+  LinearToneMapping,
+  MathUtils,
+  NeutralToneMapping,
+  NoToneMapping,
+  ReinhardToneMapping,
+  type ToneMapping,
+} from "three";
+import { environmentStoreName, runStoreRequest } from "./database";
+
+export const environmentPresets = [
+  "studio",
+  "warehouse",
+  "city",
+  "apartment",
+  "lobby",
+  "dawn",
+  "sunset",
+  "park",
+  "forest",
+  "night",
+] as const satisfies readonly NonNullable<EnvironmentProps["preset"]>[];
+
+export type EnvironmentPreset = (typeof environmentPresets)[number];
+
+/** Where image-based lighting comes from: a bundled HDRI or the uploaded one. */
+export const environmentSources = [...environmentPresets, "custom"] as const;
+
+export type EnvironmentSource = (typeof environmentSources)[number];
+
+export const toneMappingModes = [
+  "aces",
+  "agx",
+  "neutral",
+  "reinhard",
+  "cineon",
+  "linear",
+  "none",
+] as const;
+
+export type ToneMappingMode = (typeof toneMappingModes)[number];
+
+export const toneMappings: Record<ToneMappingMode, ToneMapping> = {
+  aces: ACESFilmicToneMapping,
+  agx: AgXToneMapping,
+  neutral: NeutralToneMapping,
+  reinhard: ReinhardToneMapping,
+  cineon: CineonToneMapping,
+  linear: LinearToneMapping,
+  none: NoToneMapping,
+};
+
+export const backgroundModes = ["color", "environment", "blurred"] as const;
+
+export type BackgroundMode = (typeof backgroundModes)[number];
+
+/** A directional light aimed at the avatar from a direction in degrees. */
+export interface LightSettings {
+  color: string;
+  intensity: number;
+  /** Round from the avatar's front towards its left. */
+  azimuth: number;
+  /** Up from the horizon. */
+  elevation: number;
+}
+
+/** An uploaded Radiance HDR, kept as a `data:application/hdr` URL so drei can tell its format. */
+export interface CustomEnvironment {
+  name: string;
+  dataUrl: string;
+}
+
+export interface LightingSettings {
+  environment: {
+    source: EnvironmentSource;
+    intensity: number;
+    /** Degrees about the vertical axis. */
+    rotation: number;
+    /** Flat fill under everything else. */
+    ambient: number;
+  };
+  background: {
+    mode: BackgroundMode;
+    color: string;
+    /** How soft the HDRI looks in "blurred" mode, 0–1. */
+    blur: number;
+  };
+  key: LightSettings;
+  fill: LightSettings;
+  rim: LightSettings;
+  output: {
+    exposure: number;
+    toneMapping: ToneMappingMode;
+  };
+  /** The HDR behind the "custom" source; null when none is loaded. */
+  customEnvironment: CustomEnvironment | null;
+}
+
+/** Bounds of the numeric lighting fields; documents are clamped to them and sliders span them. */
+export const lightingRanges = {
+  environmentIntensity: { min: 0, max: 4 },
+  angle: { min: -180, max: 180 },
+  elevation: { min: -90, max: 90 },
+  ambient: { min: 0, max: 2 },
+  blur: { min: 0, max: 1 },
+  lightIntensity: { min: 0, max: 10 },
+  exposure: { min: 0.1, max: 4 },
+} as const;
+
+/** The viewport's original rig: a key high to the avatar's left and a faint back light. */
+export const defaultLighting: LightingSettings = {
+  environment: { source: "warehouse", intensity: 1, rotation: 0, ambient: 0.4 },
+  background: { mode: "color", color: "#05060c", blur: 0.4 },
+  key: { color: "#ffffff", intensity: 1.7, azimuth: 53, elevation: 50 },
+  fill: { color: "#ffffff", intensity: 0, azimuth: -50, elevation: 20 },
+  rim: { color: "#ffffff", intensity: 0.35, azimuth: -135, elevation: 28 },
+  output: { exposure: 1, toneMapping: "aces" },
+  customEnvironment: null,
+};
+
+// Directional lights only use their direction; the distance just keeps shadows in frame.
+const lightDistance = 8;
+
+export const getLightPosition = ({ azimuth, elevation }: LightSettings) => {
+  const theta = MathUtils.degToRad(azimuth);
+  const phi = MathUtils.degToRad(elevation);
+  return [
+    lightDistance * Math.cos(phi) * Math.sin(theta),
+    lightDistance * Math.sin(phi),
+    lightDistance * Math.cos(phi) * Math.cos(theta),
+  ] as [number, number, number];
+};
+
+export class EnvironmentImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EnvironmentImportError";
+  }
+}
+
+// Radiance files open with "#?RADIANCE" or, from older tools, "#?RGBE".
+const isRadianceHeader = (header: string) => /^#\?(RADIANCE|RGBE)/.test(header);
+
+/** Reads a local `.hdr` file as a custom environment. */
+export const readEnvironmentFile = async (file: File): Promise<CustomEnvironment> => {
+  const header = await file.slice(0, 10).text();
+  if (!file.name.toLowerCase().endsWith(".hdr") || !isRadianceHeader(header)) {
+    throw new EnvironmentImportError(`${file.name} is not a Radiance .hdr file.`);
+  }
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(new Blob([file], { type: "application/hdr" }));
+  });
+  return { name: file.name, dataUrl };
+};
+
+// Only one uploaded HDR is kept between sessions, under a fixed key.
+const storedEnvironmentId = "custom";
+
+/** Keeps the uploaded HDR in IndexedDB; it is too large for the localStorage profile. */
+export const saveStoredEnvironment = (environment: CustomEnvironment) =>
+  runStoreRequest(environmentStoreName, "readwrite", (store) =>
+    store.put({ id: storedEnvironmentId, ...environment }),
+  );
+
+export const loadStoredEnvironment = async (): Promise<CustomEnvironment | null> => {
+  const stored = await runStoreRequest<(CustomEnvironment & { id: string }) | undefined>(
+    environmentStoreName,
+    "readonly",
+    (store) => store.get(storedEnvironmentId),
+  );
+  return stored ? { name: stored.name, dataUrl: stored.dataUrl } : null;
+};
@@ -0,0 +1,355 @@
+import type { UploadedImage } from "@/state/avatarStore";
+import { isSkinColor } from "./colorSampling";
+import { bestFit, estimateFace } from "./faceFitting";
+import { detectFaceMesh, getMeshLandmarks } from "./faceLandmarker";
+import type {
+  GenerationStage,
+  ImagePoint,
+  LandmarkFit,
+  PreparedImage,
+  StageContext,
+  StageInput,
+  StageOutput,
+} from "./generationPipeline";
+import { projectHeadTexture } from "./textureProjection";
+
+/** Longest side of a prepared photo; enough for landmarks and texture projection. */
+const maxPreparedSide = 512;
+
+// Confidence given to fits from the landmark model and from the colour heuristic.
+const modelTrust = 0.9;
+const heuristicTrust = 0.6;
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const decodeImage = async (src: string) => createImageBitmap(await (await fetch(src)).blob());
+
+const drawToCanvas = (bitmap: ImageBitmap, width: number, height: number) => {
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("2D canvas drawing is not available.");
+  context.drawImage(bitmap, 0, 0, width, height);
+  return { canvas, context };
+};
+
+const prepareImage = async (image: UploadedImage): Promise<PreparedImage> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await decodeImage(image.src);
+  } catch {
+    throw new Error(`${image.name} could not be decoded as an image.`);
+  }
+  const scale = Math.min(1, maxPreparedSide / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const { canvas } = drawToCanvas(bitmap, width, height);
+  bitmap.close();
+  const blob = await canvas.convertToBlob({ type: "image/jpeg", quality: 0.9 });
+  return {
+    id: image.id,
+    name: image.name,
+    width,
+    height,
+    src: await blobToDataUrl(blob),
+    role: image.role,
+  };
+};
+
+const preprocess = async (
+  { images }: StageInput<"preprocess">,
+  { signal, reportProgress }: StageContext,
+): Promise<StageOutput<"preprocess">> => {
+  if (!images.length) throw new Error("Upload at least one photo to generate from.");
+  const prepared: PreparedImage[] = [];
+  for (const image of images) {
+    signal.throwIfAborted();
+    prepared.push(await prepareImage(image));
+    reportProgress(prepared.length / images.length);
+  }
+  return { images: prepared };
+};
+
+const readPixels = async (image: PreparedImage) => {
+  const bitmap = await decodeImage(image.src);
+  const { context } = drawToCanvas(bitmap, image.width, image.height);
+  bitmap.close();
+  return context.getImageData(0, 0, image.width, image.height);
+};
+
+const luminance = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+/** Value below which `fraction` of a histogram's weight lies. */
+const histogramPercentile = (histogram: number[], fraction: number) => {
+  const total = histogram.reduce((sum, value) => sum + value, 0);
+  let running = 0;
+  for (let i = 0; i < histogram.length; i += 1) {
+    running += histogram[i];
+    if (running >= total * fraction) return i;
+  }
+  return histogram.length - 1;
+};
+
+const argExtreme = (from: number, to: number, score: (index: number) => number, pick: 1 | -1) => {
+  let best = from;
+  let bestScore = -Infinity;
+  for (let i = from; i < to; i += 1) {
+    const value = score(i) * pick;
+    if (value > bestScore) {
+      bestScore = value;
+      best = i;
+    }
+  }
+  return best;
+};
+
+/**
+ * Finds the face as the main skin-coloured region, then places eyes at the
+ * darkest spots of the upper face and the mouth at the reddest row below the
+ * nose. Returns null when the photo has too little skin to work with.
+ */
+const fitFace = (image: PreparedImage, pixels: ImageData): LandmarkFit | null => {
+  const { width, height, data } = pixels;
+  const rowSkin = new Array<number>(height).fill(0);
+  const columnSkin = new Array<number>(width).fill(0);
+  let skinCount = 0;
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const offset = (y * width + x) * 4;
+      if (isSkinColor(data[offset], data[offset + 1], data[offset + 2])) {
+        rowSkin[y] += 1;
+        columnSkin[x] += 1;
+        skinCount += 1;
+      }
+    }
+  }
+  if (skinCount < width * height * 0.01) return null;
+
+  const left = histogramPercentile(columnSkin, 0.05);
+  const right = histogramPercentile(columnSkin, 0.95);
+  const top = histogramPercentile(rowSkin, 0.02);
+  const boxWidth = Math.max(right - left, 1);
+  // Necks and shoulders share the face's colour, so cap the box at a face's proportions.
+  const bottom = histogramPercentile(rowSkin, 0.98);
+  const boxHeight = Math.max(Math.min(bottom - top, boxWidth * 1.35), 1);
+  const box = { x: left, y: top, width: boxWidth, height: boxHeight };
+
+  const rowMean = (y: number, measure: (offset: number) => number, from = left, to = right) => {
+    let sum = 0;
+    for (let x = from; x < to; x += 1) sum += measure((Math.round(y) * width + x) * 4);
+    return sum / Math.max(to - from, 1);
+  };
+  const columnMean = (x: number, measure: (offset: number) => number, from: number, to: number) => {
+    let sum = 0;
+    for (let y = from; y < to; y += 1) sum += measure((y * width + x) * 4);
+    return sum / Math.max(to - from, 1);
+  };
+  const light = (offset: number) => luminance(data[offset], data[offset + 1], data[offset + 2]);
+  const redness = (offset: number) =>
+    0.5 * data[offset] - 0.418688 * data[offset + 1] - 0.081312 * data[offset + 2];
+  const skin = (offset: number) =>
+    isSkinColor(data[offset], data[offset + 1], data[offset + 2]) ? 1 : 0;
+
+  const innerLeft = Math.round(left + boxWidth * 0.1);
+  const innerRight = Math.round(right - boxWidth * 0.1);
+  const eyeY = argExtreme(
+    Math.round(top + boxHeight * 0.3),
+    Math.round(top + boxHeight * 0.55),
+    (y) => rowMean(y, light, innerLeft, innerRight),
+    -1,
+  );
+  const eyeBandTop = Math.max(Math.round(eyeY - boxHeight * 0.04), 0);
+  const eyeBandBottom = Math.min(Math.round(eyeY + boxHeight * 0.04) + 1, height);
+  const centerX = Math.round(left + boxWidth / 2);
+  // The subject's right eye is on the left of a front photo.
+  const eyeBandLight = (x: number) => columnMean(x, light, eyeBandTop, eyeBandBottom);
+  const rightEyeX = argExtreme(innerLeft, centerX, eyeBandLight, -1);
+  const leftEyeX = argExtreme(centerX, innerRight, eyeBandLight, -1);
+  const eyesMidX = (rightEyeX + leftEyeX) / 2;
+
+  const mouthY = argExtreme(
+    Math.round(top + boxHeight * 0.65),
+    Math.min(Math.round(top + boxHeight * 0.88), height),
+    (y) => rowMean(y, redness, innerLeft, innerRight),
+    1,
+  );
+  const mouthRow = Array.from({ length: innerRight - innerLeft }, (_, i) =>
+    redness((mouthY * width + innerLeft + i) * 4),
+  );
+  const mouthFloor = Math.min(...mouthRow);
+  const mouthThreshold = mouthFloor + (Math.max(...mouthRow) - mouthFloor) * 0.6;
+  const mouthColumns = mouthRow.flatMap((value, i) =>
+    value >= mouthThreshold ? [innerLeft + i] : [],
+  );
+  const mouthRightX = mouthColumns[0] ?? eyesMidX - boxWidth * 0.18;
+  const mouthLeftX = mouthColumns[mouthColumns.length - 1] ?? eyesMidX + boxWidth * 0.18;
+
+  const point = (x: number, y: number): ImagePoint => ({ x, y });
+  // The face's edges on a row: walk out from the middle while the skin continues.
+  const skinEdges = (y: number) => {
+    const row = Math.min(Math.round(y), height - 1);
+    let rightX = Math.round(eyesMidX);
+    let leftX = rightX;
+    while (rightX > left && skin((row * width + rightX - 1) * 4)) rightX -= 1;
+    while (leftX < right && skin((row * width + leftX + 1) * 4)) leftX += 1;
+    return [point(rightX, row), point(leftX, row)];
+  };
+  const [rightCheek, leftCheek] = skinEdges(eyeY + boxHeight * 0.12);
+  const [jawRight, jawLeft] = skinEdges(mouthY + boxHeight * 0.08);
+  const noseY = eyeY + (mouthY - eyeY) * 0.6;
+  const noseHalfWidth = (leftEyeX - rightEyeX) * 0.3;
+  const eyeContrast =
+    rowMean(top + boxHeight * 0.2, light) - rowMean(eyeY, light, innerLeft, innerRight);
+  let skinInBox = 0;
+  for (let y = top; y < top + boxHeight; y += 1) skinInBox += rowMean(y, skin) / boxHeight;
+
+  return {
+    imageId: image.id,
+    width,
+    height,
+    box,
+    points: {
+      forehead: point(eyesMidX, top),
+      browCenter: point(eyesMidX, eyeY - boxHeight * 0.1),
+      rightEye: point(rightEyeX, eyeY),
+      leftEye: point(leftEyeX, eyeY),
+      rightCheek,
+      leftCheek,
+      noseTip: point(eyesMidX, noseY),
+      noseRight: point(eyesMidX - noseHalfWidth, noseY),
+      noseLeft: point(eyesMidX + noseHalfWidth, noseY),
+      upperLip: point(eyesMidX, mouthY - boxHeight * 0.03),
+      lowerLip: point(eyesMidX, mouthY + boxHeight * 0.04),
+      mouthRight: point(mouthRightX, mouthY),
+      mouthLeft: point(mouthLeftX, mouthY),
+      jawRight,
+      jawLeft,
+      chin: point(eyesMidX, top + boxHeight),
+    },
+    confidence:
+      Math.min(Math.max(skinInBox * 1.2, 0), 1) * (eyeContrast > 12 ? 1 : 0.5) * heuristicTrust,
+  };
+};
+
+const fitWithModel = async (image: PreparedImage, pixels: ImageData) => {
+  const mesh = await detectFaceMesh(pixels);
+  if (!mesh) return null;
+  const xs = mesh.map(({ x }) => x);
+  const ys = mesh.map(({ y }) => y);
+  const box = {
+    x: Math.min(...xs),
+    y: Math.min(...ys),
+    width: Math.max(...xs) - Math.min(...xs),
+    height: Math.max(...ys) - Math.min(...ys),
+  };
+  const fit: LandmarkFit = {
+    imageId: image.id,
+    width: image.width,
+    height: image.height,
+    box,
+    points: getMeshLandmarks(mesh),
+    mesh,
+    confidence: modelTrust,
+  };
+  return fit;
+};
+
+/**
+ * Fits with the landmark model, falling back to the colour heuristic when it
+ * cannot load. The model is tried again for the next image, so it is picked
+ * up as soon as its files are in place.
+ */
+const fitImage = async (image: PreparedImage) => {
+  const pixels = await readPixels(image);
+  try {
+    return await fitWithModel(image, pixels);
+  } catch (error) {
+    console.warn("Face landmark model unavailable; using the colour heuristic", error);
+    return fitFace(image, pixels);
+  }
+};
+
+const landmarks = async (
+  { images }: StageInput<"landmarks">,
+  { signal, reportProgress }: StageContext,
+): Promise<StageOutput<"landmarks">> => {
+  const fits: LandmarkFit[] = [];
+  for (const [index, image] of images.entries()) {
+    signal.throwIfAborted();
+    const fit = await fitImage(image);
+    if (fit) fits.push(fit);
+    reportProgress((index + 1) / images.length);
+  }
+  if (!fits.length) throw new Error("No face was found in the uploaded photos.");
+  return { fits };
+};
+
+/** Moves the sliders towards what the most trusted fit measures, as far as it is trusted. */
+const solve = async (
+  { fits, parameters }: StageInput<"solve">,
+  { reportProgress }: StageContext,
+): Promise<StageOutput<"solve">> => {
+  const fit = bestFit(fits);
+  if (!fit) throw new Error("There are no landmark fits to solve from.");
+  const estimate = estimateFace(fit);
+  const blend = <T extends object>(current: T, target: Partial<T>): T => ({
+    ...current,
+    ...Object.fromEntries(
+      Object.entries(target).map(([key, value]) => {
+        const from = current[key as keyof T] as number;
+        return [key, Number((from + ((value as number) - from) * fit.confidence).toFixed(3))];
+      }),
+    ),
+  });
+
+  reportProgress(1);
+  return {
+    parameters: {
+      ...parameters,
+      facial: blend(parameters.facial, estimate.facial),
+      head: blend(parameters.head, estimate.head),
+    },
+  };
+};
+
+/** Projects the photos that have a landmark fit onto the head's UVs as a JPEG albedo map. */
+const bake = async (
+  { images, fits, parameters }: StageInput<"bake">,
+  context: StageContext,
+): Promise<StageOutput<"bake">> => {
+  const views = await Promise.all(
+    fits.flatMap((fit) => {
+      const image = images.find((entry) => entry.id === fit.imageId);
+      return image ? [readPixels(image).then((pixels) => ({ pixels, fit }))] : [];
+    }),
+  );
+  const { width, height, data, views: used } = await projectHeadTexture(
+    views,
+    parameters,
+    context,
+  );
+  if (!used) return { texture: null };
+  const canvas = new OffscreenCanvas(width, height);
+  const canvasContext = canvas.getContext("2d");
+  if (!canvasContext) throw new Error("2D canvas drawing is not available.");
+  canvasContext.putImageData(new ImageData(data, width, height), 0, 0);
+  const blob = await canvas.convertToBlob({ type: "image/jpeg", quality: 0.92 });
+  context.reportProgress(1);
+  return { texture: await blobToDataUrl(blob) };
+};
+
+const localStages: {
+  [S in GenerationStage]: (input: StageInput<S>, context: StageContext) => Promise<StageOutput<S>>;
+} = { preprocess, landmarks, solve, bake };
+
+/** Runs one stage in the current thread; the generation worker calls this for each request. */
+export const runLocalStage = <S extends GenerationStage>(
+  stage: S,
+  input: StageInput<S>,
+  context: StageContext,
+) => localStages[stage](input, context);
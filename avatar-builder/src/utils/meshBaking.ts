@@ -0,0 +1,217 @@
+import {
+  BufferGeometry,
+  Float32BufferAttribute,
+  Group,
+  Matrix4,
+  Mesh,
+  Object3D,
+  SkinnedMesh,
+  Vector3,
+} from "three";
+import { applyPose, type AvatarPose } from "./posing";
+
+const isRenderableMesh = (object: Object3D): object is Mesh =>
+  (object as Mesh).isMesh === true;
+
+const isSkinnedMesh = (object: Object3D): object is SkinnedMesh =>
+  (object as SkinnedMesh).isSkinnedMesh === true;
+
+const mergeTriangles = (first: number[], second: number[]) => {
+  for (let edge = 0; edge < 3; edge += 1) {
+    const from = first[edge];
+    const to = first[(edge + 1) % 3];
+    const shared = second.indexOf(to);
+    if (shared < 0 || second[(shared + 1) % 3] !== from) continue;
+    // Walk the outline: opposite corner of the first triangle, the shared
+    // edge start, the second triangle's opposite corner, then the edge end.
+    return [first[(edge + 2) % 3], from, second[(shared + 2) % 3], to];
+  }
+  return null;
+};
+
+export interface Polygon {
+  vertices: number[];
+  materialIndex: number;
+}
+
+/**
+ * Reads the index buffer back as polygons. Unless triangulating, consecutive
+ * triangles that share an edge are merged back into the quads they came from.
+ */
+export const collectPolygons = (geometry: BufferGeometry, triangulate = true): Polygon[] => {
+  const index = geometry.getIndex();
+  const position = geometry.getAttribute("position");
+  if (!position) return [];
+  const cornerCount = index ? index.count : position.count;
+  const corner = (i: number) => (index ? index.getX(i) : i);
+  const groups = geometry.groups.length
+    ? geometry.groups
+    : [{ start: 0, count: cornerCount, materialIndex: 0 }];
+
+  const polygons: Polygon[] = [];
+  groups.forEach((group) => {
+    const materialIndex = group.materialIndex ?? 0;
+    const end = Math.min(group.start + group.count, cornerCount);
+    for (let i = group.start; i + 2 < end; i += 3) {
+      const first = [corner(i), corner(i + 1), corner(i + 2)];
+      if (!triangulate && i + 5 < end) {
+        const second = [corner(i + 3), corner(i + 4), corner(i + 5)];
+        const quad = mergeTriangles(first, second);
+        if (quad) {
+          polygons.push({ vertices: quad, materialIndex });
+          i += 3;
+          continue;
+        }
+      }
+      polygons.push({ vertices: first, materialIndex });
+    }
+  });
+  return polygons;
+};
+
+/**
+ * Flattens the avatar into static world-space meshes in its current pose, one
+ * mesh per material, for formats without skinning or multi-material support.
+ * Meshes `include` turns down are left out.
+ */
+export const bakeAvatarMeshes = (
+  root: Group,
+  transform?: Matrix4,
+  include: (mesh: Mesh) => boolean = () => true,
+) => {
+  root.updateWorldMatrix(true, true);
+  const baked = new Group();
+  baked.name = root.name || "Avatar";
+  const vertex = new Vector3();
+
+  root.traverseVisible((child) => {
+    if (!isRenderableMesh(child) || !include(child)) return;
+    const { geometry } = child;
+    const positionAttribute = geometry.getAttribute("position");
+    if (!positionAttribute) return;
+
+    if (isSkinnedMesh(child)) child.skeleton.update();
+    const uvAttribute = geometry.getAttribute("uv");
+    const index = geometry.getIndex();
+    const cornerCount = index ? index.count : positionAttribute.count;
+    const materials = Array.isArray(child.material) ? child.material : [child.material];
+    const groups = geometry.groups.length
+      ? geometry.groups
+      : [{ start: 0, count: cornerCount, materialIndex: 0 }];
+
+    // Pose every vertex once; each material group then picks the ones it uses.
+    const posed = new Float32Array(positionAttribute.count * 3);
+    for (let i = 0; i < positionAttribute.count; i += 1) {
+      child.getVertexPosition(i, vertex).applyMatrix4(child.matrixWorld);
+      if (transform) vertex.applyMatrix4(transform);
+      posed[i * 3] = vertex.x;
+      posed[i * 3 + 1] = vertex.y;
+      posed[i * 3 + 2] = vertex.z;
+    }
+
+    groups.forEach((group) => {
+      const material = materials[group.materialIndex ?? 0];
+      if (!material) return;
+
+      const remap = new Map<number, number>();
+      const indices: number[] = [];
+      const end = Math.min(group.start + group.count, cornerCount);
+      for (let corner = group.start; corner < end; corner += 1) {
+        const source = index ? index.getX(corner) : corner;
+        let target = remap.get(source);
+        if (target === undefined) {
+          target = remap.size;
+          remap.set(source, target);
+        }
+        indices.push(target);
+      }
+      if (indices.length < 3) return;
+
+      const positions = new Float32Array(remap.size * 3);
+      const uvs = uvAttribute ? new Float32Array(remap.size * 2) : null;
+      remap.forEach((target, source) => {
+        positions.set(posed.subarray(source * 3, source * 3 + 3), target * 3);
+        if (uvs && uvAttribute) {
+          uvs[target * 2] = uvAttribute.getX(source);
+          uvs[target * 2 + 1] = uvAttribute.getY(source);
+        }
+      });
+
+      const part = new BufferGeometry();
+      part.setAttribute("position", new Float32BufferAttribute(positions, 3));
+      if (uvs) part.setAttribute("uv", new Float32BufferAttribute(uvs, 2));
+      part.setIndex(indices);
+      part.computeVertexNormals();
+
+      const mesh = new Mesh(part, material);
+      const baseName = child.name || `Mesh${baked.children.length + 1}`;
+      mesh.name = materials.length > 1 ? `${baseName}_${material.name || group.materialIndex}` : baseName;
+      baked.add(mesh);
+    });
+  });
+
+  return baked;
+};
+
+export const disposeBakedMeshes = (baked: Group) => {
+  baked.children.forEach((child) => {
+    if (isRenderableMesh(child)) child.geometry.dispose();
+  });
+};
+
+/**
+ * Puts the skeleton, simulated cloth and hair back at rest for the duration of
+ * an export and returns a function restoring the live pose. Geometries opt in
+ * through `userData.restPositions`. The skeleton takes `pose` when one is
+ * given, otherwise its bind pose.
+ */
+export const applyRestPose = (root: Object3D, pose: AvatarPose | null = null) => {
+  const restores: (() => void)[] = [];
+
+  const skeletons = new Set<SkinnedMesh["skeleton"]>();
+  root.traverse((child) => {
+    if (isSkinnedMesh(child)) skeletons.add(child.skeleton);
+  });
+  skeletons.forEach((skeleton) => {
+    const live = skeleton.bones.map((bone) => ({
+      bone,
+      position: bone.position.clone(),
+      quaternion: bone.quaternion.clone(),
+      scale: bone.scale.clone(),
+    }));
+    applyPose(skeleton, pose);
+    restores.push(() =>
+      live.forEach(({ bone, position, quaternion, scale }) => {
+        bone.position.copy(position);
+        bone.quaternion.copy(quaternion);
+        bone.scale.copy(scale);
+      }),
+    );
+  });
+  root.updateMatrixWorld(true);
+
+  root.traverse((child) => {
+    if (!isRenderableMesh(child)) return;
+    const restPositions = child.geometry.userData.restPositions as Float32Array | undefined;
+    const positionAttribute = child.geometry.getAttribute("position");
+    if (!restPositions || !positionAttribute) return;
+
+    const positions = positionAttribute.array as Float32Array;
+    const normalAttribute = child.geometry.getAttribute("normal");
+    const livePositions = positions.slice();
+    const liveNormals = normalAttribute ? (normalAttribute.array as Float32Array).slice() : null;
+    positions.set(restPositions);
+    positionAttribute.needsUpdate = true;
+    child.geometry.computeVertexNormals();
+    restores.push(() => {
+      positions.set(livePositions);
+      positionAttribute.needsUpdate = true;
+      if (normalAttribute && liveNormals) {
+        (normalAttribute.array as Float32Array).set(liveNormals);
+        normalAttribute.needsUpdate = true;
+      }
+    });
+  });
+
+  return () => restores.reverse().forEach((restore) => restore());
+};
@@ -0,0 +1,143 @@
+import {
+  Color,
+  Group,
+  Material,
+  Mesh,
+  MeshPhysicalMaterial,
+  Object3D,
+  SRGBColorSpace,
+  Texture,
+} from "three";
+import { collectPolygons } from "./meshBaking";
+import { encodeTextureImage, isTexture, sanitizeName } from "./textures";
+
+const mtlTextureSlots = [
+  ["map", "map_Kd"],
+  ["normalMap", "norm"],
+  ["bumpMap", "map_bump"],
+  ["roughnessMap", "map_Pr"],
+  ["metalnessMap", "map_Pm"],
+  ["emissiveMap", "map_Ke"],
+  ["alphaMap", "map_d"],
+  ["sheenColorMap", "map_Ps"],
+] as const;
+
+const isRenderableMesh = (object: Object3D): object is Mesh =>
+  (object as Mesh).isMesh === true;
+
+const formatNumber = (value: number) => Number.parseFloat(value.toFixed(6));
+
+const formatColor = (color: Color) => {
+  const target = { r: 0, g: 0, b: 0 };
+  color.getRGB(target, SRGBColorSpace);
+  return [target.r, target.g, target.b].map(formatNumber).join(" ");
+};
+
+export interface OBJArchive {
+  obj: string;
+  mtl: string;
+  /** PNG payloads keyed by their path relative to the .mtl file. */
+  textures: Record<string, Uint8Array>;
+}
+
+/**
+ * Writes baked single-material meshes (see `bakeAvatarMeshes`) as OBJ with a
+ * companion MTL carrying the PBR extension keys (Pr/Pm/Ps/Pc).
+ */
+export const writeOBJArchive = async (
+  baked: Group,
+  mtlFileName: string,
+  { triangulate = true }: { triangulate?: boolean } = {},
+): Promise<OBJArchive> => {
+  const objLines = ["# Avatar Forge OBJ export", `mtllib ${mtlFileName}`];
+  const mtlLines = ["# Avatar Forge MTL export"];
+  const textures: Record<string, Uint8Array> = {};
+  const materialNames = new Map<Material, string>();
+  const texturePaths = new Map<Texture, string>();
+  let vertexOffset = 1;
+  let uvOffset = 1;
+
+  const nameMaterial = async (material: Material) => {
+    const existing = materialNames.get(material);
+    if (existing) return existing;
+
+    const name = sanitizeName(material.name || `Material${materialNames.size + 1}`);
+    materialNames.set(material, name);
+    const physical = material as Partial<MeshPhysicalMaterial>;
+    const roughness = physical.roughness ?? 1;
+
+    mtlLines.push(
+      "",
+      `newmtl ${name}`,
+      `Kd ${formatColor(physical.color ?? new Color(0.8, 0.8, 0.8))}`,
+      "Ka 0 0 0",
+      `Ks ${formatNumber((1 - roughness) * 0.5)} ${formatNumber((1 - roughness) * 0.5)} ${formatNumber((1 - roughness) * 0.5)}`,
+      `Ke ${formatColor(physical.emissive ?? new Color(0, 0, 0))}`,
+      `Ns ${formatNumber((1 - roughness) ** 2 * 1000)}`,
+      `d ${formatNumber(material.opacity)}`,
+      "illum 2",
+      `Pr ${formatNumber(roughness)}`,
+      `Pm ${formatNumber(physical.metalness ?? 0)}`,
+      `Ps ${formatNumber(physical.sheen ?? 0)}`,
+      `Pc ${formatNumber(physical.clearcoat ?? 0)}`,
+      `Pcr ${formatNumber(physical.clearcoatRoughness ?? 0)}`,
+    );
+
+    for (const [slot, key] of mtlTextureSlots) {
+      const texture = (material as unknown as Record<string, unknown>)[slot];
+      if (!isTexture(texture)) continue;
+
+      let path = texturePaths.get(texture);
+      if (!path) {
+        const encoded = await encodeTextureImage(texture);
+        if (!encoded) continue;
+        path = `textures/${sanitizeName(texture.name || `${name}_${slot}`)}.png`;
+        texturePaths.set(texture, path);
+        textures[path] = encoded;
+      }
+      mtlLines.push(`${key} ${path}`);
+    }
+
+    return name;
+  };
+
+  for (const child of baked.children) {
+    if (!isRenderableMesh(child) || Array.isArray(child.material)) continue;
+    const { geometry } = child;
+    const position = geometry.getAttribute("position");
+    const normal = geometry.getAttribute("normal");
+    const uv = geometry.getAttribute("uv");
+    if (!position || !normal) continue;
+
+    objLines.push("", `o ${sanitizeName(child.name || "Mesh")}`);
+    for (let i = 0; i < position.count; i += 1) {
+      objLines.push(
+        `v ${formatNumber(position.getX(i))} ${formatNumber(position.getY(i))} ${formatNumber(position.getZ(i))}`,
+      );
+    }
+    if (uv) {
+      for (let i = 0; i < uv.count; i += 1) {
+        objLines.push(`vt ${formatNumber(uv.getX(i))} ${formatNumber(uv.getY(i))}`);
+      }
+    }
+    for (let i = 0; i < normal.count; i += 1) {
+      objLines.push(
+        `vn ${formatNumber(normal.getX(i))} ${formatNumber(normal.getY(i))} ${formatNumber(normal.getZ(i))}`,
+      );
+    }
+
+    objLines.push(`usemtl ${await nameMaterial(child.material)}`);
+    const corner = (source: number) => {
+      const v = source + vertexOffset;
+      return uv ? `${v}/${source + uvOffset}/${v}` : `${v}//${v}`;
+    };
+    collectPolygons(geometry, triangulate).forEach(({ vertices }) => {
+      objLines.push(`f ${vertices.map(corner).join(" ")}`);
+    });
+
+    vertexOffset += position.count;
+    if (uv) uvOffset += uv.count;
+  }
+
+  return { obj: `${objLines.join("\n")}\n`, mtl: `${mtlLines.join("\n")}\n`, textures };
+};
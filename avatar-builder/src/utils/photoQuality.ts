@@ -0,0 +1,82 @@
+import type { LandmarkFit } from "./generationPipeline";
+
+/** How usable a reference photo is; every measure runs 0–1, higher is better. */
+export interface PhotoQuality {
+  /** From the spread of edge responses over the face, so blur and heavy smoothing score low. */
+  sharpness: number;
+  /** Penalises a face far from mid-grey and pixels clipped to black or white. */
+  exposure: number;
+  /** Mean luminance of the measured region, to tell too dark from too bright. */
+  brightness: number;
+  /** Face height against the photo's; null when no face was found. */
+  faceSize: number | null;
+  score: number;
+}
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+const round = (value: number) => Number(value.toFixed(3));
+
+/**
+ * Scores a photo for sharpness, exposure and face size, measured inside the
+ * fitted face box or over the whole photo when there is no fit. `pixels`
+ * should be at the fit's resolution so sharpness compares across photos.
+ */
+export const measurePhotoQuality = (pixels: ImageData, fit: LandmarkFit | null): PhotoQuality => {
+  const { data, width, height } = pixels;
+  const region = fit?.box ?? { x: 0, y: 0, width, height };
+  const left = Math.max(Math.round(region.x), 1);
+  const top = Math.max(Math.round(region.y), 1);
+  const right = Math.min(Math.round(region.x + region.width), width - 1);
+  const bottom = Math.min(Math.round(region.y + region.height), height - 1);
+  const luma = (x: number, y: number) => {
+    const offset = (y * width + x) * 4;
+    return 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+  };
+
+  let count = 0;
+  let lightSum = 0;
+  let clipped = 0;
+  let edgeSum = 0;
+  let edgeSquares = 0;
+  for (let y = top; y < bottom; y += 1) {
+    for (let x = left; x < right; x += 1) {
+      const light = luma(x, y);
+      const laplacian =
+        luma(x - 1, y) + luma(x + 1, y) + luma(x, y - 1) + luma(x, y + 1) - 4 * light;
+      lightSum += light;
+      if (light < 8 || light > 247) clipped += 1;
+      edgeSum += laplacian;
+      edgeSquares += laplacian * laplacian;
+      count += 1;
+    }
+  }
+  if (!count) return { sharpness: 0, exposure: 0, brightness: 0, faceSize: null, score: 0 };
+
+  const variance = edgeSquares / count - (edgeSum / count) ** 2;
+  const sharpness = 1 - Math.exp(-variance / 200);
+  const brightness = lightSum / count / 255;
+  const exposure =
+    clamp01(1 - Math.max(Math.abs(brightness - 0.5) - 0.15, 0) / 0.3) *
+    clamp01(1 - (clipped / count) * 3);
+  // A face filling about a third of the frame or more gives the fit and texture enough pixels.
+  const faceSize = fit ? clamp01(fit.box.height / height / 0.35) : null;
+  const score =
+    faceSize === null
+      ? sharpness * 0.55 + exposure * 0.45
+      : sharpness * 0.4 + exposure * 0.3 + faceSize * 0.3;
+  return {
+    sharpness: round(sharpness),
+    exposure: round(exposure),
+    brightness: round(brightness),
+    faceSize: faceSize === null ? null : round(faceSize),
+    score: round(score),
+  };
+};
+
+/** Short notes on what holds a photo back, for showing next to its score. */
+export const describeQuality = ({ sharpness, exposure, brightness, faceSize }: PhotoQuality) => [
+  ...(sharpness < 0.35 ? ["Blurry"] : []),
+  ...(exposure < 0.5 ? [brightness < 0.5 ? "Too dark" : "Too bright"] : []),
+  ...(faceSize !== null && faceSize < 0.5 ? ["Face is small"] : []),
+];
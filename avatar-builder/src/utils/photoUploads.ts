@@ -0,0 +1,166 @@
+import type { CaptureMetadata, PhotoRole, UploadedImage } from "@/state/avatarStore";
+import { runStoreRequest, uploadStoreName } from "./database";
+import {
+  defaultUploadMaxSide,
+  processUpload,
+  type ProcessedUpload,
+  UploadError,
+  type UploadMaxSide,
+  uploadMaxSides,
+  type UploadWorkerRequest,
+  type UploadWorkerResponse,
+} from "./uploadProcessing";
+
+/** A processed reference photo as kept in IndexedDB between sessions. */
+export interface StoredUpload {
+  id: string;
+  name: string;
+  size: number;
+  width: number;
+  height: number;
+  blob: Blob;
+  addedAt: string;
+  /** Absent on photos kept before roles existed. */
+  role?: PhotoRole | null;
+  capture?: CaptureMetadata;
+  /** Place in the user's order; photos never reordered follow in the order they were added. */
+  position?: number;
+}
+
+export const createUploadId = (name: string) => {
+  const uid =
+    typeof crypto !== "undefined" && "randomUUID" in crypto
+      ? crypto.randomUUID()
+      : `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+  return `${name}-${uid}`;
+};
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<
+  number,
+  { resolve: (upload: ProcessedUpload) => void; reject: (error: Error) => void }
+>();
+
+const getWorker = () => {
+  if (worker) return worker;
+  const created = new Worker(new URL("../workers/uploadWorker.ts", import.meta.url));
+  created.addEventListener("message", (event: MessageEvent<UploadWorkerResponse>) => {
+    const message = event.data;
+    const request = pending.get(message.id);
+    if (!request) return;
+    pending.delete(message.id);
+    if (message.type === "result") request.resolve(message.upload);
+    else if (message.rejected) request.reject(new UploadError(message.message));
+    else request.reject(new Error(message.message));
+  });
+  created.addEventListener("error", (event) => {
+    const error = new Error(event.message || "The upload worker crashed.");
+    pending.forEach((request) => request.reject(error));
+    pending.clear();
+    created.terminate();
+    worker = null;
+  });
+  worker = created;
+  return created;
+};
+
+/**
+ * Sniffs, orients and downsizes a photo off the main thread. Rejects with an
+ * `UploadError` when the file itself is the problem.
+ */
+export const prepareUpload = (file: Blob, maxSide: number) => {
+  if (typeof Worker === "undefined" || typeof OffscreenCanvas === "undefined") {
+    return processUpload(file, maxSide);
+  }
+  return new Promise<ProcessedUpload>((resolve, reject) => {
+    const id = (nextRequestId += 1);
+    pending.set(id, { resolve, reject });
+    getWorker().postMessage({ id, file, maxSide } satisfies UploadWorkerRequest);
+  });
+};
+
+export const saveStoredUpload = (upload: StoredUpload) =>
+  runStoreRequest(uploadStoreName, "readwrite", (store) => store.put(upload));
+
+export const listStoredUploads = async () => {
+  const uploads = await runStoreRequest<StoredUpload[]>(uploadStoreName, "readonly", (store) =>
+    store.getAll(),
+  );
+  const place = ({ position }: StoredUpload) => position ?? Number.MAX_SAFE_INTEGER;
+  return uploads.sort((a, b) => place(a) - place(b) || a.addedAt.localeCompare(b.addedAt));
+};
+
+/**
+ * Changes a kept photo's details. The read and the write share one transaction,
+ * so overlapping updates to the same photo, such as a role and a new order,
+ * both land.
+ */
+export const updateStoredUpload = (
+  id: string,
+  changes: Partial<Pick<StoredUpload, "role" | "position">>,
+) =>
+  runStoreRequest<StoredUpload | undefined>(uploadStoreName, "readwrite", (store) => {
+    const request = store.get(id);
+    request.addEventListener("success", () => {
+      if (request.result) store.put({ ...request.result, ...changes });
+    });
+    return request;
+  });
+
+/** Keeps the photos' order for the next session. */
+export const saveStoredUploadOrder = (ids: string[]) =>
+  Promise.all(ids.map((id, position) => updateStoredUpload(id, { position })));
+
+export const deleteStoredUpload = (id: string) =>
+  runStoreRequest(uploadStoreName, "readwrite", (store) => store.delete(id));
+
+export const clearStoredUploads = () =>
+  runStoreRequest(uploadStoreName, "readwrite", (store) => store.clear());
+
+/** Object URLs stand in for data URLs, so photos never sit in memory as base64 strings. */
+export const toUploadedImage = (upload: StoredUpload): UploadedImage => ({
+  id: upload.id,
+  name: upload.name,
+  src: URL.createObjectURL(upload.blob),
+  size: upload.blob.size,
+  width: upload.width,
+  height: upload.height,
+  role: upload.role ?? null,
+  capture: upload.capture ?? {},
+});
+
+export const releaseUploadedImage = ({ src }: UploadedImage) => {
+  if (src.startsWith("blob:")) URL.revokeObjectURL(src);
+};
+
+/** Turns a photo back into a file, e.g. one embedded in an imported avatar document. */
+export const uploadedImageToFile = async ({ name, src }: UploadedImage) =>
+  new File([await (await fetch(src)).blob()], name);
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/** The photo with its pixels inlined as a data URL, for documents that travel on their own. */
+export const toPortableImage = async (image: UploadedImage): Promise<UploadedImage> =>
+  image.src.startsWith("data:")
+    ? image
+    : { ...image, src: await blobToDataUrl(await (await fetch(image.src)).blob()) };
+
+const maxSideStorageKey = "avatar-studio-upload-max-side";
+
+export const loadUploadMaxSide = (): UploadMaxSide => {
+  if (typeof window === "undefined") return defaultUploadMaxSide;
+  const saved = Number(window.localStorage.getItem(maxSideStorageKey));
+  return uploadMaxSides.find((side) => side === saved) ?? defaultUploadMaxSide;
+};
+
+export const saveUploadMaxSide = (maxSide: UploadMaxSide) => {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(maxSideStorageKey, String(maxSide));
+};
@@ -0,0 +1,178 @@
+import { type Bone, Euler, Quaternion, type Skeleton, Vector3 } from "three";
+import type { ExpressionWeights } from "./expressions";
+import { type HumanoidBoneName, humanoidBoneNames } from "./rig";
+
+/** A bone's local rotation as an `[x, y, z, w]` quaternion. */
+export type PoseRotation = [number, number, number, number];
+
+/** A still pose: bone rotations away from rest, plus where the eyes look. */
+export interface AvatarPose {
+  /** Bones left out stay at rest. */
+  rotations: Partial<Record<HumanoidBoneName, PoseRotation>>;
+  /** Eye yaw and pitch relative to the head in radians; positive looks left and up. */
+  gaze: [number, number];
+}
+
+export interface NamedPose {
+  name: string;
+  pose: AvatarPose;
+}
+
+export const restPose: AvatarPose = { rotations: {}, gaze: [0, 0] };
+
+export const isRestPose = (pose: AvatarPose) =>
+  Object.keys(pose.rotations).length === 0 && pose.gaze[0] === 0 && pose.gaze[1] === 0;
+
+/** Reads the bones' rotations, keeping those that have left rest. */
+export const readPose = (bones: Bone[], gaze: AvatarPose["gaze"]): AvatarPose => ({
+  rotations: Object.fromEntries(
+    bones.flatMap((bone) =>
+      humanoidBoneNames.includes(bone.name as HumanoidBoneName) &&
+      Math.abs(bone.quaternion.w) < 1 - 1e-6
+        ? [[bone.name, bone.quaternion.toArray()]]
+        : [],
+    ),
+  ),
+  gaze,
+});
+
+/** Puts a skeleton back in its bind pose, then turns its bones to `pose`. */
+export const applyPose = (skeleton: Skeleton, pose: AvatarPose | null) => {
+  skeleton.pose();
+  if (!pose) return;
+  skeleton.bones.forEach((bone) => {
+    const rotation = pose.rotations[bone.name as HumanoidBoneName];
+    if (rotation) bone.quaternion.fromArray(rotation).normalize();
+  });
+};
+
+const mirrorBoneName = (name: HumanoidBoneName) =>
+  (name.startsWith("Left")
+    ? name.replace("Left", "Right")
+    : name.replace("Right", "Left")) as HumanoidBoneName;
+
+/** Swaps the sides of a pose across the avatar's midline. */
+export const mirrorPose = (pose: AvatarPose): AvatarPose => ({
+  rotations: Object.fromEntries(
+    Object.entries(pose.rotations).map(([name, [x, y, z, w]]) => [
+      mirrorBoneName(name as HumanoidBoneName),
+      [x, -y, -z, w],
+    ]),
+  ),
+  gaze: [-pose.gaze[0], pose.gaze[1]],
+});
+
+const worldQuaternion = new Quaternion();
+const parentQuaternion = new Quaternion();
+
+// Turns a bone by `rotation` in world space, keeping its parent where it is.
+const rotateBoneInWorld = (bone: Bone, rotation: Quaternion) => {
+  bone.getWorldQuaternion(worldQuaternion);
+  if (bone.parent) bone.parent.getWorldQuaternion(parentQuaternion);
+  else parentQuaternion.identity();
+  bone.quaternion.copy(parentQuaternion.invert().multiply(rotation).multiply(worldQuaternion));
+  bone.quaternion.normalize();
+  bone.updateMatrixWorld(true);
+};
+
+const positionOf = (bone: Bone) => bone.getWorldPosition(new Vector3());
+
+/**
+ * Bends a limb so its end reaches `target`, all in world space. The middle
+ * joint swings towards `pole`, so elbows bend back and knees forward;
+ * targets out of reach leave the limb straight and pointing at them.
+ */
+export const solveTwoBoneIK = (
+  upper: Bone,
+  lower: Bone,
+  end: Bone,
+  target: Vector3,
+  pole: Vector3,
+) => {
+  const root = positionOf(upper);
+  const upperLength = root.distanceTo(positionOf(lower));
+  const lowerLength = positionOf(lower).distanceTo(positionOf(end));
+  const toTarget = target.clone().sub(root);
+  const reach = Math.min(
+    Math.max(toTarget.length(), Math.abs(upperLength - lowerLength) + 1e-4),
+    upperLength + lowerLength - 1e-4,
+  );
+  const direction = toTarget.normalize();
+
+  // Where the middle joint goes: along the reach, then out towards the pole.
+  const along = (upperLength ** 2 - lowerLength ** 2 + reach ** 2) / (2 * reach);
+  const out = Math.sqrt(Math.max(upperLength ** 2 - along ** 2, 0));
+  const bend = pole.clone().sub(direction.clone().multiplyScalar(pole.dot(direction)));
+  if (bend.lengthSq() < 1e-8) bend.copy(positionOf(lower).sub(root));
+  bend.sub(direction.clone().multiplyScalar(bend.dot(direction))).normalize();
+  const middle = root.clone().addScaledVector(direction, along).addScaledVector(bend, out);
+  const reached = root.clone().addScaledVector(direction, reach);
+
+  const aim = (bone: Bone, child: Bone, goal: Vector3) => {
+    const origin = positionOf(bone);
+    const current = positionOf(child).sub(origin).normalize();
+    const wanted = goal.clone().sub(origin).normalize();
+    rotateBoneInWorld(bone, new Quaternion().setFromUnitVectors(current, wanted));
+  };
+  aim(upper, lower, middle);
+  aim(lower, end, reached);
+};
+
+// How far the neck and head turn before the eyes take over, in radians.
+const headYawLimit = 1.1;
+const headPitchLimits: [number, number] = [-0.6, 0.5];
+const eyeRange = 0.5;
+// Share of the turn taken by the neck; the head takes the rest.
+const neckShare = 0.4;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * Turns the neck and head to face `target` and returns the gaze that makes
+ * up what they cannot turn, all measured from the chest.
+ */
+export const aimHead = (neck: Bone, head: Bone, target: Vector3): AvatarPose["gaze"] => {
+  const chest = neck.parent ? neck.parent.getWorldQuaternion(new Quaternion()) : new Quaternion();
+  const direction = target
+    .clone()
+    .sub(positionOf(head))
+    .applyQuaternion(chest.invert())
+    .normalize();
+  const yaw = Math.atan2(direction.x, direction.z);
+  const pitch = Math.atan2(direction.y, Math.hypot(direction.x, direction.z));
+  const headYaw = clamp(yaw, -headYawLimit, headYawLimit);
+  const headPitch = clamp(pitch, ...headPitchLimits);
+
+  // A positive X turn tips the face down, so looking up is a negative one.
+  neck.quaternion.setFromEuler(new Euler(-headPitch * neckShare, headYaw * neckShare, 0, "YXZ"));
+  head.quaternion.setFromEuler(
+    new Euler(-headPitch * (1 - neckShare), headYaw * (1 - neckShare), 0, "YXZ"),
+  );
+  neck.updateMatrixWorld(true);
+  return [
+    clamp(yaw - headYaw, -eyeRange, eyeRange),
+    clamp(pitch - headPitch, -eyeRange, eyeRange),
+  ];
+};
+
+/** The eye-look blendshapes for a gaze; the avatar's left is its left eye's outside. */
+export const getGazeExpression = ([yaw, pitch]: AvatarPose["gaze"]): ExpressionWeights => {
+  const sideways = Math.min(Math.abs(yaw) / eyeRange, 1);
+  const vertical = Math.min(Math.abs(pitch) / eyeRange, 1);
+  const weights: ExpressionWeights = {};
+  if (yaw > 0) {
+    weights.eyeLookOutLeft = sideways;
+    weights.eyeLookInRight = sideways;
+  } else if (yaw < 0) {
+    weights.eyeLookInLeft = sideways;
+    weights.eyeLookOutRight = sideways;
+  }
+  if (pitch > 0) {
+    weights.eyeLookUpLeft = vertical;
+    weights.eyeLookUpRight = vertical;
+  } else if (pitch < 0) {
+    weights.eyeLookDownLeft = vertical;
+    weights.eyeLookDownRight = vertical;
+  }
+  return weights;
+};
@@ -0,0 +1,109 @@
+import type { AvatarDocument } from "./avatarDocument";
+import { presetStoreName, runStoreRequest } from "./database";
+
+export interface AvatarPreset {
+  id: string;
+  name: string;
+  tags: string[];
+  /** Small data-URL snapshot of the viewport taken when the preset was saved. */
+  thumbnail: string | null;
+  createdAt: string;
+  updatedAt: string;
+  document: AvatarDocument;
+}
+
+const createId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+
+export const normalizeTags = (input: string | string[]) => {
+  const tags = (Array.isArray(input) ? input : input.split(","))
+    .map((tag) => tag.trim().toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(tags)).sort();
+};
+
+export const listPresets = async () => {
+  const presets = await runStoreRequest<AvatarPreset[]>(presetStoreName, "readonly", (store) =>
+    store.getAll(),
+  );
+  return presets.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+const putPreset = async (preset: AvatarPreset) => {
+  await runStoreRequest(presetStoreName, "readwrite", (store) => store.put(preset));
+  return preset;
+};
+
+const getPreset = async (id: string) => {
+  const preset = await runStoreRequest<AvatarPreset | undefined>(presetStoreName, "readonly", (store) =>
+    store.get(id),
+  );
+  if (!preset) throw new Error(`Preset ${id} no longer exists.`);
+  return preset;
+};
+
+export const createPreset = ({
+  name,
+  tags,
+  thumbnail,
+  document,
+}: Pick<AvatarPreset, "name" | "tags" | "thumbnail" | "document">) => {
+  const now = new Date().toISOString();
+  return putPreset({
+    id: createId(),
+    name: name.trim() || "Untitled preset",
+    tags: normalizeTags(tags),
+    thumbnail,
+    createdAt: now,
+    updatedAt: now,
+    document,
+  });
+};
+
+export const updatePreset = async (
+  id: string,
+  changes: Partial<Pick<AvatarPreset, "name" | "tags" | "thumbnail" | "document">>,
+) => {
+  let updated: AvatarPreset | undefined;
+  // Reading and writing in one transaction keeps a concurrent edit from being overwritten.
+  await runStoreRequest<AvatarPreset | undefined>(presetStoreName, "readwrite", (store) => {
+    const request = store.get(id);
+    request.addEventListener("success", () => {
+      const preset = request.result;
+      if (!preset) return;
+      updated = {
+        ...preset,
+        ...changes,
+        name: changes.name !== undefined ? changes.name.trim() || preset.name : preset.name,
+        tags: changes.tags !== undefined ? normalizeTags(changes.tags) : preset.tags,
+        updatedAt: new Date().toISOString(),
+      };
+      store.put(updated);
+    });
+    return request;
+  });
+  if (!updated) throw new Error(`Preset ${id} no longer exists.`);
+  return updated;
+};
+
+export const duplicatePreset = async (id: string) => {
+  const preset = await getPreset(id);
+  return createPreset({ ...preset, name: `${preset.name} copy` });
+};
+
+export const deletePreset = (id: string) =>
+  runStoreRequest(presetStoreName, "readwrite", (store) => store.delete(id));
+
+/** Downscales the current viewport; needs a canvas created with `preserveDrawingBuffer`. */
+export const captureThumbnail = (source: HTMLCanvasElement, width = 240) => {
+  if (!source.width || !source.height) return null;
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = Math.round((source.height / source.width) * width);
+  const context = canvas.getContext("2d");
+  if (!context) return null;
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/webp", 0.85);
+};
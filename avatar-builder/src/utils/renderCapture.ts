@@ -0,0 +1,390 @@
+import {
+  type Camera,
+  Color,
+  DataTexture,
+  FloatType,
+  HalfFloatType,
+  MathUtils,
+  type PerspectiveCamera,
+  RGBAFormat,
+  type Scene,
+  Vector3,
+  type WebGLRenderer,
+  WebGLRenderTarget,
+} from "three";
+import { EXRExporter, ZIP_COMPRESSION } from "three/examples/jsm/exporters/EXRExporter.js";
+import { OutputPass } from "three/examples/jsm/postprocessing/OutputPass.js";
+import { encodeGif } from "./gifEncoder";
+
+/** What an offscreen render draws with: the viewport's renderer, scene and camera. */
+export interface RenderContext {
+  gl: WebGLRenderer;
+  scene: Scene;
+  camera: Camera;
+}
+
+export const renderViews = ["current", "front", "threeQuarter", "profile"] as const;
+
+export type RenderView = (typeof renderViews)[number];
+
+export const renderViewLabels: Record<RenderView, string> = {
+  current: "Current View",
+  front: "Front",
+  threeQuarter: "Three-Quarter",
+  profile: "Profile",
+};
+
+/** Where the viewport's orbit controls, and every camera preset, look. */
+export const viewTarget = new Vector3(0, 1.4, 0);
+
+// The viewport's opening framing, relative to the target; presets turn it about Y.
+const presetOffset = new Vector3(0, 0.4, 4.1);
+
+// Degrees round from the front, towards the avatar's left.
+const presetAzimuths: Record<Exclude<RenderView, "current">, number> = {
+  front: 0,
+  threeQuarter: 35,
+  profile: 90,
+};
+
+/** Largest image side; past it the float buffers outgrow what a tab can hold. */
+export const maxRenderSize = 8192;
+
+// Renders larger than this are drawn in tiles, so any size fits the GPU's limits.
+const maxTileSize = 2048;
+
+export interface ImageRenderSettings {
+  width: number;
+  height: number;
+  format: "png" | "exr";
+  view: RenderView;
+  transparent: boolean;
+}
+
+export interface TurntableSettings {
+  /** Side of the square frames, in pixels. */
+  size: number;
+  frames: number;
+  fps: number;
+  format: "webm" | "gif";
+  view: RenderView;
+  transparent: boolean;
+}
+
+export const defaultImageRenderSettings: ImageRenderSettings = {
+  width: 2048,
+  height: 2560,
+  format: "png",
+  view: "current",
+  transparent: false,
+};
+
+export const defaultTurntableSettings: TurntableSettings = {
+  size: 512,
+  frames: 72,
+  fps: 24,
+  format: "gif",
+  view: "front",
+  transparent: false,
+};
+
+export class RenderCaptureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RenderCaptureError";
+  }
+}
+
+const up = new Vector3(0, 1, 0);
+
+// A copy of the viewport camera at a preset, turned `turn` radians further round the target.
+const createRenderCamera = (context: RenderContext, view: RenderView, turn = 0) => {
+  if (!(context.camera as PerspectiveCamera).isPerspectiveCamera) {
+    throw new RenderCaptureError("The viewport camera cannot be rendered offscreen.");
+  }
+  const camera = (context.camera as PerspectiveCamera).clone();
+  const offset =
+    view === "current"
+      ? camera.position.clone().sub(viewTarget)
+      : presetOffset.clone().applyAxisAngle(up, MathUtils.degToRad(presetAzimuths[view]));
+  camera.position.copy(offset.applyAxisAngle(up, turn).add(viewTarget));
+  camera.lookAt(viewTarget);
+  return camera;
+};
+
+type TileReader = (
+  target: WebGLRenderTarget,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+) => void;
+
+/**
+ * Renders the scene offscreen in tiles, handing each tile's scene-linear
+ * target to `readTile` with its place in the image, counted from the bottom.
+ */
+const renderTiles = (
+  { gl, scene }: RenderContext,
+  camera: PerspectiveCamera,
+  width: number,
+  height: number,
+  transparent: boolean,
+  readTile: TileReader,
+) => {
+  const tileSize = Math.min(gl.capabilities.maxTextureSize, maxTileSize);
+  const target = new WebGLRenderTarget(tileSize, tileSize, { type: FloatType, samples: 4 });
+  const previousTarget = gl.getRenderTarget();
+  const previousBackground = scene.background;
+  const previousClearColor = gl.getClearColor(new Color());
+  const previousClearAlpha = gl.getClearAlpha();
+  if (transparent) {
+    scene.background = null;
+    gl.setClearColor(0x000000, 0);
+  }
+  camera.aspect = width / height;
+  try {
+    // Rows count up from the bottom, as GL reads them; view offsets count down from the top.
+    for (let y = 0; y < height; y += tileSize) {
+      for (let x = 0; x < width; x += tileSize) {
+        const tileWidth = Math.min(tileSize, width - x);
+        const tileHeight = Math.min(tileSize, height - y);
+        camera.setViewOffset(width, height, x, height - y - tileHeight, tileWidth, tileHeight);
+        target.setSize(tileWidth, tileHeight);
+        gl.setRenderTarget(target);
+        gl.clear();
+        gl.render(scene, camera);
+        readTile(target, x, y, tileWidth, tileHeight);
+      }
+    }
+  } finally {
+    scene.background = previousBackground;
+    gl.setClearColor(previousClearColor, previousClearAlpha);
+    gl.setRenderTarget(previousTarget);
+    target.dispose();
+  }
+};
+
+const copyTile = <T extends Uint8Array | Float32Array>(
+  pixels: T,
+  tile: T,
+  imageWidth: number,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+) => {
+  for (let row = 0; row < height; row += 1) {
+    const offset = ((y + row) * imageWidth + x) * 4;
+    pixels.set(tile.subarray(row * width * 4, (row + 1) * width * 4), offset);
+  }
+};
+
+// Scene-linear RGBA with premultiplied alpha, bottom row first.
+const renderLinear = (
+  context: RenderContext,
+  camera: PerspectiveCamera,
+  width: number,
+  height: number,
+  transparent: boolean,
+) => {
+  const pixels = new Float32Array(width * height * 4);
+  const readTile: TileReader = (target, x, y, tileWidth, tileHeight) => {
+    const tile = new Float32Array(tileWidth * tileHeight * 4);
+    context.gl.readRenderTargetPixels(target, 0, 0, tileWidth, tileHeight, tile);
+    copyTile(pixels, tile, width, x, y, tileWidth, tileHeight);
+  };
+  renderTiles(context, camera, width, height, transparent, readTile);
+  return pixels;
+};
+
+// 8-bit RGBA through the renderer's tone mapping and output colour space, like the viewport.
+const renderDisplay = (
+  context: RenderContext,
+  camera: PerspectiveCamera,
+  width: number,
+  height: number,
+  transparent: boolean,
+) => {
+  const pixels = new Uint8Array(width * height * 4);
+  const display = new WebGLRenderTarget(1, 1);
+  const outputPass = new OutputPass();
+  const readTile: TileReader = (target, x, y, tileWidth, tileHeight) => {
+    display.setSize(tileWidth, tileHeight);
+    outputPass.render(context.gl, display, target, 0, false);
+    const tile = new Uint8Array(tileWidth * tileHeight * 4);
+    context.gl.readRenderTargetPixels(display, 0, 0, tileWidth, tileHeight, tile);
+    copyTile(pixels, tile, width, x, y, tileWidth, tileHeight);
+  };
+  try {
+    renderTiles(context, camera, width, height, transparent, readTile);
+  } finally {
+    display.dispose();
+    outputPass.dispose();
+  }
+  return pixels;
+};
+
+// Flips bottom-up bytes to top-down rows. Against a transparent clear the colours
+// come out premultiplied, so they are divided back out for straight-alpha formats.
+const toImageRows = (pixels: Uint8Array, width: number, height: number) => {
+  const rows = new Uint8ClampedArray(pixels.length);
+  const stride = width * 4;
+  for (let y = 0; y < height; y += 1) {
+    rows.set(pixels.subarray((height - 1 - y) * stride, (height - y) * stride), y * stride);
+  }
+  for (let i = 0; i < rows.length; i += 4) {
+    const alpha = rows[i + 3];
+    if (alpha === 0 || alpha === 255) continue;
+    rows[i] = (rows[i] * 255) / alpha;
+    rows[i + 1] = (rows[i + 1] * 255) / alpha;
+    rows[i + 2] = (rows[i + 2] * 255) / alpha;
+  }
+  return rows;
+};
+
+const createFrameCanvas = (width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) throw new RenderCaptureError("This browser cannot draw the rendered frames.");
+  return { canvas, context };
+};
+
+const checkSize = (width: number, height: number) => {
+  const valid = (side: number) => Number.isInteger(side) && side >= 16 && side <= maxRenderSize;
+  if (!valid(width) || !valid(height)) {
+    throw new RenderCaptureError(
+      `Renders must be whole numbers of pixels from 16 to ${maxRenderSize} on each side.`,
+    );
+  }
+};
+
+/**
+ * Renders a still at any size up to `maxRenderSize`, independent of the
+ * viewport's. PNG is tone-mapped like the viewport; EXR keeps linear HDR light.
+ */
+export const renderImage = async (
+  context: RenderContext,
+  { width, height, format, view, transparent }: ImageRenderSettings,
+): Promise<Blob> => {
+  checkSize(width, height);
+  const camera = createRenderCamera(context, view);
+  if (format === "exr") {
+    const pixels = renderLinear(context, camera, width, height, transparent);
+    // The exporter flips rows itself, so the bottom-up buffer goes in as read.
+    const texture = new DataTexture(pixels, width, height, RGBAFormat, FloatType);
+    const exr = await new EXRExporter().parse(texture, {
+      type: HalfFloatType,
+      compression: ZIP_COMPRESSION,
+    });
+    texture.dispose();
+    return new Blob([exr], { type: "image/x-exr" });
+  }
+
+  const pixels = renderDisplay(context, camera, width, height, transparent);
+  const { canvas, context: canvasContext } = createFrameCanvas(width, height);
+  canvasContext.putImageData(new ImageData(toImageRows(pixels, width, height), width), 0, 0);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new RenderCaptureError("The image could not be encoded.")),
+      "image/png",
+    ),
+  );
+};
+
+const webmTypes = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"];
+
+/** Where turntable frames go: straight into a recording, or kept for a GIF. */
+interface FrameSink {
+  add: (rows: Uint8ClampedArray<ArrayBuffer>) => Promise<void>;
+  finish: () => Promise<Blob>;
+}
+
+// MediaRecorder stamps frames with the wall clock, so each is held for its slot.
+const createWebMSink = (size: number, fps: number): FrameSink => {
+  const mimeType =
+    typeof MediaRecorder === "undefined"
+      ? undefined
+      : webmTypes.find((type) => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new RenderCaptureError("This browser cannot record WebM video.");
+  const { canvas, context } = createFrameCanvas(size, size);
+  const stream = canvas.captureStream(0);
+  const [track] = stream.getVideoTracks() as CanvasCaptureMediaStreamTrack[];
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+  recorder.start();
+  const start = performance.now();
+  let index = 0;
+  const waitForSlot = (slot: number) =>
+    new Promise((resolve) =>
+      setTimeout(resolve, Math.max(0, start + (slot * 1000) / fps - performance.now())),
+    );
+
+  return {
+    add: async (rows) => {
+      await waitForSlot(index);
+      context.putImageData(new ImageData(rows, size), 0, 0);
+      track.requestFrame();
+      index += 1;
+    },
+    finish: async () => {
+      await waitForSlot(index);
+      recorder.stop();
+      await stopped;
+      stream.getTracks().forEach((streamTrack) => streamTrack.stop());
+      return new Blob(chunks, { type: "video/webm" });
+    },
+  };
+};
+
+const createGifSink = (size: number, fps: number, transparent: boolean): FrameSink => {
+  const frames: Uint8ClampedArray[] = [];
+  return {
+    add: async (rows) => {
+      frames.push(rows);
+    },
+    finish: async () => {
+      const delay = Math.max(2, Math.round(100 / fps));
+      const gif = encodeGif({ width: size, height: size, frames, delay, transparent });
+      return new Blob([gif], { type: "image/gif" });
+    },
+  };
+};
+
+/**
+ * Renders `frames` square frames with the camera circling the avatar once,
+ * starting from `view`, and encodes them as a looping WebM or GIF.
+ * `onProgress` hears after each frame; rendering yields between frames so the
+ * page stays responsive. WebM frames are recorded in real time at `fps`.
+ */
+export const renderTurntable = async (
+  context: RenderContext,
+  { size, frames, fps, format, view, transparent }: TurntableSettings,
+  onProgress?: (done: number, total: number) => void,
+): Promise<Blob> => {
+  checkSize(size, size);
+  if (!Number.isInteger(frames) || frames < 2) {
+    throw new RenderCaptureError("A turntable needs at least two frames.");
+  }
+  const sink =
+    format === "webm" ? createWebMSink(size, fps) : createGifSink(size, fps, transparent);
+  // WebM has no alpha in most browsers' recorders, so it keeps the background.
+  const clear = transparent && format === "gif";
+  for (let frame = 0; frame < frames; frame += 1) {
+    const camera = createRenderCamera(context, view, (frame / frames) * Math.PI * 2);
+    const pixels = renderDisplay(context, camera, size, size, clear);
+    await sink.add(toImageRows(pixels, size, size));
+    onProgress?.(frame + 1, frames);
+    await new Promise((resolve) => requestAnimationFrame(resolve));
+  }
+  return sink.finish();
+};
@@ -0,0 +1,300 @@
+import {
+  AnimationClip,
+  type Interpolant,
+  type KeyframeTrack,
+  LinearInterpolant,
+  type Object3D,
+  PropertyBinding,
+  Quaternion,
+  QuaternionKeyframeTrack,
+  QuaternionLinearInterpolant,
+  Vector3,
+  VectorKeyframeTrack,
+} from "three";
+import { type HumanoidBoneName, humanoidBoneNames, humanoidBoneParents } from "./rig";
+
+// Mixamo prefixes every bone; loaders drop the colon when they sanitise node names.
+const bonePrefix = /^mixamorig\d*[:_]?/i;
+
+// Other names for the avatar's bones, lowercased: common BVH mocap skeletons and the VRM set.
+const boneAliases: Record<string, HumanoidBoneName> = {
+  hip: "Hips",
+  pelvis: "Hips",
+  abdomen: "Spine",
+  chest: "Spine1",
+  chest2: "Spine2",
+  upperchest: "Spine2",
+  neck1: "Neck",
+  lcollar: "LeftShoulder",
+  leftcollar: "LeftShoulder",
+  lshldr: "LeftArm",
+  leftupperarm: "LeftArm",
+  lforearm: "LeftForeArm",
+  leftlowerarm: "LeftForeArm",
+  lhand: "LeftHand",
+  rcollar: "RightShoulder",
+  rightcollar: "RightShoulder",
+  rshldr: "RightArm",
+  rightupperarm: "RightArm",
+  rforearm: "RightForeArm",
+  rightlowerarm: "RightForeArm",
+  rhand: "RightHand",
+  lthigh: "LeftUpLeg",
+  leftupperleg: "LeftUpLeg",
+  lshin: "LeftLeg",
+  leftlowerleg: "LeftLeg",
+  lfoot: "LeftFoot",
+  lefttoe: "LeftToeBase",
+  lefttoes: "LeftToeBase",
+  rthigh: "RightUpLeg",
+  rightupperleg: "RightUpLeg",
+  rshin: "RightLeg",
+  rightlowerleg: "RightLeg",
+  rfoot: "RightFoot",
+  righttoe: "RightToeBase",
+  righttoes: "RightToeBase",
+};
+
+const lowerCaseBoneNames = new Map(humanoidBoneNames.map((name) => [name.toLowerCase(), name]));
+
+/** The avatar bone a source bone stands for, by Mixamo naming or a known alias. */
+export const matchBoneName = (name: string): HumanoidBoneName | null => {
+  const key = name.replace(bonePrefix, "").toLowerCase();
+  return lowerCaseBoneNames.get(key) ?? boneAliases[key] ?? null;
+};
+
+// The joint a bone points at; ends of chains take their parent's direction.
+const chainChildren: Partial<Record<HumanoidBoneName, HumanoidBoneName>> = {
+  Hips: "Spine",
+  Spine: "Spine1",
+  Spine1: "Spine2",
+  Spine2: "Neck",
+  Neck: "Head",
+  LeftShoulder: "LeftArm",
+  LeftArm: "LeftForeArm",
+  LeftForeArm: "LeftHand",
+  RightShoulder: "RightArm",
+  RightArm: "RightForeArm",
+  RightForeArm: "RightHand",
+  LeftUpLeg: "LeftLeg",
+  LeftLeg: "LeftFoot",
+  LeftFoot: "LeftToeBase",
+  RightUpLeg: "RightLeg",
+  RightLeg: "RightFoot",
+  RightFoot: "RightToeBase",
+};
+
+/** A source bone's animated property and the track driving it. */
+interface MotionChannel {
+  node: Object3D;
+  property: "quaternion" | "position";
+  interpolant: Interpolant;
+}
+
+/** An animation on its own skeleton, kept so it can be retargeted onto any rig. */
+export interface SourceMotion {
+  name: string;
+  /** Seconds. */
+  duration: number;
+  /** Top of the source hierarchy; its world matrices are refreshed while sampling. */
+  root: Object3D;
+  channels: MotionChannel[];
+  /** Source bones standing for the avatar's. */
+  bones: Partial<Record<HumanoidBoneName, Object3D>>;
+  /** Local transforms of the animated nodes before any track moves them. */
+  rest: Map<Object3D, { position: Vector3; quaternion: Quaternion }>;
+}
+
+/**
+ * Wraps a loaded clip and the hierarchy it animates. Null when no bone the
+ * clip moves matches one of the avatar's.
+ */
+export const createSourceMotion = (root: Object3D, clip: AnimationClip): SourceMotion | null => {
+  const channels = clip.tracks.flatMap((track) => {
+    // Split by hand: BVH bone names keep Mixamo's colon, which track name parsing reads as a path.
+    const dot = track.name.lastIndexOf(".");
+    const propertyName = track.name.slice(dot + 1);
+    const nodeName = track.name.slice(0, dot).replace(/^\.bones\[(.*)\]$/, "$1");
+    if (propertyName !== "quaternion" && propertyName !== "position") return [];
+    const node =
+      root.getObjectByName(nodeName) ??
+      root.getObjectByName(PropertyBinding.sanitizeNodeName(nodeName));
+    if (!node) return [];
+    const size = propertyName === "quaternion" ? 4 : 3;
+    const interpolant = new (size === 4 ? QuaternionLinearInterpolant : LinearInterpolant)(
+      track.times,
+      track.values,
+      size,
+      new Float32Array(size),
+    );
+    return [{ node, property: propertyName as MotionChannel["property"], interpolant }];
+  });
+
+  const bones: SourceMotion["bones"] = {};
+  root.traverse((node) => {
+    const name = matchBoneName(node.name);
+    if (name && !bones[name]) bones[name] = node;
+  });
+  const animated = new Set(channels.map((channel) => channel.node));
+  if (!Object.values(bones).some((bone) => animated.has(bone)) || clip.duration <= 0) return null;
+
+  const rest = new Map(
+    [...animated].map((node) => [
+      node,
+      { position: node.position.clone(), quaternion: node.quaternion.clone() },
+    ]),
+  );
+  return { name: clip.name, duration: clip.duration, root, channels, bones, rest };
+};
+
+type Pose = Partial<Record<HumanoidBoneName, { position: Vector3; quaternion: Quaternion }>>;
+
+const scratch = new Vector3();
+
+// World transforms of the matched source bones, with every track sampled at `time`, or at rest.
+const sampleSourcePose = ({ root, channels, bones, rest }: SourceMotion, time: number | null) => {
+  rest.forEach((transform, node) => {
+    node.position.copy(transform.position);
+    node.quaternion.copy(transform.quaternion);
+  });
+  if (time !== null) {
+    channels.forEach(({ node, property, interpolant }) => {
+      const value = interpolant.evaluate(time);
+      if (property === "quaternion") node.quaternion.fromArray(value).normalize();
+      else node.position.fromArray(value);
+    });
+  }
+  root.updateMatrixWorld(true);
+  const pose: Pose = {};
+  (Object.keys(bones) as HumanoidBoneName[]).forEach((name) => {
+    const position = new Vector3();
+    const quaternion = new Quaternion();
+    bones[name]?.matrixWorld.decompose(position, quaternion, scratch);
+    pose[name] = { position, quaternion };
+  });
+  return pose;
+};
+
+type JointPoints = Partial<Record<HumanoidBoneName, Vector3>>;
+
+// Sum of the bone lengths along a chain, or -1 when a joint is missing.
+const chainLength = (points: JointPoints, chain: HumanoidBoneName[]) =>
+  chain.slice(1).reduce((sum, name, index) => {
+    const from = points[chain[index]];
+    const to = points[name];
+    return from && to && sum >= 0 ? sum + from.distanceTo(to) : -1;
+  }, 0);
+
+const scaleChains: HumanoidBoneName[][] = [
+  ["LeftUpLeg", "LeftLeg", "LeftFoot"],
+  ["RightUpLeg", "RightLeg", "RightFoot"],
+  ["Hips", "Neck"],
+];
+
+// Keyframes per second of a retargeted clip.
+const retargetFrameRate = 30;
+
+/**
+ * Retargets a source motion onto a rig whose joints rest at `joints`, with
+ * every bone at an identity rest rotation.
+ *
+ * The source is turned to face +Z like the avatar, then each bone is aimed
+ * where its source bone points. Rest poses and bone lengths can differ, so a
+ * T-posed skeleton drives the arms-down avatar at any height or shoulder
+ * width. Hips travel is scaled by the ratio of leg lengths.
+ */
+export const retargetMotion = (motion: SourceMotion, joints: Record<HumanoidBoneName, Vector3>) => {
+  const restPose = sampleSourcePose(motion, null);
+  const restPoints = Object.fromEntries(
+    Object.entries(restPose).map(([name, transform]) => [name, transform.position]),
+  ) as JointPoints;
+
+  // Turn the source about Y so its left hip points along the avatar's.
+  const facing = new Quaternion();
+  const sourceLeft =
+    restPoints.LeftUpLeg && restPoints.RightUpLeg
+      ? restPoints.LeftUpLeg.clone().sub(restPoints.RightUpLeg).setY(0)
+      : null;
+  if (sourceLeft && sourceLeft.lengthSq() > 1e-8) {
+    const targetLeft = joints.LeftUpLeg.clone().sub(joints.RightUpLeg).setY(0);
+    facing.setFromUnitVectors(sourceLeft.normalize(), targetLeft.normalize());
+  }
+
+  const scaleChain = scaleChains.find(
+    (chain) => chainLength(restPoints, chain) > 0 && chainLength(joints, chain) > 0,
+  );
+  const travelScale = scaleChain
+    ? chainLength(joints, scaleChain) / chainLength(restPoints, scaleChain)
+    : 1;
+
+  // Rotation taking each source bone's rest direction, turned, to the avatar bone's.
+  const alignments = {} as Record<HumanoidBoneName, Quaternion>;
+  humanoidBoneNames.forEach((name) => {
+    const parent = humanoidBoneParents[name];
+    let child = chainChildren[name];
+    while (child && !restPoints[child]) child = chainChildren[child];
+    const from = restPoints[name];
+    const to = child ? restPoints[child] : undefined;
+    if (!child || !from || !to) {
+      alignments[name] = parent ? alignments[parent].clone() : new Quaternion();
+      return;
+    }
+    const sourceDirection = to.clone().sub(from).applyQuaternion(facing).normalize();
+    const targetDirection = joints[child].clone().sub(joints[name]).normalize();
+    alignments[name] = new Quaternion().setFromUnitVectors(sourceDirection, targetDirection);
+  });
+
+  // Per bone, the part of the world rotation that does not change over the clip.
+  const inverseFacing = facing.clone().invert();
+  const restOffsets: Partial<Record<HumanoidBoneName, Quaternion>> = {};
+  humanoidBoneNames.forEach((name) => {
+    const rest = restPose[name];
+    if (!rest) return;
+    restOffsets[name] = rest.quaternion
+      .clone()
+      .invert()
+      .multiply(inverseFacing)
+      .multiply(alignments[name].clone().invert());
+  });
+
+  const count = Math.max(2, Math.round(motion.duration * retargetFrameRate) + 1);
+  const times = Array.from(
+    { length: count },
+    (_, index) => (index / (count - 1)) * motion.duration,
+  );
+  const rotations = new Map<HumanoidBoneName, number[]>();
+  const hipsPositions: number[] = [];
+  const world = {} as Record<HumanoidBoneName, Quaternion>;
+  const hipsRest = restPoints.Hips;
+
+  times.forEach((time) => {
+    const pose = sampleSourcePose(motion, time);
+    humanoidBoneNames.forEach((name) => {
+      const parent = humanoidBoneParents[name];
+      const parentWorld = parent ? world[parent] : new Quaternion();
+      const source = pose[name];
+      const offset = restOffsets[name];
+      // Bones the source lacks stay at rest under their parent.
+      world[name] =
+        source && offset
+          ? facing.clone().multiply(source.quaternion).multiply(offset)
+          : parentWorld.clone();
+      if (!source) return;
+      const values = rotations.get(name) ?? [];
+      values.push(...parentWorld.clone().invert().multiply(world[name]).toArray());
+      rotations.set(name, values);
+    });
+    const travel =
+      hipsRest && pose.Hips
+        ? pose.Hips.position.clone().sub(hipsRest).applyQuaternion(facing)
+        : new Vector3();
+    travel.multiplyScalar(travelScale);
+    hipsPositions.push(...travel.add(joints.Hips).toArray());
+  });
+
+  const tracks: KeyframeTrack[] = [...rotations].map(
+    ([name, values]) => new QuaternionKeyframeTrack(`${name}.quaternion`, times, values),
+  );
+  tracks.push(new VectorKeyframeTrack("Hips.position", times, hipsPositions));
+  return new AnimationClip(motion.name, motion.duration, tracks);
+};
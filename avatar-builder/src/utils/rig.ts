@@ -0,0 +1,564 @@
+import {
+  Bone,
+  BufferGeometry,
+  CapsuleGeometry,
+  CylinderGeometry,
+  Float32BufferAttribute,
+  Quaternion,
+  Skeleton,
+  Uint16BufferAttribute,
+  Vector3,
+} from "three";
+import { mergeGeometries } from "three/examples/jsm/utils/BufferGeometryUtils.js";
+import type { BodyConfig, HeadConfig } from "@/state/avatarStore";
+
+export const humanoidBoneNames = [
+  "Hips",
+  "Spine",
+  "Spine1",
+  "Spine2",
+  "Neck",
+  "Head",
+  "LeftShoulder",
+  "LeftArm",
+  "LeftForeArm",
+  "LeftHand",
+  "RightShoulder",
+  "RightArm",
+  "RightForeArm",
+  "RightHand",
+  "LeftUpLeg",
+  "LeftLeg",
+  "LeftFoot",
+  "LeftToeBase",
+  "RightUpLeg",
+  "RightLeg",
+  "RightFoot",
+  "RightToeBase",
+] as const;
+
+export type HumanoidBoneName = (typeof humanoidBoneNames)[number];
+
+export const humanoidBoneParents: Record<HumanoidBoneName, HumanoidBoneName | null> = {
+  Hips: null,
+  Spine: "Hips",
+  Spine1: "Spine",
+  Spine2: "Spine1",
+  Neck: "Spine2",
+  Head: "Neck",
+  LeftShoulder: "Spine2",
+  LeftArm: "LeftShoulder",
+  LeftForeArm: "LeftArm",
+  LeftHand: "LeftForeArm",
+  RightShoulder: "Spine2",
+  RightArm: "RightShoulder",
+  RightForeArm: "RightArm",
+  RightHand: "RightForeArm",
+  LeftUpLeg: "Hips",
+  LeftLeg: "LeftUpLeg",
+  LeftFoot: "LeftLeg",
+  LeftToeBase: "LeftFoot",
+  RightUpLeg: "Hips",
+  RightLeg: "RightUpLeg",
+  RightFoot: "RightLeg",
+  RightToeBase: "RightFoot",
+};
+
+export interface RigLayout {
+  /** Rest position of every joint in avatar space (feet on the ground plane). */
+  joints: Record<HumanoidBoneName, Vector3>;
+  /** Far end of each bone, used for skin weighting and limb geometry. */
+  tips: Record<HumanoidBoneName, Vector3>;
+  headCenter: Vector3;
+  headScale: [number, number, number];
+  stature: number;
+}
+
+export interface AvatarRig {
+  layout: RigLayout;
+  root: Bone;
+  bones: Record<HumanoidBoneName, Bone>;
+  skeleton: Skeleton;
+}
+
+const groundLevel = -0.35;
+export const headRadius = 0.4;
+
+const lerp = (value: number, min: number, max: number) =>
+  min + (max - min) * value;
+
+/** Head width and height scale the skull and move joints; the face itself is morph targets. */
+export type RigHeadConfig = Pick<HeadConfig, "headHeight" | "headWidth">;
+
+export const getHeadScale = (head: RigHeadConfig): [number, number, number] => [
+  lerp(head.headWidth, 0.9, 1.2),
+  lerp(head.headHeight, 0.9, 1.3),
+  1,
+];
+
+const mirror = (point: Vector3) => new Vector3(-point.x, point.y, point.z);
+
+/** Only height and shoulder width move joints; weight and muscle are morph targets. */
+export type RigBodyConfig = Pick<BodyConfig, "height" | "shoulderWidth">;
+
+export const computeRigLayout = (head: RigHeadConfig, body: RigBodyConfig): RigLayout => {
+  const headScale = getHeadScale(head);
+  const headCenter = new Vector3(0, lerp(body.height, 1.5, 1.9), 0);
+  const headY = headCenter.y - headRadius * headScale[1] * 0.55;
+  const neckY = headY - 0.18;
+  const chestY = neckY - 0.22;
+  const stature = (neckY - groundLevel) / 1.66;
+  const hipsY = groundLevel + (neckY - groundLevel) * 0.42;
+  const shoulderHalf = lerp(body.shoulderWidth, 0.46, 0.62);
+  const armY = chestY + 0.1;
+  const legX = 0.17;
+  const kneeY = lerp(0.5, hipsY - 0.06, groundLevel + 0.1);
+
+  const left = {
+    shoulder: new Vector3(0.06, chestY + 0.12, -0.02),
+    arm: new Vector3(shoulderHalf, armY, -0.02),
+    foreArm: new Vector3(shoulderHalf + 0.08 * stature, armY - 0.55 * stature, -0.02),
+    hand: new Vector3(shoulderHalf + 0.14 * stature, armY - 1.05 * stature, 0),
+    handTip: new Vector3(shoulderHalf + 0.16 * stature, armY - 1.23 * stature, 0.01),
+    upLeg: new Vector3(legX, hipsY - 0.06, 0),
+    leg: new Vector3(legX, kneeY, 0.02),
+    foot: new Vector3(legX, groundLevel + 0.1, -0.02),
+    toe: new Vector3(legX, groundLevel + 0.03, 0.16),
+    toeTip: new Vector3(legX, groundLevel + 0.03, 0.24),
+  };
+
+  const joints: Record<HumanoidBoneName, Vector3> = {
+    Hips: new Vector3(0, hipsY, 0),
+    Spine: new Vector3(0, lerp(1 / 3, hipsY, chestY), -0.01),
+    Spine1: new Vector3(0, lerp(2 / 3, hipsY, chestY), -0.02),
+    Spine2: new Vector3(0, chestY, -0.02),
+    Neck: new Vector3(0, neckY, -0.03),
+    Head: new Vector3(0, headY, 0),
+    LeftShoulder: left.shoulder,
+    LeftArm: left.arm,
+    LeftForeArm: left.foreArm,
+    LeftHand: left.hand,
+    RightShoulder: mirror(left.shoulder),
+    RightArm: mirror(left.arm),
+    RightForeArm: mirror(left.foreArm),
+    RightHand: mirror(left.hand),
+    LeftUpLeg: left.upLeg,
+    LeftLeg: left.leg,
+    LeftFoot: left.foot,
+    LeftToeBase: left.toe,
+    RightUpLeg: mirror(left.upLeg),
+    RightLeg: mirror(left.leg),
+    RightFoot: mirror(left.foot),
+    RightToeBase: mirror(left.toe),
+  };
+
+  const tips: Record<HumanoidBoneName, Vector3> = {
+    Hips: joints.Spine,
+    Spine: joints.Spine1,
+    Spine1: joints.Spine2,
+    Spine2: joints.Neck,
+    Neck: joints.Head,
+    Head: new Vector3(0, headCenter.y + headRadius * headScale[1], 0),
+    LeftShoulder: joints.LeftArm,
+    LeftArm: joints.LeftForeArm,
+    LeftForeArm: joints.LeftHand,
+    LeftHand: left.handTip,
+    RightShoulder: joints.RightArm,
+    RightArm: joints.RightForeArm,
+    RightForeArm: joints.RightHand,
+    RightHand: mirror(left.handTip),
+    LeftUpLeg: joints.LeftLeg,
+    LeftLeg: joints.LeftFoot,
+    LeftFoot: joints.LeftToeBase,
+    LeftToeBase: left.toeTip,
+    RightUpLeg: joints.RightLeg,
+    RightLeg: joints.RightFoot,
+    RightFoot: joints.RightToeBase,
+    RightToeBase: mirror(left.toeTip),
+  };
+
+  return { joints, tips, headCenter, headScale, stature };
+};
+
+export const createAvatarRig = (head: RigHeadConfig, body: RigBodyConfig): AvatarRig => {
+  const layout = computeRigLayout(head, body);
+  const bones = {} as Record<HumanoidBoneName, Bone>;
+
+  humanoidBoneNames.forEach((name) => {
+    const bone = new Bone();
+    bone.name = name;
+    const parentName = humanoidBoneParents[name];
+    bone.position.copy(layout.joints[name]);
+    if (parentName) {
+      bone.position.sub(layout.joints[parentName]);
+      bones[parentName].add(bone);
+    }
+    bones[name] = bone;
+  });
+
+  const root = bones.Hips;
+  // Bind in avatar space: the skinned meshes share the root's parent and carry no transform.
+  root.updateMatrixWorld(true);
+  const skeleton = new Skeleton(humanoidBoneNames.map((name) => bones[name]));
+
+  return { layout, root, bones, skeleton };
+};
+
+export const getBoneIndex = (name: HumanoidBoneName) => humanoidBoneNames.indexOf(name);
+
+const closestPoint = new Vector3();
+const segment = new Vector3();
+
+const distanceToSegment = (point: Vector3, start: Vector3, end: Vector3) => {
+  segment.subVectors(end, start);
+  const lengthSq = segment.lengthSq();
+  const t =
+    lengthSq > 0
+      ? Math.min(Math.max(closestPoint.subVectors(point, start).dot(segment) / lengthSq, 0), 1)
+      : 0;
+  closestPoint.copy(start).addScaledVector(segment, t);
+  return point.distanceTo(closestPoint);
+};
+
+/**
+ * Writes skinIndex/skinWeight attributes by blending the four closest bone
+ * segments with an inverse-distance falloff, so joints bend smoothly.
+ */
+export const applySkinWeights = (
+  geometry: BufferGeometry,
+  layout: RigLayout,
+  influences: HumanoidBoneName[],
+) => {
+  const position = geometry.getAttribute("position");
+  const skinIndices = new Uint16Array(position.count * 4);
+  const skinWeights = new Float32Array(position.count * 4);
+  const point = new Vector3();
+  const candidates = influences.map((name) => ({
+    index: getBoneIndex(name),
+    start: layout.joints[name],
+    end: layout.tips[name],
+    weight: 0,
+  }));
+
+  for (let i = 0; i < position.count; i += 1) {
+    point.fromBufferAttribute(position, i);
+    candidates.forEach((candidate) => {
+      const distance = Math.max(distanceToSegment(point, candidate.start, candidate.end), 1e-4);
+      candidate.weight = 1 / distance ** 4;
+    });
+    const strongest = [...candidates].sort((a, b) => b.weight - a.weight).slice(0, 4);
+    const total = strongest.reduce((sum, candidate) => sum + candidate.weight, 0);
+    strongest.forEach((candidate, slot) => {
+      skinIndices[i * 4 + slot] = candidate.index;
+      skinWeights[i * 4 + slot] = candidate.weight / total;
+    });
+  }
+
+  geometry.setAttribute("skinIndex", new Uint16BufferAttribute(skinIndices, 4));
+  geometry.setAttribute("skinWeight", new Float32BufferAttribute(skinWeights, 4));
+  return geometry;
+};
+
+const up = new Vector3(0, 1, 0);
+
+const smoothstep = (edge0: number, edge1: number, value: number) => {
+  const t = Math.min(Math.max((value - edge0) / (edge1 - edge0), 0), 1);
+  return t * t * (3 - 2 * t);
+};
+
+export const capsuleBetween = (
+  start: Vector3,
+  end: Vector3,
+  radius: number,
+  depthScale = 1,
+  widthScale = 1,
+) => {
+  const direction = new Vector3().subVectors(end, start);
+  const length = direction.length();
+  const geometry = new CapsuleGeometry(radius, Math.max(length, 0.001), 6, 20, 4);
+  geometry.scale(widthScale, 1, depthScale);
+  geometry.applyQuaternion(new Quaternion().setFromUnitVectors(up, direction.normalize()));
+  const midpoint = new Vector3().addVectors(start, end).multiplyScalar(0.5);
+  geometry.translate(midpoint.x, midpoint.y, midpoint.z);
+  return geometry;
+};
+
+/** Open-ended tube from `start` to `end`; `endRadius` flares the far opening. */
+export const tubeBetween = (
+  start: Vector3,
+  end: Vector3,
+  radius: number,
+  endRadius = radius,
+  depthScale = 1,
+  widthScale = 1,
+) => {
+  const direction = new Vector3().subVectors(end, start);
+  const length = direction.length();
+  const geometry = new CylinderGeometry(endRadius, radius, Math.max(length, 0.001), 24, 4, true);
+  geometry.scale(widthScale, 1, depthScale);
+  geometry.applyQuaternion(new Quaternion().setFromUnitVectors(up, direction.normalize()));
+  const midpoint = new Vector3().addVectors(start, end).multiplyScalar(0.5);
+  geometry.translate(midpoint.x, midpoint.y, midpoint.z);
+  return geometry;
+};
+
+/** Pushes every vertex out along its normal, so garments sit just off the skin. */
+export const inflateGeometry = (geometry: BufferGeometry, distance: number) => {
+  if (distance === 0) return geometry;
+  const position = geometry.getAttribute("position");
+  const normal = geometry.getAttribute("normal");
+  for (let i = 0; i < position.count; i += 1) {
+    position.setXYZ(
+      i,
+      position.getX(i) + normal.getX(i) * distance,
+      position.getY(i) + normal.getY(i) * distance,
+      position.getZ(i) + normal.getZ(i) * distance,
+    );
+  }
+  return geometry;
+};
+
+export const bodyMorphNames = ["Weight", "Muscle", "Shoulders"] as const;
+
+export type BodyMorphName = (typeof bodyMorphNames)[number];
+
+export const bodyMorphDictionary = Object.fromEntries(
+  bodyMorphNames.map((name, index) => [name, index]),
+) as Record<BodyMorphName, number>;
+
+/** Body sliders are bipolar around 0.5, so the base mesh is the average build. */
+export const getBodyMorphInfluences = (body: BodyConfig) =>
+  [body.weight, body.muscle, body.shoulderWidth].map((value) => (value - 0.5) * 2);
+
+/**
+ * Maps a vertex's offset from its bone axis, and how far along the bone it
+ * sits, to one delta per body morph target.
+ */
+export type BodyMorphProfile = (radial: Vector3, t: number) => [Vector3, Vector3, Vector3];
+
+export const torsoMorphs: BodyMorphProfile = (radial, t) => {
+  const front = Math.max(radial.z / (radial.length() || 1), 0);
+  const belly = Math.exp(-(((t - 0.35) / 0.25) ** 2));
+  const chest = smoothstep(0.45, 0.85, t);
+  return [
+    radial.clone().multiplyScalar(0.18 + 0.3 * belly * front),
+    radial
+      .clone()
+      .multiplyScalar(0.04 + 0.14 * chest)
+      .setX(radial.x * (0.16 * chest - 0.06)),
+    new Vector3(radial.x * 0.3 * smoothstep(0.55, 1, t), 0, 0),
+  ];
+};
+
+const shoulderMorphs: BodyMorphProfile = (radial) => [
+  radial.clone().multiplyScalar(0.15),
+  radial.clone().multiplyScalar(0.3),
+  radial.clone().multiplyScalar(0.25),
+];
+
+const limbMorphs =
+  (weight: number, muscle: number): BodyMorphProfile =>
+  (radial, t) => [
+    radial.clone().multiplyScalar(weight),
+    radial.clone().multiplyScalar(muscle * Math.sin(Math.PI * t)),
+    new Vector3(),
+  ];
+
+const rigidMorphs: BodyMorphProfile = () => [new Vector3(), new Vector3(), new Vector3()];
+
+/** Writes relative body morph targets measured against the `start`–`end` bone axis. */
+export const addBodyMorphs = (
+  geometry: BufferGeometry,
+  start: Vector3,
+  end: Vector3,
+  profile: BodyMorphProfile,
+) => {
+  const position = geometry.getAttribute("position");
+  const deltas = bodyMorphNames.map(() => new Float32Array(position.count * 3));
+  const axis = new Vector3().subVectors(end, start);
+  const lengthSq = Math.max(axis.lengthSq(), 1e-8);
+  const radial = new Vector3();
+
+  for (let i = 0; i < position.count; i += 1) {
+    radial.fromBufferAttribute(position, i).sub(start);
+    const t = Math.min(Math.max(radial.dot(axis) / lengthSq, 0), 1);
+    radial.addScaledVector(axis, -t);
+    profile(radial, t).forEach((delta, target) => delta.toArray(deltas[target], i * 3));
+  }
+
+  geometry.morphAttributes.position = deltas.map((array) => new Float32BufferAttribute(array, 3));
+  geometry.morphTargetsRelative = true;
+  geometry.userData.bipolarMorphs = [...bodyMorphNames];
+  return geometry;
+};
+
+/**
+ * Merging drops the attribute names the mesh builds its morph dictionary from,
+ * the flag marking the targets as relative offsets and the note that they are
+ * bipolar; this restores all three.
+ */
+export const nameBodyMorphs = (geometry: BufferGeometry) => {
+  geometry.morphAttributes.position?.forEach((attribute, index) => {
+    attribute.name = bodyMorphNames[index];
+  });
+  geometry.morphTargetsRelative = true;
+  geometry.userData.bipolarMorphs = [...bodyMorphNames];
+  return geometry;
+};
+
+export const createBodyPart = (
+  geometry: BufferGeometry,
+  layout: RigLayout,
+  influences: HumanoidBoneName[],
+  start: Vector3,
+  end: Vector3,
+  morphs: BodyMorphProfile,
+) => addBodyMorphs(applySkinWeights(geometry, layout, influences), start, end, morphs);
+
+export const limbSides = ["Left", "Right"] as const;
+
+export type LimbSide = (typeof limbSides)[number];
+
+export interface LimbSegment {
+  start: Vector3;
+  end: Vector3;
+  radius: number;
+  depthScale: number;
+  widthScale: number;
+  influences: HumanoidBoneName[];
+  morphs: BodyMorphProfile;
+}
+
+export type LimbSegmentName = "arm" | "foreArm" | "hand" | "upLeg" | "leg" | "foot";
+
+export const getLimbSegments = (
+  layout: RigLayout,
+  side: LimbSide,
+): Record<LimbSegmentName, LimbSegment> => {
+  const { joints, tips, stature } = layout;
+  const arm = `${side}Arm` as const;
+  const foreArm = `${side}ForeArm` as const;
+  const hand = `${side}Hand` as const;
+  const upLeg = `${side}UpLeg` as const;
+  const leg = `${side}Leg` as const;
+  const foot = `${side}Foot` as const;
+  const toe = `${side}ToeBase` as const;
+  const armInfluences: HumanoidBoneName[] = [`${side}Shoulder`, arm, foreArm, hand];
+  const legInfluences: HumanoidBoneName[] = ["Hips", upLeg, leg, foot, toe];
+  const segment = (
+    start: Vector3,
+    end: Vector3,
+    radius: number,
+    influences: HumanoidBoneName[],
+    morphs: BodyMorphProfile,
+    depthScale = 1,
+    widthScale = 1,
+  ): LimbSegment => ({ start, end, radius, depthScale, widthScale, influences, morphs });
+
+  return {
+    arm: segment(joints[arm], joints[foreArm], 0.085 * stature, armInfluences, limbMorphs(0.2, 0.35)),
+    foreArm: segment(joints[foreArm], joints[hand], 0.07 * stature, armInfluences, limbMorphs(0.14, 0.2)),
+    hand: segment(joints[hand], tips[hand], 0.055 * stature, [foreArm, hand], rigidMorphs, 0.55),
+    upLeg: segment(joints[upLeg], joints[leg], 0.12 * stature, legInfluences, limbMorphs(0.28, 0.18)),
+    leg: segment(joints[leg], joints[foot], 0.09 * stature, legInfluences, limbMorphs(0.15, 0.22)),
+    foot: segment(joints[foot], tips[toe], 0.06 * stature, legInfluences, rigidMorphs, 1, 1.2),
+  };
+};
+
+export const createLimbPart = (layout: RigLayout, segment: LimbSegment, ease = 0) =>
+  createBodyPart(
+    inflateGeometry(
+      capsuleBetween(segment.start, segment.end, segment.radius, segment.depthScale, segment.widthScale),
+      ease,
+    ),
+    layout,
+    segment.influences,
+    segment.start,
+    segment.end,
+    segment.morphs,
+  );
+
+export const torsoInfluences: HumanoidBoneName[] = [
+  "Hips",
+  "Spine",
+  "Spine1",
+  "Spine2",
+  "LeftShoulder",
+  "RightShoulder",
+];
+
+export const getTorsoAxis = ({ joints }: RigLayout) => ({
+  start: joints.Hips.clone().setY(joints.Hips.y - 0.08),
+  end: joints.Spine2.clone().setY(joints.Spine2.y + 0.06),
+});
+
+/**
+ * The torso capsule with its top dome flattened into a shoulder line, so the
+ * neck stays visible between the collarbones and the jaw.
+ */
+export const createTorsoPart = (layout: RigLayout, ease = 0) => {
+  const { start, end } = getTorsoAxis(layout);
+  const geometry = capsuleBetween(start, end, 0.3, 0.72, 1.08);
+  const chestY = layout.joints.Spine2.y;
+  const flatten = 0.3;
+  const position = geometry.getAttribute("position");
+  const normal = geometry.getAttribute("normal");
+  const direction = new Vector3();
+  for (let i = 0; i < position.count; i += 1) {
+    const y = position.getY(i);
+    if (y <= chestY) continue;
+    position.setY(i, chestY + (y - chestY) * flatten);
+    direction.fromBufferAttribute(normal, i);
+    direction.y /= flatten;
+    direction.normalize();
+    normal.setXYZ(i, direction.x, direction.y, direction.z);
+  }
+  return createBodyPart(inflateGeometry(geometry, ease), layout, torsoInfluences, start, end, torsoMorphs);
+};
+
+/** Trapezius and deltoids: one capsule per side from the collarbone out to the arm joint. */
+export const createShoulderParts = (layout: RigLayout, ease = 0) =>
+  limbSides.map((side) => {
+    const start = new Vector3(side === "Left" ? 0.06 : -0.06, layout.joints.Spine2.y + 0.02, -0.02);
+    const end = layout.joints[`${side}Arm`];
+    return createBodyPart(
+      inflateGeometry(capsuleBetween(start, end, 0.11, 0.9), ease),
+      layout,
+      ["Spine2", `${side}Shoulder`, `${side}Arm`],
+      start,
+      end,
+      shoulderMorphs,
+    );
+  });
+
+/**
+ * Builds the unclothed body as one skinned geometry in avatar space, carrying
+ * the Weight, Muscle and Shoulders morph targets. Garments are layered on top.
+ */
+export const createBodyGeometry = (layout: RigLayout) => {
+  const parts = [createTorsoPart(layout), ...createShoulderParts(layout)];
+  limbSides.forEach((side) => {
+    Object.values(getLimbSegments(layout, side)).forEach((segment) => {
+      parts.push(createLimbPart(layout, segment));
+    });
+  });
+
+  const body = nameBodyMorphs(mergeGeometries(parts));
+  parts.forEach((geometry) => geometry.dispose());
+  body.name = "AvatarBody";
+  return body;
+};
+
+/** Runs from inside the shoulder line up into the skull, so both ends stay hidden. */
+export const createNeckGeometry = (layout: RigLayout, head: Pick<HeadConfig, "neckThickness">) => {
+  const { joints } = layout;
+  const start = joints.Spine2.clone().setY(joints.Spine2.y + 0.06);
+  const end = joints.Head.clone().setY(joints.Head.y + 0.04);
+  const geometry = applySkinWeights(
+    capsuleBetween(start, end, lerp(head.neckThickness, 0.085, 0.15), 0.92),
+    layout,
+    ["Spine2", "Neck", "Head"],
+  );
+  geometry.name = "AvatarNeck";
+  return geometry;
+};
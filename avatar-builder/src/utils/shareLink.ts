@@ -0,0 +1,143 @@
+import { deflateSync, inflateSync } from "three/examples/jsm/libs/fflate.module.js";
+import type { AvatarParameters } from "@/state/avatarStore";
+import { avatarParameterSchema, sanitizeParameters } from "./avatarDocument";
+
+/**
+ * Binary layout, version 1: [version, flags, ...body]. The body walks
+ * `avatarParameterSchema` in order; sliders are one byte (0–255), colours
+ * three bytes of RGB and enums one byte of option index. Flag bit 0 marks a
+ * deflated body, used only when it actually comes out smaller.
+ */
+const shareLinkVersion = 1;
+const compressedFlag = 1;
+
+const payloadParam = "avatar";
+const modeParam = "mode";
+
+export type ShareLinkMode = "edit" | "view";
+
+type FieldValue = string | number;
+
+const schemaFields = () =>
+  (Object.keys(avatarParameterSchema) as (keyof AvatarParameters)[]).flatMap((section) =>
+    Object.entries(avatarParameterSchema[section]).map(([key, schema]) => ({ section, key, schema })),
+  );
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+export const encodeShareLinkPayload = (parameters: AvatarParameters) => {
+  const body: number[] = [];
+  const sections = parameters as unknown as Record<string, Record<string, FieldValue>>;
+
+  schemaFields().forEach(({ section, key, schema }) => {
+    const value = sections[section][key];
+    switch (schema.kind) {
+      case "unit":
+        body.push(Math.round(Math.min(1, Math.max(0, Number(value))) * 255));
+        break;
+      case "color": {
+        const hex = String(value).replace("#", "");
+        body.push(
+          Number.parseInt(hex.slice(0, 2), 16),
+          Number.parseInt(hex.slice(2, 4), 16),
+          Number.parseInt(hex.slice(4, 6), 16),
+        );
+        break;
+      }
+      case "enum":
+        body.push(Math.max(0, schema.values.indexOf(String(value))));
+    }
+  });
+
+  const raw = Uint8Array.from(body);
+  const deflated = deflateSync(raw, { level: 9 });
+  const compressed = deflated.length < raw.length;
+  const payload = compressed ? deflated : raw;
+
+  const bytes = new Uint8Array(payload.length + 2);
+  bytes[0] = shareLinkVersion;
+  bytes[1] = compressed ? compressedFlag : 0;
+  bytes.set(payload, 2);
+  return toBase64Url(bytes);
+};
+
+/** Returns null for anything that is not a readable version-1 payload. */
+export const decodeShareLinkPayload = (payload: string): AvatarParameters | null => {
+  try {
+    const bytes = fromBase64Url(payload);
+    if (bytes.length < 2 || bytes[0] !== shareLinkVersion) return null;
+    const body = bytes[1] & compressedFlag ? inflateSync(bytes.subarray(2)) : bytes.subarray(2);
+
+    let offset = 0;
+    const read = () => {
+      if (offset >= body.length) throw new RangeError("Share link payload is truncated.");
+      return body[offset++];
+    };
+    const sections: Record<string, Record<string, FieldValue>> = {};
+
+    schemaFields().forEach(({ section, key, schema }) => {
+      sections[section] ??= {};
+      switch (schema.kind) {
+        case "unit":
+          sections[section][key] = Math.round((read() / 255) * 100) / 100;
+          break;
+        case "color":
+          sections[section][key] = `#${[read(), read(), read()]
+            .map((channel) => channel.toString(16).padStart(2, "0"))
+            .join("")}`;
+          break;
+        case "enum":
+          sections[section][key] = schema.values[read()] ?? "";
+      }
+    });
+
+    return sanitizeParameters(sections);
+  } catch (error) {
+    console.warn("Ignoring malformed share link", error);
+    return null;
+  }
+};
+
+export const createShareUrl = (
+  parameters: AvatarParameters,
+  mode: ShareLinkMode,
+  base = window.location.href,
+) => {
+  const url = new URL(base);
+  const params = new URLSearchParams({ [payloadParam]: encodeShareLinkPayload(parameters) });
+  if (mode === "view") params.set(modeParam, "view");
+  url.hash = params.toString();
+  return url.toString();
+};
+
+/** Reads a share link from a location hash such as `#avatar=…&mode=view`. */
+export const readShareLink = (hash: string) => {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const payload = params.get(payloadParam);
+  return {
+    parameters: payload ? decodeShareLinkPayload(payload) : null,
+    mode: (params.get(modeParam) === "view" ? "view" : "edit") as ShareLinkMode,
+  };
+};
+
+export const isViewerHash = (hash: string) =>
+  new URLSearchParams(hash.replace(/^#/, "")).get(modeParam) === "view";
+
+/** The same hash with viewer mode dropped, so the link opens in the editor. */
+export const toEditorHash = (hash: string) => {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  params.delete(modeParam);
+  return params.toString();
+};
@@ -0,0 +1,251 @@
+import { Vector3 } from "three";
+import type { AvatarParameters } from "@/state/avatarStore";
+import { hexToRgb, isSkinColor, toLinear, toSrgb } from "./colorSampling";
+import type { FaceLandmarks } from "./expressions";
+import type { FaceLandmarkName, LandmarkFit, StageContext } from "./generationPipeline";
+import { getHeadSurface, headUvToDirection } from "./headGeometry";
+
+/** One reference photo to project: its pixels and the landmark fit found on them. */
+export interface ProjectionView {
+  pixels: ImageData;
+  fit: LandmarkFit;
+}
+
+/** Rows of an affine camera: image x and y as dot products with [x, y, z, 1] in head space. */
+type AffineCamera = [number[], number[]];
+
+// Where each photo landmark sits on the head as [azimuth, elevation], following the
+// head's own feature placement. The subject's right is the avatar's -x.
+const landmarkAngles = ({
+  eyeAzimuth,
+  eyeElevation,
+  noseBottom,
+  noseHalfWidth,
+  mouthElevation,
+}: FaceLandmarks): Record<FaceLandmarkName, [number, number]> => ({
+  forehead: [0, 0.78],
+  browCenter: [0, eyeElevation + 0.14],
+  rightEye: [-eyeAzimuth, eyeElevation],
+  leftEye: [eyeAzimuth, eyeElevation],
+  rightCheek: [-1.25, eyeElevation - 0.1],
+  leftCheek: [1.25, eyeElevation - 0.1],
+  noseTip: [0, noseBottom + 0.04],
+  noseRight: [-noseHalfWidth * 1.1, noseBottom + 0.02],
+  noseLeft: [noseHalfWidth * 1.1, noseBottom + 0.02],
+  upperLip: [0, mouthElevation + 0.05],
+  lowerLip: [0, mouthElevation - 0.08],
+  mouthRight: [-0.24, mouthElevation],
+  mouthLeft: [0.24, mouthElevation],
+  jawRight: [-1, -0.45],
+  jawLeft: [1, -0.45],
+  chin: [0, -0.65],
+});
+
+/** Solves a small linear system in place by Gaussian elimination; null when singular. */
+const solveLinear = (matrix: number[][], vector: number[]) => {
+  const size = vector.length;
+  for (let column = 0; column < size; column += 1) {
+    let pivot = column;
+    for (let row = column + 1; row < size; row += 1) {
+      if (Math.abs(matrix[row][column]) > Math.abs(matrix[pivot][column])) pivot = row;
+    }
+    if (Math.abs(matrix[pivot][column]) < 1e-12) return null;
+    [matrix[column], matrix[pivot]] = [matrix[pivot], matrix[column]];
+    [vector[column], vector[pivot]] = [vector[pivot], vector[column]];
+    for (let row = column + 1; row < size; row += 1) {
+      const factor = matrix[row][column] / matrix[column][column];
+      for (let k = column; k < size; k += 1) matrix[row][k] -= factor * matrix[column][k];
+      vector[row] -= factor * vector[column];
+    }
+  }
+  const solution = new Array<number>(size).fill(0);
+  for (let row = size - 1; row >= 0; row -= 1) {
+    let sum = vector[row];
+    for (let k = row + 1; k < size; k += 1) sum -= matrix[row][k] * solution[k];
+    solution[row] = sum / matrix[row][row];
+  }
+  return solution;
+};
+
+/**
+ * Least-squares affine camera taking head-space points to their photo
+ * positions. Photos of a head are far enough away for this to stand in for a
+ * full perspective camera, and it needs no focal length.
+ */
+const fitAffineCamera = (points: Vector3[], targets: { x: number; y: number }[]) => {
+  const rows = points.map(({ x, y, z }) => [x, y, z, 1]);
+  const normal = [0, 1, 2, 3].map((i) =>
+    [0, 1, 2, 3].map((j) => rows.reduce((sum, row) => sum + row[i] * row[j], 0)),
+  );
+  const solveFor = (axis: "x" | "y") =>
+    solveLinear(
+      normal.map((row) => [...row]),
+      [0, 1, 2, 3].map((i) => rows.reduce((sum, row, n) => sum + row[i] * targets[n][axis], 0)),
+    );
+  const cameraX = solveFor("x");
+  const cameraY = solveFor("y");
+  return cameraX && cameraY ? ([cameraX, cameraY] as AffineCamera) : null;
+};
+
+const project = ([cameraX, cameraY]: AffineCamera, { x, y, z }: Vector3) => ({
+  x: cameraX[0] * x + cameraX[1] * y + cameraX[2] * z + cameraX[3],
+  y: cameraY[0] * x + cameraY[1] * y + cameraY[2] * z + cameraY[3],
+});
+
+const srgbToLinear = Array.from({ length: 256 }, (_, value) => toLinear(value));
+
+/** Bilinear sample in linear RGB. */
+const sampleLinear = ({ data, width, height }: ImageData, x: number, y: number, out: number[]) => {
+  const x0 = Math.min(Math.max(Math.floor(x), 0), width - 2);
+  const y0 = Math.min(Math.max(Math.floor(y), 0), height - 2);
+  const fx = Math.min(Math.max(x - x0, 0), 1);
+  const fy = Math.min(Math.max(y - y0, 0), 1);
+  for (let channel = 0; channel < 3; channel += 1) {
+    const at = (px: number, py: number) => srgbToLinear[data[(py * width + px) * 4 + channel]];
+    const top = at(x0, y0) * (1 - fx) + at(x0 + 1, y0) * fx;
+    const bottom = at(x0, y0 + 1) * (1 - fx) + at(x0 + 1, y0 + 1) * fx;
+    out[channel] = top * (1 - fy) + bottom * fy;
+  }
+  return out;
+};
+
+const smoothstep = (edge0: number, edge1: number, value: number) => {
+  const t = Math.min(Math.max((value - edge0) / (edge1 - edge0), 0), 1);
+  return t * t * (3 - 2 * t);
+};
+
+/**
+ * Per-channel gains that bring a photo's skin to `skin.tone`, so the
+ * projected face meets the untextured neck and body without a seam in colour.
+ */
+const skinGains = ({ pixels, fit }: ProjectionView, tone: number[]) => {
+  const sums = [0, 0, 0];
+  let count = 0;
+  const { data, width } = pixels;
+  const { box } = fit;
+  for (let y = Math.round(box.y); y < box.y + box.height; y += 2) {
+    for (let x = Math.round(box.x); x < box.x + box.width; x += 2) {
+      const offset = (y * width + x) * 4;
+      if (offset < 0 || offset >= data.length) continue;
+      if (!isSkinColor(data[offset], data[offset + 1], data[offset + 2])) continue;
+      for (let channel = 0; channel < 3; channel += 1) {
+        sums[channel] += srgbToLinear[data[offset + channel]];
+      }
+      count += 1;
+    }
+  }
+  return sums.map((sum, channel) =>
+    count && sum > 0 ? Math.min(Math.max((tone[channel] * count) / sum, 0.5), 2) : 1,
+  );
+};
+
+interface PreparedView {
+  view: ProjectionView;
+  camera: AffineCamera;
+  /** Unit vector from the head towards the camera. */
+  toCamera: Vector3;
+  gains: number[];
+  trust: number;
+}
+
+const prepareView = (
+  view: ProjectionView,
+  anchors: Vector3[],
+  names: FaceLandmarkName[],
+  tone: number[],
+): PreparedView | null => {
+  const targets = names.map((name) => view.fit.points[name]);
+  const camera = fitAffineCamera(anchors, targets);
+  if (!camera) return null;
+  // Image y points down, so the camera looks back along the negated cross product of its rows.
+  const toCamera = new Vector3(...camera[0].slice(0, 3))
+    .cross(new Vector3(...camera[1].slice(0, 3)))
+    .negate()
+    .normalize();
+  // Landmarks that land far from where the camera puts them mean a poor alignment.
+  const size = Math.max(view.fit.box.width, view.fit.box.height, 1);
+  const error =
+    anchors.reduce((sum, anchor, index) => {
+      const projected = project(camera, anchor);
+      return sum + Math.hypot(projected.x - targets[index].x, projected.y - targets[index].y);
+    }, 0) /
+    (anchors.length * size);
+  const trust = view.fit.confidence * (1 - smoothstep(0.03, 0.12, error));
+  return trust > 0 ? { view, camera, toCamera, gains: skinGains(view, tone), trust } : null;
+};
+
+/**
+ * Projects reference photos onto the head's UV layout as an albedo map. Each
+ * photo is lined up with the head through its landmarks, then every texel
+ * blends the photos that face it, weighted by how square-on they see it and
+ * how well they lined up. Only the face region of a photo is used; the back
+ * of the head, anything no photo sees and the seams fade into `skin.tone`.
+ */
+export const projectHeadTexture = async (
+  views: ProjectionView[],
+  parameters: AvatarParameters,
+  { signal, reportProgress }: StageContext,
+  { width = 1024, height = 512 } = {},
+) => {
+  const surface = getHeadSurface(parameters.facial, parameters.head);
+  const angles = landmarkAngles(surface.landmarks);
+  const names = Object.keys(angles) as FaceLandmarkName[];
+  const anchors = names.map((name) => {
+    const [azimuth, elevation] = angles[name];
+    const direction = new Vector3(
+      Math.sin(azimuth) * Math.cos(elevation),
+      Math.sin(elevation),
+      Math.cos(azimuth) * Math.cos(elevation),
+    );
+    return surface.pointAt(direction, new Vector3());
+  });
+  const tone = hexToRgb(parameters.skin.tone);
+  const prepared = views
+    .map((view) => prepareView(view, anchors, names, tone))
+    .filter((view): view is PreparedView => view !== null);
+
+  const output = new Uint8ClampedArray(width * height * 4);
+  const direction = new Vector3();
+  const point = new Vector3();
+  const sample = [0, 0, 0];
+  const fillWeight = 0.02;
+  for (let row = 0; row < height; row += 1) {
+    const v = 1 - (row + 0.5) / height;
+    for (let column = 0; column < width; column += 1) {
+      headUvToDirection((column + 0.5) / width, v, direction);
+      const color = tone.map((value) => value * fillWeight);
+      let weight = fillWeight;
+      let surfacePoint: Vector3 | null = null;
+      for (const { view, camera, toCamera, gains, trust } of prepared) {
+        const facing = direction.dot(toCamera);
+        if (facing <= 0.2) continue;
+        surfacePoint ??= surface.pointAt(direction, point);
+        const { x, y } = project(camera, surfacePoint);
+        const { box } = view.fit;
+        const reach = Math.hypot(
+          (x - box.x - box.width / 2) / (box.width * 0.55),
+          (y - box.y - box.height / 2) / (box.height * 0.58),
+        );
+        const texelWeight = trust * facing ** 3 * (1 - smoothstep(0.8, 1, reach));
+        if (texelWeight <= 0) continue;
+        sampleLinear(view.pixels, x, y, sample);
+        for (let channel = 0; channel < 3; channel += 1) {
+          color[channel] += sample[channel] * gains[channel] * texelWeight;
+        }
+        weight += texelWeight;
+      }
+      const offset = (row * width + column) * 4;
+      for (let channel = 0; channel < 3; channel += 1) {
+        output[offset + channel] = toSrgb(color[channel] / weight);
+      }
+      output[offset + 3] = 255;
+    }
+    // Hand the thread back now and then so a cancel request can get through.
+    if (row % 32 === 31) {
+      reportProgress((row + 1) / height);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      signal.throwIfAborted();
+    }
+  }
+  return { width, height, data: output, views: prepared.length };
+};
@@ -0,0 +1,33 @@
+import type { Texture } from "three";
+
+export const isTexture = (value: unknown): value is Texture =>
+  typeof value === "object" && value !== null && (value as Texture).isTexture === true;
+
+export const sanitizeName = (value: string) => value.replace(/[^a-z0-9_-]+/gi, "_") || "Material";
+
+export const encodeTextureImage = async (texture: Texture): Promise<Uint8Array | null> => {
+  const image = texture.image as
+    | (CanvasImageSource & { width: number; height: number; data?: ArrayLike<number> })
+    | undefined;
+  if (!image?.width || !image?.height || typeof document === "undefined") return null;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const context = canvas.getContext("2d");
+  if (!context) return null;
+
+  if (image.data) {
+    if (image.data.length !== image.width * image.height * 4) return null;
+    context.putImageData(
+      new ImageData(Uint8ClampedArray.from(image.data), image.width, image.height),
+      0,
+      0,
+    );
+  } else {
+    context.drawImage(image, 0, 0);
+  }
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+  return blob ? new Uint8Array(await blob.arrayBuffer()) : null;
+};
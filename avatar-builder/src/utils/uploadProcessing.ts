@@ -0,0 +1,202 @@
+import type { CaptureMetadata } from "@/state/avatarStore";
+
+/** Caps on reference photos; files past them are reported rather than dropped silently. */
+export const uploadLimits = {
+  maxFiles: 5,
+  maxFileBytes: 25 * 1024 * 1024,
+};
+
+/** Longest side, in pixels, a photo is stored at. */
+export const uploadMaxSides = [1024, 2048, 4096] as const;
+
+export type UploadMaxSide = (typeof uploadMaxSides)[number];
+
+export const defaultUploadMaxSide: UploadMaxSide = 2048;
+
+export type SniffedImageType =
+  | "image/jpeg"
+  | "image/png"
+  | "image/webp"
+  | "image/gif"
+  | "image/bmp"
+  | "image/avif";
+
+/** A file that could not be taken in, with a message meant for the user. */
+export class UploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+const matches = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((value, index) => bytes[offset + index] === value);
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+
+/** The ISO-BMFF brand of a file (HEIC, AVIF, MP4…), or null when it is not one. */
+const readBrand = (bytes: Uint8Array) =>
+  matches(bytes, ascii("ftyp"), 4) ? String.fromCharCode(...bytes.slice(8, 12)) : null;
+
+/** Identifies an image by its leading bytes rather than trusting its name or MIME type. */
+export const sniffImageType = (bytes: Uint8Array): SniffedImageType | null => {
+  if (matches(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (matches(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (matches(bytes, ascii("RIFF")) && matches(bytes, ascii("WEBP"), 8)) return "image/webp";
+  if (matches(bytes, ascii("GIF87a")) || matches(bytes, ascii("GIF89a"))) return "image/gif";
+  if (matches(bytes, ascii("BM"))) return "image/bmp";
+  const brand = readBrand(bytes);
+  if (brand === "avif" || brand === "avis") return "image/avif";
+  return null;
+};
+
+const exifTags = {
+  make: 0x010f,
+  model: 0x0110,
+  exifIfd: 0x8769,
+  exposureTime: 0x829a,
+  iso: 0x8827,
+  takenAt: 0x9003,
+  focalLength: 0x920a,
+};
+
+/** Reads one IFD into tag → value; only ASCII, SHORT, LONG and RATIONAL entries are kept. */
+const readIfd = (view: DataView, tiff: number, offset: number, little: boolean) => {
+  const values = new Map<number, string | number>();
+  if (offset + 2 > view.byteLength) return values;
+  const entries = view.getUint16(offset, little);
+  for (let entry = 0; entry < entries; entry += 1) {
+    const at = offset + 2 + entry * 12;
+    if (at + 12 > view.byteLength) break;
+    const tag = view.getUint16(at, little);
+    const type = view.getUint16(at + 2, little);
+    const count = view.getUint32(at + 4, little);
+    const pointer = tiff + view.getUint32(at + 8, little);
+    if (type === 3) values.set(tag, view.getUint16(at + 8, little));
+    else if (type === 4) values.set(tag, view.getUint32(at + 8, little));
+    else if (type === 5 && pointer + 8 <= view.byteLength) {
+      const denominator = view.getUint32(pointer + 4, little);
+      if (denominator) values.set(tag, view.getUint32(pointer, little) / denominator);
+    } else if (type === 2) {
+      const start = count > 4 ? pointer : at + 8;
+      if (start + count > view.byteLength) continue;
+      const text = String.fromCharCode(
+        ...new Uint8Array(view.buffer, view.byteOffset + start, count),
+      );
+      values.set(tag, text.replace(/\0+$/, "").trim());
+    }
+  }
+  return values;
+};
+
+/** The JPEG's EXIF block as a DataView with its TIFF header offset, or null without one. */
+const findExif = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+  while (offset + 4 <= view.byteLength && view.getUint8(offset) === 0xff) {
+    const marker = view.getUint8(offset + 1);
+    // Start of scan: the metadata segments are all behind us.
+    if (marker === 0xda) return null;
+    if (marker === 0xe1 && matches(bytes, [...ascii("Exif"), 0, 0], offset + 4)) {
+      const tiff = offset + 10;
+      return tiff + 8 <= view.byteLength ? { view, tiff } : null;
+    }
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return null;
+};
+
+/** Reads the capture details worth keeping from a JPEG's EXIF. GPS tags are never read. */
+export const readExif = (bytes: Uint8Array): CaptureMetadata => {
+  const exif = findExif(bytes);
+  if (!exif) return {};
+  const { view, tiff } = exif;
+  const little = view.getUint16(tiff) === 0x4949;
+  const main = readIfd(view, tiff, tiff + view.getUint32(tiff + 4, little), little);
+  const pointer = main.get(exifTags.exifIfd);
+  const details =
+    typeof pointer === "number" ? readIfd(view, tiff, tiff + pointer, little) : new Map();
+
+  const text = (value: unknown) => (typeof value === "string" && value ? value : undefined);
+  const number = (value: unknown) =>
+    typeof value === "number" && Number.isFinite(value) && value > 0 ? value : undefined;
+  const make = text(main.get(exifTags.make));
+  const model = text(main.get(exifTags.model));
+  // EXIF dates are local time written "YYYY:MM:DD HH:MM:SS".
+  const taken = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}:\d{2}:\d{2})/.exec(
+    text(details.get(exifTags.takenAt)) ?? "",
+  );
+  const capture: CaptureMetadata = {
+    takenAt: taken ? `${taken[1]}-${taken[2]}-${taken[3]}T${taken[4]}` : undefined,
+    camera: model && make && !model.startsWith(make) ? `${make} ${model}` : (model ?? make),
+    focalLength: number(details.get(exifTags.focalLength)),
+    exposureTime: number(details.get(exifTags.exposureTime)),
+    iso: number(details.get(exifTags.iso)),
+  };
+  return Object.fromEntries(
+    Object.entries(capture).filter(([, value]) => value !== undefined),
+  ) as CaptureMetadata;
+};
+
+export interface ProcessedUpload {
+  blob: Blob;
+  width: number;
+  height: number;
+  /** What the file turned out to be, whatever its name said. */
+  sourceType: SniffedImageType;
+  capture: CaptureMetadata;
+}
+
+/**
+ * Checks, orients and downsizes one photo. The result is re-encoded from
+ * pixels as a JPEG, so none of the original metadata survives, GPS
+ * coordinates included; the capture details come back separately.
+ */
+export const processUpload = async (file: Blob, maxSide: number): Promise<ProcessedUpload> => {
+  if (file.size > uploadLimits.maxFileBytes) {
+    const limit = Math.round(uploadLimits.maxFileBytes / (1024 * 1024));
+    throw new UploadError(`It is larger than the ${limit} MB limit.`);
+  }
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const sourceType = sniffImageType(bytes);
+  if (!sourceType) {
+    const brand = readBrand(bytes);
+    throw new UploadError(
+      brand?.startsWith("hei") || brand === "mif1"
+        ? "HEIC photos are not supported; export it as JPEG first."
+        : "It is not a JPEG, PNG, WebP, GIF, BMP or AVIF image.",
+    );
+  }
+  const capture = sourceType === "image/jpeg" ? readExif(bytes) : {};
+
+  let bitmap: ImageBitmap;
+  try {
+    // Browsers apply the EXIF orientation while decoding, so the bitmap comes back upright.
+    bitmap = await createImageBitmap(new Blob([bytes], { type: sourceType }));
+  } catch {
+    throw new UploadError("The image data is damaged and could not be decoded.");
+  }
+
+  const scale = Math.min(1, maxSide / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("2D canvas drawing is not available.");
+  // JPEG has no alpha; transparent areas come out white rather than black.
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, width, height);
+  context.imageSmoothingQuality = "high";
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const blob = await canvas.convertToBlob({ type: "image/jpeg", quality: 0.9 });
+  return { blob, width, height, sourceType, capture };
+};
+
+export type UploadWorkerRequest = { id: number; file: Blob; maxSide: number };
+
+export type UploadWorkerResponse =
+  | { id: number; type: "result"; upload: ProcessedUpload }
+  | { id: number; type: "error"; message: string; rejected: boolean };
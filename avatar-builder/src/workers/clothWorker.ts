@@ -0,0 +1,32 @@
+import {
+  createClothDriver,
+  type ClothWorkerRequest,
+  type ClothWorkerResponse,
+} from "@/utils/clothSimulation";
+
+let driver: ReturnType<typeof createClothDriver> | null = null;
+let activeId = 0;
+
+// Frames are handed over rather than copied.
+const post = (message: ClothWorkerResponse) =>
+  postMessage(message, {
+    transfer: [message.positions.buffer, message.normals.buffer] as ArrayBuffer[],
+  });
+
+addEventListener("message", (event: MessageEvent<ClothWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === "start") {
+    activeId = request.id;
+    driver = createClothDriver(request.mesh, request.settings, request.colliders);
+    const { positions, normals } = driver.rest;
+    post({ type: "rest", id: activeId, positions: positions.slice(), normals: normals.slice() });
+    return;
+  }
+  // Messages for a cloth that has since been replaced are dropped.
+  if (!driver || request.id !== activeId) return;
+  if (request.type === "configure") {
+    driver.configure(request.settings, request.colliders);
+    return;
+  }
+  post({ type: "frame", id: activeId, ...driver.advance(request.elapsed) });
+});
@@ -0,0 +1,32 @@
+import type { GenerationWorkerRequest, GenerationWorkerResponse } from "@/utils/generationPipeline";
+import { runLocalStage } from "@/utils/localGeneration";
+
+const running = new Map<number, AbortController>();
+
+const post = (message: GenerationWorkerResponse) => postMessage(message);
+
+addEventListener("message", async (event: MessageEvent<GenerationWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === "cancel") {
+    running.get(request.id)?.abort();
+    return;
+  }
+
+  const { id, stage, input } = request;
+  const controller = new AbortController();
+  running.set(id, controller);
+  try {
+    const output = await runLocalStage(stage, input, {
+      signal: controller.signal,
+      reportProgress: (value) => post({ id, type: "progress", value }),
+    });
+    post({ id, type: "result", output });
+  } catch (error) {
+    // A cancelled stage has already been rejected on the page.
+    if (!controller.signal.aborted) {
+      post({ id, type: "error", message: error instanceof Error ? error.message : String(error) });
+    }
+  } finally {
+    running.delete(id);
+  }
+});
@@ -0,0 +1,22 @@
+import {
+  processUpload,
+  UploadError,
+  type UploadWorkerRequest,
+  type UploadWorkerResponse,
+} from "@/utils/uploadProcessing";
+
+const post = (message: UploadWorkerResponse) => postMessage(message);
+
+addEventListener("message", async (event: MessageEvent<UploadWorkerRequest>) => {
+  const { id, file, maxSide } = event.data;
+  try {
+    post({ id, type: "result", upload: await processUpload(file, maxSide) });
+  } catch (error) {
+    post({
+      id,
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+      rejected: error instanceof UploadError,
+    });
+  }
+});